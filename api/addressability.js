@@ -0,0 +1,70 @@
+// Addressability Pricing
+// Prices the local mock auctions on the identifiers each bidder can actually see,
+// so EID sources and per-bidder EID permissions visibly move bids
+
+// CPM uplift a bidder applies for each identifier it can match on
+export const EID_UPLIFT = {
+  'uidapi.com': 0.35,
+  'liveramp.com': 0.30,
+  'id5-sync.com': 0.15,
+  'ctvsimulator.com': 0.10
+};
+const IFA_UPLIFT = 0.20;
+
+// The EIDs Prebid Server would forward to a bidder under ext.prebid.data.eidpermissions
+export function eidsForBidder(bidRequest, bidder) {
+  const eids = bidRequest.user?.eids || bidRequest.user?.ext?.eids || [];
+  const permissions = bidRequest.ext?.prebid?.data?.eidpermissions || [];
+
+  return eids.filter(eid => {
+    const permission = permissions.find(entry => entry.source === eid.source);
+    return !permission || permission.bidders.includes(bidder) || permission.bidders.includes('*');
+  });
+}
+
+// Bid multiplier for a device IFA plus the EIDs a bidder received
+export function addressabilityFor(eids, device) {
+  const sources = eids.map(eid => eid.source).filter(source => EID_UPLIFT[source] !== undefined);
+  const hasIfa = Boolean(device?.ifa);
+  const multiplier = 1 + (hasIfa ? IFA_UPLIFT : 0) + sources.reduce((sum, source) => sum + EID_UPLIFT[source], 0);
+
+  return {
+    ifa: hasIfa,
+    ifaType: device?.ext?.ifa_type,
+    eids: sources,
+    multiplier: Math.round(multiplier * 100) / 100
+  };
+}
+
+// One seat per Prebid bidder on the first impression, or a single seat for a plain
+// OpenRTB request, each priced from the template bid and sorted highest first
+export function buildAddressableSeatbids(bidRequest, templateBid, defaultSeat) {
+  const imp = bidRequest.imp?.[0];
+  const bidders = Object.keys(imp?.ext?.prebid?.bidder || {});
+  const seats = bidders.length > 0 ? bidders : [defaultSeat];
+
+  return seats
+    .map(seat => {
+      const addressability = addressabilityFor(
+        bidders.length > 0 ? eidsForBidder(bidRequest, seat) : (bidRequest.user?.eids || []),
+        bidRequest.device
+      );
+      return {
+        seat,
+        bid: [{
+          ...templateBid,
+          id: `${templateBid.id}-${seat}`,
+          impid: imp?.id || templateBid.impid,
+          price: Math.round(basePrice(seat, templateBid.price) * addressability.multiplier * 100) / 100,
+          ext: { ...templateBid.ext, addressability }
+        }]
+      };
+    })
+    .sort((a, b) => b.bid[0].price - a.bid[0].price);
+}
+
+// A stable per-seat base price within ±20% of the template, so seats don't tie
+function basePrice(seat, price) {
+  const spread = [...seat].reduce((sum, char) => sum + char.charCodeAt(0), 0) % 41;
+  return price * (0.8 + spread / 100);
+}
@@ -4,8 +4,14 @@ import { google } from 'googleapis';
 import { JSDOM } from 'jsdom';
 import { createHash, randomBytes } from 'crypto';
 import { RealProgrammaticService } from './real-programmatic.js';
+import { addressabilityFor } from './addressability.js';
+import { activeDeals, buildPmp, DEAL_TIERS, normalizeDeal, runDealAuction } from './deal-engine.js';
+import { DEFAULT_FLOOR_RULES, resolveFloor } from '../config/floor-rules.js';
+import { currentDate, now, random, randomId, randomInt, sleep, wallClock } from '../config/simulation.js';
+import { simulationMiddleware } from './simulation-context.js';
 
 const router = express.Router();
+router.use(simulationMiddleware);
 
 // Use jsdom for server-side XML parsing
 const { window } = new JSDOM();
@@ -463,7 +469,7 @@ const CTV_DEVICE_PROFILES = {
     audioFormats: ['Dolby Atmos', 'DTS'],
     resolutions: ['1920x1080', '3840x2160'],
     connectionTypes: ['wifi', 'ethernet'],
-    advertisingId: () => generateRokuDeviceId()
+    advertisingId: (ids) => ids.generateRokuDeviceId()
   },
   samsung: {
     deviceModels: [
@@ -477,7 +483,7 @@ const CTV_DEVICE_PROFILES = {
     audioFormats: ['Dolby Atmos', 'DTS:X'],
     resolutions: ['1920x1080', '3840x2160', '7680x4320'],
     connectionTypes: ['wifi', 'ethernet'],
-    advertisingId: () => generateTIFA()
+    advertisingId: (ids) => ids.generateTIFA()
   },
   lg: {
     deviceModels: [
@@ -491,7 +497,7 @@ const CTV_DEVICE_PROFILES = {
     audioFormats: ['Dolby Atmos', 'DTS:X'],
     resolutions: ['1920x1080', '3840x2160'],
     connectionTypes: ['wifi', 'ethernet'],
-    advertisingId: () => generateLGUDID()
+    advertisingId: (ids) => ids.generateLGUDID()
   },
   firetv: {
     deviceModels: [
@@ -505,7 +511,7 @@ const CTV_DEVICE_PROFILES = {
     audioFormats: ['Dolby Atmos'],
     resolutions: ['1920x1080', '3840x2160'],
     connectionTypes: ['wifi', 'ethernet'],
-    advertisingId: () => generateAmazonAID()
+    advertisingId: (ids) => ids.generateAmazonAID()
   },
   androidtv: {
     deviceModels: [
@@ -519,7 +525,7 @@ const CTV_DEVICE_PROFILES = {
     audioFormats: ['Dolby Atmos', 'DTS:X'],
     resolutions: ['1920x1080', '3840x2160'],
     connectionTypes: ['wifi', 'ethernet'],
-    advertisingId: () => generateGAID()
+    advertisingId: (ids) => ids.generateGAID()
   },
   appletv: {
     deviceModels: [
@@ -532,7 +538,7 @@ const CTV_DEVICE_PROFILES = {
     audioFormats: ['Dolby Atmos', 'Spatial Audio'],
     resolutions: ['1920x1080', '3840x2160'],
     connectionTypes: ['wifi', 'ethernet'],
-    advertisingId: () => generateIDFA()
+    advertisingId: (ids) => ids.generateIDFA()
   }
 };
 
@@ -682,6 +688,32 @@ const CTV_PROVIDERS = {
   }
 };
 
+// Deals sent with one request, offered in that request's auction only
+function requestDeals(adxConfig) {
+  return (adxConfig.deals || []).map(({ dealId, ...terms }) => normalizeDeal(dealId, terms));
+}
+
+// A simulated buyer bids on the highest priority offered deal its campaign seat and advertiser
+// domain are allowed on: a fixed-price deal at the deal price, a private auction when its bid
+// clears the deal floor. Without one it stays in the open market.
+function withDealBid(bid, pmp) {
+  const seat = bid.campaignId;
+  const deal = (pmp?.deals || [])
+    .filter(offered =>
+      (!offered.wseat || offered.wseat.includes(seat)) &&
+      (!offered.wadomain || offered.wadomain.includes(bid.advertiserDomain)) &&
+      (offered.at === 3 || bid.price >= offered.bidfloor)
+    )
+    .sort((a, b) => DEAL_TIERS[a.ext.tier].priority - DEAL_TIERS[b.ext.tier].priority)[0];
+
+  return {
+    ...bid,
+    seat,
+    adomain: [bid.advertiserDomain],
+    ...(deal ? { dealid: deal.id, price: deal.at === 3 ? deal.bidfloor : bid.price } : {})
+  };
+}
+
 // PAL SDK Integration
 class PALService {
   constructor() {
@@ -729,7 +761,7 @@ class PALService {
         settings: {
           numRedirectsRemaining: data.num_redirects_remaining || 5,
           enabledEventTypes: data.enabled_event_types || ['start', 'complete', 'error'],
-          nonceExpiry: data.nonce_expiry || Date.now() + 3600000 // 1 hour
+          nonceExpiry: data.nonce_expiry || now() + 3600000 // 1 hour
         }
       };
     } catch (error) {
@@ -739,7 +771,7 @@ class PALService {
   }
 
   generateSessionId() {
-    return 'pal_' + Math.random().toString(36).substr(2, 9) + '_' + Date.now();
+    return 'pal_' + randomId(9) + '_' + now();
   }
 
   async verifyAdSession(adSessionId, nonce) {
@@ -794,12 +826,13 @@ class AdXService {
       }
       
       // Existing mock/simulation logic
-      await new Promise(resolve => setTimeout(resolve, Math.random() * 300 + 100));
+      await sleep(random() * 300 + 100);
 
       const currentContent = this.selectContentContext(adRequest);
       console.log(`📺 Content Context: ${currentContent.title} (${currentContent.category})`);
 
-      const deviceFingerprint = this.generateDeviceFingerprint(ctvProvider);
+      // Reuse the client's IFA so the device is the one its EIDs describe
+      const deviceFingerprint = this.generateDeviceFingerprint(ctvProvider, adRequest.device?.ifa);
       console.log(`🔍 Device Fingerprint: ${deviceFingerprint.model} | ${deviceFingerprint.resolution}`);
 
       const palService = new PALService();
@@ -879,12 +912,17 @@ class AdXService {
           }
         }
         
-        // Set floor prices if configured
-        if (adxConfig.floorPrice) {
+        if (adxConfig.floorRules) {
+          this.realProgrammaticService.setFloorRules(adxConfig.floorRules);
+        }
+
+        // Set floor prices if configured; the auction's hard floor wins over the legacy setting
+        const floorPrice = adxConfig.auction?.floor ?? adxConfig.floorPrice;
+        if (floorPrice) {
           this.realProgrammaticService.setFloorPrice(
             adRequest.adUnitCode, 
             'USD', 
-            adxConfig.floorPrice
+            floorPrice
           );
         }
         
@@ -894,10 +932,14 @@ class AdXService {
             ...adRequest,
             publisherId: adxConfig.publisherId,
             pageUrl: adxConfig.contentPageUrl || 'https://example.com',
-            publisherName: adxConfig.publisherName || 'CTV Publisher'
+            publisherName: adxConfig.publisherName || 'CTV Publisher',
+            position: adxConfig.videoPosition
           },
           ctvProvider,
-          contentContext
+          contentContext,
+          adxConfig.auction,
+          adxConfig.privateAuction,
+          requestDeals(adxConfig)
         );
       }
       
@@ -979,6 +1021,7 @@ class AdXService {
             auctionData: {
               totalBidders: auctionResult.totalBidders,
               runnerUpPrice: auctionResult.runnerUpPrice,
+              clearing: auctionResult.explanation,
               auctionTime: auctionResult.timestamp
             }
           }
@@ -1026,6 +1069,9 @@ class AdXService {
           totalBidders: auctionResult.totalBidders,
           clearingPrice: auctionResult.clearingPrice,
           runnerUpPrice: auctionResult.runnerUpPrice,
+          clearing: auctionResult.explanation,
+          deals: auctionResult.deals,
+          floors: auctionResult.floors,
           exchange: winner.exchangeName || winner.source,
           realTime: true,
           isDemoMode: isDemoMode
@@ -1072,10 +1118,10 @@ class AdXService {
     console.log(`💰 Set floor price: ${adUnitPath} = $${price} CPM`);
   }
 
-  // Add PMP deals
-  addRealPMPDeal(dealId, advertiserId, price, exchanges) {
-    this.realProgrammaticService.addPMPDeal(dealId, advertiserId, price, exchanges);
-    console.log(`🤝 Added PMP deal: ${dealId} - $${price} CPM`);
+  // Add PG, PD or PMP deals
+  addRealPMPDeal(dealId, advertiserId, price, exchanges, terms = {}) {
+    this.realProgrammaticService.addPMPDeal(dealId, advertiserId, price, exchanges, terms);
+    console.log(`🤝 Added ${(terms.tier || 'pmp').toUpperCase()} deal: ${dealId} - $${price} CPM`);
   }
 
   selectContentContext(adRequest) {
@@ -1092,11 +1138,11 @@ class AdXService {
     );
     
     const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
-    let random = Math.random() * totalWeight;
+    let draw = random() * totalWeight;
     
     for (let i = 0; i < availableContent.length; i++) {
-      random -= weights[i];
-      if (random <= 0) {
+      draw -= weights[i];
+      if (draw <= 0) {
         return availableContent[i];
       }
     }
@@ -1104,21 +1150,21 @@ class AdXService {
     return availableContent[0] || CTV_CONTENT_LIBRARY[0];
   }
 
-  generateDeviceFingerprint(ctvProvider) {
+  generateDeviceFingerprint(ctvProvider, advertisingId) {
     const deviceProfile = CTV_DEVICE_PROFILES[ctvProvider.type];
     if (!deviceProfile) {
-      return this.generateGenericFingerprint(ctvProvider);
+      return this.generateGenericFingerprint(ctvProvider, advertisingId);
     }
 
     // Select device model based on market share
     const models = deviceProfile.deviceModels;
-    const random = Math.random() * 100;
+    const draw = random() * 100;
     let cumulative = 0;
     
     let selectedModel = models[0];
     for (const model of models) {
       cumulative += model.marketShare;
-      if (random <= cumulative) {
+      if (draw <= cumulative) {
         selectedModel = model;
         break;
       }
@@ -1126,10 +1172,10 @@ class AdXService {
 
     // Generate realistic device characteristics
     const resolutions = deviceProfile.resolutions;
-    const resolution = resolutions[Math.floor(Math.random() * resolutions.length)];
+    const resolution = resolutions[randomInt(resolutions.length)];
     
     const connectionTypes = deviceProfile.connectionTypes;
-    const connection = connectionTypes[Math.floor(Math.random() * connectionTypes.length)];
+    const connection = connectionTypes[randomInt(connectionTypes.length)];
 
     return {
       model: selectedModel.model,
@@ -1138,9 +1184,9 @@ class AdXService {
       connection,
       hdrSupported: deviceProfile.hdrFormats.length > 0,
       audioFormats: deviceProfile.audioFormats,
-      advertisingId: deviceProfile.advertisingId(),
+      advertisingId: advertisingId || deviceProfile.advertisingId(this),
       iptvSupport: deviceProfile.iptvSupport,
-      timestamp: Date.now(),
+      timestamp: now(),
       sessionId: this.generateSessionId()
     };
   }
@@ -1160,39 +1206,72 @@ class AdXService {
       eligibleAds.push(PROGRAMMATIC_AD_INVENTORY[0]); // Fallback
     }
 
+    // Buyers pay more when they can match the IFA and EIDs the client sent
+    const addressability = addressabilityFor(adRequest.user?.eids || [], adRequest.device);
+    console.log(`🪪 Addressability: ${addressability.eids.join(', ') || 'no EIDs'}${addressability.ifa ? ' + IFA' : ''} (x${addressability.multiplier})`);
+
     // Apply bid adjustments and run auction
     const bidsWithAdjustments = eligibleAds.map(ad => {
-      const adjustedCpm = this.calculateBidAdjustments(ad, ctvProvider, content, deviceFingerprint);
+      const adjustedCpm = Math.round(
+        this.calculateBidAdjustments(ad, ctvProvider, content, deviceFingerprint) * addressability.multiplier * 100
+      ) / 100;
       return {
         ...ad,
         originalCpm: ad.cpm,
         adjustedCpm,
-        bidScore: adjustedCpm * (1 + Math.random() * 0.2) // Add bid variance
+        price: adjustedCpm
       };
     });
 
-    // Sort by bid score (highest wins)
-    bidsWithAdjustments.sort((a, b) => b.bidScore - a.bidScore);
-    
-    const winningAd = bidsWithAdjustments[0];
-    const runnerUp = bidsWithAdjustments[1];
+    // Floor rules price the request, then each bid again once its advertiser domain is known
+    const floorRules = adxConfig.floorRules || DEFAULT_FLOOR_RULES;
+    const floorContext = {
+      adUnit: adxConfig.adUnitPath,
+      deviceType: 3,
+      provider: ctvProvider.type,
+      country: adRequest.device?.geo?.country || 'US',
+      genre: content.category,
+      position: adxConfig.videoPosition
+    };
+    const requestFloor = resolveFloor(floorContext, { rules: floorRules });
+    const bidFloor = bid => resolveFloor({ ...floorContext, domain: bid.advertiserDomain }, { rules: floorRules });
+    console.log(`🧮 Floor rule: ${requestFloor.rule || 'none'} ($${requestFloor.floor.toFixed(2)}, ${requestFloor.daypart})`);
+
+    // The same deals the real programmatic path offers, with each buyer bidding on the best one it is allowed on
+    const pmp = buildPmp(activeDeals(this.realProgrammaticService.auctionDeals(requestDeals(adxConfig))), {
+      privateAuction: adxConfig.privateAuction,
+      auctionRules: adxConfig.auction
+    });
+    const bids = bidsWithAdjustments.map(bid => withDealBid(bid, pmp));
 
-    // Calculate clearing price (second price auction)
-    const clearingPrice = runnerUp ? 
-      Math.min(winningAd.adjustedCpm, runnerUp.bidScore + 0.01) : 
-      winningAd.adjustedCpm * 0.95;
+    const auction = runDealAuction(bids, pmp, adxConfig.auction, {
+      label: bid => bid.brand,
+      floorOf: bid => bidFloor(bid).floor
+    });
+    console.log(`⚖️  ${auction.explanation.summary}`);
+    auction.deals.forEach(deal => console.log(`🤝 Deal ${deal.dealId} (${deal.tier}) ${deal.status}: ${deal.reason}`));
+    if (!auction.winner) {
+      throw new Error(auction.explanation.summary);
+    }
 
     return {
       winningAd: {
-        ...winningAd,
-        cpm: clearingPrice
+        ...auction.winner,
+        cpm: auction.clearingPrice
       },
       auctionData: {
         totalBidders: bidsWithAdjustments.length,
         averageBid: bidsWithAdjustments.reduce((sum, bid) => sum + bid.adjustedCpm, 0) / bidsWithAdjustments.length,
         winRate: (1 / bidsWithAdjustments.length) * 100,
         auctionId: this.generateRequestId(),
-        timestamp: Date.now()
+        timestamp: now(),
+        addressability,
+        clearing: auction.explanation,
+        deals: auction.deals,
+        floors: {
+          request: requestFloor,
+          winner: bidFloor(auction.winner)
+        }
       }
     };
   }
@@ -1218,10 +1297,10 @@ class AdXService {
     if (!ad.targeting.geoTargets.includes('US')) return false;
 
     // Flight date targeting
-    const now = new Date();
+    const today = currentDate();
     const flightStart = new Date(ad.flightDates.start);
     const flightEnd = new Date(ad.flightDates.end);
-    if (now < flightStart || now > flightEnd) return false;
+    if (today < flightStart || today > flightEnd) return false;
 
     return true;
   }
@@ -1253,7 +1332,7 @@ class AdXService {
     }
 
     // Time-based adjustments (prime time = higher CPMs)
-    const hour = new Date().getHours();
+    const hour = wallClock().getUTCHours();
     if (hour >= 19 && hour <= 22) { // Prime time
       adjustedCpm *= 1.30;
     } else if (hour >= 6 && hour <= 9) { // Morning
@@ -1286,7 +1365,7 @@ class AdXService {
       hdr: deviceFingerprint.hdrSupported,
       session_id: deviceFingerprint.sessionId,
       auction_id: ad.auctionId || 'unknown',
-      timestamp: Date.now()
+      timestamp: now()
     });
 
     return `<?xml version="1.0" encoding="UTF-8"?>
@@ -1346,7 +1425,7 @@ class AdXService {
                   "campaign": "${ad.campaignId}",
                   "creative_concept": "${ad.creative.creativeConcept}",
                   "content_context": "${content.id}",
-                  "targeting_score": ${Math.random() * 100},
+                  "targeting_score": ${random() * 100},
                   "viewability_threshold": 50,
                   "device_type": "${ctvProvider.type}",
                   "pal_verified": ${palData ? 'true' : 'false'}
@@ -1381,7 +1460,7 @@ class AdXService {
     
     return {
       id: auctionData.auctionId,
-      timestamp: new Date().toISOString(),
+      timestamp: currentDate().toISOString(),
       seatbid: [{
         bid: [{
           id: this.generateRequestId(),
@@ -1465,7 +1544,10 @@ class AdXService {
           auctionId: auctionData.auctionId,
           totalBidders: auctionData.totalBidders,
           winRate: auctionData.winRate,
-          averageBid: auctionData.averageBid
+          averageBid: auctionData.averageBid,
+          clearing: auctionData.clearing,
+          deals: auctionData.deals,
+          floors: auctionData.floors
         },
         source: 'Enhanced Programmatic CTV Ad Exchange',
         isRealAd: true,
@@ -1481,7 +1563,7 @@ class AdXService {
   }
 
   getTimeOfDayMultiplier() {
-    const hour = new Date().getHours();
+    const hour = wallClock().getUTCHours();
     if (hour >= 19 && hour <= 22) return 1.30; // Prime time
     if (hour >= 6 && hour <= 9) return 1.15;   // Morning
     if (hour >= 12 && hour <= 14) return 1.10; // Lunch
@@ -1502,7 +1584,7 @@ class AdXService {
     console.log(`🔍 Resolution: ${deviceFingerprint.resolution} | HDR: ${deviceFingerprint.hdrSupported}`);
     console.log(`🎯 Targeting Match: ${winningAd.targeting.demographics.join(', ')}`);
     console.log(`📊 Competition: ${auctionData.totalBidders} bidders, avg bid $${auctionData.averageBid.toFixed(2)}`);
-    console.log(`⏰ Served at: ${new Date().toLocaleTimeString()}`);
+    console.log(`⏰ Served at: ${wallClock().toISOString().slice(11, 19)}`);
     console.log('========================================================\n');
   }
 
@@ -1539,7 +1621,7 @@ class AdXService {
     };
   }
 
-  generateGenericFingerprint(ctvProvider) {
+  generateGenericFingerprint(ctvProvider, advertisingId) {
     return {
       model: `Generic ${ctvProvider.name}`,
       userAgent: ctvProvider.userAgent || 'Generic CTV Device',
@@ -1547,9 +1629,9 @@ class AdXService {
       connection: 'wifi',
       hdrSupported: false,
       audioFormats: ['AAC'],
-      advertisingId: this.generateRequestId(),
+      advertisingId: advertisingId || this.generateRequestId(),
       iptvSupport: true,
-      timestamp: Date.now(),
+      timestamp: now(),
       sessionId: this.generateSessionId()
     };
   }
@@ -1557,74 +1639,74 @@ class AdXService {
   // Device ID Generators
   generateRokuDeviceId() {
     return 'roku_' + Array.from({length: 12}, () => 
-      '0123456789abcdef'[Math.floor(Math.random() * 16)]
+      '0123456789abcdef'[randomInt(16)]
     ).join('').toUpperCase();
   }
 
   generateTIFA() {
     return 'tifa_' + Array.from({length: 8}, () => 
-      '0123456789abcdef'[Math.floor(Math.random() * 16)]
+      '0123456789abcdef'[randomInt(16)]
     ).join('') + '-' + Array.from({length: 4}, () => 
-      '0123456789abcdef'[Math.floor(Math.random() * 16)]
+      '0123456789abcdef'[randomInt(16)]
     ).join('') + '-' + Array.from({length: 4}, () => 
-      '0123456789abcdef'[Math.floor(Math.random() * 16)]
+      '0123456789abcdef'[randomInt(16)]
     ).join('') + '-' + Array.from({length: 12}, () => 
-      '0123456789abcdef'[Math.floor(Math.random() * 16)]
+      '0123456789abcdef'[randomInt(16)]
     ).join('');
   }
 
   generateLGUDID() {
     return 'lg_' + Array.from({length: 16}, () => 
-      '0123456789abcdef'[Math.floor(Math.random() * 16)]
+      '0123456789abcdef'[randomInt(16)]
     ).join('').toLowerCase();
   }
 
   generateAmazonAID() {
     return 'amzn_' + Array.from({length: 8}, () => 
-      '0123456789abcdef'[Math.floor(Math.random() * 16)]
+      '0123456789abcdef'[randomInt(16)]
     ).join('') + '-' + Array.from({length: 4}, () => 
-      '0123456789abcdef'[Math.floor(Math.random() * 16)]
+      '0123456789abcdef'[randomInt(16)]
     ).join('') + '-' + Array.from({length: 4}, () => 
-      '0123456789abcdef'[Math.floor(Math.random() * 16)]
+      '0123456789abcdef'[randomInt(16)]
     ).join('') + '-' + Array.from({length: 12}, () => 
-      '0123456789abcdef'[Math.floor(Math.random() * 16)]
+      '0123456789abcdef'[randomInt(16)]
     ).join('');
   }
 
   generateGAID() {
     return Array.from({length: 8}, () => 
-      '0123456789abcdef'[Math.floor(Math.random() * 16)]
+      '0123456789abcdef'[randomInt(16)]
     ).join('') + '-' + Array.from({length: 4}, () => 
-      '0123456789abcdef'[Math.floor(Math.random() * 16)]
+      '0123456789abcdef'[randomInt(16)]
     ).join('') + '-' + Array.from({length: 4}, () => 
-      '0123456789abcdef'[Math.floor(Math.random() * 16)]
+      '0123456789abcdef'[randomInt(16)]
     ).join('') + '-' + Array.from({length: 4}, () => 
-      '0123456789abcdef'[Math.floor(Math.random() * 16)]
+      '0123456789abcdef'[randomInt(16)]
     ).join('') + '-' + Array.from({length: 12}, () => 
-      '0123456789abcdef'[Math.floor(Math.random() * 16)]
+      '0123456789abcdef'[randomInt(16)]
     ).join('');
   }
 
   generateIDFA() {
     return Array.from({length: 8}, () => 
-      '0123456789ABCDEF'[Math.floor(Math.random() * 16)]
+      '0123456789ABCDEF'[randomInt(16)]
     ).join('') + '-' + Array.from({length: 4}, () => 
-      '0123456789ABCDEF'[Math.floor(Math.random() * 16)]
+      '0123456789ABCDEF'[randomInt(16)]
     ).join('') + '-' + Array.from({length: 4}, () => 
-      '0123456789ABCDEF'[Math.floor(Math.random() * 16)]
+      '0123456789ABCDEF'[randomInt(16)]
     ).join('') + '-' + Array.from({length: 4}, () => 
-      '0123456789ABCDEF'[Math.floor(Math.random() * 16)]
+      '0123456789ABCDEF'[randomInt(16)]
     ).join('') + '-' + Array.from({length: 12}, () => 
-      '0123456789ABCDEF'[Math.floor(Math.random() * 16)]
+      '0123456789ABCDEF'[randomInt(16)]
     ).join('');
   }
 
   generateRequestId() {
-    return 'req_' + Math.random().toString(36).substr(2, 12) + '_' + Date.now();
+    return 'req_' + randomId(12) + '_' + now();
   }
 
   generateSessionId() {
-    return 'sess_' + Math.random().toString(36).substr(2, 10) + '_' + Date.now();
+    return 'sess_' + randomId(10) + '_' + now();
   }
 
   // ... existing methods ...
@@ -1694,7 +1776,7 @@ router.get('/health', (req, res) => {
     status: 'healthy', 
     service: 'Google AdX with PAL SDK',
     providers: Object.keys(CTV_PROVIDERS),
-    timestamp: new Date().toISOString()
+    timestamp: currentDate().toISOString()
   });
 });
 
@@ -0,0 +1,183 @@
+// Auction Engine
+// Clears every server-side auction with the same selectable mechanics and explains
+// how each clearing price came about
+
+import { LOSS_REASONS } from './auction-notices.js';
+
+export const AUCTION_TYPES = ['first-price', 'second-price'];
+
+// First-price with no floor and a one cent increment, as most CTV supply now clears
+export const DEFAULT_AUCTION_RULES = {
+  type: 'first-price',
+  floor: 0,
+  softFloor: 0,
+  increment: 0.01
+};
+
+// Rank the bids, drop those under the hard floor and price the winner.
+// rules.type        'first-price' pays the winning bid, 'second-price' the runner-up plus an increment
+// rules.floor       hard floor: bids below it never compete
+// rules.softFloor   second-price only: a winner under it pays its own bid, a winner over it pays at least it
+// rules.increment   a flat amount, or [{ upTo, increment }] steps chosen by the runner-up's price
+// floorOf(bid)      optional per-bid floor (e.g. from floor rules on advertiser domain), raising rules.floor
+export function runAuction(bids, rules = {}, { label = defaultLabel, floorOf } = {}) {
+  const resolved = resolveAuctionRules(rules);
+  const floorFor = bid => Math.max(resolved.floor, floorOf ? floorOf(bid) : 0);
+  const ranked = bids
+    .filter(bid => Number.isFinite(bid.price) && bid.price > 0)
+    .map((bid, index) => ({ bid, index }))
+    // Ties go to the bid that arrived first, so the same bids always clear the same way
+    .sort((a, b) => b.bid.price - a.bid.price || a.index - b.index)
+    .map(({ bid }) => bid);
+
+  const eligible = ranked.filter(bid => bid.price >= floorFor(bid));
+  const belowFloor = ranked.filter(bid => bid.price < floorFor(bid));
+  const [winner, runnerUp] = eligible;
+
+  const losers = [
+    ...eligible.slice(1).map(bid => ({ bid, reason: LOSS_REASONS.LOST_TO_HIGHER_BID })),
+    ...belowFloor.map(bid => ({ bid, reason: LOSS_REASONS.BELOW_AUCTION_FLOOR }))
+  ];
+
+  if (!winner) {
+    return {
+      winner: null,
+      clearingPrice: 0,
+      runnerUpPrice: 0,
+      floor: resolved.floor,
+      eligible,
+      losers,
+      explanation: {
+        mechanics: resolved.type,
+        winner: null,
+        runnerUp: null,
+        floor: resolved.floor,
+        softFloor: resolved.softFloor,
+        floorApplied: null,
+        increment: 0,
+        minToWin: resolved.floor,
+        clearingPrice: 0,
+        summary: ranked.length === 0
+          ? 'No bids received'
+          : floorOf
+            ? `All ${ranked.length} bid(s) were below their floors`
+            : `All ${ranked.length} bid(s) were below the ${formatCpm(resolved.floor)} hard floor`
+      }
+    };
+  }
+
+  // The winner's own floor is the hard floor it cleared against
+  const winnerRules = { ...resolved, floor: floorFor(winner) };
+  const increment = incrementFor(runnerUp ? runnerUp.price : winnerRules.floor, resolved.increment);
+  const minToWin = roundCpm(Math.max(runnerUp ? runnerUp.price + increment : increment, winnerRules.floor));
+  const { clearingPrice, floorApplied, reason } = clearingPriceFor(winner, runnerUp, increment, winnerRules);
+
+  const describe = bid => ({ label: label(bid), price: roundCpm(bid.price) });
+  return {
+    winner,
+    clearingPrice,
+    runnerUpPrice: runnerUp ? roundCpm(runnerUp.price) : 0,
+    floor: winnerRules.floor,
+    eligible,
+    losers,
+    explanation: {
+      mechanics: resolved.type,
+      winner: describe(winner),
+      runnerUp: runnerUp ? describe(runnerUp) : null,
+      floor: winnerRules.floor,
+      softFloor: resolved.softFloor,
+      floorApplied,
+      increment,
+      minToWin,
+      clearingPrice,
+      summary: `${label(winner)} won at ${formatCpm(winner.price)} and pays ${formatCpm(clearingPrice)}: ${reason}` +
+        (belowFloor.length > 0 ? `; ${belowFloor.length} bid(s) under ${floorOf ? 'their' : 'the hard'} floor were rejected` : '')
+    }
+  };
+}
+
+// Defaults for anything the caller left out; unknown mechanics are an error rather than a silent first-price
+export function resolveAuctionRules(rules = {}) {
+  const resolved = { ...DEFAULT_AUCTION_RULES, ...stripUndefined(rules) };
+  if (!AUCTION_TYPES.includes(resolved.type)) {
+    throw new Error(`Unknown auction type ${resolved.type}; expected one of ${AUCTION_TYPES.join(', ')}`);
+  }
+  resolved.floor = Math.max(0, Number(resolved.floor) || 0);
+  resolved.softFloor = Math.max(0, Number(resolved.softFloor) || 0);
+  return resolved;
+}
+
+// OpenRTB's imp-level auction type for the configured mechanics
+export function openRtbAuctionType(rules = {}) {
+  return resolveAuctionRules(rules).type === 'second-price' ? 2 : 1;
+}
+
+function clearingPriceFor(winner, runnerUp, increment, rules) {
+  if (rules.type === 'first-price') {
+    return {
+      clearingPrice: roundCpm(winner.price),
+      floorApplied: null,
+      reason: 'first-price pays the winning bid'
+    };
+  }
+
+  if (rules.softFloor > 0 && winner.price < rules.softFloor) {
+    return {
+      clearingPrice: roundCpm(winner.price),
+      floorApplied: 'soft',
+      reason: `under the ${formatCpm(rules.softFloor)} soft floor the winner pays its own bid`
+    };
+  }
+
+  // The highest of runner-up plus increment and the floors sets the price; with none of them, the increment does
+  const candidates = [
+    { price: increment, floorApplied: null, reason: `the ${formatCpm(increment)} minimum, with no runner-up or floor` },
+    runnerUp && {
+      price: runnerUp.price + increment,
+      floorApplied: null,
+      reason: `runner-up ${formatCpm(runnerUp.price)} plus the ${formatCpm(increment)} increment`
+    },
+    { price: rules.floor, floorApplied: 'hard', reason: `the ${formatCpm(rules.floor)} hard floor` },
+    { price: rules.softFloor, floorApplied: 'soft', reason: `the ${formatCpm(rules.softFloor)} soft floor` }
+  ].filter(Boolean);
+  const setter = candidates.reduce((best, candidate) => (candidate.price > best.price ? candidate : best));
+
+  // Never charge more than was bid
+  if (setter.price >= winner.price) {
+    return {
+      clearingPrice: roundCpm(winner.price),
+      floorApplied: setter.floorApplied,
+      reason: `second-price is capped at the winning bid (${setter.reason} is as high)`
+    };
+  }
+  return {
+    clearingPrice: roundCpm(setter.price),
+    floorApplied: setter.floorApplied,
+    reason: `second-price pays ${setter.reason}`
+  };
+}
+
+function incrementFor(price, increment) {
+  if (!Array.isArray(increment)) {
+    return roundCpm(Number(increment) || DEFAULT_AUCTION_RULES.increment);
+  }
+  const steps = [...increment].sort((a, b) => a.upTo - b.upTo);
+  const step = steps.find(entry => price < entry.upTo) || steps[steps.length - 1];
+  return roundCpm(step?.increment || DEFAULT_AUCTION_RULES.increment);
+}
+
+function stripUndefined(rules) {
+  return Object.fromEntries(Object.entries(rules || {}).filter(([, value]) => value !== undefined && value !== null));
+}
+
+function defaultLabel(bid) {
+  return bid.seat || bid.seatId || bid.exchangeName || bid.id || 'unknown bidder';
+}
+
+function roundCpm(price) {
+  return Math.round(price * 100) / 100;
+}
+
+function formatCpm(price) {
+  return `$${price.toFixed(2)}`;
+}
@@ -0,0 +1,147 @@
+// Auction Notice Dispatcher
+// Fires OpenRTB win (nurl), billing (burl) and loss (lurl) notices with auction macros substituted
+
+import { currentDate } from '../config/simulation.js';
+
+// OpenRTB 2.6 loss reason codes (section 5.25 of the 2.5 spec, carried into 2.6)
+export const LOSS_REASONS = {
+  BID_WON: 0,
+  INTERNAL_ERROR: 1,
+  IMPRESSION_EXPIRED: 2,
+  INVALID_BID_RESPONSE: 3,
+  INVALID_DEAL_ID: 4,
+  INVALID_AUCTION_ID: 5,
+  INVALID_ADVERTISER_DOMAIN: 6,
+  MISSING_MARKUP: 7,
+  MISSING_CREATIVE_ID: 8,
+  MISSING_BID_PRICE: 9,
+  BELOW_AUCTION_FLOOR: 100,
+  BELOW_DEAL_FLOOR: 101,
+  LOST_TO_HIGHER_BID: 102,
+  LOST_TO_PMP_DEAL: 103,
+  BUYER_SEAT_BLOCKED: 104,
+  CREATIVE_FILTERED: 200,
+  ADVERTISER_EXCLUSIONS: 205,
+  CATEGORY_EXCLUSIONS: 209
+};
+
+// Replace ${AUCTION_*} macros; values are URL-encoded, unknown macros are left for the buyer to spot
+export function expandAuctionMacros(url, values) {
+  const macros = {
+    AUCTION_ID: values.auctionId,
+    AUCTION_BID_ID: values.bidId,
+    AUCTION_IMP_ID: values.impId,
+    AUCTION_SEAT_ID: values.seatId,
+    AUCTION_AD_ID: values.adId,
+    AUCTION_PRICE: formatPrice(values.price),
+    AUCTION_CURRENCY: values.currency,
+    AUCTION_LOSS: values.lossReason,
+    AUCTION_MIN_TO_WIN: formatPrice(values.minToWin)
+  };
+
+  return url.replace(/\$\{(AUCTION_[A-Z_]+)\}/g, (match, name) => {
+    const value = macros[name];
+    return value === undefined || value === null ? match : encodeURIComponent(String(value));
+  });
+}
+
+// Fire one notice and return a record of exactly what the SSP/DSP was told
+export async function fireAuctionNotice(type, template, values) {
+  const url = expandAuctionMacros(template, values);
+  const notice = {
+    type,
+    url,
+    auctionId: values.auctionId,
+    bidId: values.bidId,
+    impId: values.impId,
+    seatId: values.seatId,
+    price: values.price,
+    lossReason: values.lossReason,
+    minToWin: values.minToWin,
+    firedAt: currentDate().toISOString()
+  };
+
+  try {
+    const response = await fetch(url, { method: 'GET' });
+    notice.status = response.ok ? 'sent' : 'failed';
+    notice.httpStatus = response.status;
+  } catch (error) {
+    notice.status = 'failed';
+    notice.error = error.message;
+  }
+
+  const icon = notice.status === 'sent' ? '📨' : '⚠️ ';
+  console.log(`${icon} ${type} notice ${notice.status} for bid ${values.bidId} (${values.seatId || 'unknown seat'})` +
+    `${type === 'loss' ? ` reason ${values.lossReason}` : ''}: ${url}`);
+  return notice;
+}
+
+// Win notice for the winner and a loss notice for every other bid once the auction has cleared.
+// Billing is not fired here: it belongs to the impression (see billingNoticeUrl).
+export async function dispatchAuctionNotices(auction) {
+  const { auctionId, winner, clearingPrice, currency = 'USD' } = auction;
+  const losers = auction.losers || [];
+  const notices = [];
+
+  if (winner?.nurl) {
+    notices.push(fireAuctionNotice('win', winner.nurl, {
+      ...bidValues(auctionId, winner, currency),
+      price: clearingPrice,
+      lossReason: LOSS_REASONS.BID_WON,
+      minToWin: auction.runnerUpPrice
+    }));
+  }
+
+  losers
+    .filter(({ bid }) => bid.lurl)
+    .forEach(({ bid, reason }) => {
+      notices.push(fireAuctionNotice('loss', bid.lurl, {
+        ...bidValues(auctionId, bid, currency),
+        price: clearingPrice,
+        lossReason: reason,
+        // What it would have taken to win: the clearing price, or the floor when nobody cleared
+        minToWin: winner ? clearingPrice : auction.floor
+      }));
+    });
+
+  return Promise.all(notices);
+}
+
+// Expanded burl for the winner, to be fired when the impression is rendered
+export function billingNoticeUrl(auction) {
+  const { auctionId, winner, clearingPrice, currency = 'USD' } = auction;
+  if (!winner?.burl) {
+    return null;
+  }
+  return expandAuctionMacros(winner.burl, {
+    ...bidValues(auctionId, winner, currency),
+    price: clearingPrice,
+    lossReason: LOSS_REASONS.BID_WON,
+    minToWin: auction.runnerUpPrice
+  });
+}
+
+// Add a URL as an extra <Impression> so the player fires it with the ad's own impressions
+export function addImpressionToVast(vastXml, url) {
+  const impression = `<Impression><![CDATA[${url}]]></Impression>`;
+  if (/<Impression[\s>]/.test(vastXml)) {
+    return vastXml.replace(/<Impression[\s>]/, match => `${impression}\n      ${match}`);
+  }
+  return vastXml.replace(/<\/(InLine|Wrapper)>/, match => `${impression}\n    ${match}`);
+}
+
+function bidValues(auctionId, bid, currency) {
+  return {
+    auctionId,
+    bidId: bid.id,
+    impId: bid.impid,
+    seatId: bid.seatId || bid.seat,
+    adId: bid.adid,
+    currency
+  };
+}
+
+// Prices go out in CPM with the precision buyers reconcile against
+function formatPrice(price) {
+  return typeof price === 'number' && Number.isFinite(price) ? price.toFixed(4) : undefined;
+}
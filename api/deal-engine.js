@@ -0,0 +1,202 @@
+// Deal Engine
+// Serves programmatic guaranteed, preferred and private-auction deals ahead of open
+// market demand, writes them into imp.pmp and reports how every deal fared
+
+import { LOSS_REASONS } from './auction-notices.js';
+import { resolveAuctionRules, runAuction } from './auction-engine.js';
+import { currentDate } from '../config/simulation.js';
+
+// Highest priority first. Guaranteed and preferred deals trade at a fixed price (OpenRTB at=3);
+// private auctions compete on price above the deal floor
+export const DEAL_TIERS = {
+  pg: { name: 'Programmatic Guaranteed', priority: 1, fixedPrice: true },
+  pd: { name: 'Preferred Deal', priority: 2, fixedPrice: true },
+  pmp: { name: 'Private Auction', priority: 3, fixedPrice: false }
+};
+const OPEN_MARKET_PRIORITY = 4;
+
+// Fill in a stored deal; deals added before tiers existed are private auctions
+export function normalizeDeal(dealId, deal) {
+  const tier = deal.tier || 'pmp';
+  if (!DEAL_TIERS[tier]) {
+    throw new Error(`Unknown deal tier ${tier} for ${dealId}; expected one of ${Object.keys(DEAL_TIERS).join(', ')}`);
+  }
+  return {
+    dealId,
+    tier,
+    price: Number(deal.price) || 0,
+    currency: deal.currency || 'USD',
+    advertiserId: deal.advertiserId,
+    exchanges: deal.exchanges || [],
+    wseat: deal.wseat || [],
+    wadomain: deal.wadomain || [],
+    isActive: deal.isActive !== false,
+    startDate: deal.startDate,
+    endDate: deal.endDate
+  };
+}
+
+// Active, in-flight deals, optionally only those an exchange carries
+export function activeDeals(deals, { exchangeId, now = currentDate() } = {}) {
+  return deals.filter(deal =>
+    deal.isActive &&
+    (!deal.startDate || now >= new Date(deal.startDate)) &&
+    (!deal.endDate || now <= new Date(deal.endDate)) &&
+    (!exchangeId || deal.exchanges.length === 0 || deal.exchanges.includes(exchangeId))
+  );
+}
+
+// imp.pmp for the outgoing request; undefined when there is nothing to offer
+export function buildPmp(deals, { privateAuction = false, auctionRules } = {}) {
+  if (deals.length === 0) {
+    return undefined;
+  }
+  const openAuctionType = resolveAuctionRules(auctionRules).type === 'second-price' ? 2 : 1;
+
+  return {
+    private_auction: privateAuction ? 1 : 0,
+    deals: deals.map(deal => ({
+      id: deal.dealId,
+      bidfloor: deal.price,
+      bidfloorcur: deal.currency,
+      at: DEAL_TIERS[deal.tier].fixedPrice ? 3 : openAuctionType,
+      ...(deal.wseat.length > 0 ? { wseat: deal.wseat } : {}),
+      ...(deal.wadomain.length > 0 ? { wadomain: deal.wadomain } : {}),
+      ...(deal.tier === 'pg' ? { guar: 1 } : {}),
+      ext: { tier: deal.tier }
+    }))
+  };
+}
+
+// Clear the bids tier by tier: the best valid bid in the highest tier that has one wins.
+// Returns the auction engine's result plus a report on every offered deal.
+export function runDealAuction(bids, pmp, auctionRules = {}, { label, floorOf } = {}) {
+  const offered = new Map((pmp?.deals || []).map(deal => [deal.id, deal]));
+  const privateAuction = pmp?.private_auction === 1;
+  const { floor } = resolveAuctionRules(auctionRules);
+  const rejected = [];
+  const candidates = [];
+
+  bids.forEach(bid => {
+    const check = checkBid(bid, offered, privateAuction, floorOf);
+    if (check.reason !== undefined) {
+      rejected.push({ bid, reason: check.reason, why: check.why });
+    } else {
+      candidates.push({ bid, deal: check.deal, priority: check.deal ? DEAL_TIERS[check.deal.ext.tier].priority : OPEN_MARKET_PRIORITY });
+    }
+  });
+
+  // Deal floors replace the imp floor for deal bids; open market bids still have to clear it
+  const openBids = candidates.filter(({ deal }) => !deal).map(({ bid }) => bid);
+  const openBest = Math.max(0, ...openBids.filter(bid => bid.price >= Math.max(floor, floorOf ? floorOf(bid) : 0)).map(bid => bid.price));
+  const dealPriority = Math.min(...candidates.filter(({ deal }) => deal).map(({ priority }) => priority));
+
+  let auction;
+  let losers;
+  if (Number.isFinite(dealPriority)) {
+    const tierBids = candidates.filter(({ priority }) => priority === dealPriority).map(({ bid }) => bid);
+    auction = clearDealTier(tierBids, offered, auctionRules, { label, floorOf }, openBest);
+    losers = candidates
+      .filter(({ bid }) => bid !== auction.winner)
+      .map(({ bid, priority }) => ({
+        bid,
+        reason: priority === dealPriority ? LOSS_REASONS.LOST_TO_HIGHER_BID : LOSS_REASONS.LOST_TO_PMP_DEAL
+      }));
+  } else {
+    auction = runAuction(openBids, auctionRules, { label, floorOf });
+    losers = auction.losers;
+    if (!auction.winner && rejected.length > 0 && openBids.length === 0) {
+      auction.explanation.summary = `All ${rejected.length} bid(s) were rejected: ${rejected.map(({ why }) => why).join('; ')}`;
+    }
+  }
+
+  return {
+    ...auction,
+    losers: [...losers, ...rejected.map(({ bid, reason }) => ({ bid, reason }))],
+    deals: reportDeals(offered, bids, auction.winner, rejected, openBest)
+  };
+}
+
+// Why a bid may not compete at all, or the deal it competes under. Floor rules can raise a
+// private auction's floor but never a fixed-price deal's agreed price.
+function checkBid(bid, offered, privateAuction, floorOf) {
+  if (!bid.dealid) {
+    return privateAuction
+      ? { reason: LOSS_REASONS.LOST_TO_PMP_DEAL, why: 'private auction accepts deal bids only' }
+      : {};
+  }
+
+  const deal = offered.get(bid.dealid);
+  if (!deal) {
+    return { reason: LOSS_REASONS.INVALID_DEAL_ID, why: `deal ${bid.dealid} was not offered` };
+  }
+  const seat = bid.seatId || bid.seat;
+  if (deal.wseat && !deal.wseat.includes(seat)) {
+    return { reason: LOSS_REASONS.BUYER_SEAT_BLOCKED, why: `seat ${seat || 'unknown'} is not on the deal's wseat list` };
+  }
+  if (deal.wadomain && !(bid.adomain || []).some(domain => deal.wadomain.includes(domain))) {
+    return { reason: LOSS_REASONS.ADVERTISER_EXCLUSIONS, why: `advertiser ${(bid.adomain || []).join(', ') || 'unknown'} is not on the deal's wadomain list` };
+  }
+  const dealFloor = DEAL_TIERS[deal.ext.tier].fixedPrice || !floorOf ? deal.bidfloor : Math.max(deal.bidfloor, floorOf(bid));
+  if (bid.price < dealFloor) {
+    return { reason: LOSS_REASONS.BELOW_DEAL_FLOOR, why: `bid $${bid.price.toFixed(2)} is under the $${dealFloor.toFixed(2)} deal floor` };
+  }
+  return { deal };
+}
+
+// Fixed-price tiers pay the deal price; private auctions clear under the engine's rules with the
+// winning deal's floor. Cheaper bids in the tier lost on price already, so they stay out of the clearing.
+function clearDealTier(tierBids, offered, auctionRules, { label, floorOf }, openBest) {
+  const top = [...tierBids].sort((a, b) => b.price - a.price)[0];
+  const deal = offered.get(top.dealid);
+  const tier = DEAL_TIERS[deal.ext.tier];
+  const auction = runAuction(
+    tierBids.filter(bid => bid.price >= deal.bidfloor),
+    { ...auctionRules, floor: deal.bidfloor },
+    { label, floorOf: tier.fixedPrice ? undefined : floorOf }
+  );
+
+  const clearingPrice = tier.fixedPrice ? deal.bidfloor : auction.clearingPrice;
+  const pricing = tier.fixedPrice
+    ? `${auction.explanation.winner.label} bid $${top.price.toFixed(2)} and pays the fixed deal price $${clearingPrice.toFixed(2)}`
+    : auction.explanation.summary;
+  const against = openBest > 0 ? `open market best was $${openBest.toFixed(2)}` : 'no open market bid cleared';
+
+  return {
+    ...auction,
+    clearingPrice,
+    explanation: {
+      ...auction.explanation,
+      mechanics: tier.fixedPrice ? 'fixed-price' : auction.explanation.mechanics,
+      clearingPrice,
+      floorApplied: tier.fixedPrice ? null : auction.explanation.floorApplied,
+      deal: { id: deal.id, tier: deal.ext.tier },
+      summary: `${tier.name} ${deal.id} won on priority: ${pricing}; ${against}`
+    }
+  };
+}
+
+function reportDeals(offered, bids, winner, rejected, openBest) {
+  return Array.from(offered.values()).map(deal => {
+    const dealBids = bids.filter(bid => bid.dealid === deal.id);
+    const base = { dealId: deal.id, tier: deal.ext.tier, bids: dealBids.length };
+    if (winner?.dealid === deal.id) {
+      return { ...base, status: 'won', reason: openBest > 0 ? `Won ahead of open market best $${openBest.toFixed(2)}` : 'Won; no open market bid cleared' };
+    }
+    if (dealBids.length === 0) {
+      return { ...base, status: 'no-bid', reason: 'No buyer bid on this deal' };
+    }
+    const rejection = rejected.find(entry => entry.bid.dealid === deal.id);
+    if (!winner?.dealid || dealBids.every(bid => rejected.some(entry => entry.bid === bid))) {
+      return { ...base, status: 'rejected', reason: `Rejected: ${rejection.why}` };
+    }
+    const winningTier = offered.get(winner.dealid).ext.tier;
+    return {
+      ...base,
+      status: 'lost',
+      reason: winningTier === deal.ext.tier
+        ? `Outbid within ${DEAL_TIERS[deal.ext.tier].name} by ${winner.dealid}`
+        : `Outranked by ${DEAL_TIERS[winningTier].name} ${winner.dealid}`
+    };
+  });
+}
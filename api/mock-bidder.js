@@ -0,0 +1,295 @@
+// Mock Bidder
+// Answers OpenRTB requests as one bidder from the mock fleet: latency, no-bids, prices,
+// creatives, deal bids, malformed bodies and HTTP errors all drawn from its config, so
+// seeded runs replay the same demand
+
+import { addressabilityFor, buildAddressableSeatbids, eidsForBidder } from './addressability.js';
+import { convertCurrency } from '../config/floor-rules.js';
+import { getMockBidder, MOCK_BIDDERS } from '../config/mock-bidders.js';
+import { random, randomId, randomInt } from '../config/simulation.js';
+
+// Ways a malformed response goes wrong, one picked per malformed response
+const MALFORMED_KINDS = ['truncated', 'string-price', 'missing-price', 'unknown-impid'];
+
+// Prebid Server's ext.errors codes
+const PBS_ERROR_CODES = { timeout: 1, badServerResponse: 3, unknown: 999 };
+
+// One draw from a latency or price distribution
+export function sample(distribution) {
+  switch (distribution.type) {
+    case 'uniform':
+      return distribution.min + random() * (distribution.max - distribution.min);
+    case 'normal':
+      return distribution.mean + gaussian() * distribution.stdDev;
+    case 'lognormal':
+      return distribution.median * Math.exp(gaussian() * distribution.sigma);
+    default:
+      throw new Error(`Unknown distribution type ${distribution.type}; expected uniform, normal or lognormal`);
+  }
+}
+
+// Standard normal draw (Box-Muller)
+function gaussian() {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// An OpenRTB request from the body a caller sent; the pod optimizer's demand sources
+// post a flat { floor, duration, category, device, ... } body instead
+export function toBidRequest(body) {
+  if (Array.isArray(body.imp)) {
+    return body;
+  }
+  return {
+    id: body.id || `pod_${randomId(9)}`,
+    imp: [{
+      id: '1',
+      bidfloor: Number(body.floor) || 0,
+      bidfloorcur: 'USD',
+      video: { maxduration: body.duration }
+    }],
+    site: { content: { genre: body.category } },
+    device: { devicetype: body.device === 'ctv' ? 3 : undefined },
+    bcat: body.excludedCategories || [],
+    badv: body.excludedAdvertisers || []
+  };
+}
+
+// How bidder answers bidRequest: { latency, status, body } with body a string, since a
+// malformed response may not be JSON at all. eids are the identifiers the bidder can see.
+export function bidAsMockBidder(bidder, bidRequest, eids = bidRequest.user?.eids || []) {
+  const latency = Math.max(0, Math.round(sample(bidder.latency)));
+
+  if (random() < bidder.errors.rate) {
+    const status = bidder.errors.statuses[randomInt(bidder.errors.statuses.length)];
+    return { latency, status, body: JSON.stringify({ error: `${bidder.name} returned HTTP ${status}` }) };
+  }
+  if (random() < bidder.noBidRate) {
+    return { latency, status: 204, body: '' };
+  }
+
+  const addressability = addressabilityFor(eids, bidRequest.device);
+  const bids = (bidRequest.imp || [])
+    .map(imp => bidForImp(bidder, bidRequest, imp, addressability))
+    .filter(Boolean);
+  if (bids.length === 0) {
+    return { latency, status: 204, body: '' };
+  }
+
+  const response = {
+    id: bidRequest.id,
+    seatbid: [{ seat: bidder.seat, bid: bids }],
+    bidid: `${bidder.id}-${randomId(9)}`,
+    cur: 'USD'
+  };
+  if (random() < bidder.malformedRate) {
+    return { latency, status: 200, body: malform(response) };
+  }
+  return { latency, status: 200, body: JSON.stringify(response) };
+}
+
+// The bidder's bid on one impression, or null when it passes on it
+function bidForImp(bidder, bidRequest, imp, addressability) {
+  const duration = pickDuration(bidder.durations, imp.video);
+  if (duration === undefined) {
+    return null;
+  }
+
+  const deal = pickDeal(bidder, imp.pmp);
+  const advertisers = bidder.advertisers.filter(advertiser =>
+    !(bidRequest.badv || []).includes(advertiser.domain) &&
+    !advertiser.cat.some(cat => (bidRequest.bcat || []).includes(cat)) &&
+    (!deal?.wadomain || deal.wadomain.includes(advertiser.domain))
+  );
+  if (advertisers.length === 0) {
+    return null;
+  }
+  const advertiser = advertisers[randomInt(advertisers.length)];
+
+  const openPrice = Math.max(0.01, sample(bidder.price.base) * priceMultiplier(bidder.price, bidRequest)) * addressability.multiplier;
+  let price;
+  if (deal) {
+    // Fixed-price deals trade at the deal price; private auctions bid above the deal floor
+    const dealFloor = toUsd(deal.bidfloor || 0, deal.bidfloorcur);
+    price = deal.at === 3 ? dealFloor : Math.max(dealFloor, openPrice) * (1 + bidder.deals.uplift);
+  } else if (imp.pmp?.private_auction === 1 || openPrice < toUsd(imp.bidfloor || 0, imp.bidfloorcur)) {
+    return null;
+  } else {
+    price = openPrice;
+  }
+
+  const creativeId = `${bidder.id}-cr-${randomId(6)}`;
+  return {
+    id: `${bidder.id}-${randomId(9)}`,
+    impid: imp.id,
+    price: Math.round(price * 100) / 100,
+    adm: vastFor(bidder, creativeId, duration),
+    adomain: [advertiser.domain],
+    cat: advertiser.cat,
+    crid: creativeId,
+    dur: duration,
+    mtype: 2,
+    w: imp.video?.w || 1920,
+    h: imp.video?.h || 1080,
+    ...(deal ? { dealid: deal.id } : {}),
+    ext: { addressability }
+  };
+}
+
+// A creative length the impression accepts, or undefined
+function pickDuration(durations, video = {}) {
+  const allowed = durations.filter(duration =>
+    (!video.rqddurs || video.rqddurs.includes(duration)) &&
+    (!video.minduration || duration >= video.minduration) &&
+    (!video.maxduration || duration <= video.maxduration)
+  );
+  return allowed.length > 0 ? allowed[randomInt(allowed.length)] : undefined;
+}
+
+// The first offered deal this bidder's seat may and chooses to bid on
+function pickDeal(bidder, pmp) {
+  return (pmp?.deals || []).find(deal =>
+    (!deal.wseat || deal.wseat.includes(bidder.seat)) && random() < bidder.deals.participation
+  );
+}
+
+function priceMultiplier(price, bidRequest) {
+  const genre = String((bidRequest.site || bidRequest.app)?.content?.genre || '').toLowerCase();
+  const country = bidRequest.device?.geo?.country;
+  return (price.device[bidRequest.device?.devicetype] ?? 1) *
+    (price.geo[country] ?? price.geo.default ?? 1) *
+    (price.genre[genre] ?? 1);
+}
+
+function toUsd(amount, currency = 'USD') {
+  return convertCurrency(amount, currency, 'USD');
+}
+
+// A response the caller has to reject: cut short, or with one bid broken
+function malform(response) {
+  const kind = MALFORMED_KINDS[randomInt(MALFORMED_KINDS.length)];
+  const bid = response.seatbid[0].bid[0];
+  switch (kind) {
+    case 'truncated': {
+      const body = JSON.stringify(response);
+      return body.slice(0, Math.floor(body.length / 2));
+    }
+    case 'string-price':
+      bid.price = bid.price.toFixed(2);
+      break;
+    case 'missing-price':
+      delete bid.price;
+      break;
+    case 'unknown-impid':
+      bid.impid = `${bid.impid}-${randomId(4)}`;
+      break;
+  }
+  return JSON.stringify(response);
+}
+
+function vastFor(bidder, creativeId, duration) {
+  const clock = `00:00:${String(duration).padStart(2, '0')}`;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<VAST version="4.0">
+  <Ad id="${creativeId}">
+    <InLine>
+      <AdSystem>${bidder.name}</AdSystem>
+      <AdTitle>${bidder.name} ${duration}s CTV Ad</AdTitle>
+      <Impression><![CDATA[http://localhost:8081/bidders/${bidder.id}/impression?crid=${creativeId}]]></Impression>
+      <Creatives>
+        <Creative id="${creativeId}">
+          <Linear>
+            <Duration>${clock}</Duration>
+            <MediaFiles>
+              <MediaFile delivery="progressive" type="video/mp4" width="1920" height="1080">
+                <![CDATA[https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerBlazes.mp4]]>
+              </MediaFile>
+            </MediaFiles>
+          </Linear>
+        </Creative>
+      </Creatives>
+    </InLine>
+  </Ad>
+</VAST>`;
+}
+
+// The fleet as the test server lists it
+export function describeFleet(baseUrl) {
+  return Object.keys(MOCK_BIDDERS).map(id => {
+    const bidder = getMockBidder(id);
+    return {
+      id,
+      name: bidder.name,
+      seat: bidder.seat,
+      endpoint: `${baseUrl}/bidders/${id}/openrtb2`,
+      noBidRate: bidder.noBidRate,
+      malformedRate: bidder.malformedRate,
+      errorRate: bidder.errors.rate
+    };
+  });
+}
+
+// Prebid Server over the fleet: each bidder on the request that the fleet knows answers as
+// itself within tmax, any other is priced from templateBid. Returns the response and how
+// long Prebid Server took to send it.
+export function runMockPrebidAuction(bidRequest, templateBid, defaultSeat) {
+  const tmax = bidRequest.tmax || 1000;
+  const bidders = [...new Set((bidRequest.imp || []).flatMap(imp => Object.keys(imp.ext?.prebid?.bidder || {})))];
+  const fleet = bidders.map(getMockBidder).filter(Boolean);
+  const others = bidders.filter(bidder => !getMockBidder(bidder));
+
+  const seatbid = [];
+  const responsetimemillis = {};
+  const errors = {};
+  let latency = 0;
+
+  fleet.forEach(bidder => {
+    const outcome = bidAsMockBidder(bidder, bidRequest, eidsForBidder(bidRequest, bidder.id));
+    responsetimemillis[bidder.id] = Math.min(outcome.latency, tmax);
+    latency = Math.max(latency, Math.min(outcome.latency, tmax));
+
+    if (outcome.latency > tmax) {
+      errors[bidder.id] = [{ code: PBS_ERROR_CODES.timeout, message: `Timeout after ${tmax}ms` }];
+    } else if (outcome.status === 200) {
+      try {
+        seatbid.push(...JSON.parse(outcome.body).seatbid);
+      } catch (error) {
+        errors[bidder.id] = [{ code: PBS_ERROR_CODES.badServerResponse, message: `Unparseable response: ${error.message}` }];
+      }
+    } else if (outcome.status !== 204) {
+      errors[bidder.id] = [{ code: PBS_ERROR_CODES.unknown, message: `Unexpected status code: ${outcome.status}` }];
+    }
+  });
+
+  if (others.length > 0) {
+    const othersOnly = {
+      ...bidRequest,
+      imp: bidRequest.imp.map(imp => ({
+        ...imp,
+        ext: {
+          ...imp.ext,
+          prebid: {
+            ...imp.ext?.prebid,
+            bidder: Object.fromEntries(Object.entries(imp.ext?.prebid?.bidder || {}).filter(([bidder]) => others.includes(bidder)))
+          }
+        }
+      }))
+    };
+    seatbid.push(...buildAddressableSeatbids(othersOnly, templateBid, defaultSeat));
+  }
+
+  return {
+    latency,
+    response: {
+      id: bidRequest.id,
+      seatbid: seatbid.sort((a, b) => (b.bid[0]?.price ?? 0) - (a.bid[0]?.price ?? 0)),
+      cur: 'USD',
+      ext: {
+        responsetimemillis,
+        tmaxrequest: tmax,
+        ...(Object.keys(errors).length > 0 ? { errors } : {})
+      }
+    }
+  };
+}
@@ -1,3 +1,5 @@
+import { buildAddressableSeatbids } from '../addressability.js';
+
 // VAST XML template for testing
 const VAST_XML = `<?xml version="1.0" encoding="UTF-8"?>
 <VAST version="4.0">
@@ -95,7 +97,7 @@ export default function handler(req, res) {
   // Enable CORS
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Forwarded-For');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Forwarded-For, X-Simulation-Seed, X-Simulation-Time');
   
   if (req.method === 'OPTIONS') {
     res.status(200).end();
@@ -122,5 +124,17 @@ export default function handler(req, res) {
   }
 
   res.setHeader('Content-Type', 'application/json');
-  res.status(200).json(OPENRTB_RESPONSE);
+
+  // Vercel parses JSON bodies; price each seat on the identifiers it can see
+  const bidRequest = req.body && typeof req.body === 'object' ? req.body : null;
+  if (!bidRequest?.imp?.length) {
+    res.status(200).json(OPENRTB_RESPONSE);
+    return;
+  }
+
+  res.status(200).json({
+    ...OPENRTB_RESPONSE,
+    id: bidRequest.id || OPENRTB_RESPONSE.id,
+    seatbid: buildAddressableSeatbids(bidRequest, OPENRTB_RESPONSE.seatbid[0].bid[0], OPENRTB_RESPONSE.seatbid[0].seat)
+  });
 } 
\ No newline at end of file
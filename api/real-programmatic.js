@@ -1,8 +1,12 @@
 // Real Programmatic Ad Exchange Integration
 // Connects to live programmatic platforms for actual video ad auctions
 
-import { createHash, randomBytes } from 'crypto';
-import { performance } from 'perf_hooks';
+import { createHash } from 'crypto';
+import { addImpressionToVast, billingNoticeUrl, dispatchAuctionNotices } from './auction-notices.js';
+import { openRtbAuctionType } from './auction-engine.js';
+import { activeDeals, buildPmp, normalizeDeal, runDealAuction } from './deal-engine.js';
+import { DEFAULT_FLOOR_RULES, resolveFloor } from '../config/floor-rules.js';
+import { currentDate, now, random, randomHex, randomId, randomInt, wallClock } from '../config/simulation.js';
 
 // Real Ad Exchange Endpoints
 const REAL_AD_EXCHANGES = {
@@ -83,11 +87,13 @@ export class RealProgrammaticService {
       enableFloorPrices: true,
       enablePrivateMarketplaces: true,
       enableHeaderBidding: true,
+      auction: {}, // Auction engine rules; first-price when empty
+      privateAuction: false, // Only deal bids may win when set
       ...config
     };
     
     this.credentials = new Map();
-    this.floorPrices = new Map();
+    this.floorRules = [...(this.config.floorRules || DEFAULT_FLOOR_RULES)];
     this.pmpDeals = new Map();
     this.requestCounter = 0;
   }
@@ -96,35 +102,56 @@ export class RealProgrammaticService {
   addExchangeCredentials(exchangeId, credentials) {
     this.credentials.set(exchangeId, {
       ...credentials,
-      timestamp: Date.now()
+      timestamp: now()
     });
     console.log(`✅ Configured credentials for ${REAL_AD_EXCHANGES[exchangeId]?.name || exchangeId}`);
   }
 
-  // Set floor prices for different ad placements
+  // Replace the floor rules every request and bid is priced by
+  setFloorRules(rules) {
+    this.floorRules = [...rules];
+  }
+
+  // Set the floor for one ad placement: a rule on its ad unit that outranks the shared rules
   setFloorPrice(adUnitPath, currency, price) {
-    this.floorPrices.set(adUnitPath, {
-      currency,
-      price,
-      timestamp: Date.now()
-    });
+    const rule = {
+      id: `ad-unit:${adUnitPath}`,
+      description: `Floor set for ${adUnitPath}`,
+      priority: 100,
+      match: { adUnit: [adUnitPath] },
+      floor: price,
+      currency
+    };
+    this.floorRules = [...this.floorRules.filter(existing => existing.id !== rule.id), rule];
   }
 
-  // Add Private Marketplace (PMP) deals
-  addPMPDeal(dealId, advertiserId, price, adExchanges) {
+  // Add a deal: terms.tier is 'pg', 'pd' or 'pmp' (the default), terms.wseat and
+  // terms.wadomain restrict the buyer seats and advertiser domains that may bid on it
+  addPMPDeal(dealId, advertiserId, price, adExchanges, terms = {}) {
     this.pmpDeals.set(dealId, {
-      advertiserId,
-      price,
-      exchanges: adExchanges,
-      isActive: true,
-      timestamp: Date.now()
+      ...normalizeDeal(dealId, { ...terms, advertiserId, price, exchanges: adExchanges }),
+      timestamp: now()
     });
   }
 
-  // Main method to run real programmatic auction
-  async runRealProgrammaticAuction(adRequest, ctvProvider, contentContext) {
+  // The registered deals plus any sent with one request, which replace a registered deal of
+  // the same id for that auction only and are never kept
+  auctionDeals(requestDeals = []) {
+    const requestIds = new Set(requestDeals.map(deal => deal.dealId));
+    return [...[...this.pmpDeals.values()].filter(deal => !requestIds.has(deal.dealId)), ...requestDeals];
+  }
+
+  // Main method to run real programmatic auction; requestDeals (normalized) are offered in this auction only
+  async runRealProgrammaticAuction(
+    adRequest,
+    ctvProvider,
+    contentContext,
+    auctionRules = this.config.auction,
+    privateAuction = this.config.privateAuction,
+    requestDeals = []
+  ) {
     const auctionId = this.generateAuctionId();
-    const startTime = performance.now();
+    const startTime = now();
     
     console.log(`🚀 Starting REAL Programmatic Auction: ${auctionId}`);
     console.log(`📱 CTV Device: ${ctvProvider.name} (${ctvProvider.type})`);
@@ -132,24 +159,35 @@ export class RealProgrammaticService {
 
     try {
       // Step 1: Generate OpenRTB 2.6 bid request
-      const rtbRequest = this.generateOpenRTBRequest(adRequest, ctvProvider, contentContext, auctionId);
+      const deals = this.auctionDeals(requestDeals);
+      const rtbRequest = this.generateOpenRTBRequest(adRequest, ctvProvider, contentContext, auctionId, auctionRules, privateAuction, deals);
       
       // Step 2: Send parallel requests to all configured exchanges
-      const bidPromises = this.sendBidRequestsToExchanges(rtbRequest);
+      const bidPromises = this.sendBidRequestsToExchanges(rtbRequest, deals);
       
       // Step 3: Wait for responses with timeout
       const bidResponses = await this.collectBidResponses(bidPromises);
       
-      // Step 4: Run second-price auction with real bids
-      const auctionResult = this.conductSecondPriceAuction(bidResponses, auctionId);
+      // Step 4: Serve deals by priority, then clear under the configured mechanics with the floor the bidders were sent,
+      // raised per bid where a floor rule keys on its advertiser domain or deal
+      const auctionResult = this.conductAuction(bidResponses, auctionId, {
+        ...auctionRules,
+        floor: rtbRequest.imp[0].bidfloor
+      }, rtbRequest.imp[0].pmp, this.floorContext(adRequest, ctvProvider, contentContext));
       
-      // Step 5: If we have a winner, get the real VAST tag
+      // Step 5: Tell the winner and every loser how the auction went
+      auctionResult.notices = await dispatchAuctionNotices(auctionResult);
+      
+      // Step 6: If we have a winner, get the real VAST tag
       if (auctionResult.winner) {
         const vastTag = await this.retrieveRealVAST(auctionResult.winner);
-        auctionResult.vastXml = vastTag;
+        // Billing is due on impression, so burl rides along as one of the ad's impressions
+        const billingUrl = billingNoticeUrl(auctionResult);
+        auctionResult.billingUrl = billingUrl;
+        auctionResult.vastXml = billingUrl ? addImpressionToVast(vastTag, billingUrl) : vastTag;
       }
 
-      const endTime = performance.now();
+      const endTime = now();
       console.log(`🏆 Auction Complete: ${(endTime - startTime).toFixed(2)}ms`);
       console.log(`💰 Winner: ${auctionResult.winner?.exchange || 'No Winner'} - $${auctionResult.clearingPrice || 0} CPM`);
       
@@ -162,12 +200,20 @@ export class RealProgrammaticService {
   }
 
   // Generate OpenRTB 2.6 compliant bid request
-  generateOpenRTBRequest(adRequest, ctvProvider, contentContext, auctionId) {
+  generateOpenRTBRequest(
+    adRequest,
+    ctvProvider,
+    contentContext,
+    auctionId,
+    auctionRules = this.config.auction,
+    privateAuction = this.config.privateAuction,
+    deals = this.auctionDeals()
+  ) {
     const deviceFingerprint = this.generateDeviceFingerprint(ctvProvider);
     
     return {
       id: auctionId,
-      at: 2, // Second price auction
+      at: openRtbAuctionType(auctionRules), // 1 first price, 2 second price
       tmax: this.config.timeout,
       imp: [{
         id: "1",
@@ -193,10 +239,11 @@ export class RealProgrammaticService {
           delivery: [1, 2, 3],
           api: [1, 2, 3, 4, 5, 6, 7] // VPAID, MRAID, OMID
         },
-        bidfloor: this.getFloorPrice(adRequest.adUnitCode),
+        bidfloor: this.resolveFloor(this.floorContext(adRequest, ctvProvider, contentContext)).floor,
         bidfloorcur: "USD",
         secure: 1,
-        tagid: adRequest.adUnitCode
+        tagid: adRequest.adUnitCode,
+        pmp: buildPmp(activeDeals(deals), { privateAuction, auctionRules })
       }],
       site: {
         id: contentContext.id,
@@ -255,12 +302,11 @@ export class RealProgrammaticService {
         buyeruid: this.generateUserId()
       },
       test: 0, // Production traffic
-      source: {
-        fd: 0, // Not a direct deal
-        tid: auctionId,
-        pchain: "1.0" // Payment chain
-      },
+      source: this.buildSource(adRequest.schain, auctionId),
       regs: {
+        coppa: adRequest.coppa ? 1 : 0,
+        gpp: adRequest.gppConsent?.gppString,
+        gpp_sid: adRequest.gppConsent?.applicableSections,
         ext: {
           gdpr: adRequest.gdpr?.gdprApplies ? 1 : 0,
           us_privacy: adRequest.uspConsent || "1---"
@@ -285,8 +331,27 @@ export class RealProgrammaticService {
     };
   }
 
+  // Source object with the publisher's supply chain in both the 2.6 and 2.5 locations
+  buildSource(schain, auctionId) {
+    const source = {
+      fd: 0, // Not a direct deal
+      tid: auctionId,
+      pchain: "1.0" // Payment chain
+    };
+    if (!schain?.nodes?.length) {
+      return source;
+    }
+
+    // Nodes without their own request id take this auction's
+    const chain = {
+      ...schain,
+      nodes: schain.nodes.map(node => ({ ...node, rid: node.rid || auctionId }))
+    };
+    return { ...source, schain: chain, ext: { schain: chain } };
+  }
+
   // Send bid requests to all configured exchanges
-  async sendBidRequestsToExchanges(rtbRequest) {
+  async sendBidRequestsToExchanges(rtbRequest, deals = this.auctionDeals()) {
     const promises = [];
     
     for (const [exchangeId, exchange] of Object.entries(REAL_AD_EXCHANGES)) {
@@ -296,11 +361,11 @@ export class RealProgrammaticService {
         continue;
       }
 
-      const promise = this.sendBidRequest(exchangeId, exchange, rtbRequest, credentials)
+      const promise = this.sendBidRequest(exchangeId, exchange, this.withExchangeDeals(rtbRequest, exchangeId, deals), credentials)
         .catch(error => ({
           exchangeId,
           error: error.message,
-          timestamp: Date.now()
+          timestamp: now()
         }));
       
       promises.push(promise);
@@ -309,10 +374,25 @@ export class RealProgrammaticService {
     return promises;
   }
 
+  // Each exchange only hears about the deals it carries
+  withExchangeDeals(rtbRequest, exchangeId, deals = this.auctionDeals()) {
+    const carried = new Set(activeDeals(deals, { exchangeId }).map(deal => deal.dealId));
+    return {
+      ...rtbRequest,
+      imp: rtbRequest.imp.map(imp => {
+        if (!imp.pmp) {
+          return imp;
+        }
+        const deals = imp.pmp.deals.filter(deal => carried.has(deal.id));
+        return { ...imp, pmp: deals.length > 0 || imp.pmp.private_auction ? { ...imp.pmp, deals } : undefined };
+      })
+    };
+  }
+
   // Send individual bid request to an exchange
   async sendBidRequest(exchangeId, exchange, rtbRequest, credentials) {
     const requestId = this.generateRequestId();
-    const startTime = performance.now();
+    const startTime = now();
 
     try {
       console.log(`📤 Sending bid request to ${exchange.name}...`);
@@ -333,7 +413,7 @@ export class RealProgrammaticService {
       const response = await fetch(exchange.rtbEndpoint, requestOptions);
       const responseData = await response.json();
       
-      const responseTime = performance.now() - startTime;
+      const responseTime = now() - startTime;
       
       if (response.ok && responseData.seatbid?.length > 0) {
         console.log(`✅ ${exchange.name} responded: ${responseData.seatbid.length} bids in ${responseTime.toFixed(2)}ms`);
@@ -350,7 +430,7 @@ export class RealProgrammaticService {
             }))
           ),
           currency: responseData.cur || 'USD',
-          timestamp: Date.now()
+          timestamp: now()
         };
       } else {
         console.log(`⚠️  ${exchange.name} no bids`);
@@ -358,7 +438,7 @@ export class RealProgrammaticService {
           exchangeId,
           exchangeName: exchange.name,
           bids: [],
-          timestamp: Date.now()
+          timestamp: now()
         };
       }
 
@@ -384,8 +464,8 @@ export class RealProgrammaticService {
     }
   }
 
-  // Conduct second-price auction with real bids
-  conductSecondPriceAuction(bidResponses, auctionId) {
+  // Clear the collected bids through the deal and auction engines
+  conductAuction(bidResponses, auctionId, auctionRules, pmp, floorContext = {}) {
     const allBids = bidResponses.flatMap(response => 
       response.bids.map(bid => ({
         ...bid,
@@ -402,33 +482,39 @@ export class RealProgrammaticService {
         winner: null,
         clearingPrice: 0,
         totalBidders: 0,
-        timestamp: Date.now()
+        timestamp: now()
       };
     }
 
-    // Sort bids by price (descending)
-    allBids.sort((a, b) => b.price - a.price);
-    
-    const winner = allBids[0];
-    const runnerUp = allBids[1];
-    
-    // Second-price auction: winner pays runner-up bid + $0.01
-    const clearingPrice = runnerUp ? runnerUp.price + 0.01 : winner.price * 0.95;
+    const bidFloor = bid => this.resolveFloor({ ...floorContext, domain: bid.adomain?.[0], deal: bid.dealid });
+    const requestFloor = this.resolveFloor(floorContext);
+    console.log(`🧮 Floor rule: ${requestFloor.rule || 'none'} ($${requestFloor.floor.toFixed(2)}, ${requestFloor.daypart})`);
 
-    console.log(`🏆 Auction Winner: ${winner.exchangeName} - $${clearingPrice.toFixed(2)} CPM`);
+    const auction = runDealAuction(allBids, pmp, auctionRules, { floorOf: bid => bidFloor(bid).floor });
+    console.log(`⚖️  ${auction.explanation.summary}`);
+    auction.deals.forEach(deal => console.log(`🤝 Deal ${deal.dealId} (${deal.tier}) ${deal.status}: ${deal.reason}`));
     console.log(`📈 Total Bidders: ${allBids.length} | Average Bid: $${(allBids.reduce((sum, bid) => sum + bid.price, 0) / allBids.length).toFixed(2)}`);
 
     return {
       auctionId,
-      winner: {
-        ...winner,
-        clearingPrice
-      },
-      clearingPrice,
-      runnerUpPrice: runnerUp?.price || 0,
+      winner: auction.winner ? {
+        ...auction.winner,
+        clearingPrice: auction.clearingPrice
+      } : null,
+      clearingPrice: auction.clearingPrice,
+      currency: bidResponses[0]?.currency || 'USD',
+      runnerUpPrice: auction.runnerUpPrice,
+      floor: auction.floor,
       totalBidders: allBids.length,
-      allBids,
-      timestamp: Date.now()
+      allBids: auction.eligible,
+      losers: auction.losers,
+      explanation: auction.explanation,
+      deals: auction.deals,
+      floors: {
+        request: requestFloor,
+        winner: auction.winner ? bidFloor(auction.winner) : null
+      },
+      timestamp: now()
     };
   }
 
@@ -492,8 +578,24 @@ export class RealProgrammaticService {
   }
 
   getFloorPrice(adUnitCode) {
-    const floor = this.floorPrices.get(adUnitCode);
-    return floor ? floor.price : 0.50; // Default $0.50 CPM floor
+    return this.resolveFloor({ adUnit: adUnitCode, deviceType: 3 }).floor;
+  }
+
+  // The matching floor rule, in USD, with a trace of every rule it was chosen over
+  resolveFloor(context) {
+    return resolveFloor(context, { rules: this.floorRules, currency: 'USD' });
+  }
+
+  // What the floor rules can key on before any bid arrives; the request geo is always the US
+  floorContext(adRequest, ctvProvider, contentContext) {
+    return {
+      adUnit: adRequest.adUnitCode,
+      deviceType: 3,
+      provider: ctvProvider.type,
+      country: 'US',
+      genre: contentContext.category,
+      position: adRequest.position
+    };
   }
 
   mapContentCategory(category) {
@@ -522,18 +624,18 @@ export class RealProgrammaticService {
 
   generateAdvertisingId(deviceType) {
     switch (deviceType) {
-      case 'roku': return `ROKU_${randomBytes(8).toString('hex').toUpperCase()}`;
-      case 'samsung': return `TIFA_${randomBytes(8).toString('hex').toUpperCase()}`;
-      case 'lg': return `LGUDID_${randomBytes(8).toString('hex').toUpperCase()}`;
-      case 'firetv': return `AMAZON_${randomBytes(8).toString('hex').toUpperCase()}`;
-      case 'androidtv': return `GAID_${randomBytes(16).toString('hex')}`;
-      case 'appletv': return `IDFA_${randomBytes(16).toString('hex').toUpperCase()}`;
-      default: return `CTV_${randomBytes(8).toString('hex').toUpperCase()}`;
+      case 'roku': return `ROKU_${randomHex(8).toUpperCase()}`;
+      case 'samsung': return `TIFA_${randomHex(8).toUpperCase()}`;
+      case 'lg': return `LGUDID_${randomHex(8).toUpperCase()}`;
+      case 'firetv': return `AMAZON_${randomHex(8).toUpperCase()}`;
+      case 'androidtv': return `GAID_${randomHex(16)}`;
+      case 'appletv': return `IDFA_${randomHex(16).toUpperCase()}`;
+      default: return `CTV_${randomHex(8).toUpperCase()}`;
     }
   }
 
   generateRandomIP() {
-    return `${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}`;
+    return `${randomInt(255)}.${randomInt(255)}.${randomInt(255)}.${randomInt(255)}`;
   }
 
   extractDeviceMake(model) {
@@ -559,15 +661,15 @@ export class RealProgrammaticService {
   }
 
   generateAuctionId() {
-    return `auction_${Date.now()}_${randomBytes(8).toString('hex')}`;
+    return `auction_${now()}_${randomHex(8)}`;
   }
 
   generateRequestId() {
-    return `req_${Date.now()}_${randomBytes(6).toString('hex')}`;
+    return `req_${now()}_${randomHex(6)}`;
   }
 
   generateUserId() {
-    return randomBytes(16).toString('hex');
+    return randomHex(16);
   }
 
   generateFallbackVAST(winner) {
@@ -603,7 +705,7 @@ export class RealProgrammaticService {
     console.log('🎬 DEMO MODE: Using real Prebid bidder configurations');
     
     const auctionId = this.generateAuctionId();
-    const startTime = performance.now();
+    const startTime = now();
     
     try {
       // Import real bidder configuration
@@ -647,7 +749,7 @@ export class RealProgrammaticService {
         clearingPrice,
         vastXml: winner.vastXml,
         participatingBidders: allBids.length,
-        auctionTime: performance.now() - startTime,
+        auctionTime: now() - startTime,
         metadata: {
           realBidders: Object.keys(bidders).filter(b => bidders[b].enabled),
           demoEndpoints: ['Google Ad Manager', 'SpotX', 'JW Player'],
@@ -656,7 +758,7 @@ export class RealProgrammaticService {
         }
       };
       
-      const endTime = performance.now();
+      const endTime = now();
       console.log(`🏆 Enhanced Demo Auction Complete: ${(endTime - startTime).toFixed(2)}ms`);
       console.log(`💰 Demo Winner: ${winner.bidder || winner.source} - $${clearingPrice.toFixed(2)} CPM`);
       console.log(`📊 Total Bids: ${allBids.length} (${demoBids.length} bidders + ${demoAds.length} demo ads)`);
@@ -699,7 +801,7 @@ export class RealProgrammaticService {
   async generateBidderDemoBid(bidderName, config, adRequest, ctvProvider, contentContext) {
     // Simulate realistic bid probability (some bidders don't always bid)
     const bidProbability = this.getBidderResponseProbability(bidderName);
-    if (Math.random() > bidProbability) {
+    if (random() > bidProbability) {
       return null; // No bid from this bidder
     }
     
@@ -715,15 +817,15 @@ export class RealProgrammaticService {
       bidder: bidderName,
       cpm: finalCpm,
       vastXml,
-      creativeId: `${bidderName}_creative_${Date.now()}`,
+      creativeId: `${bidderName}_creative_${now()}`,
       advertiserDomains: this.getBidderAdvertiserDomains(bidderName),
       categories: ['IAB1', 'IAB1-5'], // Entertainment
       width: 1920,
       height: 1080,
-      dealId: Math.random() > 0.8 ? `PMP_${bidderName}_${Math.floor(Math.random() * 1000)}` : null,
+      dealId: random() > 0.8 ? `PMP_${bidderName}_${randomInt(1000)}` : null,
       metadata: {
         bidderParams: config.params,
-        responseTime: Math.floor(Math.random() * 800) + 200 // 200-1000ms
+        responseTime: randomInt(800) + 200 // 200-1000ms
       }
     };
   }
@@ -746,16 +848,16 @@ export class RealProgrammaticService {
   // Get bidder base CPM (realistic ranges per bidder)
   getBidderBaseCPM(bidderName) {
     const baseCpms = {
-      'onetag': 2.50 + Math.random() * 3.00,    // $2.50-5.50
-      'pubmatic': 1.80 + Math.random() * 4.00,  // $1.80-5.80
-      'rise': 2.20 + Math.random() * 2.50,      // $2.20-4.70
-      'appnexus': 2.00 + Math.random() * 3.50,  // $2.00-5.50
-      'rubicon': 1.90 + Math.random() * 3.80,   // $1.90-5.70
-      'sovrn': 1.50 + Math.random() * 2.00,     // $1.50-3.50
-      'amx': 2.10 + Math.random() * 2.90,       // $2.10-5.00
-      'aniview': 1.70 + Math.random() * 3.30    // $1.70-5.00
+      'onetag': 2.50 + random() * 3.00,    // $2.50-5.50
+      'pubmatic': 1.80 + random() * 4.00,  // $1.80-5.80
+      'rise': 2.20 + random() * 2.50,      // $2.20-4.70
+      'appnexus': 2.00 + random() * 3.50,  // $2.00-5.50
+      'rubicon': 1.90 + random() * 3.80,   // $1.90-5.70
+      'sovrn': 1.50 + random() * 2.00,     // $1.50-3.50
+      'amx': 2.10 + random() * 2.90,       // $2.10-5.00
+      'aniview': 1.70 + random() * 3.30    // $1.70-5.00
     };
-    return baseCpms[bidderName] || (1.50 + Math.random() * 3.00);
+    return baseCpms[bidderName] || (1.50 + random() * 3.00);
   }
 
   // Calculate bidder-specific adjustments
@@ -793,7 +895,7 @@ export class RealProgrammaticService {
     }
     
     // Time-based adjustments (primetime)
-    const hour = new Date().getHours();
+    const hour = wallClock().getUTCHours();
     if (hour >= 19 && hour <= 23) { // Primetime
       multiplier *= 1.25;
     }
@@ -815,7 +917,7 @@ export class RealProgrammaticService {
     };
     
     const brandName = bidderBrands[bidderName] || 'Demo Advertiser';
-    const adId = `${bidderName}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const adId = `${bidderName}_${now()}_${randomId(9)}`;
     
     return `<?xml version="1.0" encoding="UTF-8"?>
 <VAST version="4.0">
@@ -865,7 +967,7 @@ export class RealProgrammaticService {
     };
     
     const bidderDomains = domains[bidderName] || ['example-advertiser.com'];
-    return [bidderDomains[Math.floor(Math.random() * bidderDomains.length)]];
+    return [bidderDomains[randomInt(bidderDomains.length)]];
   }
 
   // Enhanced demo CPM calculation with bidder-aware adjustments
@@ -882,7 +984,7 @@ export class RealProgrammaticService {
     }
     
     // Time of day adjustment
-    const hour = new Date().getHours();
+    const hour = wallClock().getUTCHours();
     if (hour >= 18 && hour <= 23) {
       cpm *= 1.3; // 30% primetime premium
     } else if (hour >= 6 && hour <= 9) {
@@ -919,12 +1021,12 @@ export class RealProgrammaticService {
       auctionId,
       isDemoMode: true,
       winner: {
-        id: `fallback_${Date.now()}`,
+        id: `fallback_${now()}`,
         bidder: 'Demo Fallback',
         price: 2.50,
         adm: fallbackVast,
         vastXml: fallbackVast,
-        crid: `fallback_creative_${Date.now()}`,
+        crid: `fallback_creative_${now()}`,
         w: 1920,
         h: 1080,
         adomain: ['demo-advertiser.com'],
@@ -950,7 +1052,7 @@ export class RealProgrammaticService {
     // 1. Google Ad Manager Demo VAST
     try {
       console.log('📤 Fetching Google demo VAST...');
-      const googleDemoUrl = `https://pubads.g.doubleclick.net/gampad/ads?iu=/6062/iab_vast_samples&description_url=http%3A%2F%2Fiab.net&tfcd=0&npa=0&sz=1920x1080&gdfp_req=1&output=vast&unviewed_position_start=1&env=vp&impl=s&correlator=${Date.now()}`;
+      const googleDemoUrl = `https://pubads.g.doubleclick.net/gampad/ads?iu=/6062/iab_vast_samples&description_url=http%3A%2F%2Fiab.net&tfcd=0&npa=0&sz=1920x1080&gdfp_req=1&output=vast&unviewed_position_start=1&env=vp&impl=s&correlator=${now()}`;
       
       const response = await fetch(googleDemoUrl, {
         headers: {
@@ -966,7 +1068,7 @@ export class RealProgrammaticService {
             source: 'Google Ad Manager Demo',
             sourceId: 'google_demo',
             vastXml: vastXml,
-            cpm: 2.5 + Math.random() * 3, // $2.50-$5.50
+            cpm: 2.5 + random() * 3, // $2.50-$5.50
             adId: `google_demo_${this.generateRequestId()}`
           });
           console.log('✅ Google demo VAST retrieved');
@@ -979,7 +1081,7 @@ export class RealProgrammaticService {
     // 2. SpotX Demo VAST
     try {
       console.log('📤 Fetching SpotX demo VAST...');
-      const spotxDemoUrl = `https://search.spotxchange.com/vast/2.00/85394?cb=${Date.now()}&w=1920&h=1080`;
+      const spotxDemoUrl = `https://search.spotxchange.com/vast/2.00/85394?cb=${now()}&w=1920&h=1080`;
       
       const response = await fetch(spotxDemoUrl, {
         headers: {
@@ -995,7 +1097,7 @@ export class RealProgrammaticService {
             source: 'SpotX Demo',
             sourceId: 'spotx_demo',
             vastXml: vastXml,
-            cpm: 1.8 + Math.random() * 2.5, // $1.80-$4.30
+            cpm: 1.8 + random() * 2.5, // $1.80-$4.30
             adId: `spotx_demo_${this.generateRequestId()}`
           });
           console.log('✅ SpotX demo VAST retrieved');
@@ -1013,7 +1115,7 @@ export class RealProgrammaticService {
         source: 'VPAID Demo',
         sourceId: 'vpaid_demo',
         vastXml: vpaidVast,
-        cpm: 3.2 + Math.random() * 2, // $3.20-$5.20
+        cpm: 3.2 + random() * 2, // $3.20-$5.20
         adId: `vpaid_demo_${this.generateRequestId()}`
       });
       console.log('✅ VPAID demo VAST generated');
@@ -1031,12 +1133,12 @@ export class RealProgrammaticService {
     
     // Weight selection by CPM (higher CPM more likely to win)
     const totalWeight = demoAds.reduce((sum, ad) => sum + ad.cpm, 0);
-    const random = Math.random() * totalWeight;
+    const draw = random() * totalWeight;
     
     let currentWeight = 0;
     for (const ad of demoAds) {
       currentWeight += ad.cpm;
-      if (random <= currentWeight) {
+      if (draw <= currentWeight) {
         return ad;
       }
     }
@@ -0,0 +1,25 @@
+// Simulation Context
+// Runs each server request inside the simulation its headers ask for, so concurrent
+// sessions never share a random stream or clock
+
+import { AsyncLocalStorage, AsyncResource } from 'node:async_hooks';
+import { setSimulationResolver, simulationFromHeaders } from '../config/simulation.js';
+
+const requestSimulation = new AsyncLocalStorage();
+setSimulationResolver(() => requestSimulation.getStore());
+
+// Call handler inside the request's simulation; without the headers it runs live
+export function runWithSimulation(req, handler) {
+  const simulation = simulationFromHeaders(req.headers);
+  return simulation ? requestSimulation.run(simulation, handler) : handler();
+}
+
+// Express middleware form of runWithSimulation
+export function simulationMiddleware(req, res, next) {
+  runWithSimulation(req, next);
+}
+
+// Keep a callback in the current request's simulation; request body events fire outside it
+export function bindSimulation(callback) {
+  return AsyncResource.bind(callback);
+}
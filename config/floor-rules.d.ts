@@ -0,0 +1,42 @@
+// Types for floor-rules.js, which the server imports as plain JS and the client through these declarations
+
+export type FloorDimension = 'adUnit' | 'deviceType' | 'provider' | 'country' | 'genre' | 'position' | 'daypart' | 'domain' | 'deal';
+
+export interface FloorRule {
+  id: string;
+  description?: string;
+  priority?: number;
+  match: Partial<Record<FloorDimension, Array<string | number>>>;
+  floor: number;
+  currency?: string;
+}
+
+export type FloorContext = Partial<Record<FloorDimension, string | number>> & {
+  hour?: number; // Local hour the daypart is taken from when daypart is not given
+};
+
+export interface FloorTraceEntry {
+  ruleId: string;
+  priority: number;
+  matched: boolean;
+  applied: boolean;
+  reason: string;
+}
+
+export interface FloorResolution {
+  floor: number;
+  currency: string;
+  rule: string | null;
+  ruleFloor: { amount: number; currency: string } | null;
+  daypart: string;
+  trace: FloorTraceEntry[];
+}
+
+export const FLOOR_DIMENSIONS: FloorDimension[];
+export const CURRENCY_RATES: Record<string, number>;
+export const DAYPARTS: Array<{ name: string; from: number; to: number }>;
+export const DEFAULT_FLOOR_RULES: FloorRule[];
+
+export function daypartFor(hour?: number): string;
+export function convertCurrency(amount: number, from: string, to: string): number;
+export function resolveFloor(context: FloorContext, options?: { rules?: FloorRule[]; currency?: string }): FloorResolution;
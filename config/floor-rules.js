@@ -0,0 +1,163 @@
+// Floor Rules
+// Unified pricing rules shared by the AdX mock, the real programmatic service and the
+// ad pod optimizer: every floor comes from the highest priority rule whose conditions
+// all match, converted to the currency the caller trades in, with a trace of every rule
+
+import { wallClock } from './simulation.js';
+
+// Conditions a rule can key on. adUnit, deviceType, provider, country, genre, position and
+// daypart are known when the request goes out; domain and deal only once a bid names them.
+export const FLOOR_DIMENSIONS = ['adUnit', 'deviceType', 'provider', 'country', 'genre', 'position', 'daypart', 'domain', 'deal'];
+const BID_DIMENSIONS = ['domain', 'deal'];
+
+// Units of each currency per US dollar; rules and callers may use any of these
+export const CURRENCY_RATES = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.37,
+  AUD: 1.52,
+  JPY: 151.5
+};
+
+// TV dayparts by local hour, start inclusive
+export const DAYPARTS = [
+  { name: 'late-night', from: 0, to: 5 },
+  { name: 'morning', from: 5, to: 9 },
+  { name: 'daytime', from: 9, to: 16 },
+  { name: 'early-fringe', from: 16, to: 19 },
+  { name: 'primetime', from: 19, to: 23 },
+  { name: 'late-night', from: 23, to: 24 }
+];
+
+// Higher priority wins; on a tie the rule with more conditions, then the one listed first
+export const DEFAULT_FLOOR_RULES = [
+  {
+    id: 'default',
+    description: 'Network-wide minimum',
+    priority: 0,
+    match: {},
+    floor: 0.50,
+    currency: 'USD'
+  },
+  {
+    id: 'ctv-primetime',
+    description: 'Connected TV in primetime',
+    priority: 10,
+    match: { deviceType: [3], daypart: ['primetime'] },
+    floor: 1.50,
+    currency: 'USD'
+  },
+  {
+    id: 'midroll',
+    description: 'Mid-rolls hold the most engaged viewers',
+    priority: 20,
+    match: { position: ['midroll'] },
+    floor: 1.00,
+    currency: 'USD'
+  },
+  {
+    id: 'sports',
+    description: 'Sports content',
+    priority: 20,
+    match: { genre: ['sports'] },
+    floor: 2.25,
+    currency: 'USD'
+  },
+  {
+    id: 'uk-ctv',
+    description: 'UK connected TV, priced in sterling',
+    priority: 30,
+    match: { country: ['GB'], deviceType: [3] },
+    floor: 1.20,
+    currency: 'GBP'
+  },
+  {
+    id: 'auto-advertisers',
+    description: 'Automotive brands pay a premium',
+    priority: 40,
+    match: { domain: ['toyota.com', 'ford.com', 'bmw.com', 'tesla.com'] },
+    floor: 2.00,
+    currency: 'USD'
+  },
+  {
+    id: 'deal-premium-video',
+    description: 'Floor agreed for the premium video private auction',
+    priority: 50,
+    match: { deal: ['deal_premium_video_001'] },
+    floor: 3.50,
+    currency: 'USD'
+  }
+];
+
+export function daypartFor(hour = wallClock().getUTCHours()) {
+  return DAYPARTS.find(part => hour >= part.from && hour < part.to).name;
+}
+
+export function convertCurrency(amount, from, to) {
+  if (from === to) {
+    return amount;
+  }
+  if (!CURRENCY_RATES[from] || !CURRENCY_RATES[to]) {
+    throw new Error(`No exchange rate for ${from} to ${to}; known currencies are ${Object.keys(CURRENCY_RATES).join(', ')}`);
+  }
+  return amount / CURRENCY_RATES[from] * CURRENCY_RATES[to];
+}
+
+// The floor for one request (or one bid, when context carries domain and deal)
+export function resolveFloor(context, { rules = DEFAULT_FLOOR_RULES, currency = 'USD' } = {}) {
+  const withDaypart = { ...context, daypart: context.daypart || daypartFor(context.hour) };
+  const trace = rules.map((rule, index) => ({ rule, index, ...matchRule(rule, withDaypart) }));
+  const winner = trace
+    .filter(entry => entry.matched)
+    .sort((a, b) =>
+      (b.rule.priority || 0) - (a.rule.priority || 0) ||
+      Object.keys(b.rule.match || {}).length - Object.keys(a.rule.match || {}).length ||
+      a.index - b.index
+    )[0];
+
+  const floor = winner
+    ? Math.round(convertCurrency(winner.rule.floor, winner.rule.currency || 'USD', currency) * 100) / 100
+    : 0;
+
+  return {
+    floor,
+    currency,
+    rule: winner ? winner.rule.id : null,
+    ruleFloor: winner ? { amount: winner.rule.floor, currency: winner.rule.currency || 'USD' } : null,
+    daypart: withDaypart.daypart,
+    trace: trace.map(({ rule, matched, reason }) => ({
+      ruleId: rule.id,
+      priority: rule.priority || 0,
+      matched,
+      applied: rule === winner?.rule,
+      reason
+    }))
+  };
+}
+
+// A rule matches when every listed dimension has one of its values; strings compare case-insensitively
+function matchRule(rule, context) {
+  const conditions = Object.entries(rule.match || {});
+  for (const [dimension, allowed] of conditions) {
+    if (!FLOOR_DIMENSIONS.includes(dimension)) {
+      return { matched: false, reason: `unknown dimension ${dimension}` };
+    }
+    const value = context[dimension];
+    if (value === undefined || value === null || value === '') {
+      return {
+        matched: false,
+        reason: BID_DIMENSIONS.includes(dimension) ? `needs a bid's ${dimension}` : `no ${dimension} in the request`
+      };
+    }
+    if (!allowed.some(option => String(option).toLowerCase() === String(value).toLowerCase())) {
+      return { matched: false, reason: `${dimension} ${value} is not ${allowed.join(' or ')}` };
+    }
+  }
+  return {
+    matched: true,
+    reason: conditions.length > 0
+      ? conditions.map(([dimension]) => `${dimension}=${context[dimension]}`).join(', ')
+      : 'applies everywhere'
+  };
+}
@@ -0,0 +1,189 @@
+// Mock Bidder Fleet
+// Virtual SSPs and DSPs the test server answers as, each at its own OpenRTB endpoint
+// (/bidders/<id>/openrtb2). Keyed by Prebid bidder code, so the Prebid Server mock fans
+// out to the same bidders the Prebid demand sources name.
+//
+// Distributions are { type: 'uniform', min, max }, { type: 'normal', mean, stdDev } or
+// { type: 'lognormal', median, sigma }; latencies are in ms and prices are USD CPM before
+// the device, geo and genre multipliers. Rates are probabilities per request.
+
+// Multipliers by OpenRTB device.devicetype: 3 connected TV, 7 set top box, 1 mobile/tablet, 2 PC
+const DEVICE_MULTIPLIERS = { 3: 1.2, 7: 1.1, 1: 0.7, 2: 0.8 };
+
+// Multipliers by device.geo.country; unlisted countries use 0.5
+const GEO_MULTIPLIERS = { US: 1.0, CA: 0.85, GB: 0.8, DE: 0.75, FR: 0.7, AU: 0.75, default: 0.5 };
+
+// Multipliers by content genre, matched case-insensitively
+const GENRE_MULTIPLIERS = { sports: 1.4, news: 0.8, drama: 1.1, comedy: 1.0, kids: 0.6, animation: 0.7, documentary: 0.9 };
+
+// Advertisers a bidder draws creatives from, with the IAB categories they run under
+const ADVERTISERS = {
+  automotive: [
+    { domain: 'toyota.com', cat: ['IAB2'] },
+    { domain: 'ford.com', cat: ['IAB2'] }
+  ],
+  retail: [
+    { domain: 'amazon.com', cat: ['IAB22'] },
+    { domain: 'target.com', cat: ['IAB22'] }
+  ],
+  cpg: [
+    { domain: 'pg.com', cat: ['IAB8'] },
+    { domain: 'cocacola.com', cat: ['IAB8-5'] }
+  ],
+  finance: [
+    { domain: 'geico.com', cat: ['IAB13'] },
+    { domain: 'chase.com', cat: ['IAB13'] }
+  ],
+  tech: [
+    { domain: 'samsung.com', cat: ['IAB19'] },
+    { domain: 'apple.com', cat: ['IAB19'] }
+  ],
+  entertainment: [
+    { domain: 'netflix.com', cat: ['IAB1'] },
+    { domain: 'disneyplus.com', cat: ['IAB1'] }
+  ]
+};
+
+export const MOCK_BIDDERS = {
+  pubmatic: {
+    name: 'PubMatic',
+    seat: 'pubmatic',
+    latency: { type: 'lognormal', median: 180, sigma: 0.4 },
+    noBidRate: 0.15,
+    price: {
+      base: { type: 'lognormal', median: 9, sigma: 0.35 },
+      device: DEVICE_MULTIPLIERS,
+      geo: GEO_MULTIPLIERS,
+      genre: GENRE_MULTIPLIERS
+    },
+    advertisers: [...ADVERTISERS.retail, ...ADVERTISERS.cpg, ...ADVERTISERS.automotive],
+    durations: [15, 30],
+    deals: { participation: 0.5, uplift: 0.1 },
+    malformedRate: 0.01,
+    errors: { rate: 0.02, statuses: [500, 503] }
+  },
+  appnexus: {
+    name: 'Xandr Monetise (fna AppNexus)',
+    seat: 'appnexus',
+    latency: { type: 'lognormal', median: 220, sigma: 0.5 },
+    noBidRate: 0.2,
+    price: {
+      base: { type: 'lognormal', median: 10, sigma: 0.4 },
+      device: DEVICE_MULTIPLIERS,
+      geo: GEO_MULTIPLIERS,
+      genre: GENRE_MULTIPLIERS
+    },
+    advertisers: [...ADVERTISERS.finance, ...ADVERTISERS.tech, ...ADVERTISERS.automotive],
+    durations: [15, 30],
+    deals: { participation: 0.6, uplift: 0.15 },
+    malformedRate: 0.005,
+    errors: { rate: 0.01, statuses: [500, 502] }
+  },
+  rubicon: {
+    name: 'Magnite (fna Rubicon)',
+    seat: 'rubicon',
+    latency: { type: 'normal', mean: 250, stdDev: 60 },
+    noBidRate: 0.12,
+    price: {
+      base: { type: 'lognormal', median: 11, sigma: 0.3 },
+      device: { ...DEVICE_MULTIPLIERS, 3: 1.35 },
+      geo: GEO_MULTIPLIERS,
+      genre: { ...GENRE_MULTIPLIERS, sports: 1.6 }
+    },
+    advertisers: [...ADVERTISERS.automotive, ...ADVERTISERS.entertainment, ...ADVERTISERS.finance],
+    durations: [15, 30, 60],
+    deals: { participation: 0.7, uplift: 0.2 },
+    malformedRate: 0.005,
+    errors: { rate: 0.02, statuses: [500, 503] }
+  },
+  sovrn: {
+    name: 'Sovrn',
+    seat: 'sovrn',
+    latency: { type: 'uniform', min: 120, max: 400 },
+    noBidRate: 0.35,
+    price: {
+      base: { type: 'normal', mean: 5, stdDev: 1.5 },
+      device: DEVICE_MULTIPLIERS,
+      geo: { ...GEO_MULTIPLIERS, GB: 0.9 },
+      genre: GENRE_MULTIPLIERS
+    },
+    advertisers: [...ADVERTISERS.retail, ...ADVERTISERS.cpg],
+    durations: [15, 30],
+    deals: { participation: 0.2, uplift: 0.05 },
+    malformedRate: 0.02,
+    errors: { rate: 0.03, statuses: [500, 504] }
+  },
+  onetag: {
+    name: 'One Tag',
+    seat: 'onetag',
+    latency: { type: 'lognormal', median: 300, sigma: 0.6 },
+    noBidRate: 0.3,
+    price: {
+      base: { type: 'lognormal', median: 6.5, sigma: 0.45 },
+      device: DEVICE_MULTIPLIERS,
+      geo: { ...GEO_MULTIPLIERS, DE: 0.95, FR: 0.9 },
+      genre: GENRE_MULTIPLIERS
+    },
+    advertisers: [...ADVERTISERS.tech, ...ADVERTISERS.entertainment],
+    durations: [15, 30],
+    deals: { participation: 0.3, uplift: 0.1 },
+    malformedRate: 0.01,
+    errors: { rate: 0.02, statuses: [500] }
+  },
+  rise: {
+    name: 'Rise',
+    seat: 'rise',
+    latency: { type: 'lognormal', median: 350, sigma: 0.5 },
+    noBidRate: 0.4,
+    price: {
+      base: { type: 'normal', mean: 4.5, stdDev: 1.2 },
+      device: DEVICE_MULTIPLIERS,
+      geo: GEO_MULTIPLIERS,
+      genre: GENRE_MULTIPLIERS
+    },
+    advertisers: [...ADVERTISERS.cpg, ...ADVERTISERS.entertainment],
+    durations: [15, 30],
+    deals: { participation: 0.1, uplift: 0.05 },
+    malformedRate: 0.03,
+    errors: { rate: 0.05, statuses: [500, 503, 429] }
+  },
+  amx: {
+    name: 'Amx',
+    seat: 'amx',
+    latency: { type: 'uniform', min: 150, max: 600 },
+    noBidRate: 0.45,
+    price: {
+      base: { type: 'lognormal', median: 5.5, sigma: 0.5 },
+      device: DEVICE_MULTIPLIERS,
+      geo: GEO_MULTIPLIERS,
+      genre: GENRE_MULTIPLIERS
+    },
+    advertisers: [...ADVERTISERS.retail, ...ADVERTISERS.tech],
+    durations: [15, 30],
+    deals: { participation: 0.15, uplift: 0.05 },
+    malformedRate: 0.02,
+    errors: { rate: 0.04, statuses: [500, 502] }
+  },
+  aniview: {
+    name: 'Aniview',
+    seat: 'aniview',
+    latency: { type: 'lognormal', median: 450, sigma: 0.7 },
+    noBidRate: 0.25,
+    price: {
+      base: { type: 'lognormal', median: 7.5, sigma: 0.4 },
+      device: { ...DEVICE_MULTIPLIERS, 3: 1.3 },
+      geo: GEO_MULTIPLIERS,
+      genre: GENRE_MULTIPLIERS
+    },
+    advertisers: [...ADVERTISERS.entertainment, ...ADVERTISERS.cpg, ...ADVERTISERS.automotive],
+    durations: [6, 15, 30],
+    deals: { participation: 0.4, uplift: 0.1 },
+    malformedRate: 0.01,
+    errors: { rate: 0.03, statuses: [500, 503] }
+  }
+};
+
+// A bidder from the fleet, or undefined for an unknown id
+export function getMockBidder(id) {
+  return Object.prototype.hasOwnProperty.call(MOCK_BIDDERS, id) ? { id, ...MOCK_BIDDERS[id] } : undefined;
+}
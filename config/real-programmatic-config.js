@@ -1,6 +1,8 @@
 // Real Programmatic Exchange Configuration
 // Set up credentials and configurations for live ad exchanges
 
+import { DEFAULT_FLOOR_RULES, resolveFloor } from './floor-rules.js';
+
 export const REAL_PROGRAMMATIC_CONFIG = {
   // Global settings
   settings: {
@@ -28,8 +30,8 @@ export const REAL_PROGRAMMATIC_CONFIG = {
     pubmatic: {
       bidder: 'pubmatic',
       params: {
-        publisherId: '6117737',
-        adSlot: '165218'
+        publisherId: '165218',
+        adSlot: '6117737'
       },
       enabled: true
     },
@@ -300,14 +302,17 @@ export const REAL_PROGRAMMATIC_CONFIG = {
     }
   },
 
-  // Private Marketplace (PMP) Deals
+  // Deals by tier: 'pg' (programmatic guaranteed), 'pd' (preferred deal) or 'pmp' (private auction).
+  // price is the fixed price for PG and PD and the floor for PMP; wseat/wadomain are allow-lists.
   pmpDeals: {
     'deal_premium_video_001': {
       dealId: 'deal_premium_video_001',
+      tier: 'pmp',
       advertiserId: 'nike_brand_advertising',
       price: 3.50,
       currency: 'USD',
       exchanges: ['google_adx', 'trade_desk'],
+      wadomain: ['nike.com'],
       categories: ['sports', 'fitness'],
       targeting: {
         device: 'ctv',
@@ -320,10 +325,13 @@ export const REAL_PROGRAMMATIC_CONFIG = {
     },
     'deal_entertainment_002': {
       dealId: 'deal_entertainment_002',
+      tier: 'pd',
       advertiserId: 'disney_entertainment',
       price: 4.25,
       currency: 'USD',
       exchanges: ['google_adx', 'amazon_dsp'],
+      wseat: ['disney-dsp-seat'],
+      wadomain: ['disney.com'],
       categories: ['entertainment', 'family'],
       targeting: {
         device: 'ctv',
@@ -464,10 +472,24 @@ export function getExchangeCredentials(exchangeId) {
   return REAL_PROGRAMMATIC_CONFIG.exchangeCredentials[exchangeId] || null;
 }
 
-// Function to get floor price for ad unit
-export function getFloorPrice(adUnitPath) {
-  const floor = REAL_PROGRAMMATIC_CONFIG.floorPrices[adUnitPath];
-  return floor ? floor.price : REAL_PROGRAMMATIC_CONFIG.settings.defaultFloorPrice;
+// The shared floor rules with this config's default floor and a top-priority rule per ad unit
+export function getFloorRules(config = REAL_PROGRAMMATIC_CONFIG) {
+  return [
+    ...DEFAULT_FLOOR_RULES.map(rule => (rule.id === 'default' ? { ...rule, floor: config.settings.defaultFloorPrice } : rule)),
+    ...Object.entries(config.floorPrices).map(([adUnit, floor]) => ({
+      id: `ad-unit:${adUnit}`,
+      description: `Floor set for ${adUnit}`,
+      priority: 100,
+      match: { adUnit: [adUnit] },
+      floor: floor.price,
+      currency: floor.currency
+    }))
+  ];
+}
+
+// Function to get floor price for ad unit; context adds any other dimension the rules key on
+export function getFloorPrice(adUnitPath, context = {}) {
+  return resolveFloor({ ...context, adUnit: adUnitPath }, { rules: getFloorRules() }).floor;
 }
 
 // Function to get active PMP deals
@@ -0,0 +1,31 @@
+// Types for simulation.js, which the server imports as plain JS and the client through these declarations
+
+export interface Simulation {
+  seed: string;
+  random(): number;
+  now(): number;
+  advance(ms: number): number;
+  requestSeed(): string;
+}
+
+export const SIMULATION_EPOCH: number;
+export const SIMULATION_HEADERS: { seed: string; time: string };
+
+export function hashSeed(seed: string): number;
+export function createSimulation(seed: string | number, options?: { startTime?: number }): Simulation;
+export function startSimulation(seed: string | null | undefined, options?: { startTime?: number }): Simulation | null;
+export function setSimulationResolver(resolver: () => Simulation | null | undefined): void;
+export function activeSimulation(): Simulation | null;
+
+export function random(): number;
+export function randomInt(max: number): number;
+export function randomId(length?: number): string;
+export function randomHex(bytes: number): string;
+export function randomUuid(): string;
+export function now(): number;
+export function currentDate(): Date;
+export function wallClock(date?: Date): Date;
+export function sleep(ms: number): Promise<void>;
+
+export function simulationHeaders(): Record<string, string>;
+export function simulationFromHeaders(headers?: Record<string, string | string[] | undefined>): Simulation | null;
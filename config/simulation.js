@@ -0,0 +1,156 @@
+// Simulation
+// Seeded random numbers and a simulated clock shared by the servers and the player. With a
+// seed set, the same seed and config replay the same request → auction → VAST → playback run;
+// with none, everything falls back to Math.random, Date.now and real timers
+
+// Simulated runs start here: a Monday evening (20:00 UTC, the wall clock of a simulation), so
+// daypart floor rules see primetime
+export const SIMULATION_EPOCH = Date.UTC(2025, 0, 6, 20, 0, 0);
+
+// The player hands each server request its own seed and the simulated time it was sent at
+export const SIMULATION_HEADERS = {
+  seed: 'X-Simulation-Seed',
+  time: 'X-Simulation-Time'
+};
+
+const ID_ALPHABET = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// FNV-1a, so any string works as a seed
+export function hashSeed(seed) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// One session's PRNG (mulberry32) and clock. The clock only moves when the run sleeps or
+// advances it, so measured durations come out the same on every replay.
+export function createSimulation(seed, { startTime = SIMULATION_EPOCH } = {}) {
+  let state = hashSeed(String(seed));
+  let time = startTime;
+
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed: String(seed),
+    random,
+    now: () => time,
+    advance: (ms) => {
+      time += Math.max(0, Math.round(ms));
+      return time;
+    },
+    // A seed for one request, drawn from this session's stream
+    requestSeed: () => `${seed}:${Math.floor(random() * 4294967296).toString(36)}`
+  };
+}
+
+let sessionSimulation = null;
+let resolveSimulation = () => sessionSimulation;
+
+// Start a seeded session, or end it with an empty seed; starting again with the same seed replays
+export function startSimulation(seed, options) {
+  sessionSimulation = seed === undefined || seed === null || seed === '' ? null : createSimulation(seed, options);
+  return sessionSimulation;
+}
+
+// Servers handle many sessions at once and look the simulation up per request instead
+export function setSimulationResolver(resolver) {
+  resolveSimulation = resolver;
+}
+
+export function activeSimulation() {
+  return resolveSimulation() || null;
+}
+
+export function random() {
+  const simulation = activeSimulation();
+  return simulation ? simulation.random() : Math.random();
+}
+
+// Integer in [0, max)
+export function randomInt(max) {
+  return Math.floor(random() * max);
+}
+
+export function randomId(length = 9) {
+  let id = '';
+  for (let i = 0; i < length; i++) {
+    id += ID_ALPHABET[randomInt(ID_ALPHABET.length)];
+  }
+  return id;
+}
+
+export function randomHex(bytes) {
+  const values = new Uint8Array(bytes);
+  if (activeSimulation()) {
+    values.forEach((_, index) => { values[index] = randomInt(256); });
+  } else {
+    globalThis.crypto.getRandomValues(values);
+  }
+  return Array.from(values, value => value.toString(16).padStart(2, '0')).join('');
+}
+
+// Version 4 layout, so it passes wherever a UUID is expected
+export function randomUuid() {
+  const hex = randomHex(16);
+  const variant = (8 + randomInt(4)).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+export function now() {
+  const simulation = activeSimulation();
+  return simulation ? simulation.now() : Date.now();
+}
+
+export function currentDate() {
+  return new Date(now());
+}
+
+// The wall-clock reading of date, to be read with the getUTC* methods: UTC while a seed is
+// active, so dayparts and timestamps replay the same on every machine, local time otherwise
+export function wallClock(date = currentDate()) {
+  return activeSimulation()
+    ? new Date(date.getTime())
+    : new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+}
+
+// Wait for real, or move the simulated clock on and carry on at once
+export function sleep(ms) {
+  const simulation = activeSimulation();
+  if (simulation) {
+    simulation.advance(ms);
+    return Promise.resolve();
+  }
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Headers that carry the session into a simulator server request; empty outside a simulation
+export function simulationHeaders() {
+  const simulation = activeSimulation();
+  if (!simulation) {
+    return {};
+  }
+  return {
+    [SIMULATION_HEADERS.seed]: simulation.requestSeed(),
+    [SIMULATION_HEADERS.time]: String(simulation.now())
+  };
+}
+
+// The simulation a server request asked for, or null; header names may arrive in any case
+export function simulationFromHeaders(headers = {}) {
+  const header = name => headers[name] ?? headers[name.toLowerCase()];
+  const seed = header(SIMULATION_HEADERS.seed);
+  if (!seed) {
+    return null;
+  }
+  const time = Number(header(SIMULATION_HEADERS.time));
+  return createSimulation(seed, { startTime: Number.isFinite(time) && time > 0 ? time : SIMULATION_EPOCH });
+}
@@ -374,6 +374,11 @@ const AdPodOptimizerConfigPanel: React.FC = () => {
                       <span className="text-sm font-medium">
                         Pod #{podHistory.length - index}
                       </span>
+                      {result.source === 'vast-pod' && (
+                        <span className="text-xs px-1.5 py-0.5 rounded bg-ctv-blue/20 text-ctv-blue">
+                          VAST pod
+                        </span>
+                      )}
                     </div>
                     <span className="text-sm font-bold text-green-400">
                       ${result.totalRevenue.toFixed(3)}
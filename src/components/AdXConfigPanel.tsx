@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { AdXConfig, PALConfig, CTVProvider, AdXRequest } from '../types';
-import { parseVastXml, fireTrackingPixel } from '../utils/vastParser';
+import { AdXConfig, PALConfig, CTVProvider, AdXRequest, AuctionRules, DealOutcome } from '../types';
+import { fireTrackingPixel } from '../utils/vastParser';
+import { collectMacroIssues } from '../utils/vastMacros';
+import { describeVastError, fireVastError } from '../utils/vastErrors';
+import { resolveVastXml } from '../utils/vastWrapperResolver';
 import { useStore } from '../store/useStore';
+import { simulatorHeaders } from '../utils/simulation';
 import { AlertTriangle, CheckCircle } from 'lucide-react';
 
 interface AdXConfigPanelProps {
@@ -10,7 +14,7 @@ interface AdXConfigPanelProps {
 }
 
 const AdXConfigPanel: React.FC<AdXConfigPanelProps> = ({ onConfigChange, onTestRequest }) => {
-  const { playAdCreative, addLog } = useStore();
+  const { playAdCreative, addLog, ctvConfig } = useStore();
   const [adxConfig, setAdXConfig] = useState<AdXConfig>({
     publisherId: '22106938864',
     adUnitPath: '/22106938864,22966701315/failarmy-auth-ctv-android',
@@ -20,6 +24,12 @@ const AdXConfigPanel: React.FC<AdXConfigPanelProps> = ({ onConfigChange, onTestR
     contentPageUrl: 'https://failarmy.com',
     videoPosition: 'preroll',
     omidPartnerName: 'FailArmy',
+    auction: {
+      type: 'first-price',
+      floor: 0,
+      softFloor: 0,
+      increment: 0.01
+    },
     palConfig: {
       descriptionUrl: 'https://failarmy.com',
       privacyPolicy: 'https://failarmy.com/privacy-policy',
@@ -61,6 +71,16 @@ const AdXConfigPanel: React.FC<AdXConfigPanelProps> = ({ onConfigChange, onTestR
     }));
   };
 
+  const handleAuctionChange = (field: keyof AuctionRules, value: any) => {
+    setAdXConfig(prev => ({
+      ...prev,
+      auction: {
+        ...prev.auction!,
+        [field]: value
+      }
+    }));
+  };
+
   const handlePALConfigChange = (field: keyof PALConfig, value: any) => {
     const updatedConfig = {
       ...adxConfig,
@@ -101,10 +121,12 @@ const AdXConfigPanel: React.FC<AdXConfigPanelProps> = ({ onConfigChange, onTestR
         }
       };
 
-      const response = await fetch('http://localhost:8081/api/adx/request', {
+      const endpoint = 'http://localhost:8081/api/adx/request';
+      const response = await fetch(endpoint, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          ...simulatorHeaders(endpoint)
         },
         body: JSON.stringify({
           adxConfig: adxConfig,
@@ -118,7 +140,25 @@ const AdXConfigPanel: React.FC<AdXConfigPanelProps> = ({ onConfigChange, onTestR
       
       // Parse VAST and trigger ad playback if successful
       if (result.ads && result.ads.length > 0 && result.ads[0].vastXml) {
-        const vastResponse = parseVastXml(result.ads[0].vastXml);
+        const { response: vastResponse, chain } = await resolveVastXml(result.ads[0].vastXml);
+        
+        if (chain.hops.length > 1) {
+          addLog({
+            level: 'info',
+            message: `🔗 Followed ${chain.hops.length - 1} VAST wrapper hop(s) in ${chain.totalLatency}ms`,
+            details: { urls: chain.urls }
+          });
+        }
+        
+        chain.errors.forEach((vastError) => {
+          fireVastError(vastError, { config: ctvConfig, breakPosition: 1 });
+          addLog({
+            level: vastError.code === 303 ? 'warning' : 'error',
+            message: `⛔ ${describeVastError(vastError.code)} - ${vastError.message}`,
+            vastErrorCode: vastError.code,
+            details: { stage: vastError.stage, url: vastError.url }
+          });
+        });
         
         if (vastResponse && vastResponse.ads.length > 0) {
           const adCreative = vastResponse.ads[0];
@@ -134,9 +174,18 @@ const AdXConfigPanel: React.FC<AdXConfigPanelProps> = ({ onConfigChange, onTestR
           });
           
           // Fire impression tracking
-          adCreative.trackingEvents.impression.forEach(url => {
-            fireTrackingPixel(url, 'impression');
-          });
+          const macroIssues = collectMacroIssues(
+            adCreative.trackingEvents.impression.map(url =>
+              fireTrackingPixel(url, 'impression', { config: ctvConfig, ad: adCreative, breakPosition: 1 })
+            )
+          );
+          if (macroIssues) {
+            addLog({
+              level: 'warning',
+              message: '🧩 impression tracking fired with unresolved VAST macros',
+              details: macroIssues
+            });
+          }
           
           // Trigger ad playback
           playAdCreative(adCreative);
@@ -264,6 +313,69 @@ const AdXConfigPanel: React.FC<AdXConfigPanelProps> = ({ onConfigChange, onTestR
             </label>
           </div>
         </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Auction Type
+            </label>
+            <select
+              value={adxConfig.auction?.type}
+              onChange={(e) => handleAuctionChange('type', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="first-price">First price</option>
+              <option value="second-price">Second price</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Hard Floor (CPM)
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={adxConfig.auction?.floor ?? 0}
+              onChange={(e) => handleAuctionChange('floor', parseFloat(e.target.value) || 0)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Soft Floor (CPM)
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={adxConfig.auction?.softFloor ?? 0}
+              disabled={adxConfig.auction?.type !== 'second-price'}
+              onChange={(e) => handleAuctionChange('softFloor', parseFloat(e.target.value) || 0)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Bid Increment (CPM)
+            </label>
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={typeof adxConfig.auction?.increment === 'number' ? adxConfig.auction.increment : 0.01}
+              disabled={adxConfig.auction?.type !== 'second-price'}
+              onChange={(e) => handleAuctionChange('increment', parseFloat(e.target.value) || 0.01)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Bids under the hard floor are rejected. In a second-price auction a winner under the soft floor pays its own bid; above it, the higher of the soft floor and the runner-up plus the increment.
+        </p>
       </div>
 
       {/* Enhanced PAL Configuration */}
@@ -394,6 +506,17 @@ const AdXConfigPanel: React.FC<AdXConfigPanelProps> = ({ onConfigChange, onTestR
                             <p className="font-bold">${lastTestResult.ads[0].auction.averageBid?.toFixed(2)}</p>
                           </div>
                         </div>
+                        {lastTestResult.ads[0].auction.clearing && (
+                          <div className="mt-2 text-xs">
+                            <p className="opacity-75">Clearing ({lastTestResult.ads[0].auction.clearing.mechanics}, min to win ${lastTestResult.ads[0].auction.clearing.minToWin.toFixed(2)})</p>
+                            <p>{lastTestResult.ads[0].auction.clearing.summary}</p>
+                          </div>
+                        )}
+                        {lastTestResult.ads[0].auction.deals?.map((deal: DealOutcome) => (
+                          <p key={deal.dealId} className="mt-1 text-xs">
+                            🤝 {deal.dealId} ({deal.tier.toUpperCase()}) {deal.status}: {deal.reason}
+                          </p>
+                        ))}
                       </div>
                     )}
 
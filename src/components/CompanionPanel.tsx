@@ -0,0 +1,87 @@
+import React, { useEffect } from 'react';
+import { CompanionPlacement, PlacedCompanion } from '../utils/companionAds';
+import { VastCompanion } from '../utils/vastParser';
+
+interface CompanionPanelProps {
+  placement: CompanionPlacement;
+  onView: (companion: VastCompanion) => void;
+  onClick: (companion: VastCompanion) => void;
+}
+
+const CompanionPanel: React.FC<CompanionPanelProps> = ({ placement, onView, onClick }) => {
+  // creativeView fires once per companion when it is first rendered
+  useEffect(() => {
+    placement.placed.forEach(({ companion }) => onView(companion));
+  }, [placement]);
+
+  if (placement.placed.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-80 shrink-0 bg-ctv-dark border-l border-gray-700 p-3 flex flex-col gap-3 overflow-y-auto">
+      <div className="text-xs text-gray-400 uppercase tracking-wide">
+        Companion Ads ({placement.required === 'none' ? 'optional' : `required: ${placement.required}`})
+      </div>
+      {placement.placed.map(placed => (
+        <CompanionSlotView
+          key={`${placed.slot.id}-${placed.companion.id || placed.companion.width}`}
+          placed={placed}
+          onClick={onClick}
+        />
+      ))}
+    </div>
+  );
+};
+
+const CompanionSlotView: React.FC<{ placed: PlacedCompanion; onClick: (companion: VastCompanion) => void }> = ({
+  placed,
+  onClick
+}) => {
+  const { slot, companion, resource } = placed;
+  const clickable = Boolean(companion.clickThrough);
+
+  const handleClick = () => {
+    if (!clickable) return;
+    onClick(companion);
+  };
+
+  return (
+    <div>
+      <div className="text-xs text-gray-500 mb-1">
+        {slot.label} · {companion.width}x{companion.height}
+      </div>
+      <div
+        className={`relative bg-ctv-gray rounded overflow-hidden ${clickable ? 'cursor-pointer' : ''}`}
+        style={{ aspectRatio: `${companion.width} / ${companion.height}`, maxWidth: slot.width }}
+        onClick={handleClick}
+      >
+        {resource.kind === 'static' && (
+          <img
+            src={resource.content}
+            alt={companion.altText || 'Companion ad'}
+            className="w-full h-full object-contain"
+          />
+        )}
+        {resource.kind === 'html' && (
+          <iframe
+            title={companion.id || 'companion'}
+            srcDoc={resource.content}
+            sandbox="allow-scripts"
+            className="w-full h-full border-0 pointer-events-none"
+          />
+        )}
+        {resource.kind === 'iframe' && (
+          <iframe
+            title={companion.id || 'companion'}
+            src={resource.content}
+            sandbox="allow-scripts allow-same-origin"
+            className="w-full h-full border-0 pointer-events-none"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompanionPanel;
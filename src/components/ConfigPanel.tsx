@@ -1,12 +1,22 @@
 import React, { useState } from 'react';
-import { Settings, Globe, Tv, Shield, Zap } from 'lucide-react';
+import { Settings, Globe, Tv, Shield, Zap, Link2, Fingerprint, Dices } from 'lucide-react';
 import { useStore } from '../store/useStore';
 import { SSP_ENDPOINTS } from '../utils/adRequests';
+import { DEVICE_MEDIA_PROFILES, DeviceType } from '../utils/mediaSelector';
 import PrebidConfigPanel from './PrebidConfigPanel';
+import SupplyChainPanel from './SupplyChainPanel';
+import IdentityPanel from './IdentityPanel';
+import TCFConsentPanel from './TCFConsentPanel';
+import SimulationPanel from './SimulationPanel';
+import { buildPrivacySignals, getPrivacyScenario, PRIVACY_SCENARIOS } from '../utils/gppConsent';
+import { evaluateActivities } from '../utils/consentEnforcement';
+import { PodSpec } from '../types';
 
 const ConfigPanel: React.FC = () => {
   const { ctvConfig, setCtvConfig } = useStore();
-  const [activeTab, setActiveTab] = useState<'device' | 'geo' | 'ads' | 'prebid' | 'privacy'>('device');
+  const [activeTab, setActiveTab] = useState<'device' | 'geo' | 'ads' | 'prebid' | 'supply' | 'identity' | 'privacy' | 'simulation'>('device');
+  const privacyScenario = getPrivacyScenario(ctvConfig.privacyScenario);
+  const privacySignals = buildPrivacySignals(ctvConfig);
 
   const userAgentPresets = [
     {
@@ -27,6 +37,17 @@ const ConfigPanel: React.FC = () => {
     }
   ];
 
+  const podSpec = ctvConfig.podSpec;
+
+  const updatePodSpec = (updates: Partial<PodSpec>) => {
+    if (!podSpec) return;
+    setCtvConfig({ podSpec: { ...podSpec, ...updates } });
+  };
+
+  // "15, 30" -> [15, 30]
+  const parseDurations = (value: string): number[] =>
+    value.split(',').map(part => parseInt(part.trim(), 10)).filter(duration => duration > 0);
+
   const ukIpPresets = [
     '91.245.227.10', // London
     '86.157.71.42',  // Manchester
@@ -48,7 +69,10 @@ const ConfigPanel: React.FC = () => {
           { id: 'geo', label: 'Geo', icon: Globe },
           { id: 'ads', label: 'Ads', icon: Settings },
           { id: 'prebid', label: 'Prebid', icon: Zap },
-          { id: 'privacy', label: 'Privacy', icon: Shield }
+          { id: 'supply', label: 'Supply', icon: Link2 },
+          { id: 'identity', label: 'Identity', icon: Fingerprint },
+          { id: 'privacy', label: 'Privacy', icon: Shield },
+          { id: 'simulation', label: 'Seed', icon: Dices }
         ].map(({ id, label, icon: Icon }) => (
           <button
             key={id}
@@ -99,6 +123,36 @@ const ConfigPanel: React.FC = () => {
               <option value={7}>Set Top Box</option>
             </select>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Media Capability Profile</label>
+            <select
+              value={ctvConfig.providerType || 'other'}
+              onChange={(e) => setCtvConfig({ providerType: e.target.value as DeviceType })}
+              className="w-full bg-ctv-dark border border-gray-600 rounded-md px-3 py-2 text-sm"
+            >
+              {Object.values(DEVICE_MEDIA_PROFILES).map((profile) => (
+                <option key={profile.type} value={profile.type}>
+                  {profile.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Simulated Bandwidth: {((ctvConfig.bandwidthKbps || 0) / 1000).toFixed(1)} Mbps
+            </label>
+            <input
+              type="range"
+              min={500}
+              max={50000}
+              step={500}
+              value={ctvConfig.bandwidthKbps || 15000}
+              onChange={(e) => setCtvConfig({ bandwidthKbps: parseInt(e.target.value) })}
+              className="w-full"
+            />
+          </div>
         </div>
       )}
 
@@ -216,6 +270,139 @@ const ConfigPanel: React.FC = () => {
               className="w-full bg-ctv-dark border border-gray-600 rounded-md px-3 py-2 text-sm"
             />
           </div>
+
+          <div className="border-t border-gray-600 pt-4 space-y-3">
+            <div>
+              <label className="block text-sm font-medium mb-2">Ad Pod (OpenRTB 2.6)</label>
+              <select
+                value={podSpec?.type || ''}
+                onChange={(e) => {
+                  const type = e.target.value as PodSpec['type'] | '';
+                  setCtvConfig({
+                    podSpec: type === 'dynamic'
+                      ? { type, podDuration: 120, maxSequence: 4, podSequence: 0, dedupe: [1, 2] }
+                      : type === 'structured'
+                        ? { type, podSequence: 0, slots: [{ requiredDurations: [15] }, { requiredDurations: [30] }, { requiredDurations: [15] }], dedupe: [1, 2] }
+                        : undefined
+                  });
+                }}
+                className="w-full bg-ctv-dark border border-gray-600 rounded-md px-3 py-2 text-sm"
+              >
+                <option value="">Single ad (no pod)</option>
+                <option value="dynamic">Dynamic pod</option>
+                <option value="structured">Structured pod</option>
+              </select>
+            </div>
+
+            {podSpec && (
+              <div>
+                <label className="block text-sm font-medium mb-2">Pod Position (podseq)</label>
+                <select
+                  value={podSpec.podSequence ?? 0}
+                  onChange={(e) => updatePodSpec({ podSequence: parseInt(e.target.value, 10) as PodSpec['podSequence'] })}
+                  className="w-full bg-ctv-dark border border-gray-600 rounded-md px-3 py-2 text-sm"
+                >
+                  <option value={1}>First pod in content</option>
+                  <option value={0}>Any pod</option>
+                  <option value={-1}>Last pod in content</option>
+                </select>
+              </div>
+            )}
+
+            {podSpec?.type === 'dynamic' && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Pod duration (poddur, s)</label>
+                  <input
+                    type="number"
+                    min={5}
+                    value={podSpec.podDuration ?? 120}
+                    onChange={(e) => updatePodSpec({ podDuration: parseInt(e.target.value, 10) || undefined })}
+                    className="w-full bg-ctv-dark border border-gray-600 rounded-md px-3 py-2 text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Max ads (maxseq)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={podSpec.maxSequence ?? ''}
+                    onChange={(e) => updatePodSpec({ maxSequence: parseInt(e.target.value, 10) || undefined })}
+                    className="w-full bg-ctv-dark border border-gray-600 rounded-md px-3 py-2 text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Required durations (rqddurs)</label>
+                  <input
+                    type="text"
+                    defaultValue={(podSpec.requiredDurations || []).join(', ')}
+                    onBlur={(e) => updatePodSpec({ requiredDurations: parseDurations(e.target.value) })}
+                    placeholder="15, 30"
+                    className="w-full bg-ctv-dark border border-gray-600 rounded-md px-3 py-2 text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Min CPM / second</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    value={podSpec.minCpmPerSec ?? ''}
+                    onChange={(e) => updatePodSpec({ minCpmPerSec: parseFloat(e.target.value) || undefined })}
+                    className="w-full bg-ctv-dark border border-gray-600 rounded-md px-3 py-2 text-sm"
+                  />
+                </div>
+              </div>
+            )}
+
+            {podSpec?.type === 'structured' && (
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Slot durations (one impression per slot, s, applied on blur)</label>
+                <input
+                  type="text"
+                  defaultValue={(podSpec.slots || []).map(slot => slot.requiredDurations?.[0] ?? slot.maxDuration ?? '').join(', ')}
+                  onBlur={(e) => updatePodSpec({
+                    slots: parseDurations(e.target.value).map(duration => ({ requiredDurations: [duration] }))
+                  })}
+                  placeholder="15, 30, 15"
+                  className="w-full bg-ctv-dark border border-gray-600 rounded-md px-3 py-2 text-sm"
+                />
+              </div>
+            )}
+
+            {podSpec && (
+              <div className="flex gap-4 text-xs text-gray-300">
+                {[{ value: 1, label: 'Dedupe advertiser' }, { value: 2, label: 'Dedupe category' }].map(option => (
+                  <label key={option.value} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={(podSpec.dedupe || []).includes(option.value)}
+                      onChange={(e) => updatePodSpec({
+                        dedupe: e.target.checked
+                          ? [...(podSpec.dedupe || []), option.value].sort()
+                          : (podSpec.dedupe || []).filter(value => value !== option.value)
+                      })}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="border-t border-gray-600 pt-4">
+            <label className="block text-sm font-medium mb-2">VMAP Playlist URL</label>
+            <input
+              type="url"
+              value={ctvConfig.vmapUrl || ''}
+              onChange={(e) => setCtvConfig({ vmapUrl: e.target.value })}
+              placeholder="http://localhost:8081/vmap"
+              className="w-full bg-ctv-dark border border-gray-600 rounded-md px-3 py-2 text-sm"
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              When set, ad breaks fire from the VMAP schedule instead of the fixed pre-roll and 30s mid-roll.
+            </p>
+          </div>
         </div>
       )}
 
@@ -224,11 +411,26 @@ const ConfigPanel: React.FC = () => {
         <PrebidConfigPanel />
       )}
 
+      {/* Supply Tab */}
+      {activeTab === 'supply' && (
+        <SupplyChainPanel />
+      )}
+
+      {/* Identity Tab */}
+      {activeTab === 'identity' && (
+        <IdentityPanel />
+      )}
+
+      {/* Simulation Tab */}
+      {activeTab === 'simulation' && (
+        <SimulationPanel />
+      )}
+
       {/* Privacy Tab */}
       {activeTab === 'privacy' && (
         <div className="space-y-4">
           <div className="flex items-center justify-between">
-            <label className="text-sm font-medium">GDPR Consent</label>
+            <label className="text-sm font-medium">GDPR Applies</label>
             <button
               onClick={() => setCtvConfig({ gdprConsent: !ctvConfig.gdprConsent })}
               className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
@@ -244,17 +446,40 @@ const ConfigPanel: React.FC = () => {
           </div>
 
           {ctvConfig.gdprConsent && (
-            <div>
-              <label className="block text-sm font-medium mb-2">TCF Consent String</label>
-              <input
-                type="text"
-                value={ctvConfig.tcfString || ''}
-                onChange={(e) => setCtvConfig({ tcfString: e.target.value })}
-                placeholder="CPXxRfAPXxRfAAfKABENB-CgAAAAAAAAAAYgAAAAAAAA"
-                className="w-full bg-ctv-dark border border-gray-600 rounded-md px-3 py-2 text-sm font-mono"
-              />
-            </div>
+            <TCFConsentPanel />
           )}
+
+          <div>
+            <label className="block text-sm font-medium mb-2">US / Canada Privacy Scenario</label>
+            <select
+              value={privacyScenario.id}
+              onChange={(e) => setCtvConfig({ privacyScenario: e.target.value })}
+              className="w-full bg-ctv-dark border border-gray-600 rounded-md px-3 py-2 text-sm"
+            >
+              {PRIVACY_SCENARIOS.map(scenario => (
+                <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-400 mt-1">{privacyScenario.description}</p>
+          </div>
+
+          <div className="bg-ctv-dark rounded-lg p-3 text-xs space-y-1">
+            <div className="font-medium text-sm mb-1">Signals sent with every request</div>
+            <div>regs.coppa: {privacySignals.coppa}</div>
+            <div>regs.gdpr: {privacySignals.gdpr}</div>
+            <div>regs.us_privacy: <span className="font-mono">{privacySignals.usPrivacy}</span></div>
+            <div>regs.gpp_sid: {privacySignals.gppSid ? privacySignals.gppSid.join(', ') : 'none'}</div>
+            <div className="font-mono break-all text-gray-300">regs.gpp: {privacySignals.gpp || 'none'}</div>
+          </div>
+
+          <div className="bg-ctv-dark rounded-lg p-3 text-xs space-y-1">
+            <div className="font-medium text-sm mb-1">Enforcement before sending</div>
+            {evaluateActivities(ctvConfig).map(decision => (
+              <div key={decision.activity} className={decision.allowed ? 'text-ctv-green' : 'text-ctv-yellow'}>
+                {decision.activity}: {decision.allowed ? 'allowed' : decision.reason}
+              </div>
+            ))}
+          </div>
         </div>
       )}
     </div>
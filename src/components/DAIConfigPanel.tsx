@@ -9,6 +9,7 @@ import {
 } from '../types';
 import { daiService } from '../utils/daiService';
 import { useStore } from '../store/useStore';
+import { currentDate, now } from '../utils/simulation';
 
 interface DAIConfigPanelProps {
   onConfigChange: (config: DAIConfig) => void;
@@ -58,7 +59,7 @@ const DAIConfigPanel: React.FC<DAIConfigPanelProps> = ({ onConfigChange, onStrea
       'unviewed_position_start': '1',
       'url': 'https://example.com/dai-content',
       'description_url': 'https://example.com/content-description',
-      'correlator': Date.now().toString()
+      'correlator': now().toString()
     }
   });
 
@@ -242,7 +243,7 @@ const DAIConfigPanel: React.FC<DAIConfigPanelProps> = ({ onConfigChange, onStrea
         description: key.description,
         createdAt: key.createdAt
       })),
-      timestamp: new Date().toISOString()
+      timestamp: currentDate().toISOString()
     };
 
     const dataStr = JSON.stringify(exportData, null, 2);
@@ -0,0 +1,143 @@
+import React from 'react';
+import { AlertTriangle, Fingerprint } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { DEFAULT_IDENTITY_CONFIG, EID_SOURCES, eidsForBidder, permitEids, resolveIdentity } from '../utils/identity';
+import { evaluateActivities } from '../utils/consentEnforcement';
+import { EidSourceId, IdentityConfig, PrebidDemandSource } from '../types';
+
+const SOURCE_IDS = Object.keys(EID_SOURCES) as EidSourceId[];
+
+const IdentityPanel: React.FC = () => {
+  const { ctvConfig, setCtvConfig } = useStore();
+  const identityConfig = ctvConfig.identity || DEFAULT_IDENTITY_CONFIG;
+  const identity = resolveIdentity(ctvConfig);
+  const demandSources = ctvConfig.prebidServerConfig?.demandSources || [];
+  const { eids, eidpermissions } = permitEids(identity.eids, demandSources);
+  const eidsDenied = evaluateActivities(ctvConfig).find(decision => decision.activity === 'transmitEids' && !decision.allowed);
+
+  const updateIdentity = (updates: Partial<IdentityConfig>) => {
+    setCtvConfig({ identity: { ...identityConfig, ...updates } });
+  };
+
+  const toggleSource = (sourceId: EidSourceId) => {
+    const enabled = identityConfig.enabledSources;
+    updateIdentity({
+      enabledSources: enabled.includes(sourceId) ? enabled.filter(id => id !== sourceId) : [...enabled, sourceId]
+    });
+  };
+
+  const isPermitted = (source: PrebidDemandSource, sourceId: EidSourceId) =>
+    !source.eidPermissions || source.eidPermissions.includes(sourceId);
+
+  // A bidder allowed every source goes back to having no list at all
+  const togglePermission = (bidder: string, sourceId: EidSourceId) => {
+    if (!ctvConfig.prebidServerConfig) return;
+    const updatedSources = demandSources.map((source) => {
+      if (source.bidder !== bidder) return source;
+      const current = source.eidPermissions || SOURCE_IDS;
+      const next = current.includes(sourceId) ? current.filter(id => id !== sourceId) : [...current, sourceId];
+      return { ...source, eidPermissions: next.length === SOURCE_IDS.length ? undefined : next };
+    });
+    setCtvConfig({ prebidServerConfig: { ...ctvConfig.prebidServerConfig, demandSources: updatedSources } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-2">Local Salt</label>
+        <input
+          type="text"
+          value={identityConfig.salt}
+          onChange={(e) => updateIdentity({ salt: e.target.value })}
+          className="w-full bg-ctv-dark border border-gray-600 rounded-md px-3 py-2 text-sm font-mono"
+        />
+        <p className="text-xs text-gray-400 mt-1">
+          Every ID is derived from this salt and the device IP; change it to rotate the whole graph
+        </p>
+      </div>
+
+      <div className="bg-ctv-dark rounded-lg p-3 text-xs space-y-1">
+        <h4 className="text-sm font-medium flex items-center gap-2 mb-1">
+          <Fingerprint className="w-4 h-4" />
+          ID Graph
+        </h4>
+        <div>Household <span className="font-mono text-gray-300">{identity.householdId}</span> (IP {ctvConfig.ip})</div>
+        <div>Person <span className="font-mono text-gray-300">{identity.personId}</span></div>
+        <div>
+          Device IFA <span className="font-mono text-gray-300">{identity.ifa}</span>
+          {' '}sent as ifa_type <span className="font-mono text-ctv-blue">{identity.ifaType}</span>
+          {' '}({ctvConfig.providerType || 'other'})
+        </div>
+      </div>
+
+      <div className="bg-ctv-dark rounded-lg p-3 text-xs space-y-2">
+        <div className="font-medium text-sm">EID Sources</div>
+        {SOURCE_IDS.map((sourceId) => {
+          const definition = EID_SOURCES[sourceId];
+          const eid = identity.eids.find(entry => entry.source === definition.source);
+          return (
+            <label key={sourceId} className="flex items-start gap-2">
+              <input
+                type="checkbox"
+                className="mt-0.5"
+                checked={identityConfig.enabledSources.includes(sourceId)}
+                onChange={() => toggleSource(sourceId)}
+              />
+              <span className="min-w-0">
+                <span className="font-medium">{definition.name}</span>
+                <span className="text-gray-500"> {definition.source}, atype {definition.atype}, {definition.level}</span>
+                <span className="block text-gray-400">{definition.description}</span>
+                {eid && <span className="block font-mono text-gray-300 truncate">{eid.uids[0].id}</span>}
+              </span>
+            </label>
+          );
+        })}
+        {eidsDenied && identity.eids.length > 0 && (
+          <div className="flex items-start gap-1 text-ctv-yellow">
+            <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+            <span>Consent enforcement removes user.eids before sending: {eidsDenied.reason}</span>
+          </div>
+        )}
+      </div>
+
+      {demandSources.some(source => source.enabled) && (
+        <div className="bg-ctv-dark rounded-lg p-3 text-xs space-y-2">
+          <div className="font-medium text-sm">Bidder EID Permissions</div>
+          <div className="grid grid-cols-12 gap-1 text-gray-400">
+            <span className="col-span-4" />
+            {SOURCE_IDS.map(sourceId => (
+              <span key={sourceId} className="col-span-2 text-center">{EID_SOURCES[sourceId].name}</span>
+            ))}
+          </div>
+          {demandSources.filter(source => source.enabled).map(source => (
+            <div key={source.bidder} className="grid grid-cols-12 gap-1 items-center">
+              <span className="col-span-4 truncate" title={source.name}>
+                {source.bidder}
+                <span className="text-gray-500"> ({eidsForBidder(eids, eidpermissions, source.bidder).length})</span>
+              </span>
+              {SOURCE_IDS.map(sourceId => (
+                <input
+                  key={sourceId}
+                  type="checkbox"
+                  className="col-span-2"
+                  checked={isPermitted(source, sourceId)}
+                  onChange={() => togglePermission(source.bidder, sourceId)}
+                />
+              ))}
+            </div>
+          ))}
+          <div className="text-gray-400">
+            {eidpermissions.length > 0
+              ? 'Sent to Prebid Server as ext.prebid.data.eidpermissions:'
+              : 'Every bidder may receive every source; no eidpermissions are sent'}
+          </div>
+          {eidpermissions.length > 0 && (
+            <pre className="font-mono text-gray-300 whitespace-pre-wrap">{JSON.stringify(eidpermissions, null, 2)}</pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IdentityPanel;
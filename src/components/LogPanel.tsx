@@ -11,6 +11,10 @@ import {
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
 import { parseVASTResponse } from '../utils/adRequests';
+import { describeVastError } from '../utils/vastErrors';
+import { countFindings, groupFindingsByPack, LINT_PACK_LABELS } from '../utils/creativeLinter';
+import { countVerdicts } from '../utils/bidResponseValidator';
+import { BidResponseValidation, BidVerdict, ConsentEnforcement, LintFinding, PrebidTargeting, SellerAuthorization } from '../types';
 
 const LogPanel: React.FC = () => {
   const {
@@ -56,6 +60,165 @@ const LogPanel: React.FC = () => {
     }
   };
 
+  const severityClass: Record<LintFinding['severity'], string> = {
+    error: 'text-ctv-red',
+    warning: 'text-ctv-yellow',
+    info: 'text-gray-400'
+  };
+
+  // Lint findings grouped by rule pack; info-level findings only when expanded
+  const renderLintFindings = (findings: LintFinding[], includeInfo: boolean) => {
+    const visible = includeInfo ? findings : findings.filter(finding => finding.severity !== 'info');
+    const counts = countFindings(findings);
+
+    return React.createElement('div', { className: "mt-2 text-xs space-y-1" },
+      React.createElement('div', { className: "text-gray-400" },
+        `Lint: ${counts.error} error(s), ${counts.warning} warning(s), ${counts.info} info`
+      ),
+      groupFindingsByPack(visible).map(({ pack, findings: packFindings }) =>
+        React.createElement('div', { key: pack },
+          React.createElement('div', { className: "font-medium text-gray-300" }, LINT_PACK_LABELS[pack]),
+          packFindings.map((finding, index) =>
+            React.createElement('div', {
+              key: `${finding.ruleId}-${index}`,
+              className: `ml-2 ${severityClass[finding.severity]}`,
+              title: finding.ruleId
+            },
+              `[${finding.severity}] ${finding.message}`,
+              finding.path && React.createElement('span', { className: "ml-1 font-mono text-gray-500" }, finding.path)
+            )
+          )
+        )
+      )
+    );
+  };
+
+  const verdictClass: Record<BidVerdict, string> = {
+    accepted: 'text-ctv-green',
+    flagged: 'text-ctv-yellow',
+    rejected: 'text-ctv-red'
+  };
+
+  // Per-bid verdicts of an OpenRTB response; individual bids only when expanded
+  const renderBidValidation = (validation: BidResponseValidation, showBids: boolean) => {
+    const counts = countVerdicts(validation);
+
+    return React.createElement('div', { className: "mt-2 text-xs space-y-1" },
+      React.createElement('div', { className: "text-gray-400" },
+        validation.bids.length === 0
+          ? `No bids${validation.noBidReason !== undefined ? ` (nbr ${validation.noBidReason})` : ''}`
+          : `Bids: ${counts.accepted} accepted, ${counts.flagged} flagged, ${counts.rejected} rejected`
+      ),
+      validation.responseIssues.map((issue, index) =>
+        React.createElement('div', {
+          key: `response-${index}`,
+          className: `ml-2 ${severityClass[issue.severity]}`
+        }, `[${issue.field}] ${issue.message}`)
+      ),
+      showBids && validation.bids.map((bid, index) =>
+        React.createElement('div', { key: `${bid.seat}-${bid.bidId}-${index}` },
+          React.createElement('div', { className: `font-medium ${verdictClass[bid.verdict]}` },
+            `${bid.verdict}: ${bid.seat} bid ${bid.bidId} → imp ${bid.impId || '?'} @ ${bid.price}`
+          ),
+          bid.issues.map((issue, issueIndex) =>
+            React.createElement('div', {
+              key: issueIndex,
+              className: `ml-2 ${severityClass[issue.severity]}`
+            }, `[${issue.field}] ${issue.message}`)
+          )
+        )
+      )
+    );
+  };
+
+  // ads.txt / sellers.json authorization of the selling path; warnings and info only when expanded
+  const renderAuthorization = (authorization: SellerAuthorization, showAll: boolean) => {
+    const visible = showAll
+      ? authorization.findings
+      : authorization.findings.filter(finding => finding.severity === 'error');
+
+    return React.createElement('div', { className: "mt-2 text-xs space-y-1" },
+      React.createElement('div', { className: authorization.authorized ? "text-gray-400" : "text-ctv-red" },
+        `${authorization.authorized ? 'Authorized' : 'Unauthorized'} selling path` +
+          (authorization.publisherDomain ? ` for ${authorization.publisherDomain}` : '') +
+          (authorization.bundle ? ` (${authorization.bundle})` : '')
+      ),
+      visible.map((finding, index) =>
+        React.createElement('div', {
+          key: index,
+          className: `ml-2 ${severityClass[finding.severity]}`
+        },
+          `[${finding.source}${finding.line !== undefined ? `:${finding.line}` : ''}] `,
+          finding.node !== undefined ? `Node #${finding.node}: ` : '',
+          finding.message
+        )
+      )
+    );
+  };
+
+  const formatDiffValue = (value: any) => (typeof value === 'object' ? JSON.stringify(value) : String(value));
+
+  // What consent enforcement changed in the outgoing request; the diff only when expanded
+  const renderEnforcement = (enforcement: ConsentEnforcement, showDiff: boolean) => {
+    const denied = enforcement.activities.filter(decision => !decision.allowed);
+
+    return React.createElement('div', { className: "mt-2 text-xs space-y-1" },
+      React.createElement('div', { className: "text-gray-400" },
+        `Consent enforcement: ${enforcement.changes.length} change(s)` +
+          (denied.length > 0 ? `, denied ${denied.map(decision => decision.activity).join(', ')}` : '') +
+          (enforcement.droppedBidders.length > 0 ? `, dropped ${enforcement.droppedBidders.join(', ')}` : '')
+      ),
+      showDiff && denied.map(decision =>
+        React.createElement('div', { key: decision.activity, className: "ml-2 text-ctv-yellow" },
+          `[${decision.activity}] ${decision.reason}`
+        )
+      ),
+      showDiff && enforcement.changes.length > 0 && React.createElement('div', {
+        className: "ml-2 font-mono bg-ctv-dark rounded p-2 space-y-0.5"
+      },
+        enforcement.changes.map((change, index) =>
+          React.createElement('div', { key: index },
+            change.before !== undefined && React.createElement('div', { className: "text-ctv-red" },
+              `- ${change.path}: ${formatDiffValue(change.before)}`
+            ),
+            change.after !== undefined && React.createElement('div', { className: "text-ctv-green" },
+              `+ ${change.path}: ${formatDiffValue(change.after)}`
+            )
+          )
+        )
+      )
+    );
+  };
+
+  // Ad server key-values from the Prebid bids; every key only when expanded
+  const renderTargeting = (targeting: PrebidTargeting, showKeys: boolean) => {
+    const winner = targeting.winner;
+
+    return React.createElement('div', { className: "mt-2 text-xs space-y-1" },
+      React.createElement('div', { className: "text-gray-400" },
+        winner
+          ? `Targeting (${targeting.granularity}): hb_pb ${winner.priceBucket} for ${winner.bidder} from ${targeting.bids.length} bidder(s)`
+          : `Targeting (${targeting.granularity}): no usable bids`
+      ),
+      targeting.cacheErrors.map((error, index) =>
+        React.createElement('div', { key: index, className: "ml-2 text-ctv-yellow" }, error)
+      ),
+      showKeys && Object.keys(targeting.keys).length > 0 && React.createElement('div', {
+        className: "ml-2 font-mono bg-ctv-dark rounded p-2 space-y-0.5"
+      },
+        Object.entries(targeting.keys).map(([key, value]) =>
+          React.createElement('div', { key },
+            React.createElement('span', { className: "text-ctv-blue" }, key),
+            `=${value}`
+          )
+        )
+      ),
+      showKeys && targeting.vastUrl && React.createElement('div', { className: "ml-2 text-gray-300 break-all" },
+        `Creative VAST: ${targeting.vastUrl}`
+      )
+    );
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
   };
@@ -147,6 +310,25 @@ const LogPanel: React.FC = () => {
                   `Error: ${request.error}`
                 ),
                 
+                request.vastErrorCode && React.createElement('div', { className: "text-xs text-ctv-red" },
+                  describeVastError(request.vastErrorCode)
+                ),
+                
+                request.lintFindings && request.lintFindings.length > 0 &&
+                  renderLintFindings(request.lintFindings, selectedAdRequest === request.id),
+                
+                request.bidValidation &&
+                  renderBidValidation(request.bidValidation, selectedAdRequest === request.id),
+                
+                request.authorization &&
+                  renderAuthorization(request.authorization, selectedAdRequest === request.id),
+                
+                request.enforcement &&
+                  renderEnforcement(request.enforcement, selectedAdRequest === request.id),
+                
+                request.targeting &&
+                  renderTargeting(request.targeting, selectedAdRequest === request.id),
+                
                 selectedAdRequest === request.id && React.createElement('div', { className: "mt-3 pt-3 border-t border-gray-600" },
                   React.createElement('div', { className: "space-y-3" },
                     // Request URL
@@ -223,11 +405,22 @@ const LogPanel: React.FC = () => {
                   getLogIcon(log.level),
                   React.createElement('div', { className: "flex-1" },
                     React.createElement('div', { className: "flex items-center justify-between" },
-                      React.createElement('span', { className: "font-medium" }, log.message),
+                      React.createElement('span', { className: "font-medium" },
+                        log.message,
+                        log.vastErrorCode && React.createElement('span', {
+                          className: "ml-2 px-1.5 py-0.5 rounded bg-ctv-red/20 text-ctv-red text-xs font-mono",
+                          title: describeVastError(log.vastErrorCode)
+                        }, `VAST ${log.vastErrorCode}`)
+                      ),
                       React.createElement('span', { className: "text-xs text-gray-400" },
                         format(log.timestamp, 'HH:mm:ss.SSS')
                       )
                     ),
+                    log.lintFindings && log.lintFindings.length > 0 && renderLintFindings(log.lintFindings, true),
+                    log.bidValidation && renderBidValidation(log.bidValidation, true),
+                    log.authorization && renderAuthorization(log.authorization, true),
+                    log.enforcement && renderEnforcement(log.enforcement, true),
+                    log.targeting && renderTargeting(log.targeting, true),
                     log.details && React.createElement('div', { className: "text-xs font-mono mt-1 text-gray-300" },
                       JSON.stringify(log.details, null, 2)
                     )
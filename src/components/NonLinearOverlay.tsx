@@ -0,0 +1,68 @@
+import React, { useEffect } from 'react';
+import { X } from 'lucide-react';
+import { OverlayPlacement, OVERLAY_FRAME } from '../utils/companionAds';
+
+interface NonLinearOverlayProps {
+  placement: OverlayPlacement;
+  onShow: () => void;
+  onClick: () => void;
+  onClose: (reason: 'user' | 'expired') => void;
+}
+
+// Lower-third overlay laid out against the 1080p frame so it scales with the player
+const NonLinearOverlay: React.FC<NonLinearOverlayProps> = ({ placement, onShow, onClick, onClose }) => {
+  const { nonLinear, resource, displaySeconds } = placement;
+
+  useEffect(() => {
+    onShow();
+    const timer = setTimeout(() => onClose('expired'), displaySeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [placement]);
+
+  const clickable = Boolean(nonLinear.clickThrough);
+
+  return (
+    <div
+      className="absolute z-10 left-1/2 -translate-x-1/2"
+      style={{
+        bottom: '10%',
+        width: `${(nonLinear.width / OVERLAY_FRAME.width) * 100}%`,
+        aspectRatio: `${nonLinear.width} / ${nonLinear.height}`
+      }}
+    >
+      <div
+        className={`w-full h-full rounded overflow-hidden shadow-lg ${clickable ? 'cursor-pointer' : ''}`}
+        onClick={clickable ? onClick : undefined}
+      >
+        {resource.kind === 'static' && (
+          <img src={resource.content} alt="Overlay ad" className="w-full h-full object-contain" />
+        )}
+        {resource.kind === 'html' && (
+          <iframe
+            title={nonLinear.id || 'overlay'}
+            srcDoc={resource.content}
+            sandbox="allow-scripts"
+            className="w-full h-full border-0 pointer-events-none"
+          />
+        )}
+        {resource.kind === 'iframe' && (
+          <iframe
+            title={nonLinear.id || 'overlay'}
+            src={resource.content}
+            sandbox="allow-scripts allow-same-origin"
+            className="w-full h-full border-0 pointer-events-none"
+          />
+        )}
+      </div>
+      <button
+        onClick={() => onClose('user')}
+        className="absolute -top-2 -right-2 bg-black/80 text-white rounded-full p-1 hover:bg-ctv-red"
+        aria-label="Close overlay"
+      >
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+};
+
+export default NonLinearOverlay;
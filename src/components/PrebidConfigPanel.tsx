@@ -1,13 +1,23 @@
 import React, { useState } from 'react';
-import { Settings, ToggleLeft, ToggleRight, Edit3 } from 'lucide-react';
+import { Settings, ToggleLeft, ToggleRight, Edit3, Tag, Plus, Trash2, AlertTriangle, Wand2 } from 'lucide-react';
 import { useStore } from '../store/useStore';
 import { PREBID_SERVER_ENDPOINTS } from '../utils/prebidServer';
-import { PrebidDemandSource } from '../types';
+import { DEFAULT_CACHE_ENDPOINT, priceBucket, PRICE_GRANULARITIES, resolvePriceBuckets } from '../utils/prebidTargeting';
+import { applyParamSuggestions, BIDDER_PARAM_SCHEMAS, ParamIssue, parseParamInput, validateBidderParams } from '../utils/bidderParamSchemas';
+import { PrebidDemandSource, PriceBucket, PriceGranularity } from '../types';
+
+const SAMPLE_CPMS = [0.87, 2.34, 4.99, 7.62, 13.45, 25];
+
+// How a param value reads in its text field
+const paramText = (value: any) => (typeof value === 'object' ? JSON.stringify(value) : String(value));
 
 const PrebidConfigPanel: React.FC = () => {
   const { ctvConfig, setCtvConfig } = useStore();
   const [editingSource, setEditingSource] = useState<string | null>(null);
   const [editParams, setEditParams] = useState<Record<string, any>>({});
+  // What each field shows, kept apart from editParams so half-typed JSON isn't reformatted
+  const [editText, setEditText] = useState<Record<string, string>>({});
+  const [editIssues, setEditIssues] = useState<ParamIssue[]>([]);
 
   const updatePrebidConfig = (updates: any) => {
     setCtvConfig({
@@ -25,27 +35,65 @@ const PrebidConfigPanel: React.FC = () => {
     updatePrebidConfig({ demandSources: updatedSources });
   };
 
+  // Required params the source lacks get an empty field so they can be filled in
   const startEditing = (source: PrebidDemandSource) => {
+    const required = BIDDER_PARAM_SCHEMAS[source.bidder]?.required || [];
+    const params = { ...Object.fromEntries(required.map(key => [key, ''])), ...source.params };
     setEditingSource(source.bidder);
-    setEditParams({ ...source.params });
+    setEditParams(params);
+    setEditText(Object.fromEntries(Object.entries(params).map(([key, value]) => [key, paramText(value)])));
+    setEditIssues([]);
+  };
+
+  // Every edit is stored as the type the bidder's schema gives the param
+  const editParam = (key: string, text: string) => {
+    const type = BIDDER_PARAM_SCHEMAS[editingSource!]?.properties[key]?.type;
+    setEditText({ ...editText, [key]: text });
+    setEditParams({ ...editParams, [key]: parseParamInput(text, type) });
   };
 
   const saveParams = () => {
     if (!editingSource) return;
+
+    // Empty optional fields are dropped rather than sent as ""
+    const params = Object.fromEntries(Object.entries(editParams).filter(([, value]) => value !== ''));
+    const issues = validateBidderParams(editingSource, params);
+    setEditIssues(issues);
+    if (issues.some(issue => issue.severity === 'error')) return;
     
     const updatedSources = ctvConfig.prebidServerConfig!.demandSources.map(source =>
       source.bidder === editingSource 
-        ? { ...source, params: { ...editParams } }
+        ? { ...source, params }
         : source
     );
     updatePrebidConfig({ demandSources: updatedSources });
     setEditingSource(null);
     setEditParams({});
+    setEditText({});
+    setEditIssues([]);
   };
 
   const cancelEditing = () => {
     setEditingSource(null);
     setEditParams({});
+    setEditText({});
+    setEditIssues([]);
+  };
+
+  const applySuggestion = (issue: ParamIssue) => {
+    setEditParams({ ...editParams, [issue.field]: issue.suggestion!.value });
+    setEditText({ ...editText, [issue.field]: paramText(issue.suggestion!.value) });
+    setEditIssues(editIssues.filter(other => other !== issue));
+  };
+
+  // Saved params from an older config can still be wrong; fix every coercible one in place
+  const applySavedSuggestions = (bidder: string, issues: ParamIssue[]) => {
+    const updatedSources = ctvConfig.prebidServerConfig!.demandSources.map(source =>
+      source.bidder === bidder
+        ? { ...source, params: applyParamSuggestions(source.params, issues) }
+        : source
+    );
+    updatePrebidConfig({ demandSources: updatedSources });
   };
 
   const resetToDefaults = (bidder: string) => {
@@ -57,6 +105,29 @@ const PrebidConfigPanel: React.FC = () => {
     updatePrebidConfig({ demandSources: updatedSources });
   };
 
+  // Custom buckets start from whatever granularity was selected before
+  const selectGranularity = (granularity: PriceGranularity) => {
+    updatePrebidConfig(granularity === 'custom' && !ctvConfig.prebidServerConfig!.customPriceBuckets?.length
+      ? { priceGranularity: granularity, customPriceBuckets: resolvePriceBuckets(ctvConfig.prebidServerConfig!) }
+      : { priceGranularity: granularity });
+  };
+
+  const updateCustomBucket = (index: number, updates: Partial<PriceBucket>) => {
+    const buckets = ctvConfig.prebidServerConfig!.customPriceBuckets || [];
+    updatePrebidConfig({ customPriceBuckets: buckets.map((bucket, i) => (i === index ? { ...bucket, ...updates } : bucket)) });
+  };
+
+  const addCustomBucket = () => {
+    const buckets = ctvConfig.prebidServerConfig!.customPriceBuckets || [];
+    const lastMax = buckets[buckets.length - 1]?.max || 0;
+    updatePrebidConfig({ customPriceBuckets: [...buckets, { max: lastMax + 10, increment: 1 }] });
+  };
+
+  const removeCustomBucket = (index: number) => {
+    const buckets = ctvConfig.prebidServerConfig!.customPriceBuckets || [];
+    updatePrebidConfig({ customPriceBuckets: buckets.filter((_, i) => i !== index) });
+  };
+
   if (!ctvConfig.prebidServerConfig) {
     return (
       <div className="p-4 bg-ctv-dark rounded-lg">
@@ -117,91 +188,224 @@ const PrebidConfigPanel: React.FC = () => {
         </div>
       </div>
 
+      {/* Ad Server Targeting and VAST Cache */}
+      <div className="bg-ctv-dark rounded-lg p-4">
+        <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <Tag className="w-5 h-5" />
+          Targeting &amp; Cache
+        </h3>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Price Granularity (hb_pb)</label>
+            <select
+              value={ctvConfig.prebidServerConfig.priceGranularity || 'medium'}
+              onChange={(e) => selectGranularity(e.target.value as PriceGranularity)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm"
+            >
+              {[...Object.keys(PRICE_GRANULARITIES), 'custom'].map(granularity => (
+                <option key={granularity} value={granularity}>{granularity}</option>
+              ))}
+            </select>
+          </div>
+
+          {ctvConfig.prebidServerConfig.priceGranularity === 'custom' && (
+            <div className="space-y-2 text-sm">
+              <div className="grid grid-cols-12 gap-2 text-xs text-gray-400">
+                <span className="col-span-4">Up to CPM</span>
+                <span className="col-span-4">Increment</span>
+                <span className="col-span-3">Precision</span>
+              </div>
+              {(ctvConfig.prebidServerConfig.customPriceBuckets || []).map((bucket, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={bucket.max}
+                    onChange={(e) => updateCustomBucket(index, { max: parseFloat(e.target.value) || 0 })}
+                    className="col-span-4 bg-gray-700 border border-gray-600 rounded-md px-2 py-1"
+                  />
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={bucket.increment}
+                    onChange={(e) => updateCustomBucket(index, { increment: parseFloat(e.target.value) || 0.01 })}
+                    className="col-span-4 bg-gray-700 border border-gray-600 rounded-md px-2 py-1"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    max="4"
+                    value={bucket.precision ?? 2}
+                    onChange={(e) => updateCustomBucket(index, { precision: parseInt(e.target.value, 10) || 0 })}
+                    className="col-span-3 bg-gray-700 border border-gray-600 rounded-md px-2 py-1"
+                  />
+                  <button onClick={() => removeCustomBucket(index)} className="col-span-1 text-gray-400 hover:text-ctv-red">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button onClick={addCustomBucket} className="flex items-center gap-1 text-xs text-ctv-blue hover:text-white">
+                <Plus className="w-3 h-3" />
+                Add bucket
+              </button>
+            </div>
+          )}
+
+          <div className="text-xs text-gray-400">
+            {SAMPLE_CPMS.map(cpm => `${cpm.toFixed(2)} → ${priceBucket(cpm, resolvePriceBuckets(ctvConfig.prebidServerConfig!))}`).join(' · ')}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">VAST Cache Endpoint</label>
+            <input
+              type="text"
+              value={ctvConfig.prebidServerConfig.cacheEndpoint || ''}
+              onChange={(e) => updatePrebidConfig({ cacheEndpoint: e.target.value })}
+              className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm font-mono"
+              placeholder={DEFAULT_CACHE_ENDPOINT}
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              Winning VAST is stored here and served back by hb_uuid, as a GAM video creative would fetch it
+            </p>
+          </div>
+        </div>
+      </div>
+
       {/* Demand Sources Configuration */}
       <div className="bg-ctv-dark rounded-lg p-4">
         <h3 className="text-lg font-semibold mb-4">Demand Sources</h3>
         
         <div className="space-y-3">
-          {ctvConfig.prebidServerConfig.demandSources.map((source) => (
-            <div key={source.bidder} className="border border-gray-600 rounded-lg p-4">
-              <div className="flex items-center justify-between mb-3">
-                <div className="flex items-center gap-3">
-                  <button
-                    onClick={() => toggleDemandSource(source.bidder)}
-                    className="text-ctv-blue hover:text-blue-400"
-                  >
-                    {source.enabled ? (
-                      <ToggleRight className="w-6 h-6" />
-                    ) : (
-                      <ToggleLeft className="w-6 h-6 text-gray-500" />
-                    )}
-                  </button>
-                  <div>
-                    <h4 className={`font-medium ${source.enabled ? 'text-white' : 'text-gray-500'}`}>
-                      {source.name}
-                    </h4>
-                    <p className="text-sm text-gray-400">Bidder: {source.bidder}</p>
-                  </div>
-                </div>
-                
-                <div className="flex gap-2">
-                  <button
-                    onClick={() => resetToDefaults(source.bidder)}
-                    className="px-3 py-1 text-xs bg-gray-600 hover:bg-gray-500 rounded"
-                  >
-                    Reset
-                  </button>
-                  <button
-                    onClick={() => startEditing(source)}
-                    className="px-3 py-1 text-xs bg-ctv-blue hover:bg-blue-600 rounded flex items-center gap-1"
-                  >
-                    <Edit3 className="w-3 h-3" />
-                    Edit
-                  </button>
-                </div>
-              </div>
-
-              {editingSource === source.bidder ? (
-                <div className="space-y-3 border-t border-gray-600 pt-3">
-                  <h5 className="text-sm font-medium">Edit Parameters</h5>
-                  {Object.entries(editParams).map(([key, value]) => (
-                    <div key={key}>
-                      <label className="block text-xs text-gray-400 mb-1">{key}</label>
-                      <input
-                        type="text"
-                        value={value}
-                        onChange={(e) => setEditParams({ ...editParams, [key]: e.target.value })}
-                        className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm"
-                      />
-                    </div>
-                  ))}
-                  <div className="flex gap-2 pt-2">
+          {ctvConfig.prebidServerConfig.demandSources.map((source) => {
+            const savedIssues = validateBidderParams(source.bidder, source.params);
+            const savedErrors = savedIssues.filter(issue => issue.severity === 'error');
+            return (
+              <div key={source.bidder} className={`border rounded-lg p-4 ${savedErrors.length > 0 && source.enabled ? 'border-ctv-red' : 'border-gray-600'}`}>
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center gap-3">
                     <button
-                      onClick={saveParams}
-                      className="px-3 py-1 text-xs bg-green-600 hover:bg-green-700 rounded"
+                      onClick={() => toggleDemandSource(source.bidder)}
+                      className="text-ctv-blue hover:text-blue-400"
                     >
-                      Save
+                      {source.enabled ? (
+                        <ToggleRight className="w-6 h-6" />
+                      ) : (
+                        <ToggleLeft className="w-6 h-6 text-gray-500" />
+                      )}
                     </button>
+                    <div>
+                      <h4 className={`font-medium ${source.enabled ? 'text-white' : 'text-gray-500'}`}>
+                        {source.name}
+                      </h4>
+                      <p className="text-sm text-gray-400">Bidder: {source.bidder}{source.gvlId !== undefined && ` · GVL ${source.gvlId}`}</p>
+                    </div>
+                  </div>
+                  
+                  <div className="flex gap-2">
                     <button
-                      onClick={cancelEditing}
+                      onClick={() => resetToDefaults(source.bidder)}
                       className="px-3 py-1 text-xs bg-gray-600 hover:bg-gray-500 rounded"
                     >
-                      Cancel
+                      Reset
+                    </button>
+                    <button
+                      onClick={() => startEditing(source)}
+                      className="px-3 py-1 text-xs bg-ctv-blue hover:bg-blue-600 rounded flex items-center gap-1"
+                    >
+                      <Edit3 className="w-3 h-3" />
+                      Edit
                     </button>
                   </div>
                 </div>
-              ) : (
-                <div className="space-y-1">
-                  {Object.entries(source.params).map(([key, value]) => (
-                    <div key={key} className="flex justify-between text-sm">
-                      <span className="text-gray-400">{key}:</span>
-                      <span className="text-white font-mono">{value}</span>
+
+                {editingSource === source.bidder ? (
+                  <div className="space-y-3 border-t border-gray-600 pt-3">
+                    <h5 className="text-sm font-medium">Edit Parameters</h5>
+                    {Object.entries(editParams).map(([key, value]) => {
+                      const property = BIDDER_PARAM_SCHEMAS[source.bidder]?.properties[key];
+                      const fieldIssues = editIssues.filter(issue => issue.field === key);
+                      return (
+                        <div key={key}>
+                          <label className="block text-xs text-gray-400 mb-1">
+                            {key}{property && <span className="text-gray-500"> ({property.type})</span>}
+                          </label>
+                          <input
+                            type="text"
+                            value={editText[key] ?? paramText(value)}
+                            onChange={(e) => editParam(key, e.target.value)}
+                            className={`w-full bg-gray-700 border rounded px-2 py-1 text-sm ${fieldIssues.some(issue => issue.severity === 'error') ? 'border-ctv-red' : 'border-gray-600'}`}
+                          />
+                          {fieldIssues.map((issue, index) => (
+                            <div key={index} className={`flex items-center gap-2 text-xs mt-1 ${issue.severity === 'error' ? 'text-ctv-red' : 'text-ctv-yellow'}`}>
+                              <span>{issue.message}</span>
+                              {issue.suggestion && (
+                                <button
+                                  onClick={() => applySuggestion(issue)}
+                                  className="flex items-center gap-1 text-ctv-blue hover:text-white shrink-0"
+                                >
+                                  <Wand2 className="w-3 h-3" />
+                                  {issue.suggestion.description}
+                                </button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      );
+                    })}
+                    {editIssues.filter(issue => !(issue.field in editParams)).map((issue, index) => (
+                      <div key={index} className="text-xs text-ctv-red">{issue.message}</div>
+                    ))}
+                    <div className="flex gap-2 pt-2">
+                      <button
+                        onClick={saveParams}
+                        className="px-3 py-1 text-xs bg-green-600 hover:bg-green-700 rounded"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={cancelEditing}
+                        className="px-3 py-1 text-xs bg-gray-600 hover:bg-gray-500 rounded"
+                      >
+                        Cancel
+                      </button>
                     </div>
-                  ))}
-                </div>
-              )}
-            </div>
-          ))}
+                  </div>
+                ) : (
+                  <div className="space-y-1">
+                    {Object.entries(source.params).map(([key, value]) => (
+                      <div key={key} className="flex justify-between text-sm">
+                        <span className="text-gray-400">{key}:</span>
+                        <span className="text-white font-mono">{JSON.stringify(value)}</span>
+                      </div>
+                    ))}
+                    {savedIssues.length > 0 && (
+                      <div className="pt-2 space-y-1">
+                        {savedIssues.map((issue, index) => (
+                          <div key={index} className={`flex items-start gap-1 text-xs ${issue.severity === 'error' ? 'text-ctv-red' : 'text-ctv-yellow'}`}>
+                            <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                            <span>{issue.message}{issue.suggestion && ` · ${issue.suggestion.description}`}</span>
+                          </div>
+                        ))}
+                        {savedIssues.some(issue => issue.suggestion) && (
+                          <button
+                            onClick={() => applySavedSuggestions(source.bidder, savedIssues)}
+                            className="flex items-center gap-1 text-xs text-ctv-blue hover:text-white"
+                          >
+                            <Wand2 className="w-3 h-3" />
+                            Apply suggestions
+                          </button>
+                        )}
+                        {savedErrors.length > 0 && source.enabled && (
+                          <p className="text-xs text-gray-400">Prebid Server requests are blocked until these are fixed or the bidder is disabled</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
         </div>
 
         <div className="mt-4 p-3 bg-gray-800 rounded-lg">
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Dices, RotateCcw, Square } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { SIMULATION_EPOCH } from '../../config/simulation.js';
+
+const SimulationPanel: React.FC = () => {
+  const { simulationSeed, startSimulationRun } = useStore();
+  const [seed, setSeed] = useState(simulationSeed || 'ctv-simulator');
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-2">Seed</label>
+        <input
+          type="text"
+          value={seed}
+          onChange={(e) => setSeed(e.target.value)}
+          className="w-full bg-ctv-dark border border-gray-600 rounded-md px-3 py-2 text-sm font-mono"
+        />
+        <p className="text-xs text-gray-400 mt-1">
+          Request IDs, bids, auctions, macros and log timestamps all draw from this seed; the same seed and config replay the same run
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => startSimulationRun(seed.trim())}
+          disabled={!seed.trim()}
+          className="px-3 py-1 text-xs bg-ctv-blue hover:bg-blue-600 disabled:opacity-50 rounded flex items-center gap-1"
+        >
+          {simulationSeed === seed.trim() ? <RotateCcw className="w-3 h-3" /> : <Dices className="w-3 h-3" />}
+          {simulationSeed === seed.trim() ? 'Replay from Seed' : 'Start Seeded Run'}
+        </button>
+        {simulationSeed && (
+          <button
+            onClick={() => startSimulationRun(null)}
+            className="px-3 py-1 text-xs bg-gray-600 hover:bg-gray-500 rounded flex items-center gap-1"
+          >
+            <Square className="w-3 h-3" />
+            Go Live
+          </button>
+        )}
+      </div>
+
+      <div className="bg-ctv-dark rounded-lg p-3 text-xs space-y-1">
+        <div className="flex justify-between">
+          <span className="text-gray-400">Mode</span>
+          <span className={simulationSeed ? 'text-green-400' : 'text-gray-300'}>
+            {simulationSeed ? `Seeded (${simulationSeed})` : 'Live'}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">Clock starts</span>
+          <span className="font-mono">{new Date(SIMULATION_EPOCH).toISOString()}</span>
+        </div>
+        <p className="text-gray-400 pt-1">
+          Starting a run clears the log, requests and optimizer history. The simulated clock only moves by simulated latency,
+          and the test server and AdX mock follow the same seed through the X-Simulation-Seed header.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default SimulationPanel;
@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { Link2, Plus, Trash2, CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import {
+  getSimulatedPublisher,
+  getSupplyChain,
+  loadSellersRegistry,
+  validateSupplyChain,
+  SellersRegistry,
+  SIMULATED_PUBLISHERS
+} from '../utils/supplyChain';
+import { authorizeRequest } from '../utils/sellerAuthorization';
+import { generateOpenRTBRequest } from '../utils/adRequests';
+import { SellerAuthorization, SupplyChain, SupplyChainNode } from '../types';
+
+const SupplyChainPanel: React.FC = () => {
+  const { ctvConfig, setCtvConfig } = useStore();
+  const [sellers, setSellers] = useState<SellersRegistry | null>(null);
+  const [sellersError, setSellersError] = useState<string | null>(null);
+  const [authorization, setAuthorization] = useState<SellerAuthorization | null>(null);
+
+  useEffect(() => {
+    loadSellersRegistry()
+      .then(setSellers)
+      .catch(error => setSellersError(error.message));
+  }, []);
+
+  useEffect(() => {
+    // Same check the request builders run before sending
+    let cancelled = false;
+    authorizeRequest(generateOpenRTBRequest(ctvConfig), ctvConfig)
+      .then(result => !cancelled && setAuthorization(result));
+    return () => { cancelled = true; };
+  }, [ctvConfig.publisherId, ctvConfig.supplyChain]);
+
+  const publisher = getSimulatedPublisher(ctvConfig.publisherId);
+  const schain = getSupplyChain(ctvConfig);
+  const issues = validateSupplyChain(schain, sellers || {}, { publisherDomain: publisher.domain || undefined });
+
+  const updateChain = (updates: Partial<SupplyChain>) => {
+    setCtvConfig({ supplyChain: { ...schain, ...updates } });
+  };
+
+  const updateNode = (index: number, updates: Partial<SupplyChainNode>) => {
+    updateChain({ nodes: schain.nodes.map((node, i) => (i === index ? { ...node, ...updates } : node)) });
+  };
+
+  const selectPublisher = (id: string) => {
+    // Switching publisher discards chain edits made for the previous one
+    setCtvConfig({ publisherId: id, supplyChain: undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-2">Simulated Publisher</label>
+        <select
+          value={publisher.id}
+          onChange={(e) => selectPublisher(e.target.value)}
+          className="w-full bg-ctv-dark border border-gray-600 rounded-md px-3 py-2 text-sm"
+        >
+          {SIMULATED_PUBLISHERS.map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-400 mt-1">{publisher.description}</p>
+      </div>
+
+      <div className="bg-ctv-dark rounded-lg p-3 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium flex items-center gap-2">
+            <Link2 className="w-4 h-4" />
+            Supply Chain (schain {schain.ver})
+          </h4>
+          <label className="flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={schain.complete === 1}
+              onChange={(e) => updateChain({ complete: e.target.checked ? 1 : 0 })}
+            />
+            Complete
+          </label>
+        </div>
+
+        {schain.nodes.map((node, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-center">
+            <span className="col-span-1 text-xs text-gray-400">#{index}</span>
+            <input
+              type="text"
+              value={node.asi}
+              onChange={(e) => updateNode(index, { asi: e.target.value })}
+              placeholder="asi"
+              className="col-span-4 bg-ctv-gray border border-gray-600 rounded-md px-2 py-1 text-xs font-mono"
+            />
+            <input
+              type="text"
+              value={node.sid}
+              onChange={(e) => updateNode(index, { sid: e.target.value })}
+              placeholder="sid"
+              className="col-span-4 bg-ctv-gray border border-gray-600 rounded-md px-2 py-1 text-xs font-mono"
+            />
+            <label className="col-span-2 flex items-center gap-1 text-xs" title="hp: node is in the payment flow">
+              <input
+                type="checkbox"
+                checked={node.hp === 1}
+                onChange={(e) => updateNode(index, { hp: e.target.checked ? 1 : 0 })}
+              />
+              hp
+            </label>
+            <button
+              onClick={() => updateChain({ nodes: schain.nodes.filter((_, i) => i !== index) })}
+              className="col-span-1 text-gray-400 hover:text-ctv-red"
+              title="Remove node"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+
+        <button
+          onClick={() => updateChain({ nodes: [...schain.nodes, { asi: '', sid: '', hp: 1 }] })}
+          className="flex items-center gap-1 text-xs text-ctv-blue hover:text-white"
+        >
+          <Plus className="w-3 h-3" />
+          Add node
+        </button>
+        <p className="text-xs text-gray-500">
+          rid is filled with each request's id. Node #0 is the publisher's seller, the last node is the one sending the request.
+        </p>
+      </div>
+
+      <div className="bg-ctv-dark rounded-lg p-3 text-xs space-y-1">
+        <div className="font-medium text-sm mb-1">Validation against sellers.json</div>
+        {sellersError && (
+          <div className="text-ctv-yellow">Could not load sellers.json fixture: {sellersError}</div>
+        )}
+        {issues.length === 0 ? (
+          <div className="flex items-center gap-1 text-ctv-green">
+            <CheckCircle className="w-3 h-3" />
+            Chain is complete and consistent with sellers.json
+          </div>
+        ) : (
+          issues.map((issue, index) => (
+            <div
+              key={index}
+              className={`flex items-start gap-1 ${issue.severity === 'error' ? 'text-ctv-red' : 'text-ctv-yellow'}`}
+            >
+              {issue.severity === 'error'
+                ? <XCircle className="w-3 h-3 mt-0.5 shrink-0" />
+                : <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />}
+              <span>{issue.node !== undefined ? `Node #${issue.node}: ` : ''}{issue.message}</span>
+            </div>
+          ))
+        )}
+      </div>
+
+      {authorization && (
+        <div className="bg-ctv-dark rounded-lg p-3 text-xs space-y-1">
+          <div className="font-medium text-sm mb-1">Authorization (app-ads.txt / sellers.json)</div>
+          {authorization.findings.length === 0 ? (
+            <div className="flex items-center gap-1 text-ctv-green">
+              <CheckCircle className="w-3 h-3" />
+              Every node is authorized by {authorization.publisherDomain}/app-ads.txt
+            </div>
+          ) : (
+            authorization.findings.map((finding, index) => (
+              <div
+                key={index}
+                className={`flex items-start gap-1 ${
+                  finding.severity === 'error' ? 'text-ctv-red' : finding.severity === 'warning' ? 'text-ctv-yellow' : 'text-gray-400'
+                }`}
+              >
+                {finding.severity === 'error'
+                  ? <XCircle className="w-3 h-3 mt-0.5 shrink-0" />
+                  : <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />}
+                <span>
+                  [{finding.source}{finding.line !== undefined ? `:${finding.line}` : ''}]{' '}
+                  {finding.node !== undefined ? `Node #${finding.node}: ` : ''}{finding.message}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SupplyChainPanel;
@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { getBidderConsent } from '../utils/prebidServer';
+import {
+  buildTCData,
+  CONSENT_ONLY_PURPOSES,
+  decodeTCString,
+  encodeTCString,
+  TCData,
+  TCFChoices,
+  TCF_POLICY_VERSION,
+  TCF_PURPOSES,
+  TCF_SPECIAL_FEATURES
+} from '../utils/tcfConsent';
+
+const EMPTY_CHOICES: TCFChoices = {
+  purposeConsents: [],
+  purposeLegitimateInterests: [],
+  specialFeatureOptIns: [],
+  vendorConsents: [],
+  vendorLegitimateInterests: []
+};
+
+const formatIds = (ids: number[]) => (ids.length > 0 ? ids.join(', ') : 'none');
+
+const TCFConsentPanel: React.FC = () => {
+  const { ctvConfig, setCtvConfig } = useStore();
+  const [otherVendorsDraft, setOtherVendorsDraft] = useState<string | null>(null);
+
+  let decoded: TCData | null = null;
+  let decodeError: string | null = null;
+  if (ctvConfig.tcfString) {
+    try {
+      decoded = decodeTCString(ctvConfig.tcfString);
+    } catch (error: any) {
+      decodeError = error.message;
+    }
+  }
+
+  const choices: TCFChoices = decoded
+    ? {
+        purposeConsents: decoded.purposeConsents,
+        purposeLegitimateInterests: decoded.purposeLegitimateInterests,
+        specialFeatureOptIns: decoded.specialFeatureOptIns,
+        vendorConsents: decoded.vendorConsents,
+        vendorLegitimateInterests: decoded.vendorLegitimateInterests
+      }
+    : EMPTY_CHOICES;
+
+  const demandSources = (ctvConfig.prebidServerConfig?.demandSources || []).filter(source => source.gvlId !== undefined);
+  const sourceVendorIds = demandSources.map(source => source.gvlId!);
+  const otherVendors = choices.vendorConsents.filter(id => !sourceVendorIds.includes(id));
+  const bidderConsent = getBidderConsent(ctvConfig);
+
+  // Every edit re-encodes the string, so requests always carry what the editor shows
+  const applyChoices = (updates: Partial<TCFChoices>) => {
+    setCtvConfig({ tcfString: encodeTCString(buildTCData({ ...choices, ...updates })) });
+  };
+
+  const toggle = (key: keyof TCFChoices, id: number) => {
+    const ids = choices[key];
+    applyChoices({ [key]: ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id] });
+  };
+
+  const applyOtherVendors = () => {
+    if (otherVendorsDraft === null) return;
+    const ids = otherVendorsDraft
+      .split(',')
+      .map(value => parseInt(value.trim(), 10))
+      .filter(id => Number.isInteger(id) && id > 0);
+    applyChoices({ vendorConsents: [...choices.vendorConsents.filter(id => sourceVendorIds.includes(id)), ...ids] });
+    setOtherVendorsDraft(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-2">TCF Consent String</label>
+        <textarea
+          value={ctvConfig.tcfString || ''}
+          onChange={(e) => setCtvConfig({ tcfString: e.target.value.trim() })}
+          rows={3}
+          className="w-full bg-ctv-dark border border-gray-600 rounded-md px-3 py-2 text-xs font-mono break-all"
+        />
+        {decodeError && (
+          <div className="flex items-center gap-1 text-xs text-ctv-red mt-1">
+            <XCircle className="w-3 h-3" />
+            {decodeError}; every bidder is blocked until the string decodes
+          </div>
+        )}
+      </div>
+
+      {decoded && (
+        <div className="bg-ctv-dark rounded-lg p-3 text-xs space-y-1">
+          <div className="font-medium text-sm mb-1">Decoded</div>
+          <div className="text-gray-400">
+            CMP {decoded.cmpId} v{decoded.cmpVersion}, vendor list {decoded.vendorListVersion},
+            {' '}{decoded.consentLanguage} / {decoded.publisherCountryCode}, updated {decoded.lastUpdated.toISOString()}
+          </div>
+          {decoded.policyVersion < TCF_POLICY_VERSION && (
+            <div className="flex items-center gap-1 text-ctv-yellow">
+              <AlertTriangle className="w-3 h-3" />
+              Policy version {decoded.policyVersion} predates TCF v2.2
+            </div>
+          )}
+          <div>Purpose consents: {formatIds(decoded.purposeConsents)}</div>
+          <div>Purpose legitimate interests: {formatIds(decoded.purposeLegitimateInterests)}</div>
+          <div>Special features: {formatIds(decoded.specialFeatureOptIns)}</div>
+          <div>Vendor consents: {formatIds(decoded.vendorConsents)}</div>
+          <div>Vendor legitimate interests: {formatIds(decoded.vendorLegitimateInterests)}</div>
+          {decoded.disclosedVendors && <div>Disclosed vendors: {formatIds(decoded.disclosedVendors)}</div>}
+          {decoded.publisherRestrictions.map((restriction, index) => (
+            <div key={index} className="text-ctv-yellow">
+              Restriction on purpose {restriction.purposeId}
+              {' '}({['not allowed', 'require consent', 'require legitimate interest'][restriction.restrictionType]}):
+              {' '}vendors {formatIds(restriction.vendorIds)}
+            </div>
+          ))}
+          {decoded.publisherTC && (
+            <div>
+              Publisher TC: consents {formatIds(decoded.publisherTC.purposeConsents)}, legitimate interests
+              {' '}{formatIds(decoded.publisherTC.purposeLegitimateInterests)}, {decoded.publisherTC.numCustomPurposes} custom purpose(s)
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="bg-ctv-dark rounded-lg p-3 text-xs space-y-2">
+        <div className="font-medium text-sm">Purposes</div>
+        <div className="grid grid-cols-12 gap-1 text-gray-400">
+          <span className="col-span-8" />
+          <span className="col-span-2 text-center">Consent</span>
+          <span className="col-span-2 text-center">LI</span>
+        </div>
+        {Object.entries(TCF_PURPOSES).map(([key, label]) => {
+          const id = Number(key);
+          return (
+            <div key={id} className="grid grid-cols-12 gap-1 items-center">
+              <span className="col-span-8">{id}. {label}</span>
+              <input
+                type="checkbox"
+                className="col-span-2"
+                checked={choices.purposeConsents.includes(id)}
+                onChange={() => toggle('purposeConsents', id)}
+              />
+              <input
+                type="checkbox"
+                className="col-span-2"
+                disabled={CONSENT_ONLY_PURPOSES.includes(id)}
+                checked={choices.purposeLegitimateInterests.includes(id)}
+                onChange={() => toggle('purposeLegitimateInterests', id)}
+              />
+            </div>
+          );
+        })}
+
+        <div className="font-medium text-sm pt-2">Special Features</div>
+        {Object.entries(TCF_SPECIAL_FEATURES).map(([key, label]) => {
+          const id = Number(key);
+          return (
+            <label key={id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={choices.specialFeatureOptIns.includes(id)}
+                onChange={() => toggle('specialFeatureOptIns', id)}
+              />
+              {label}
+            </label>
+          );
+        })}
+
+        <div className="font-medium text-sm pt-2">Vendors</div>
+        {demandSources.map(source => (
+          <div key={source.bidder} className="grid grid-cols-12 gap-1 items-center">
+            <span className="col-span-8">{source.name} <span className="text-gray-500">(GVL {source.gvlId})</span></span>
+            <input
+              type="checkbox"
+              className="col-span-2"
+              checked={choices.vendorConsents.includes(source.gvlId!)}
+              onChange={() => toggle('vendorConsents', source.gvlId!)}
+            />
+            <input
+              type="checkbox"
+              className="col-span-2"
+              checked={choices.vendorLegitimateInterests.includes(source.gvlId!)}
+              onChange={() => toggle('vendorLegitimateInterests', source.gvlId!)}
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-gray-400 mb-1">Other vendor consents (GVL IDs)</label>
+          <input
+            type="text"
+            value={otherVendorsDraft ?? otherVendors.join(', ')}
+            onChange={(e) => setOtherVendorsDraft(e.target.value)}
+            onBlur={applyOtherVendors}
+            placeholder="e.g. 755, 793"
+            className="w-full bg-ctv-gray border border-gray-600 rounded-md px-2 py-1 font-mono"
+          />
+        </div>
+      </div>
+
+      <div className="bg-ctv-dark rounded-lg p-3 text-xs space-y-1">
+        <div className="font-medium text-sm mb-1">Prebid bidders under this consent</div>
+        {bidderConsent.map(decision => (
+          <div
+            key={decision.bidder}
+            className={`flex items-start gap-1 ${decision.allowed ? 'text-ctv-green' : 'text-ctv-red'}`}
+          >
+            {decision.allowed
+              ? <CheckCircle className="w-3 h-3 mt-0.5 shrink-0" />
+              : <XCircle className="w-3 h-3 mt-0.5 shrink-0" />}
+            <span>{decision.bidder}: {decision.reason}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TCFConsentPanel;
@@ -1,12 +1,66 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import videojs from 'video.js';
 import 'video.js/dist/video-js.css';
 import { useStore } from '../store/useStore';
 import { makeAdRequest } from '../utils/adRequests';
 import { makePrebidServerRequest } from '../utils/prebidServer';
-import { parseVastXml, fireTrackingPixel, formatDuration } from '../utils/vastParser';
-import { AdXConfig } from '../types';
-import { getOptimizer, AdOpportunity } from '../utils/dynamicAdPodOptimizer';
+import {
+  fireTrackingPixel,
+  formatDuration,
+  VastCompanion,
+  VastCreative,
+  VastNonLinearCreative,
+  VastResponse
+} from '../utils/vastParser';
+import { collectMacroIssues, MacroContext } from '../utils/vastMacros';
+import {
+  classifyMediaError,
+  classifyVastResponse,
+  createVastError,
+  describeVastError,
+  fireVastError,
+  VastErrorEvent
+} from '../utils/vastErrors';
+import { resolveVastTag, resolveVastXml, WrapperResolutionOptions } from '../utils/vastWrapperResolver';
+import { applyMediaSelection } from '../utils/mediaSelector';
+import { countFindings, lintWrapperChain } from '../utils/creativeLinter';
+import {
+  buildVastPod,
+  createPodPlayback,
+  podRulesFromSpec,
+  recordPodSlot,
+  summarizePodPlayback,
+  takeNextPodAd,
+  PodPlayback
+} from '../utils/vastPods';
+import { parseVmapXml, scheduleVmapBreaks, VmapDocument, ScheduledAdBreak } from '../utils/vmapParser';
+import {
+  fireCompanionClick,
+  fireCompanionView,
+  fireNonLinearClick,
+  fireNonLinearEvent,
+  getCompanionAds,
+  placeCompanions,
+  placeNonLinear,
+  CompanionPlacement,
+  OverlayPlacement
+} from '../utils/companionAds';
+import { AdRequest, AdXConfig, AuctionClearing, AuctionFloors, DealOutcome } from '../types';
+import { getOptimizer, AdOpportunity, WinningBid } from '../utils/dynamicAdPodOptimizer';
+import { AuctionNotice, fireBillingNotice } from '../utils/auctionNotices';
+import { getSupplyChain } from '../utils/supplyChain';
+import { buildPrivacySignals } from '../utils/gppConsent';
+import { resolveIdentity } from '../utils/identity';
+import { enforceConsent } from '../utils/consentEnforcement';
+import { randomId, simulatorHeaders } from '../utils/simulation';
+import CompanionPanel from './CompanionPanel';
+import NonLinearOverlay from './NonLinearOverlay';
+
+// Ad media that hasn't started playing within this window is reported as VAST 402
+const AD_MEDIA_TIMEOUT = 8000;
+
+// Failures that leave the ad playable are logged as warnings
+const NON_FATAL_VAST_ERRORS = [303, 601, 603, 604];
 
 interface VideoPlayerProps {
   activeTab?: 'config' | 'adx';
@@ -17,6 +71,18 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
   const videoRef = useRef<HTMLDivElement>(null);
   const playerRef = useRef<any>(null);
   const originalSourceRef = useRef<any>(null);
+  const contentPlayheadRef = useRef<number>(0);
+  const breakPositionRef = useRef<MacroContext['breakPosition']>(1);
+  const vmapDocumentRef = useRef<VmapDocument | null>(null);
+  const vmapScheduleRef = useRef<ScheduledAdBreak[] | null>(null);
+  const firedBreaksRef = useRef<Set<string>>(new Set());
+  const activeBreakRef = useRef<ScheduledAdBreak | null>(null);
+  const mediaTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const podPlaybackRef = useRef<PodPlayback | null>(null);
+  // Winning optimizer bid whose billing notice is due when its ad's impression fires
+  const pendingBillingRef = useRef<{ ad: VastCreative; bid: WinningBid } | null>(null);
+  const [companionPlacement, setCompanionPlacement] = useState<CompanionPlacement | null>(null);
+  const [overlayPlacement, setOverlayPlacement] = useState<OverlayPlacement | null>(null);
   
   const {
     ctvConfig,
@@ -64,32 +130,66 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
         };
         
         // Set up event listeners
+        // Listeners are bound once, so read ad state from the store rather than the first render
         player.on('play', () => {
           setIsPlaying(true);
+          const { isPlayingAd, currentAd } = useStore.getState();
           
           if (isPlayingAd && currentAd) {
-            addLog({
-              level: 'info',
-              message: `🎬 Ad started playing: ${currentAd.title}`
-            });
-            
-            // Fire start tracking
-            currentAd.trackingEvents.start.forEach(url => {
-              fireTrackingPixel(url, 'start');
-            });
+            // Impression and start fire once per ad, not on every resume
+            if (!(player as any).startFired) {
+              addLog({
+                level: 'info',
+                message: `🎬 Ad started playing: ${currentAd.title}`
+              });
+              
+              fireAdTracking(currentAd, currentAd.trackingEvents.impression, 'impression');
+              fireAdTracking(currentAd, currentAd.trackingEvents.start, 'start');
+              (player as any).startFired = true;
+              
+              const billing = pendingBillingRef.current;
+              if (billing && billing.ad === currentAd && billing.bid.notice) {
+                pendingBillingRef.current = null;
+                const notice = fireBillingNotice(billing.bid.notice, billing.bid.cpm);
+                if (notice) logAuctionNotice(notice);
+              }
+            }
           } else {
             addLog({
               level: 'info',
               message: 'Video playback started'
             });
             
-            // Trigger pre-roll ad request for content
-            handleAdRequest('pre-roll');
+            // Trigger pre-roll ad request for content, unless a VMAP schedule owns the breaks
+            if (!vmapScheduleRef.current) {
+              handleAdRequest('pre-roll');
+            }
           }
         });
         
+        player.on('playing', () => {
+          clearMediaTimeout();
+        });
+        
+        player.on('error', () => {
+          const { isPlayingAd, currentAd } = useStore.getState();
+          if (!isPlayingAd || !currentAd) return;
+          
+          clearMediaTimeout();
+          const mediaError = player.error();
+          const mediaFile = currentAd.creative?.linear?.mediaFiles.find(file => file.url === currentAd.videoUrl);
+          const code = classifyMediaError(mediaError?.code, mediaFile?.type);
+          
+          reportVastErrors([
+            createVastError(code, 'playback', mediaError?.message || 'Ad media failed to play', currentAd.errorUrls, currentAd.videoUrl)
+          ], currentAd);
+          
+          advancePod(currentAd, 'failed', { errorCode: code, reason: mediaError?.message });
+        });
+        
         player.on('pause', () => {
           setIsPlaying(false);
+          const { isPlayingAd } = useStore.getState();
           addLog({
             level: 'info',
             message: isPlayingAd ? 'Ad playback paused' : 'Video playback paused'
@@ -99,37 +199,36 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
         player.on('timeupdate', () => {
           const currentTime = player.currentTime() || 0;
           setCurrentTime(currentTime);
+          const { isPlayingAd, currentAd } = useStore.getState();
           
           if (isPlayingAd && currentAd) {
-            const duration = formatDuration(currentAd.duration);
-            const progress = currentTime / duration;
+            // Without a <Duration> the quartiles follow the media file's own length
+            const duration = formatDuration(currentAd.duration) || player.duration() || 0;
+            const progress = duration > 0 ? currentTime / duration : 0;
             
             // Fire quartile tracking events
             if (progress >= 0.25 && progress < 0.5) {
               // First quartile - fire once
               if (!(player as any).firstQuartileFired) {
-                currentAd.trackingEvents.firstQuartile.forEach(url => {
-                  fireTrackingPixel(url, 'firstQuartile');
-                });
+                fireAdTracking(currentAd, currentAd.trackingEvents.firstQuartile, 'firstQuartile');
                 (player as any).firstQuartileFired = true;
               }
             } else if (progress >= 0.5 && progress < 0.75) {
               // Midpoint - fire once
               if (!(player as any).midpointFired) {
-                currentAd.trackingEvents.midpoint.forEach(url => {
-                  fireTrackingPixel(url, 'midpoint');
-                });
+                fireAdTracking(currentAd, currentAd.trackingEvents.midpoint, 'midpoint');
                 (player as any).midpointFired = true;
               }
             } else if (progress >= 0.75) {
               // Third quartile - fire once
               if (!(player as any).thirdQuartileFired) {
-                currentAd.trackingEvents.thirdQuartile.forEach(url => {
-                  fireTrackingPixel(url, 'thirdQuartile');
-                });
+                fireAdTracking(currentAd, currentAd.trackingEvents.thirdQuartile, 'thirdQuartile');
                 (player as any).thirdQuartileFired = true;
               }
             }
+          } else if (vmapScheduleRef.current) {
+            // Content video - VMAP schedule decides when breaks fire
+            checkVmapBreaks(currentTime);
           } else {
             // Content video - trigger mid-roll ads at specific times
             if (Math.floor(currentTime) === 30) {
@@ -141,6 +240,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
         player.on('loadedmetadata', () => {
           const duration = player.duration() || 0;
           setDuration(duration);
+          const { isPlayingAd, currentAd } = useStore.getState();
           
           if (isPlayingAd && currentAd) {
             addLog({
@@ -152,30 +252,39 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
               level: 'info',
               message: `Video loaded: ${Math.floor(duration)}s duration`
             });
+            
+            if (vmapDocumentRef.current && !vmapScheduleRef.current) {
+              buildVmapSchedule(duration);
+            }
           }
         });
         
         player.on('ended', () => {
           setIsPlaying(false);
+          const { isPlayingAd, currentAd } = useStore.getState();
           
           if (isPlayingAd && currentAd) {
             // Fire completion tracking
-            currentAd.trackingEvents.complete.forEach(url => {
-              fireTrackingPixel(url, 'complete');
-            });
+            fireAdTracking(currentAd, currentAd.trackingEvents.complete, 'complete');
             
             addLog({
               level: 'success',
               message: `🎬 Ad completed: ${currentAd.title}`
             });
             
-            // Return to content after ad
-            restoreContentVideo();
+            // Next ad of the pod, or back to content
+            advancePod(currentAd, 'completed');
           } else {
             addLog({
               level: 'info',
               message: 'Video playback ended'
             });
+            
+            // Post-roll breaks fire once the content has finished
+            vmapScheduleRef.current
+              ?.filter(scheduled => scheduled.position === 'postroll' && !firedBreaksRef.current.has(scheduled.id))
+              .slice(0, 1)
+              .forEach(scheduled => triggerVmapBreak(scheduled));
           }
         });
       });
@@ -194,10 +303,30 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
     if (!player) return;
 
     // Reset tracking flags
+    (player as any).startFired = false;
     (player as any).firstQuartileFired = false;
     (player as any).midpointFired = false;
     (player as any).thirdQuartileFired = false;
 
+    // Remember where content stopped for [CONTENTPLAYHEAD]; later pod ads keep the break's playhead
+    if (!useStore.getState().isPlayingAd) {
+      contentPlayheadRef.current = player.currentTime() || 0;
+    }
+
+    // A linear ad replaces any overlay; its companions show alongside it
+    setOverlayPlacement(null);
+    const companionAds = getCompanionAds(ad);
+    setCompanionPlacement(companionAds ? placeCompanions(companionAds) : null);
+
+    clearMediaTimeout();
+    mediaTimeoutRef.current = setTimeout(() => {
+      mediaTimeoutRef.current = null;
+      reportVastErrors([
+        createVastError(402, 'playback', `Ad media did not start within ${AD_MEDIA_TIMEOUT}ms`, ad.errorUrls, ad.videoUrl)
+      ], ad);
+      advancePod(ad, 'failed', { errorCode: 402, reason: 'Media timeout' });
+    }, AD_MEDIA_TIMEOUT);
+
     setIsPlayingAd(true);
     
     addLog({
@@ -212,7 +341,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
     // Switch to ad source
     player.src({
       src: ad.videoUrl,
-      type: 'video/mp4'
+      type: ad.videoType || 'video/mp4'
     });
 
     // Auto-play the ad
@@ -226,12 +355,53 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
     });
   };
 
+  // Macro values from config, player state and the ad
+  const buildMacroContext = (ad?: VastCreative): MacroContext => {
+    const player = playerRef.current;
+    const config = useStore.getState().ctvConfig;
+    const identity = resolveIdentity(config);
+    return {
+      config,
+      ad,
+      ifa: identity.ifa,
+      ifaType: identity.ifaType,
+      breakPosition: breakPositionRef.current,
+      limitAdTracking: false,
+      player: {
+        contentPlayhead: contentPlayheadRef.current,
+        adPlayhead: player?.currentTime() || 0,
+        playerSize: player ? { width: player.currentWidth(), height: player.currentHeight() } : undefined,
+        playerState: [
+          ...(player?.muted() ? ['muted' as const] : []),
+          ...(player?.isFullscreen() ? ['fullscreen' as const] : [])
+        ]
+      }
+    };
+  };
+
+  // Fire ad tracking URLs with VAST macros filled in
+  const fireAdTracking = (ad: VastCreative | undefined, urls: string[], eventType: string) => {
+    if (urls.length === 0) return;
+
+    const context = buildMacroContext(ad);
+    const issues = collectMacroIssues(urls.map(url => fireTrackingPixel(url, eventType, context)));
+    if (issues) {
+      addLog({
+        level: 'warning',
+        message: `🧩 ${eventType} tracking fired with unresolved VAST macros`,
+        details: issues
+      });
+    }
+  };
+
   const restoreContentVideo = () => {
     const player = playerRef.current;
     if (!player || !originalSourceRef.current) return;
 
+    clearMediaTimeout();
     setIsPlayingAd(false);
     setCurrentAd(null);
+    setCompanionPlacement(null);
 
     addLog({
       level: 'info',
@@ -241,6 +411,14 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
     // Restore original content
     player.src(originalSourceRef.current);
     
+    // Resume where the break interrupted the content
+    const resumeAt = contentPlayheadRef.current;
+    if (resumeAt > 0) {
+      player.one('loadedmetadata', () => {
+        player.currentTime(resumeAt);
+      });
+    }
+    
     // Auto-play content after ad
     player.ready(() => {
       player.play().catch((error: any) => {
@@ -249,6 +427,686 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
     });
   };
 
+  // Resolve a VAST tag URL or inline document, following wrappers and reporting failures
+  const resolveVastSource = async (
+    vastSource: string,
+    options?: WrapperResolutionOptions
+  ): Promise<VastResponse | null> => {
+    const isInlineXml = vastSource.trim().startsWith('<');
+    const { response, chain } = isInlineXml
+      ? await resolveVastXml(vastSource, options)
+      : await resolveVastTag(vastSource, options);
+
+    if (chain.hops.length > 1 || chain.hops.some(hop => hop.error)) {
+      addLog({
+        level: chain.hops.some(hop => hop.status === 'error' || hop.status === 'skipped') ? 'warning' : 'info',
+        message: `🔗 VAST wrapper chain resolved: depth ${chain.maxDepthReached}, ${chain.hops.length} hop(s), ${chain.totalLatency}ms`,
+        details: {
+          hops: chain.hops.map(hop => ({
+            depth: hop.depth,
+            url: hop.url,
+            status: hop.status,
+            latency: hop.latency,
+            error: hop.error
+          }))
+        }
+      });
+    }
+
+    reportVastErrors(chain.errors);
+
+    const { ctvConfig } = useStore.getState();
+    const lintContext = { deviceType: ctvConfig.providerType, bandwidthKbps: ctvConfig.bandwidthKbps };
+    const lintFindings = lintWrapperChain(chain, lintContext);
+    if (lintFindings.length > 0) {
+      const counts = countFindings(lintFindings);
+      addLog({
+        level: counts.error > 0 ? 'error' : counts.warning > 0 ? 'warning' : 'info',
+        message: `🧹 Creative lint: ${counts.error} error(s), ${counts.warning} warning(s), ${counts.info} info`,
+        lintFindings
+      });
+    }
+
+    return response;
+  };
+
+  // Resolve a VAST source to its first playable linear creative; overlay-only responses are shown over the content
+  const loadVastCreative = async (
+    vastSource: string,
+    options?: WrapperResolutionOptions,
+    allowMultipleAds = true
+  ): Promise<VastCreative | null> => {
+    const response = await resolveVastSource(vastSource, options);
+    if (!response) return null;
+
+    if (response.ads.length === 0 && response.nonLinearAds.length > 0) {
+      addLog({
+        level: 'info',
+        message: '🪧 VAST response contains only NonLinear ads - showing overlay over content'
+      });
+      showOverlay(response.nonLinearAds[0]);
+      return null;
+    }
+
+    if (!allowMultipleAds && response.ads.length > 1) {
+      // A single-ad break plays a standalone ad, or the pod's first ad when there is none
+      const standalone = response.ads.find(ad => ad.ad?.sequence === undefined);
+      const single = standalone || [...response.ads].sort((a, b) => a.ad!.sequence! - b.ad!.sequence!)[0];
+      addLog({
+        level: 'info',
+        message: `🗓️ AdSource disallows multiple ads - playing "${single.title}" only of ${response.ads.length} ads in the response`
+      });
+      return startPod([single]);
+    }
+
+    return response.ads.length > 0 ? startPod(response.ads) : null;
+  };
+
+  // Order the response into a pod (sequenced ads plus buffet) and return its first playable ad
+  const startPod = (ads: VastCreative[]): VastCreative | null => {
+    const pod = buildVastPod(ads, podRulesFromSpec(useStore.getState().ctvConfig.podSpec));
+    podPlaybackRef.current = createPodPlayback(pod);
+
+    if (pod.sequenced.length > 1 || pod.violations.length > 0) {
+      addLog({
+        level: pod.violations.length > 0 ? 'warning' : 'info',
+        message: `🎞️ Ad pod: ${pod.sequenced.length} sequenced ad(s) (${pod.totalDuration}s), ${pod.buffet.length} buffet ad(s)`,
+        details: {
+          sequence: pod.sequenced.map(ad => ({ sequence: ad.ad?.sequence, id: ad.id, title: ad.title, duration: ad.duration })),
+          buffet: pod.buffet.map(ad => ({ id: ad.id, title: ad.title, duration: ad.duration })),
+          violations: pod.violations.map(({ ad, errorCode, reason }) => ({ id: ad.id, errorCode, reason }))
+        }
+      });
+    }
+
+    reportVastErrors(pod.violations.map(({ ad, errorCode, reason }) =>
+      createVastError(errorCode, 'playback', `Ad ${ad.id} dropped from pod: ${reason}`, ad.errorUrls, ad.videoUrl)
+    ));
+
+    return nextPlayablePodAd(false);
+  };
+
+  // Take pod ads until one has a playable rendition; unplayable ones count as failed slots
+  const nextPlayablePodAd = (afterFailure: boolean): VastCreative | null => {
+    const playback = podPlaybackRef.current;
+    if (!playback) return null;
+
+    let failed = afterFailure;
+    for (let next = takeNextPodAd(playback, failed); next; next = takeNextPodAd(playback, failed)) {
+      if (next.fromBuffet) {
+        addLog({
+          level: 'info',
+          message: `🎞️ Buffet ad "${next.ad.title}" replaces the failed pod ad`
+        });
+      }
+
+      const creative = selectRendition(next.ad);
+      if (creative) {
+        playback.current = { ad: creative, fromBuffet: next.fromBuffet };
+        return creative;
+      }
+
+      recordPodSlot(playback, next.ad, 'failed', { reason: 'No playable rendition' });
+      failed = true;
+    }
+
+    return null;
+  };
+
+  // Close out the ad that just ended and move on to the next pod ad or back to content
+  const advancePod = (
+    ad: VastCreative,
+    status: 'completed' | 'failed',
+    details: { errorCode?: number; reason?: string } = {}
+  ) => {
+    const playback = podPlaybackRef.current;
+
+    if (playback) {
+      recordPodSlot(playback, ad, status, details);
+      const next = nextPlayablePodAd(status === 'failed');
+      if (next) {
+        setCurrentAd(next);
+        return;
+      }
+      finishPod();
+    }
+
+    finishVmapBreak();
+    restoreContentVideo();
+  };
+
+  const finishPod = () => {
+    const playback = podPlaybackRef.current;
+    podPlaybackRef.current = null;
+    if (!playback || playback.slots.length === 0) return;
+
+    const result = summarizePodPlayback(playback);
+    addPodResult(result);
+
+    if (playback.pod.sequenced.length > 1 || result.failedSlots.length > 0) {
+      addLog({
+        level: result.failedSlots.length > 0 ? 'warning' : 'success',
+        message: `🎞️ Pod finished: ${result.slotsFilled}/${result.slotsAttempted} ad(s) played, ${result.totalDuration}s`,
+        details: {
+          slots: playback.slots.map(slot => ({
+            position: slot.position,
+            id: slot.ad.id,
+            sequence: slot.sequence,
+            fromBuffet: slot.fromBuffet,
+            status: slot.status,
+            errorCode: slot.errorCode,
+            reason: slot.reason
+          }))
+        }
+      });
+    }
+  };
+
+  const loadNonLinearOverlay = async (
+    vastSource: string,
+    options?: WrapperResolutionOptions
+  ): Promise<boolean> => {
+    const response = await resolveVastSource(vastSource, options);
+    if (!response || response.nonLinearAds.length === 0) return false;
+    return showOverlay(response.nonLinearAds[0]);
+  };
+
+  // Pick the MediaFile the configured device would play and log why others were rejected
+  const selectRendition = (ad: VastCreative): VastCreative | null => {
+    const { ctvConfig } = useStore.getState();
+    const { creative, selection } = applyMediaSelection(ad, {
+      deviceType: ctvConfig.providerType || 'other',
+      bandwidthKbps: ctvConfig.bandwidthKbps
+    });
+
+    if (selection.ranked.length + selection.rejected.length > 0) {
+      const selected = selection.selected;
+      addLog({
+        level: selected ? (selection.rejected.length > 0 ? 'warning' : 'info') : 'error',
+        message: selected
+          ? `🎞️ ${selection.profile.label} selected ${selected.type} ${selected.width}x${selected.height}` +
+            ` (${selection.ranked.length} usable, ${selection.rejected.length} rejected)`
+          : `🎞️ No MediaFile playable on ${selection.profile.label}`,
+        details: {
+          bandwidthKbps: selection.bandwidthKbps,
+          ranked: selection.ranked.map(({ mediaFile, score, notes }) => ({
+            id: mediaFile.id,
+            url: mediaFile.url,
+            score,
+            notes
+          })),
+          rejected: selection.rejected.map(({ mediaFile, reasons }) => ({
+            id: mediaFile.id,
+            url: mediaFile.url,
+            reasons
+          }))
+        }
+      });
+    }
+
+    if (!creative) {
+      reportVastErrors([
+        createVastError(403, 'media-selection', `No MediaFile playable on ${selection.profile.label}`, ad.errorUrls, ad.videoUrl)
+      ], ad);
+      return null;
+    }
+
+    return checkCompanions(creative) ? creative : null;
+  };
+
+  // Enforce CompanionAds required="all|any"; companions that merely can't be shown are reported
+  const checkCompanions = (ad: VastCreative): boolean => {
+    const companionAds = getCompanionAds(ad);
+    if (!companionAds) return true;
+
+    const placement = placeCompanions(companionAds);
+    addLog({
+      level: placement.requirementMet ? 'info' : 'error',
+      message: `🖼️ ${placement.placed.length}/${companionAds.companions.length} companion(s) placed (required="${placement.required}")`,
+      details: {
+        placed: placement.placed.map(({ slot, companion, resource }) => ({
+          slot: slot.id,
+          companion: companion.id,
+          size: `${companion.width}x${companion.height}`,
+          resource: resource.kind
+        })),
+        unplaced: placement.unplaced.map(({ companion, errorCode, reason }) => ({
+          companion: companion.id,
+          size: `${companion.width}x${companion.height}`,
+          errorCode,
+          reason
+        }))
+      }
+    });
+
+    if (!placement.requirementMet) {
+      reportVastErrors([
+        createVastError(602, 'companion', `Companions required="${placement.required}" cannot be displayed - ad skipped`, ad.errorUrls, ad.videoUrl)
+      ], ad);
+      return false;
+    }
+
+    reportVastErrors(placement.unplaced.map(({ companion, errorCode, reason }) =>
+      createVastError(errorCode, 'companion', `Companion ${companion.id || `${companion.width}x${companion.height}`} not shown: ${reason}`, ad.errorUrls)
+    ), ad);
+    return true;
+  };
+
+  const handleCompanionView = (companion: VastCompanion) => {
+    fireCompanionView(companion, buildMacroContext(useStore.getState().currentAd || undefined));
+  };
+
+  const handleCompanionClick = (companion: VastCompanion) => {
+    fireCompanionClick(companion, buildMacroContext(useStore.getState().currentAd || undefined));
+    addLog({
+      level: 'info',
+      message: `🖼️ Companion ${companion.id || `${companion.width}x${companion.height}`} clicked`,
+      details: { clickThrough: companion.clickThrough }
+    });
+    if (companion.clickThrough) {
+      window.open(companion.clickThrough, '_blank', 'noopener');
+    }
+  };
+
+  // Place the first NonLinear that fits over the content, or report why none could be shown
+  const showOverlay = (overlay: VastNonLinearCreative): boolean => {
+    const { placement, errorCode, reason } = placeNonLinear(overlay);
+
+    if (!placement) {
+      reportVastErrors([
+        createVastError(errorCode || 500, 'nonlinear', reason || 'NonLinear ad could not be displayed', overlay.errorUrls)
+      ]);
+      return false;
+    }
+
+    addLog({
+      level: 'success',
+      message: `🪧 Showing overlay "${overlay.title}" (${placement.nonLinear.width}x${placement.nonLinear.height}) for ${placement.displaySeconds}s`,
+      details: {
+        nonLinear: placement.nonLinear.id,
+        resource: placement.resource.kind,
+        wrapperUrls: overlay.wrapperUrls
+      }
+    });
+    setOverlayPlacement(placement);
+    return true;
+  };
+
+  const handleOverlayShow = () => {
+    if (!overlayPlacement) return;
+    fireAdTracking(undefined, overlayPlacement.overlay.impressionUrls, 'nonlinear:impression');
+    fireNonLinearEvent(overlayPlacement.overlay, 'creativeView', buildMacroContext());
+  };
+
+  const handleOverlayClick = () => {
+    if (!overlayPlacement) return;
+    const { nonLinear } = overlayPlacement;
+    fireNonLinearClick(nonLinear, buildMacroContext());
+    addLog({
+      level: 'info',
+      message: `🪧 Overlay ${nonLinear.id || 'NonLinear'} clicked`,
+      details: { clickThrough: nonLinear.clickThrough }
+    });
+    if (nonLinear.clickThrough) {
+      window.open(nonLinear.clickThrough, '_blank', 'noopener');
+    }
+  };
+
+  const handleOverlayClose = (reason: 'user' | 'expired') => {
+    if (!overlayPlacement) return;
+    if (reason === 'user') {
+      fireNonLinearEvent(overlayPlacement.overlay, 'close', buildMacroContext());
+    }
+    addLog({
+      level: 'info',
+      message: reason === 'user' ? '🪧 Overlay closed by viewer' : '🪧 Overlay display time elapsed'
+    });
+    setOverlayPlacement(null);
+    finishVmapBreak();
+  };
+
+  // Fire the <Error> URLs of each failure with [ERRORCODE] filled and log the IAB code
+  const reportVastErrors = (errors: VastErrorEvent[], ad?: VastCreative) => {
+    errors.forEach((vastError) => {
+      fireVastError(vastError, {
+        config: useStore.getState().ctvConfig,
+        ad,
+        breakPosition: breakPositionRef.current,
+        player: { contentPlayhead: contentPlayheadRef.current }
+      });
+
+      addLog({
+        level: NON_FATAL_VAST_ERRORS.includes(vastError.code) ? 'warning' : 'error',
+        message: `⛔ ${describeVastError(vastError.code)} - ${vastError.message}`,
+        vastErrorCode: vastError.code,
+        details: {
+          stage: vastError.stage,
+          url: vastError.url,
+          errorUrlsFired: vastError.errorUrls.length
+        }
+      });
+    });
+  };
+
+  // One entry per nurl/burl/lurl so what each buyer was told can be reconciled
+  const logAuctionNotice = (notice: AuctionNotice) => {
+    addLog({
+      level: 'info',
+      message: `📨 ${notice.type} notice → ${notice.seatId || 'unknown seat'} bid ${notice.bidId}` +
+        (notice.type === 'loss' ? ` (loss reason ${notice.lossReason})` : ` at ${notice.price.toFixed(2)} CPM`),
+      details: {
+        url: notice.url,
+        auctionId: notice.auctionId,
+        impId: notice.impId,
+        price: notice.price,
+        minToWin: notice.minToWin
+      }
+    });
+  };
+
+  // Consent enforcement may have stripped or coarsened fields before the request went out
+  const reportConsentEnforcement = (adRequest: AdRequest) => {
+    const enforcement = adRequest.enforcement;
+    if (!enforcement || enforcement.changes.length === 0) {
+      return;
+    }
+
+    const denied = enforcement.activities.filter(decision => !decision.allowed).map(decision => decision.activity);
+    addLog({
+      level: 'info',
+      message: `🔒 Consent enforcement changed ${enforcement.changes.length} field(s)` +
+        (denied.length > 0 ? ` (denied: ${denied.join(', ')})` : ''),
+      adRequestId: adRequest.id,
+      enforcement
+    });
+  };
+
+  // The local auctions price each seat on the IFA and EIDs it could see
+  const reportAddressability = (adRequest: AdRequest) => {
+    const seatbids: any[] = Array.isArray(adRequest.responseData?.seatbid) ? adRequest.responseData.seatbid : [];
+    const priced = seatbids.flatMap(seatbid =>
+      (Array.isArray(seatbid?.bid) ? seatbid.bid : [])
+        .filter((bid: any) => bid?.ext?.addressability)
+        .map((bid: any) => ({ seat: seatbid.seat, price: bid.price, ...bid.ext.addressability }))
+    );
+    if (priced.length === 0) {
+      return;
+    }
+
+    addLog({
+      level: 'info',
+      message: `🪪 Addressability: ${priced.map(({ seat, price, multiplier }) => `${seat} ${price} (x${multiplier})`).join(', ')}`,
+      adRequestId: adRequest.id,
+      details: priced
+    });
+  };
+
+  // Play the Prebid winner the way a GAM line item would: match on hb_pb, fetch the cached VAST by hb_uuid
+  const serveFromPrebidCache = async (adRequest: AdRequest, adType: string) => {
+    const targeting = adRequest.targeting;
+    if (!targeting) {
+      return;
+    }
+
+    addLog({
+      level: targeting.cacheErrors.length > 0 ? 'warning' : 'info',
+      message: targeting.winner
+        ? `🏷️ Prebid targeting: hb_pb=${targeting.winner.priceBucket} hb_bidder=${targeting.winner.bidder}` +
+          (targeting.keys.hb_pb_cat_dur ? ` hb_pb_cat_dur=${targeting.keys.hb_pb_cat_dur}` : '')
+        : '🏷️ Prebid targeting: no usable bids for the ad server',
+      adRequestId: adRequest.id,
+      targeting
+    });
+    if (!targeting.vastUrl) {
+      return;
+    }
+
+    const adCreative = await loadVastCreative(targeting.vastUrl);
+    if (adCreative) {
+      setCurrentAd(adCreative);
+      addLog({
+        level: 'success',
+        message: `🎬 Prebid ${adType} served from cache: ${adCreative.title}`,
+        details: { vastUrl: targeting.vastUrl, hb_uuid: targeting.keys.hb_uuid }
+      });
+    }
+  };
+
+  // The selling path was checked against ads.txt / sellers.json before the request went out
+  const reportSellerAuthorization = (adRequest: AdRequest) => {
+    const authorization = adRequest.authorization;
+    if (!authorization || (authorization.authorized && !authorization.findings.some(finding => finding.severity === 'warning'))) {
+      return;
+    }
+
+    addLog({
+      level: authorization.authorized ? 'warning' : 'error',
+      message: authorization.authorized
+        ? `🔏 Selling path authorized with warnings for ${authorization.publisherDomain || 'unknown publisher'}`
+        : `🔏 Unauthorized selling path for ${authorization.publisherDomain || 'unknown publisher'}; buyers checking app-ads.txt will drop this request`,
+      adRequestId: adRequest.id,
+      authorization
+    });
+  };
+
+  const clearMediaTimeout = () => {
+    if (mediaTimeoutRef.current) {
+      clearTimeout(mediaTimeoutRef.current);
+      mediaTimeoutRef.current = null;
+    }
+  };
+
+  // Load the VMAP playlist whenever its URL changes; the schedule is built once content duration is known
+  useEffect(() => {
+    vmapDocumentRef.current = null;
+    vmapScheduleRef.current = null;
+    firedBreaksRef.current = new Set();
+    activeBreakRef.current = null;
+
+    const vmapUrl = ctvConfig.vmapUrl;
+    if (!vmapUrl) return;
+
+    let cancelled = false;
+
+    const loadVmap = async () => {
+      try {
+        const response = await fetch(vmapUrl);
+        if (!response.ok) {
+          throw new Error(`${response.status} ${response.statusText}`);
+        }
+
+        const vmapDocument = parseVmapXml(await response.text());
+        if (cancelled) return;
+
+        if (!vmapDocument) {
+          addLog({
+            level: 'error',
+            message: `VMAP playlist could not be parsed: ${vmapUrl}`
+          });
+          return;
+        }
+
+        vmapDocumentRef.current = vmapDocument;
+        addLog({
+          level: 'success',
+          message: `🗓️ VMAP playlist loaded: ${vmapDocument.adBreaks.length} ad break(s)`,
+          details: {
+            url: vmapUrl,
+            breaks: vmapDocument.adBreaks.map(adBreak => ({
+              breakId: adBreak.breakId,
+              timeOffset: adBreak.rawTimeOffset,
+              breakType: adBreak.breakType,
+              repeatAfter: adBreak.repeatAfter,
+              adSource: adBreak.adSource?.kind
+            }))
+          }
+        });
+
+        const contentDuration = playerRef.current?.duration();
+        if (contentDuration && !useStore.getState().isPlayingAd) {
+          buildVmapSchedule(contentDuration);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          addLog({
+            level: 'error',
+            message: `VMAP request failed: ${error}`,
+            details: { url: vmapUrl }
+          });
+        }
+      }
+    };
+
+    loadVmap();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ctvConfig.vmapUrl]);
+
+  const buildVmapSchedule = (contentDuration: number) => {
+    const vmapDocument = vmapDocumentRef.current;
+    if (!vmapDocument) return;
+
+    const schedule = scheduleVmapBreaks(vmapDocument, contentDuration);
+    vmapScheduleRef.current = schedule;
+
+    // Position offsets (#n) name the content's nth cue point, and this player's content has none
+    const positional = vmapDocument.adBreaks.filter(adBreak => adBreak.timeOffset.kind === 'position');
+    if (positional.length > 0) {
+      addLog({
+        level: 'warning',
+        message: `🗓️ ${positional.length} VMAP break(s) rejected: #n position offsets need content cue points, which this content does not have`,
+        details: {
+          breaks: positional.map(adBreak => ({ breakId: adBreak.breakId, timeOffset: adBreak.rawTimeOffset }))
+        }
+      });
+    }
+
+    addLog({
+      level: 'info',
+      message: `🗓️ VMAP schedule built: ${schedule.length} break(s) over ${Math.floor(contentDuration)}s of content`,
+      details: {
+        schedule: schedule.map(scheduled => ({
+          id: scheduled.id,
+          time: Math.round(scheduled.time * 10) / 10,
+          position: scheduled.position
+        }))
+      }
+    });
+  };
+
+  // Fire the latest due pre/mid-roll break; breaks skipped over by seeking are marked as passed
+  const checkVmapBreaks = (currentTime: number) => {
+    const schedule = vmapScheduleRef.current;
+    if (!schedule || activeBreakRef.current || useStore.getState().isPlayingAd) return;
+
+    const due = schedule.filter(scheduled =>
+      scheduled.position !== 'postroll' &&
+      scheduled.time <= currentTime &&
+      !firedBreaksRef.current.has(scheduled.id)
+    );
+    if (due.length === 0) return;
+
+    due.slice(0, -1).forEach(scheduled => firedBreaksRef.current.add(scheduled.id));
+    triggerVmapBreak(due[due.length - 1]);
+  };
+
+  const triggerVmapBreak = async (scheduled: ScheduledAdBreak) => {
+    firedBreaksRef.current.add(scheduled.id);
+    activeBreakRef.current = scheduled;
+    breakPositionRef.current = scheduled.position === 'preroll' ? 1 : scheduled.position === 'midroll' ? 2 : 3;
+
+    const { adBreak } = scheduled;
+    const adSource = adBreak.adSource;
+
+    addLog({
+      level: 'info',
+      message: `🗓️ VMAP ${scheduled.position} break "${scheduled.id}" triggered at ${Math.floor(scheduled.time)}s`,
+      details: {
+        timeOffset: adBreak.rawTimeOffset,
+        breakType: adBreak.breakType,
+        occurrence: scheduled.occurrence,
+        adSource: adSource ? { kind: adSource.kind, uri: adSource.uri, templateType: adSource.templateType } : null
+      }
+    });
+
+    fireVmapTracking(scheduled, 'breakStart');
+
+    const vastSource = adSource?.kind === 'adTagUri' ? adSource.uri : adSource?.kind === 'vastAdData' ? adSource.vastXml : undefined;
+    // followRedirects="false" forbids resolving wrappers for this source
+    const resolutionOptions = adSource?.followRedirects === false ? { maxDepth: 0 } : undefined;
+
+    if (!adBreak.breakType.includes('linear')) {
+      // Overlay breaks end when the overlay is dismissed
+      const shown = adBreak.breakType.includes('nonlinear') && vastSource
+        ? await loadNonLinearOverlay(vastSource, resolutionOptions).catch(() => false)
+        : false;
+
+      if (!shown) {
+        addLog({
+          level: 'info',
+          message: `🗓️ VMAP break "${scheduled.id}" has no linear slot and no overlay to show - content continues`
+        });
+        fireVmapTracking(scheduled, 'breakEnd');
+        activeBreakRef.current = null;
+      }
+      return;
+    }
+
+    if (!vastSource) {
+      addLog({
+        level: 'warning',
+        message: `🗓️ VMAP break "${scheduled.id}" has no VAST AdSource - requesting from configured demand`
+      });
+      activeBreakRef.current = null;
+      await handleAdRequest(scheduled.position === 'preroll' ? 'pre-roll' : scheduled.position === 'midroll' ? 'mid-roll' : 'post-roll');
+      return;
+    }
+
+    try {
+      const adCreative = await loadVastCreative(vastSource, resolutionOptions, adSource?.allowMultipleAds ?? true);
+
+      if (adCreative) {
+        setCurrentAd(adCreative);
+      } else {
+        addLog({
+          level: 'warning',
+          message: `🗓️ VMAP break "${scheduled.id}" returned no playable ad - continuing with content`
+        });
+        fireVmapTracking(scheduled, 'error');
+        activeBreakRef.current = null;
+      }
+    } catch (error) {
+      addLog({
+        level: 'error',
+        message: `VMAP break "${scheduled.id}" failed: ${error}`
+      });
+      fireVmapTracking(scheduled, 'error');
+      activeBreakRef.current = null;
+    }
+  };
+
+  const finishVmapBreak = () => {
+    const scheduled = activeBreakRef.current;
+    if (!scheduled) return;
+
+    fireVmapTracking(scheduled, 'breakEnd');
+    activeBreakRef.current = null;
+  };
+
+  const fireVmapTracking = (scheduled: ScheduledAdBreak, event: string) => {
+    scheduled.adBreak.trackingEvents
+      .filter(tracking => tracking.event === event)
+      .forEach(tracking => {
+        fireTrackingPixel(tracking.url, `vmap:${event}`, {
+          config: useStore.getState().ctvConfig,
+          breakPosition: breakPositionRef.current,
+          player: { contentPlayhead: contentPlayheadRef.current }
+        });
+      });
+  };
+
   const handleOptimizedAdRequest = async (adType: string) => {
     addLog({
       level: 'info',
@@ -266,10 +1124,13 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
       category: 'entertainment',
       device: ctvConfig.deviceType === 3 ? 'ctv' : 'desktop',
       user: {
-        id: 'user-' + Math.random().toString(36).substr(2, 9),
+        id: 'user-' + randomId(9),
         segments: [],
         ltv: 2.50
-      }
+      },
+      deviceType: ctvConfig.deviceType,
+      provider: ctvConfig.providerType,
+      country: ctvConfig.geo.country
     };
 
     const optimizer = getOptimizer({
@@ -306,17 +1167,24 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
           failedSlots: result.failedSlots
         }
       });
+      (result.notices || []).forEach(logAuctionNotice);
+      strategy.sequence.filter(slot => slot.floorRule).forEach((slot) => {
+        addLog({
+          level: 'info',
+          message: `🧮 Slot ${slot.slot} floor $${slot.floor.toFixed(2)} (rule ${slot.floorRule!.rule || 'none'}, ${slot.floorRule!.daypart})`,
+          details: slot.floorRule
+        });
+      });
 
       // Play the first winning ad if available
       if (result.winningBids.length > 0) {
         const firstBid = result.winningBids[0];
 
         try {
-          const vastXml = await fetch(firstBid.vastUrl).then(r => r.text());
-          const vastResponse = parseVastXml(vastXml);
+          const adCreative = await loadVastCreative(firstBid.vastUrl);
 
-          if (vastResponse && vastResponse.ads.length > 0) {
-            const adCreative = vastResponse.ads[0];
+          if (adCreative) {
+            pendingBillingRef.current = { ad: adCreative, bid: firstBid };
             setCurrentAd(adCreative);
 
             addLog({
@@ -373,15 +1241,28 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
     try {
       const requestType = ctvConfig.vastTag ? 'vast' : 'openrtb';
       const adRequest = await makeAdRequest(ctvConfig, endpoint, requestType);
+      const vastError = requestType === 'vast' && adRequest.status === 'success'
+        ? classifyVastResponse(adRequest.responseData, endpoint)
+        : null;
+      if (vastError) {
+        adRequest.vastErrorCode = vastError.code;
+      }
 
       addAdRequest(adRequest);
+      reportSellerAuthorization(adRequest);
+      reportConsentEnforcement(adRequest);
+      if (vastError) {
+        reportVastErrors([vastError]);
+      }
 
       if (adRequest.status === 'success') {
         addLog({
           level: 'success',
           message: `${adType} ad request successful (${adRequest.responseTime}ms)`,
-          adRequestId: adRequest.id
+          adRequestId: adRequest.id,
+          bidValidation: adRequest.bidValidation
         });
+        reportAddressability(adRequest);
       } else {
         addLog({
           level: 'error',
@@ -407,6 +1288,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
       return;
     }
 
+    breakPositionRef.current = adType === 'pre-roll' ? 1 : adType === 'mid-roll' ? 2 : 3;
+
     // Use optimizer if enabled
     if (optimizerEnabled && activeTab === 'config') {
       await handleOptimizedAdRequest(adType);
@@ -424,11 +1307,19 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
         // Make AdX request to local server
         const adxEndpoint = 'http://localhost:8081/api/adx/request';
         const ctvProvider = 'androidtv'; // Default or from config
+        const privacy = buildPrivacySignals(ctvConfig);
+        const identity = resolveIdentity(ctvConfig);
+        // The AdX body carries the same IDs as OpenRTB, so consent strips them the same way
+        const { request: identifiers } = enforceConsent({
+          device: { ifa: identity.ifa, ext: { ifa_type: identity.ifaType } },
+          user: { eids: identity.eids }
+        }, ctvConfig);
         
         const response = await fetch(adxEndpoint, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            ...simulatorHeaders(adxEndpoint)
           },
           body: JSON.stringify({
             config: adxConfig,
@@ -452,9 +1343,19 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
                 api: [1, 2]
               },
               gdpr: {
-                consentString: 'test_consent_string',
-                gdprApplies: true
-              }
+                consentString: privacy.consent || '',
+                gdprApplies: privacy.gdpr === 1
+              },
+              uspConsent: privacy.usPrivacy,
+              gppConsent: privacy.gpp ? {
+                gppString: privacy.gpp,
+                applicableSections: privacy.gppSid
+              } : undefined,
+              coppa: privacy.coppa === 1,
+              schain: getSupplyChain(ctvConfig),
+              // Country only: floor rules key on it, and it is not precise geo
+              device: { ...identifiers.device, geo: { country: ctvConfig.geo.country } },
+              user: identifiers.user
             },
             ctvProvider: ctvProvider
           })
@@ -466,11 +1367,37 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
           if (adxResponse.ads && adxResponse.ads.length > 0) {
             const ad = adxResponse.ads[0];
             const vastXml = ad.vastXml;
+            const clearing: AuctionClearing | undefined = ad.auction?.clearing;
+            if (clearing) {
+              addLog({
+                level: 'info',
+                message: `⚖️ ${clearing.mechanics} auction: ${clearing.summary}`,
+                details: clearing
+              });
+            }
+            const floors: AuctionFloors | undefined = ad.auction?.floors;
+            if (floors) {
+              addLog({
+                level: 'info',
+                message: `🧮 Floor rule ${floors.request.rule || 'none'}: $${floors.request.floor.toFixed(2)}` +
+                  (floors.winner && floors.winner.rule !== floors.request.rule
+                    ? `; winner held to ${floors.winner.rule} at $${floors.winner.floor.toFixed(2)}`
+                    : ''),
+                details: floors
+              });
+            }
+            const deals: DealOutcome[] = ad.auction?.deals || [];
+            if (deals.length > 0) {
+              addLog({
+                level: 'info',
+                message: `🤝 Deals: ${deals.map(deal => `${deal.dealId} (${deal.tier}) ${deal.status}`).join(', ')}`,
+                details: deals
+              });
+            }
             
             if (vastXml) {
-              const vastResponse = parseVastXml(vastXml);
-              if (vastResponse && vastResponse.ads.length > 0) {
-                const adCreative = vastResponse.ads[0];
+              const adCreative = await loadVastCreative(vastXml);
+              if (adCreative) {
                 setCurrentAd(adCreative);
                 
                 addLog({
@@ -510,13 +1437,28 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
       try {
         const adRequest = await makePrebidServerRequest(ctvConfig);
         addAdRequest(adRequest);
+        reportSellerAuthorization(adRequest);
+        reportConsentEnforcement(adRequest);
+        
+        const blockedBidders = (adRequest.bidderConsent || []).filter(decision => !decision.allowed);
+        if (blockedBidders.length > 0) {
+          addLog({
+            level: 'warning',
+            message: `🛡️ TCF consent blocked ${blockedBidders.length} bidder(s): ${blockedBidders.map(decision => decision.bidder).join(', ')}`,
+            adRequestId: adRequest.id,
+            details: blockedBidders.map(({ bidder, gvlId, reason }) => ({ bidder, gvlId, reason }))
+          });
+        }
         
         if (adRequest.status === 'success') {
           addLog({
             level: 'success',
             message: `${adType} prebid server request successful (${adRequest.responseTime}ms)`,
-            adRequestId: adRequest.id
+            adRequestId: adRequest.id,
+            bidValidation: adRequest.bidValidation
           });
+          reportAddressability(adRequest);
+          await serveFromPrebidCache(adRequest, adType);
         } else {
           addLog({
             level: 'error',
@@ -553,14 +1495,26 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
       try {
         const requestType = ctvConfig.vastTag ? 'vast' : 'openrtb';
         const adRequest = await makeAdRequest(ctvConfig, endpoint, requestType);
+        const vastError = requestType === 'vast' && adRequest.status === 'success'
+          ? classifyVastResponse(adRequest.responseData, endpoint)
+          : null;
+        if (vastError) {
+          adRequest.vastErrorCode = vastError.code;
+        }
         
         addAdRequest(adRequest);
+        reportSellerAuthorization(adRequest);
+        reportConsentEnforcement(adRequest);
+        if (vastError) {
+          reportVastErrors([vastError]);
+        }
         
         if (adRequest.status === 'success') {
           addLog({
             level: 'success',
             message: `${adType} ad request successful (${adRequest.responseTime}ms)`,
-            adRequestId: adRequest.id
+            adRequestId: adRequest.id,
+            bidValidation: adRequest.bidValidation
           });
         } else {
           addLog({
@@ -591,10 +1545,27 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ activeTab = 'config', adxConf
   }, []);
 
   return (
-    <div className="w-full h-full bg-black rounded-lg overflow-hidden">
-      <div data-vjs-player>
-        <div ref={videoRef} className="w-full h-full" />
+    <div className="w-full h-full bg-black rounded-lg overflow-hidden flex">
+      <div className="relative flex-1 min-w-0">
+        <div data-vjs-player>
+          <div ref={videoRef} className="w-full h-full" />
+        </div>
+        {overlayPlacement && (
+          <NonLinearOverlay
+            placement={overlayPlacement}
+            onShow={handleOverlayShow}
+            onClick={handleOverlayClick}
+            onClose={handleOverlayClose}
+          />
+        )}
       </div>
+      {companionPlacement && (
+        <CompanionPanel
+          placement={companionPlacement}
+          onView={handleCompanionView}
+          onClick={handleCompanionClick}
+        />
+      )}
     </div>
   );
 };
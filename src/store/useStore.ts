@@ -1,8 +1,12 @@
 import { create } from 'zustand';
 import { AdRequest, LogEntry, CTVConfig } from '../types';
 import { PREBID_DEMAND_SOURCES } from '../utils/prebidServer';
+import { buildTCData, encodeTCString, TCF_PURPOSES, TCF_SPECIAL_FEATURES } from '../utils/tcfConsent';
+import { DEFAULT_IDENTITY_CONFIG } from '../utils/identity';
+import { DEFAULT_CACHE_ENDPOINT } from '../utils/prebidTargeting';
 import { VastCreative } from '../utils/vastParser';
-import { PodStrategy, AdPodResult, DemandSource } from '../utils/dynamicAdPodOptimizer';
+import { PodStrategy, AdPodResult, DemandSource, resetOptimizer } from '../utils/dynamicAdPodOptimizer';
+import { currentDate, randomId, startSimulation } from '../utils/simulation';
 
 interface AppState {
   // CTV Configuration
@@ -56,6 +60,10 @@ interface AppState {
   setRevenueTargets: (targets: Record<string, number>) => void;
   customDemandSources: DemandSource[];
   setCustomDemandSources: (sources: DemandSource[]) => void;
+
+  // Seeded simulation: null runs live
+  simulationSeed: string | null;
+  startSimulationRun: (seed: string | null) => void;
 }
 
 const defaultCTVConfig: CTVConfig = {
@@ -69,16 +77,31 @@ const defaultCTVConfig: CTVConfig = {
     lon: -0.1278,
   },
   ip: '91.245.227.10', // UK IP
+  providerType: 'tizen',
+  bandwidthKbps: 15000,
   vastTag: '',
+  vmapUrl: '',
   openRtbEndpoint: '',
   prebidServerConfig: {
     endpoint: 'https://ctv-simulator.vercel.app/api/openrtb2/auction',
     accountId: 'ctv-simulator-account',
     timeout: 1000,
-    demandSources: PREBID_DEMAND_SOURCES
+    demandSources: PREBID_DEMAND_SOURCES,
+    priceGranularity: 'medium',
+    cacheEndpoint: DEFAULT_CACHE_ENDPOINT
   },
   gdprConsent: true,
-  tcfString: 'CPXxRfAPXxRfAAfKABENB-CgAAAAAAAAAAYgAAAAAAAA',
+  // Consent to every purpose and special feature for every built-in demand source
+  tcfString: encodeTCString(buildTCData({
+    purposeConsents: Object.keys(TCF_PURPOSES).map(Number),
+    purposeLegitimateInterests: [],
+    specialFeatureOptIns: Object.keys(TCF_SPECIAL_FEATURES).map(Number),
+    vendorConsents: PREBID_DEMAND_SOURCES.flatMap(source => (source.gvlId ? [source.gvlId] : [])),
+    vendorLegitimateInterests: []
+  })),
+  privacyScenario: 'none',
+  publisherId: 'ctv-simulator',
+  identity: DEFAULT_IDENTITY_CONFIG,
 };
 
 export const useStore = create<AppState>((set) => ({
@@ -110,8 +133,8 @@ export const useStore = create<AppState>((set) => ({
       logs: [
         {
           ...log,
-          id: Math.random().toString(36).substr(2, 9),
-          timestamp: new Date(),
+          id: randomId(9),
+          timestamp: currentDate(),
         },
         ...state.logs,
       ],
@@ -165,4 +188,20 @@ export const useStore = create<AppState>((set) => ({
     })),
   customDemandSources: [],
   setCustomDemandSources: (sources) => set({ customDemandSources: sources }),
+
+  // Seeded simulation: every run starts from a clean log, request list and optimizer
+  simulationSeed: null,
+  startSimulationRun: (seed) => {
+    startSimulation(seed);
+    resetOptimizer();
+    set({
+      simulationSeed: seed || null,
+      logs: [],
+      adRequests: [],
+      selectedAdRequest: null,
+      podHistory: [],
+      lastPodResult: null,
+      currentPodStrategy: null
+    });
+  },
 })); 
\ No newline at end of file
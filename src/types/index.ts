@@ -1,3 +1,5 @@
+import type { FloorRule, FloorResolution } from '../../config/floor-rules.js';
+
 export interface AdRequest {
   id: string;
   timestamp: Date;
@@ -10,6 +12,90 @@ export interface AdRequest {
   responseStatus?: number;
   responseData?: any;
   error?: string;
+  vastErrorCode?: number; // IAB VAST error code when the response could not yield an ad
+  lintFindings?: LintFinding[];
+  bidValidation?: BidResponseValidation; // OpenRTB responses only
+  authorization?: SellerAuthorization; // Checked before an OpenRTB request is sent
+  bidderConsent?: BidderConsentDecision[]; // Prebid Server requests only
+  enforcement?: ConsentEnforcement; // What consent enforcement changed before sending
+  targeting?: PrebidTargeting; // Prebid Server requests only, once bids are back
+}
+
+// Ad server key-values built from Prebid Server bids, as a GAM line item setup would match them
+export interface PrebidTargeting {
+  granularity: PriceGranularity;
+  keys: Record<string, string>; // Winner keys plus per-bidder keys
+  bids: TargetedBid[]; // Highest price first
+  winner?: TargetedBid;
+  vastUrl?: string; // The winner's cached VAST, as the line item's creative would request it
+  cacheErrors: string[];
+}
+
+export interface TargetedBid {
+  bidder: string;
+  bidId: string;
+  impId: string;
+  price: number;
+  priceBucket: string; // hb_pb
+  size: string; // hb_size
+  duration?: number; // Seconds, bucketed for hb_pb_cat_dur
+  category?: string;
+  cacheId?: string;
+}
+
+// Privacy activities gated the way Prebid Server's activity controls do
+export type PrivacyActivity = 'transmitUfpd' | 'transmitEids' | 'transmitPreciseGeo';
+
+export interface ActivityDecision {
+  activity: PrivacyActivity;
+  allowed: boolean;
+  reason: string;
+}
+
+export interface RequestChange {
+  path: string; // e.g. "device.geo.lat"
+  before?: any; // undefined when the field was added
+  after?: any; // undefined when the field was removed
+}
+
+export interface ConsentEnforcement {
+  activities: ActivityDecision[];
+  droppedBidders: string[];
+  changes: RequestChange[];
+}
+
+export interface BidderConsentDecision {
+  bidder: string;
+  gvlId?: number;
+  allowed: boolean;
+  reason: string;
+}
+
+export interface AuthorizationFinding {
+  severity: 'error' | 'warning' | 'info';
+  source: 'ads.txt' | 'app-ads.txt' | 'sellers.json' | 'schain' | 'request';
+  message: string;
+  line?: number; // Line in ads.txt / app-ads.txt
+  node?: number; // Index into schain.nodes
+}
+
+export interface SellerAuthorization {
+  authorized: boolean; // No error-level findings
+  publisherDomain?: string;
+  bundle?: string;
+  findings: AuthorizationFinding[];
+}
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRulePack = 'iab-vast-4' | 'ctv-best-practice' | 'custom';
+
+export interface LintFinding {
+  ruleId: string;
+  pack: LintRulePack;
+  severity: LintSeverity;
+  message: string;
+  path?: string; // Where in the payload, e.g. "Ad[123] > Creative[456]"
 }
 
 export interface LogEntry {
@@ -19,6 +105,12 @@ export interface LogEntry {
   message: string;
   details?: any;
   adRequestId?: string;
+  vastErrorCode?: number;
+  lintFindings?: LintFinding[];
+  bidValidation?: BidResponseValidation;
+  authorization?: SellerAuthorization;
+  enforcement?: ConsentEnforcement;
+  targeting?: PrebidTargeting;
 }
 
 export interface CTVConfig {
@@ -32,11 +124,75 @@ export interface CTVConfig {
     lon?: number;
   };
   ip: string;
+  providerType?: CTVProvider['type']; // Device capability profile used for MediaFile selection
+  bandwidthKbps?: number; // Simulated connection speed
   vastTag?: string;
+  vmapUrl?: string; // VMAP playlist that schedules ad breaks automatically
   openRtbEndpoint?: string;
   prebidServerConfig?: PrebidServerConfig;
   gdprConsent?: boolean;
   tcfString?: string;
+  privacyScenario?: string; // GPP / us_privacy / COPPA scenario, see PRIVACY_SCENARIOS
+  podSpec?: PodSpec; // Ad pod requested through OpenRTB 2.6 pod fields
+  publisherId?: string; // Simulated publisher whose supply chain is sent
+  supplyChain?: SupplyChain;
+  identity?: IdentityConfig; // Simulated ID graph behind device.ifa and user.eids
+}
+
+export type EidSourceId = 'uid2' | 'rampid' | 'id5' | 'householdIp';
+
+export interface IdentityConfig {
+  salt: string; // Local salt every simulated ID is derived from
+  enabledSources: EidSourceId[];
+}
+
+// OpenRTB 2.6 extended identifier (user.eids)
+export interface Eid {
+  source: string; // Domain of the ID vendor, e.g. uidapi.com
+  uids: Array<{
+    id: string;
+    atype: number; // 1 device / cookie, 3 person-based
+    ext?: Record<string, any>;
+  }>;
+}
+
+// SupplyChain object (schain 1.0). Nodes run from the publisher's own ad
+// system through every intermediary to the seller sending the request.
+export interface SupplyChain {
+  complete: 0 | 1; // 1 when the chain reaches back to the publisher
+  ver: string;
+  nodes: SupplyChainNode[];
+  ext?: any;
+}
+
+export interface SupplyChainNode {
+  asi: string; // Canonical domain of the advertising system, as in its sellers.json
+  sid: string; // seller_id in that system's sellers.json
+  hp: 0 | 1; // 1 when the node is in the payment flow; schain 1.0 requires 1
+  rid?: string; // Request id as issued by this node
+  name?: string;
+  domain?: string;
+  ext?: any;
+}
+
+// OpenRTB 2.6 ad pod. Dynamic pods are one impression the SSP fills with up to
+// maxseq ads; structured pods are one impression per fixed slot.
+export interface PodSpec {
+  type: 'dynamic' | 'structured';
+  podId?: string; // Generated per request when omitted
+  podSequence?: -1 | 0 | 1; // podseq: last, any or first pod in the content
+  podDuration?: number; // Dynamic: poddur in seconds
+  maxSequence?: number; // Dynamic: maxseq, most ads the pod may hold
+  requiredDurations?: number[]; // Dynamic: rqddurs, the only ad lengths accepted
+  slots?: PodSlotSpec[]; // Structured: one impression per slot, in order
+  minCpmPerSec?: number;
+  dedupe?: number[]; // poddedupe: 1 adomain, 2 category
+}
+
+export interface PodSlotSpec {
+  minDuration?: number;
+  maxDuration?: number;
+  requiredDurations?: number[];
 }
 
 export interface OpenRTBRequest {
@@ -45,18 +201,27 @@ export interface OpenRTBRequest {
     id: string;
     video: {
       mimes: string[];
-      minduration: number;
-      maxduration: number;
+      minduration?: number; // Omitted when rqddurs is sent
+      maxduration?: number;
+      rqddurs?: number[];
       protocols: number[];
       w: number;
       h: number;
       startdelay: number;
       placement: number;
+      plcmt: number;
       linearity: number;
       skip: number;
       skipmin: number;
       skipafter: number;
-      sequence: number;
+      sequence?: number; // Single-ad requests only; pods use slotinpod
+      podid?: string;
+      podseq?: number;
+      slotinpod?: number;
+      maxseq?: number;
+      poddur?: number;
+      mincpmpersec?: number;
+      poddedupe?: number[];
       battr: number[];
       maxextended: number;
       minbitrate: number;
@@ -195,16 +360,20 @@ export interface OpenRTBRequest {
     dpidmd5: string;
     macsha1: string;
     macmd5: string;
+    ext?: {
+      ifa_type?: string; // Which platform issued ifa, e.g. rida, tifa
+    };
   };
   user?: {
-    id: string;
-    buyeruid: string;
-    yob: number;
-    gender: string;
-    keywords: string;
-    customdata: string;
-    geo: any;
-    data: any[];
+    id?: string;
+    buyeruid?: string;
+    yob?: number;
+    gender?: string;
+    keywords?: string;
+    customdata?: string;
+    geo?: any;
+    data?: any[];
+    eids?: Eid[];
   };
   test?: number;
   at: number;
@@ -221,11 +390,20 @@ export interface OpenRTBRequest {
     fd: number;
     tid: string;
     pchain: string;
+    schain?: SupplyChain; // OpenRTB 2.6 location
+    ext?: {
+      schain?: SupplyChain; // OpenRTB 2.5 location, still read by many bidders
+    };
   };
   regs?: {
     coppa: number;
+    gdpr?: number;
+    us_privacy?: string;
+    gpp?: string; // Global Privacy Platform string
+    gpp_sid?: number[]; // GPP section IDs that apply to this request
     ext: {
-      gdpr: number;
+      gdpr?: number;
+      us_privacy?: string;
     };
   };
   ext?: {
@@ -233,6 +411,80 @@ export interface OpenRTBRequest {
   };
 }
 
+// OpenRTB 2.6 bid response, as returned by SSPs and Prebid Server
+export interface OpenRTBBidResponse {
+  id: string;
+  seatbid?: OpenRTBSeatBid[];
+  bidid?: string;
+  cur?: string; // Defaults to USD when omitted
+  customdata?: string;
+  nbr?: number; // No-bid reason
+  ext?: any;
+}
+
+export interface OpenRTBSeatBid {
+  bid: OpenRTBBid[];
+  seat?: string;
+  group?: number;
+  ext?: any;
+}
+
+export interface OpenRTBBid {
+  id: string;
+  impid: string;
+  price: number;
+  nurl?: string;
+  burl?: string;
+  lurl?: string;
+  adm?: string;
+  adid?: string;
+  adomain?: string[];
+  bundle?: string;
+  iurl?: string;
+  cid?: string;
+  crid?: string;
+  tactic?: string;
+  cattax?: number;
+  cat?: string[];
+  attr?: number[];
+  apis?: number[];
+  protocol?: number;
+  qagmediarating?: number;
+  language?: string;
+  langb?: string;
+  dealid?: string;
+  w?: number;
+  h?: number;
+  exp?: number;
+  dur?: number; // Seconds of video or audio creative
+  mtype?: number; // 1 banner, 2 video, 3 audio, 4 native
+  slotinpod?: number;
+  ext?: any;
+}
+
+export type BidVerdict = 'accepted' | 'flagged' | 'rejected';
+
+export interface BidIssue {
+  field: string; // Bid or response field the issue is about, e.g. "price"
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface BidValidation {
+  seat: string;
+  bidId: string;
+  impId: string;
+  price: number;
+  verdict: BidVerdict;
+  issues: BidIssue[];
+}
+
+export interface BidResponseValidation {
+  responseIssues: BidIssue[]; // Problems with the envelope rather than a single bid
+  bids: BidValidation[];
+  noBidReason?: number;
+}
+
 export interface SSPEndpoint {
   name: string;
   url: string;
@@ -248,6 +500,8 @@ export interface PrebidBidder {
 export interface PrebidDemandSource {
   name: string;
   bidder: string;
+  gvlId?: number; // IAB Global Vendor List ID, checked against the TC string
+  eidPermissions?: EidSourceId[]; // EID sources this bidder may receive; every source when omitted
   params: Record<string, any>;
   defaultValues: Record<string, any>;
   enabled: boolean;
@@ -258,6 +512,18 @@ export interface PrebidServerConfig {
   accountId: string;
   timeout: number;
   demandSources: PrebidDemandSource[];
+  priceGranularity?: PriceGranularity; // hb_pb buckets; medium when omitted
+  customPriceBuckets?: PriceBucket[]; // Used when priceGranularity is custom
+  cacheEndpoint?: string; // Prebid Cache compatible endpoint the winning VAST is stored in
+}
+
+export type PriceGranularity = 'low' | 'medium' | 'high' | 'auto' | 'dense' | 'custom';
+
+// One price range: CPMs up to max round down to a multiple of increment
+export interface PriceBucket {
+  max: number;
+  increment: number;
+  precision?: number; // Decimal places in hb_pb; 2 when omitted
 }
 
 export interface PrebidServerRequest {
@@ -405,8 +671,12 @@ export interface PrebidServerRequest {
       ifv?: string;
       session_depth?: number;
       screen_orientation?: number;
+      ifa_type?: string;
     };
   };
+  user?: {
+    eids?: Eid[];
+  };
   at: number;
   tmax: number;
   wseat: string[];
@@ -421,25 +691,17 @@ export interface PrebidServerRequest {
     fd: number;
     tid: string;
     pchain: string;
-    schain?: {
-      complete: number;
-      nodes: Array<{
-        asi: string;
-        sid: string;
-        hp: number;
-        rid: string;
-        name: string;
-        domain: string;
-      }>;
-      ver: string;
-      ext?: {
-        certification?: string;
-        relationship_type?: string;
-      };
+    schain?: SupplyChain;
+    ext?: {
+      schain?: SupplyChain;
     };
   };
   regs?: {
     coppa: number;
+    gdpr?: number;
+    us_privacy?: string;
+    gpp?: string;
+    gpp_sid?: number[];
     ext: {
       gdpr?: number;
       us_privacy?: string;
@@ -458,6 +720,10 @@ export interface PrebidServerRequest {
       storedrequest: {
         id: string;
       };
+      data?: {
+        // Which bidders may see each user.eids source; sources not listed go to every bidder
+        eidpermissions?: Array<{ source: string; bidders: string[] }>;
+      };
       ctv?: {
         device_model?: string;
         os_version?: string;
@@ -493,6 +759,65 @@ export interface AdXConfig {
   tagForUnderAge?: string;
   customParams?: Record<string, any>;
   palConfig?: PALConfig;
+  auction?: AuctionRules;
+  deals?: DealTerms[]; // Offered in this request's auction only, alongside the service's registered deals
+  privateAuction?: boolean; // imp.pmp.private_auction: only deal bids may win
+  floorRules?: FloorRule[]; // Replaces the shared rules in config/floor-rules.js for this publisher
+}
+
+// Floor rules are shared with the servers, so their types live beside them
+export type { FloorRule, FloorResolution, FloorTraceEntry } from '../../config/floor-rules.js';
+
+// The request's floor rule and the one the winning bid was held to
+export interface AuctionFloors {
+  request: FloorResolution;
+  winner: FloorResolution | null;
+}
+
+// A PG, PD or private auction deal as api/deal-engine.js takes it
+export interface DealTerms {
+  dealId: string;
+  tier: 'pg' | 'pd' | 'pmp';
+  price: number; // Fixed price for PG and PD, floor for PMP
+  currency?: string;
+  advertiserId?: string;
+  exchanges?: string[];
+  wseat?: string[]; // Buyer seats allowed to bid
+  wadomain?: string[]; // Advertiser domains allowed to bid
+  startDate?: string;
+  endDate?: string;
+}
+
+// How one offered deal fared in an auction
+export interface DealOutcome {
+  dealId: string;
+  tier: DealTerms['tier'];
+  bids: number;
+  status: 'won' | 'lost' | 'no-bid' | 'rejected';
+  reason: string;
+}
+
+// Mechanics the local AdX auctions clear with (api/auction-engine.js)
+export interface AuctionRules {
+  type: 'first-price' | 'second-price';
+  floor?: number; // Hard floor: bids below it are rejected
+  softFloor?: number; // Second-price only: a winner below it pays its own bid
+  increment?: number | Array<{ upTo: number; increment: number }>; // Added to the runner-up's price
+}
+
+// How a clearing price came about, as the auction engine explains it
+export interface AuctionClearing {
+  mechanics: AuctionRules['type'] | 'fixed-price';
+  winner: { label: string; price: number } | null;
+  runnerUp: { label: string; price: number } | null;
+  floor: number;
+  softFloor: number;
+  floorApplied: 'hard' | 'soft' | null;
+  increment: number;
+  minToWin: number;
+  clearingPrice: number;
+  deal?: { id: string; tier: DealTerms['tier'] }; // Set when a deal won
+  summary: string;
 }
 
 export interface PALConfig {
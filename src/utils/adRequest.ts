@@ -2,6 +2,7 @@
 // Handles real and mock ad requests to various ad servers
 
 import { AdXConfig } from '../types/index';
+import { now, randomId, simulatorHeaders } from './simulation';
 
 export interface AdRequestConfig {
   adUnitCode: string;
@@ -27,6 +28,11 @@ export interface AdRequestConfig {
     gdprApplies: boolean;
   };
   uspConsent?: string;
+  gppConsent?: {
+    gppString: string;
+    applicableSections: number[];
+  };
+  coppa?: boolean;
 }
 
 export interface AdResponse {
@@ -68,7 +74,8 @@ export async function makeAdRequest(
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Accept': 'application/json'
+        'Accept': 'application/json',
+        ...simulatorHeaders(serverUrl)
       },
       body: JSON.stringify(requestPayload)
     });
@@ -144,12 +151,12 @@ export function createDefaultAdRequest(adUnitCode: string): AdRequestConfig {
 
 // Generate unique request ID
 function generateRequestId(): string {
-  return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  return `req_${now()}_${randomId(9)}`;
 }
 
 // Generate unique creative ID
 function generateCreativeId(): string {
-  return `creative_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  return `creative_${now()}_${randomId(9)}`;
 }
 
 // Validate ad request configuration
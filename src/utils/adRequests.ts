@@ -1,49 +1,95 @@
 import axios from 'axios';
-import { CTVConfig, OpenRTBRequest, AdRequest } from '../types';
+import { CTVConfig, OpenRTBRequest, AdRequest, PodSpec } from '../types';
+import { durationBoundsFromRequest, lintAdResponse } from './creativeLinter';
+import { expectationsFromRequest, validateBidResponse } from './bidResponseValidator';
+import { buildSupplyChain, getSimulatedPublisher } from './supplyChain';
+import { authorizeRequest } from './sellerAuthorization';
+import { buildPrivacySignals } from './gppConsent';
+import { enforceConsent } from './consentEnforcement';
+import { resolveIdentity } from './identity';
+import { currentDate, now, randomId, simulatorHeaders } from './simulation';
 
-export const generateOpenRTBRequest = (config: CTVConfig): OpenRTBRequest => {
-  const requestId = Math.random().toString(36).substr(2, 9);
-  const impId = Math.random().toString(36).substr(2, 9);
+type OpenRTBImp = OpenRTBRequest['imp'][number];
+
+export const generateOpenRTBRequest = (
+  config: CTVConfig,
+  podSpec: PodSpec | undefined = config.podSpec
+): OpenRTBRequest => {
+  const requestId = randomId(9);
+  const impId = randomId(9);
+  const schain = buildSupplyChain(config, requestId);
+  const publisher = getSimulatedPublisher(config.publisherId);
+  const privacy = buildPrivacySignals(config);
+  const identity = resolveIdentity(config);
+  
+  const baseImp: OpenRTBImp = {
+    id: impId,
+    video: {
+      mimes: ['video/mp4', 'video/webm'],
+      minduration: 5,
+      maxduration: 30,
+      protocols: [2, 3, 5, 6],
+      w: 1920,
+      h: 1080,
+      startdelay: 0,
+      placement: 1,
+      plcmt: 1, // 2.6 replacement for placement: instream
+      linearity: 1,
+      skip: 1,
+      skipmin: 5,
+      skipafter: 5,
+      sequence: 1,
+      battr: [13, 14],
+      maxextended: 30,
+      minbitrate: 300,
+      maxbitrate: 1500,
+      boxingallowed: 1,
+      playbackmethod: [1, 3],
+      playbackend: 1,
+      delivery: [2],
+      pos: 7,
+      companionad: [],
+      api: [1, 2],
+      companiontype: []
+    },
+    displaymanager: 'CTV-Simulator',
+    displaymanagerver: '1.0.0',
+    instl: 0,
+    tagid: 'ctv-simulator-tag',
+    bidfloor: 0.01,
+    bidfloorcur: 'GBP',
+    secure: 1
+  };
   
   return {
     id: requestId,
-    imp: [{
-      id: impId,
-      video: {
-        mimes: ['video/mp4', 'video/webm'],
-        minduration: 5,
-        maxduration: 30,
-        protocols: [2, 3, 5, 6],
-        w: 1920,
-        h: 1080,
-        startdelay: 0,
-        placement: 1,
-        linearity: 1,
-        skip: 1,
-        skipmin: 5,
-        skipafter: 5,
-        sequence: 1,
-        battr: [13, 14],
-        maxextended: 30,
-        minbitrate: 300,
-        maxbitrate: 1500,
-        boxingallowed: 1,
-        playbackmethod: [1, 3],
-        playbackend: 1,
-        delivery: [2],
-        pos: 7,
-        companionad: [],
-        api: [1, 2],
-        companiontype: []
+    imp: podSpec ? generatePodImpressions(baseImp, podSpec) : [baseImp],
+    app: {
+      id: `${publisher.id}-app`,
+      name: publisher.name,
+      bundle: publisher.bundle,
+      domain: publisher.domain,
+      storeurl: '',
+      cat: ['IAB1'],
+      sectioncat: [],
+      pagecat: [],
+      ver: '1.0.0',
+      privacypolicy: 1,
+      paid: 0,
+      publisher: {
+        // The account the last seller in the chain knows the publisher by
+        id: schain.nodes[schain.nodes.length - 1]?.sid || publisher.id,
+        name: publisher.name,
+        cat: ['IAB1'],
+        domain: publisher.domain
+      },
+      content: {
+        id: 'big-buck-bunny',
+        title: 'Big Buck Bunny',
+        livestream: 0
       },
-      displaymanager: 'CTV-Simulator',
-      displaymanagerver: '1.0.0',
-      instl: 0,
-      tagid: 'ctv-simulator-tag',
-      bidfloor: 0.01,
-      bidfloorcur: 'GBP',
-      secure: 1
-    }],
+      keywords: ''
+    },
     device: {
       ua: config.userAgent,
       geo: {
@@ -51,7 +97,7 @@ export const generateOpenRTBRequest = (config: CTVConfig): OpenRTBRequest => {
         lon: config.geo.lon || -0.1278,
         type: 2,
         accuracy: 100,
-        lastfix: Math.floor(Date.now() / 1000),
+        lastfix: Math.floor(now() / 1000),
         ipservice: 3,
         country: config.geo.country,
         region: config.geo.region || 'England',
@@ -82,14 +128,20 @@ export const generateOpenRTBRequest = (config: CTVConfig): OpenRTBRequest => {
       carrier: '',
       mccmnc: '',
       connectiontype: 1,
-      ifa: Math.random().toString(36).substr(2, 16),
+      ifa: identity.ifa,
       didsha1: '',
       didmd5: '',
       dpidsha1: '',
       dpidmd5: '',
       macsha1: '',
-      macmd5: ''
+      macmd5: '',
+      ext: {
+        ifa_type: identity.ifaType
+      }
     },
+    user: identity.eids.length > 0 ? {
+      eids: identity.eids
+    } : undefined,
     at: 1,
     tmax: 120,
     wseat: [],
@@ -103,38 +155,106 @@ export const generateOpenRTBRequest = (config: CTVConfig): OpenRTBRequest => {
     source: {
       fd: 1,
       tid: requestId,
-      pchain: ''
+      pchain: '',
+      // 2.6 moved schain out of ext; 2.5 bidders still read it there
+      schain,
+      ext: { schain }
     },
-    regs: config.gdprConsent ? {
-      coppa: 0,
+    regs: {
+      coppa: privacy.coppa,
+      gdpr: privacy.gdpr,
+      us_privacy: privacy.usPrivacy,
+      gpp: privacy.gpp,
+      gpp_sid: privacy.gppSid,
+      // 2.5 bidders read these from ext
       ext: {
-        gdpr: 1
+        gdpr: privacy.gdpr,
+        us_privacy: privacy.usPrivacy
       }
-    } : undefined,
-    ext: config.gdprConsent && config.tcfString ? {
-      consent: config.tcfString
+    },
+    ext: privacy.consent ? {
+      consent: privacy.consent
     } : undefined
   };
 };
 
+/**
+ * Expand a pod spec into OpenRTB 2.6 impressions: a single impression for a
+ * dynamic pod, one impression per slot for a structured pod
+ */
+export const generatePodImpressions = (baseImp: OpenRTBImp, podSpec: PodSpec): OpenRTBImp[] => {
+  const podId = podSpec.podId || `pod-${randomId(6)}`;
+  const { sequence, ...video } = baseImp.video;
+  const podVideo = {
+    ...video,
+    podid: podId,
+    podseq: podSpec.podSequence ?? 0,
+    mincpmpersec: podSpec.minCpmPerSec,
+    poddedupe: podSpec.dedupe && podSpec.dedupe.length > 0 ? podSpec.dedupe : undefined
+  };
+  
+  if (podSpec.type === 'dynamic') {
+    return [{
+      ...baseImp,
+      video: {
+        ...withDurations(podVideo, podSpec.requiredDurations),
+        poddur: podSpec.podDuration ?? 120,
+        maxseq: podSpec.maxSequence
+      }
+    }];
+  }
+  
+  const slots = podSpec.slots && podSpec.slots.length > 0 ? podSpec.slots : [{}];
+  return slots.map((slot, index) => ({
+    ...baseImp,
+    id: `${baseImp.id}-${index + 1}`,
+    video: {
+      ...withDurations(
+        {
+          ...podVideo,
+          minduration: slot.minDuration ?? podVideo.minduration,
+          maxduration: slot.maxDuration ?? podVideo.maxduration
+        },
+        slot.requiredDurations
+      ),
+      // 1 = first slot, -1 = last slot, 0 = any other position
+      slotinpod: slots.length === 1 ? 0 : index === 0 ? 1 : index === slots.length - 1 ? -1 : 0
+    }
+  }));
+};
+
+// rqddurs replaces minduration/maxduration; 2.6 forbids sending both
+const withDurations = <T extends { minduration?: number; maxduration?: number }>(
+  video: T,
+  requiredDurations: number[] | undefined
+) => {
+  if (!requiredDurations || requiredDurations.length === 0) {
+    return video;
+  }
+  const { minduration, maxduration, ...rest } = video;
+  return { ...rest, rqddurs: requiredDurations };
+};
+
 export const makeAdRequest = async (
   config: CTVConfig,
   endpoint: string,
   type: 'vast' | 'openrtb'
 ): Promise<AdRequest> => {
-  const requestId = Math.random().toString(36).substr(2, 9);
-  const startTime = Date.now();
+  const requestId = randomId(9);
+  const startTime = now();
   
   const adRequest: AdRequest = {
     id: requestId,
-    timestamp: new Date(),
+    timestamp: currentDate(),
     url: endpoint,
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
       'User-Agent': config.userAgent,
       'X-Forwarded-For': config.ip,
-      'Accept': type === 'vast' ? 'application/xml' : 'application/json'
+      'Accept': type === 'vast' ? 'application/xml' : 'application/json',
+      ...(type === 'openrtb' ? { 'x-openrtb-version': '2.6' } : {}),
+      ...simulatorHeaders(endpoint)
     },
     status: 'pending'
   };
@@ -143,8 +263,11 @@ export const makeAdRequest = async (
     let response;
     
     if (type === 'openrtb') {
-      const payload = generateOpenRTBRequest(config);
+      const { request: payload, enforcement } = enforceConsent(generateOpenRTBRequest(config), config);
       adRequest.payload = payload;
+      adRequest.enforcement = enforcement;
+      // Flag unauthorized selling paths before the request leaves
+      adRequest.authorization = await authorizeRequest(payload, config);
       
       response = await axios.post(endpoint, payload, {
         headers: adRequest.headers,
@@ -158,18 +281,26 @@ export const makeAdRequest = async (
       });
     }
     
-    const responseTime = Date.now() - startTime;
+    const responseTime = now() - startTime;
     
     return {
       ...adRequest,
       status: 'success',
       responseTime,
       responseStatus: response.status,
-      responseData: response.data
+      responseData: response.data,
+      lintFindings: lintAdResponse(type, response.data, {
+        deviceType: config.providerType,
+        bandwidthKbps: config.bandwidthKbps,
+        ...durationBoundsFromRequest(adRequest.payload)
+      }),
+      bidValidation: type === 'openrtb'
+        ? validateBidResponse(response.data, expectationsFromRequest(adRequest.payload))
+        : undefined
     };
     
   } catch (error: any) {
-    const responseTime = Date.now() - startTime;
+    const responseTime = now() - startTime;
     
     return {
       ...adRequest,
@@ -0,0 +1,227 @@
+/**
+ * Auction Notices
+ *
+ * Fires the OpenRTB win (nurl), billing (burl) and loss (lurl) notices for
+ * the optimizer's client-side auctions, with ${AUCTION_*} macros substituted,
+ * and returns a record of every notice so what each buyer was told can be
+ * reconciled from the log.
+ *
+ * Features:
+ * - ${AUCTION_PRICE}, ${AUCTION_ID}, ${AUCTION_BID_ID}, ${AUCTION_IMP_ID},
+ *   ${AUCTION_SEAT_ID}, ${AUCTION_LOSS} and ${AUCTION_MIN_TO_WIN} substitution
+ * - Win notice on win, loss notice with an OpenRTB loss reason for every loser
+ * - Billing notice fired separately, when the impression renders
+ * - Loss reasons derived from bid validation issues for rejected bids
+ */
+
+import { BidIssue } from '../types';
+import { currentDate } from './simulation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type AuctionNoticeType = 'win' | 'billing' | 'loss';
+
+// What a notice needs to know about the bid it is for
+export interface NoticeBid {
+  auctionId: string; // BidResponse id, which echoes the request id
+  bidId: string;
+  impId: string;
+  seatId?: string;
+  adId?: string;
+  currency?: string;
+  nurl?: string;
+  burl?: string;
+  lurl?: string;
+}
+
+export interface AuctionNotice {
+  type: AuctionNoticeType;
+  url: string; // As fired, macros expanded
+  auctionId: string;
+  bidId: string;
+  impId: string;
+  seatId?: string;
+  price: number; // Clearing price substituted for ${AUCTION_PRICE}
+  lossReason?: number;
+  minToWin?: number;
+  firedAt: Date;
+}
+
+export interface AuctionOutcome {
+  winner: NoticeBid | null;
+  clearingPrice: number;
+  runnerUpPrice?: number;
+  floor?: number;
+  losers: Array<{ bid: NoticeBid; lossReason: number }>;
+}
+
+// OpenRTB 2.6 loss reason codes
+export const LOSS_REASONS = {
+  BID_WON: 0,
+  INTERNAL_ERROR: 1,
+  IMPRESSION_EXPIRED: 2,
+  INVALID_BID_RESPONSE: 3,
+  INVALID_DEAL_ID: 4,
+  INVALID_AUCTION_ID: 5,
+  INVALID_ADVERTISER_DOMAIN: 6,
+  MISSING_MARKUP: 7,
+  MISSING_CREATIVE_ID: 8,
+  MISSING_BID_PRICE: 9,
+  BELOW_AUCTION_FLOOR: 100,
+  BELOW_DEAL_FLOOR: 101,
+  LOST_TO_HIGHER_BID: 102,
+  LOST_TO_PMP_DEAL: 103,
+  BUYER_SEAT_BLOCKED: 104,
+  CREATIVE_FILTERED: 200,
+  ADVERTISER_EXCLUSIONS: 205,
+  CATEGORY_EXCLUSIONS: 209
+} as const;
+
+interface MacroValues {
+  price: number;
+  lossReason?: number;
+  minToWin?: number;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Replace ${AUCTION_*} macros. Values are URL-encoded; unknown macros are left in place.
+ */
+export function expandAuctionMacros(url: string, bid: NoticeBid, values: MacroValues): string {
+  const macros: Record<string, string | number | undefined> = {
+    AUCTION_ID: bid.auctionId,
+    AUCTION_BID_ID: bid.bidId,
+    AUCTION_IMP_ID: bid.impId,
+    AUCTION_SEAT_ID: bid.seatId,
+    AUCTION_AD_ID: bid.adId,
+    AUCTION_CURRENCY: bid.currency,
+    AUCTION_PRICE: formatPrice(values.price),
+    AUCTION_LOSS: values.lossReason,
+    AUCTION_MIN_TO_WIN: formatPrice(values.minToWin)
+  };
+
+  return url.replace(/\$\{(AUCTION_[A-Z_]+)\}/g, (match, name: string) => {
+    const value = macros[name];
+    return value === undefined ? match : encodeURIComponent(String(value));
+  });
+}
+
+/**
+ * What the notices need from one OpenRTB bid of a bid response
+ */
+export function toNoticeBid(response: any, seat: string, bid: any): NoticeBid {
+  return {
+    auctionId: response.id,
+    bidId: bid.id,
+    impId: bid.impid,
+    seatId: seat,
+    adId: bid.adid,
+    currency: response.cur || 'USD',
+    nurl: bid.nurl,
+    burl: bid.burl,
+    lurl: bid.lurl
+  };
+}
+
+/**
+ * Fire the win notice for the winner and a loss notice for every losing bid
+ */
+export function dispatchAuctionNotices(outcome: AuctionOutcome): AuctionNotice[] {
+  const notices: AuctionNotice[] = [];
+
+  if (outcome.winner?.nurl) {
+    notices.push(fireAuctionNotice('win', outcome.winner.nurl, outcome.winner, {
+      price: outcome.clearingPrice,
+      lossReason: LOSS_REASONS.BID_WON,
+      minToWin: outcome.runnerUpPrice
+    }));
+  }
+
+  outcome.losers
+    .filter(({ bid }) => bid.lurl)
+    .forEach(({ bid, lossReason }) => {
+      notices.push(fireAuctionNotice('loss', bid.lurl!, bid, {
+        price: outcome.clearingPrice,
+        lossReason,
+        // What it would have taken to win: the clearing price, or the floor when nobody cleared
+        minToWin: outcome.winner ? outcome.clearingPrice : outcome.floor
+      }));
+    });
+
+  return notices;
+}
+
+/**
+ * Fire the billing notice once the winning ad's impression has rendered
+ */
+export function fireBillingNotice(winner: NoticeBid, clearingPrice: number): AuctionNotice | null {
+  return winner.burl
+    ? fireAuctionNotice('billing', winner.burl, winner, { price: clearingPrice, lossReason: LOSS_REASONS.BID_WON })
+    : null;
+}
+
+/**
+ * Loss reason for a bid the validator rejected, from its first error
+ */
+export function lossReasonForIssues(issues: BidIssue[]): number {
+  const issue = issues.find(candidate => candidate.severity === 'error');
+  switch (issue?.field) {
+    case 'price':
+      return /floor/.test(issue.message) ? LOSS_REASONS.BELOW_AUCTION_FLOOR : LOSS_REASONS.MISSING_BID_PRICE;
+    case 'adomain':
+      return /blocked/.test(issue.message) ? LOSS_REASONS.ADVERTISER_EXCLUSIONS : LOSS_REASONS.INVALID_ADVERTISER_DOMAIN;
+    case 'cat':
+      return LOSS_REASONS.CATEGORY_EXCLUSIONS;
+    case 'dealid':
+      return LOSS_REASONS.INVALID_DEAL_ID;
+    case 'adm':
+      return LOSS_REASONS.MISSING_MARKUP;
+    case 'dur':
+    case 'mtype':
+      return LOSS_REASONS.CREATIVE_FILTERED;
+    default:
+      return LOSS_REASONS.INVALID_BID_RESPONSE;
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function fireAuctionNotice(type: AuctionNoticeType, template: string, bid: NoticeBid, values: MacroValues): AuctionNotice {
+  const url = expandAuctionMacros(template, bid, values);
+
+  try {
+    // Notices are fire-and-forget pixels, like VAST tracking
+    const img = new Image();
+    img.onerror = () => {
+      console.warn(`❌ ${type} notice failed: ${url}`);
+    };
+    img.src = url;
+  } catch (error) {
+    console.error(`Error firing ${type} notice:`, error);
+  }
+
+  return {
+    type,
+    url,
+    auctionId: bid.auctionId,
+    bidId: bid.bidId,
+    impId: bid.impId,
+    seatId: bid.seatId,
+    price: values.price,
+    lossReason: type === 'loss' ? values.lossReason : undefined,
+    minToWin: values.minToWin,
+    firedAt: currentDate()
+  };
+}
+
+// Prices go out as CPM with the precision buyers reconcile against
+function formatPrice(price: number | undefined): string | undefined {
+  return price !== undefined && Number.isFinite(price) ? price.toFixed(4) : undefined;
+}
@@ -0,0 +1,354 @@
+/**
+ * OpenRTB Bid Response Validator
+ *
+ * Checks an OpenRTB 2.6 bid response against the request that produced it
+ * and gives every bid in every seat a verdict: accepted, flagged (usable but
+ * with warnings) or rejected.
+ *
+ * Features:
+ * - Response envelope checks: id echo, currency, no-bid reason
+ * - Bid-to-impression mapping across all seats and bids
+ * - Price against the impression floor in the floor's currency
+ * - Markup delivery (adm / nurl), adomain and cat against badv / bcat
+ * - Video duration against min/max, rqddurs and poddur; mtype and dealid checks
+ */
+
+import { BidIssue, BidResponseValidation, BidValidation, BidVerdict, OpenRTBBid } from '../types';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface ImpExpectation {
+  id?: string; // Omitted when bids are not tied to an impression id
+  bidfloor?: number;
+  bidfloorcur?: string;
+  mediaType?: number; // Expected mtype: 1 banner, 2 video, 3 audio, 4 native
+  minDuration?: number;
+  maxDuration?: number;
+  requiredDurations?: number[];
+  podDuration?: number;
+  dealIds: string[];
+  privateAuction: boolean;
+}
+
+export interface BidExpectations {
+  requestId?: string;
+  currencies: string[]; // Currencies the response may be priced in
+  imps: ImpExpectation[];
+  blockedCategories: string[];
+  blockedDomains: string[];
+}
+
+export interface ValidatedBid {
+  seat: string;
+  bid: OpenRTBBid;
+  validation: BidValidation;
+}
+
+// OpenRTB's default when a request or response leaves currency unset
+const DEFAULT_CURRENCY = 'USD';
+
+const MEDIA_TYPE_NAMES: Record<number, string> = {
+  1: 'banner',
+  2: 'video',
+  3: 'audio',
+  4: 'native'
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Read what a valid response must satisfy from an OpenRTB (or Prebid Server) request
+ */
+export function expectationsFromRequest(request: any): BidExpectations {
+  const imps: any[] = Array.isArray(request?.imp) ? request.imp : [];
+
+  return {
+    requestId: request?.id,
+    currencies: Array.isArray(request?.cur) && request.cur.length > 0 ? request.cur : [DEFAULT_CURRENCY],
+    imps: imps.map((imp) => {
+      const media = imp.video || imp.audio;
+      const deals: any[] = Array.isArray(imp.pmp?.deals) ? imp.pmp.deals : [];
+      return {
+        id: imp.id,
+        bidfloor: typeof imp.bidfloor === 'number' ? imp.bidfloor : undefined,
+        bidfloorcur: imp.bidfloorcur || DEFAULT_CURRENCY,
+        mediaType: imp.video ? 2 : imp.audio ? 3 : imp.native ? 4 : imp.banner ? 1 : undefined,
+        minDuration: media?.minduration,
+        maxDuration: media?.maxduration,
+        requiredDurations: Array.isArray(media?.rqddurs) && media.rqddurs.length > 0 ? media.rqddurs : undefined,
+        podDuration: media?.poddur,
+        dealIds: deals.map(deal => deal.id).filter(Boolean),
+        privateAuction: imp.pmp?.private_auction === 1
+      };
+    }),
+    blockedCategories: Array.isArray(request?.bcat) ? request.bcat : [],
+    blockedDomains: Array.isArray(request?.badv) ? request.badv : []
+  };
+}
+
+/**
+ * Validate a bid response and give every bid in every seat a verdict
+ */
+export function validateBidResponse(response: any, expectations: BidExpectations): BidResponseValidation {
+  const responseIssues = validateEnvelope(response, expectations);
+  const seatbids: any[] = Array.isArray(response?.seatbid) ? response.seatbid : [];
+  const currency = typeof response?.cur === 'string' && response.cur ? response.cur : DEFAULT_CURRENCY;
+  // A bad envelope (wrong request id, unrequested currency) spoils every bid in it
+  const envelopeRejected = responseIssues.some(issue => issue.severity === 'error');
+  const seenBidIds = new Set<string>();
+
+  const bids = seatbids.flatMap((seatbid, seatIndex) =>
+    (Array.isArray(seatbid?.bid) ? seatbid.bid : []).map((bid: any, bidIndex: number): BidValidation => {
+      const issues = validateBid(bid, currency, expectations);
+      if (bid?.id && seenBidIds.has(bid.id)) {
+        issues.push({ field: 'id', severity: 'warning', message: `Bid id ${bid.id} is used more than once` });
+      }
+      if (bid?.id) seenBidIds.add(bid.id);
+
+      return {
+        seat: seatbid.seat || `seatbid[${seatIndex}]`,
+        bidId: bid?.id || `bid[${bidIndex}]`,
+        impId: bid?.impid || '',
+        price: typeof bid?.price === 'number' ? bid.price : 0,
+        verdict: envelopeRejected ? 'rejected' : verdictFor(issues),
+        issues
+      };
+    })
+  );
+
+  return {
+    responseIssues,
+    bids,
+    noBidReason: typeof response?.nbr === 'number' ? response.nbr : undefined
+  };
+}
+
+/**
+ * Bids that passed validation (accepted or flagged), paired with their seat
+ */
+export function usableBids(response: any, validation: BidResponseValidation): ValidatedBid[] {
+  const seatbids: any[] = Array.isArray(response?.seatbid) ? response.seatbid : [];
+  const raw = seatbids.flatMap(seatbid => (Array.isArray(seatbid?.bid) ? seatbid.bid : []) as OpenRTBBid[]);
+
+  // validateBidResponse emits one verdict per bid in the same order
+  return raw
+    .map((bid, index) => ({ seat: validation.bids[index].seat, bid, validation: validation.bids[index] }))
+    .filter(({ validation: bidValidation }) => bidValidation.verdict !== 'rejected');
+}
+
+export function countVerdicts(validation: BidResponseValidation): Record<BidVerdict, number> {
+  return {
+    accepted: validation.bids.filter(bid => bid.verdict === 'accepted').length,
+    flagged: validation.bids.filter(bid => bid.verdict === 'flagged').length,
+    rejected: validation.bids.filter(bid => bid.verdict === 'rejected').length
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function validateEnvelope(response: any, expectations: BidExpectations): BidIssue[] {
+  const issues: BidIssue[] = [];
+
+  // An empty body (HTTP 204) is the standard way to say no bid
+  if (response === undefined || response === null || response === '') {
+    return issues;
+  }
+  if (typeof response !== 'object') {
+    return [{ field: 'response', severity: 'error', message: 'Response body is not an OpenRTB JSON object' }];
+  }
+
+  if (!response.id) {
+    issues.push({ field: 'id', severity: 'error', message: 'Response has no id' });
+  } else if (expectations.requestId && response.id !== expectations.requestId) {
+    issues.push({
+      field: 'id',
+      severity: 'error',
+      message: `Response id ${response.id} does not echo request id ${expectations.requestId}`
+    });
+  }
+
+  const currency = response.cur || DEFAULT_CURRENCY;
+  if (!expectations.currencies.includes(currency)) {
+    issues.push({
+      field: 'cur',
+      severity: 'error',
+      message: `Currency ${currency} was not offered in the request (${expectations.currencies.join(', ')})`
+    });
+  }
+
+  if (response.seatbid !== undefined && !Array.isArray(response.seatbid)) {
+    issues.push({ field: 'seatbid', severity: 'error', message: 'seatbid must be an array' });
+  }
+
+  if (typeof response.nbr === 'number' && Array.isArray(response.seatbid) && response.seatbid.length > 0) {
+    issues.push({ field: 'nbr', severity: 'warning', message: 'Response carries both bids and a no-bid reason' });
+  }
+
+  return issues;
+}
+
+function validateBid(bid: any, currency: string, expectations: BidExpectations): BidIssue[] {
+  const issues: BidIssue[] = [];
+  const error = (field: string, message: string) => issues.push({ field, severity: 'error', message });
+  const warning = (field: string, message: string) => issues.push({ field, severity: 'warning', message });
+
+  if (!bid || typeof bid !== 'object') {
+    error('bid', 'Bid is not an object');
+    return issues;
+  }
+
+  if (!bid.id) {
+    error('id', 'Bid has no id');
+  }
+
+  // A single impression without an id accepts any impid
+  const imp = expectations.imps.length === 1 && !expectations.imps[0].id
+    ? expectations.imps[0]
+    : expectations.imps.find(candidate => candidate.id === bid.impid);
+  if (!bid.impid && !imp) {
+    error('impid', 'Bid has no impid');
+  } else if (!imp) {
+    error('impid', `impid ${bid.impid} does not match any impression in the request`);
+  }
+
+  if (typeof bid.price !== 'number' || !Number.isFinite(bid.price) || bid.price <= 0) {
+    error('price', `Price ${bid.price} is not a positive number`);
+  } else if (imp?.bidfloor !== undefined) {
+    if (imp.bidfloorcur && imp.bidfloorcur !== currency) {
+      warning('price', `Floor is in ${imp.bidfloorcur} but the bid is in ${currency}; price not compared`);
+    } else if (bid.price < imp.bidfloor) {
+      error('price', `Price ${bid.price} ${currency} is below the ${imp.bidfloor} ${currency} floor`);
+    }
+  }
+
+  issues.push(...checkMarkup(bid, imp));
+  issues.push(...checkAdvertiser(bid, expectations));
+  issues.push(...checkDuration(bid, imp));
+  issues.push(...checkMediaType(bid, imp));
+  issues.push(...checkDeal(bid, imp));
+
+  return issues;
+}
+
+function checkMarkup(bid: any, imp: ImpExpectation | undefined): BidIssue[] {
+  if (!bid.adm && !bid.nurl) {
+    return [{ field: 'adm', severity: 'error', message: 'Bid has neither adm nor nurl to deliver the creative' }];
+  }
+  if (bid.adm && typeof bid.adm !== 'string') {
+    return [{ field: 'adm', severity: 'error', message: 'adm must be a string' }];
+  }
+  if (bid.adm && imp?.mediaType === 2 && !/<VAST[\s>]/i.test(bid.adm)) {
+    return [{ field: 'adm', severity: 'warning', message: 'adm for a video impression is not VAST markup' }];
+  }
+  if (!bid.adm) {
+    // Markup served from the win notice costs an extra round trip on CTV
+    return [{ field: 'nurl', severity: 'warning', message: 'No adm; the creative must be fetched from nurl' }];
+  }
+  return [];
+}
+
+function checkAdvertiser(bid: any, expectations: BidExpectations): BidIssue[] {
+  const issues: BidIssue[] = [];
+
+  if (bid.adomain === undefined || (Array.isArray(bid.adomain) && bid.adomain.length === 0)) {
+    issues.push({ field: 'adomain', severity: 'warning', message: 'No adomain; advertiser blocking and separation cannot apply' });
+  } else if (!Array.isArray(bid.adomain)) {
+    issues.push({ field: 'adomain', severity: 'error', message: 'adomain must be an array of domains' });
+  } else {
+    bid.adomain.forEach((domain: string) => {
+      if (/[/:]/.test(domain)) {
+        issues.push({ field: 'adomain', severity: 'warning', message: `${domain} is a URL, not a bare domain` });
+      }
+      if (expectations.blockedDomains.includes(domain)) {
+        issues.push({ field: 'adomain', severity: 'error', message: `Advertiser ${domain} is blocked (badv)` });
+      }
+    });
+  }
+
+  if (bid.cat === undefined || (Array.isArray(bid.cat) && bid.cat.length === 0)) {
+    issues.push({ field: 'cat', severity: 'warning', message: 'No cat; category blocking cannot apply' });
+  } else if (!Array.isArray(bid.cat)) {
+    issues.push({ field: 'cat', severity: 'error', message: 'cat must be an array of category codes' });
+  } else {
+    bid.cat
+      .filter((category: string) => expectations.blockedCategories.includes(category))
+      .forEach((category: string) => {
+        issues.push({ field: 'cat', severity: 'error', message: `Category ${category} is blocked (bcat)` });
+      });
+  }
+
+  return issues;
+}
+
+function checkDuration(bid: any, imp: ImpExpectation | undefined): BidIssue[] {
+  if (!imp || (imp.mediaType !== 2 && imp.mediaType !== 3)) {
+    return [];
+  }
+  if (bid.dur === undefined) {
+    return [{ field: 'dur', severity: 'warning', message: 'No dur; duration rules cannot be checked' }];
+  }
+  if (typeof bid.dur !== 'number' || bid.dur <= 0) {
+    return [{ field: 'dur', severity: 'error', message: `dur ${bid.dur} is not a positive number of seconds` }];
+  }
+
+  if (imp.requiredDurations && !imp.requiredDurations.includes(bid.dur)) {
+    return [{ field: 'dur', severity: 'error', message: `${bid.dur}s is not one of rqddurs ${imp.requiredDurations.join('/')}` }];
+  }
+  if (imp.minDuration !== undefined && bid.dur < imp.minDuration) {
+    return [{ field: 'dur', severity: 'error', message: `${bid.dur}s is shorter than minduration ${imp.minDuration}s` }];
+  }
+  if (imp.maxDuration !== undefined && bid.dur > imp.maxDuration) {
+    return [{ field: 'dur', severity: 'error', message: `${bid.dur}s is longer than maxduration ${imp.maxDuration}s` }];
+  }
+  if (imp.podDuration !== undefined && bid.dur > imp.podDuration) {
+    return [{ field: 'dur', severity: 'error', message: `${bid.dur}s does not fit the ${imp.podDuration}s pod` }];
+  }
+  return [];
+}
+
+function checkMediaType(bid: any, imp: ImpExpectation | undefined): BidIssue[] {
+  if (bid.mtype === undefined) {
+    return [{ field: 'mtype', severity: 'warning', message: 'No mtype; markup type has to be guessed' }];
+  }
+  if (!MEDIA_TYPE_NAMES[bid.mtype]) {
+    return [{ field: 'mtype', severity: 'error', message: `mtype ${bid.mtype} is not a known markup type` }];
+  }
+  if (imp?.mediaType !== undefined && bid.mtype !== imp.mediaType) {
+    return [{
+      field: 'mtype',
+      severity: 'error',
+      message: `${MEDIA_TYPE_NAMES[bid.mtype]} bid for a ${MEDIA_TYPE_NAMES[imp.mediaType]} impression`
+    }];
+  }
+  return [];
+}
+
+function checkDeal(bid: any, imp: ImpExpectation | undefined): BidIssue[] {
+  if (!imp) {
+    return [];
+  }
+  if (!bid.dealid) {
+    return imp.privateAuction
+      ? [{ field: 'dealid', severity: 'error', message: 'Private auction requires a dealid' }]
+      : [];
+  }
+  if (imp.dealIds.length === 0) {
+    return [{ field: 'dealid', severity: 'warning', message: `Deal ${bid.dealid} was not offered in the request` }];
+  }
+  if (!imp.dealIds.includes(bid.dealid)) {
+    return [{ field: 'dealid', severity: 'error', message: `Deal ${bid.dealid} is not one of ${imp.dealIds.join(', ')}` }];
+  }
+  return [];
+}
+
+function verdictFor(issues: BidIssue[]): BidVerdict {
+  if (issues.some(issue => issue.severity === 'error')) return 'rejected';
+  if (issues.length > 0) return 'flagged';
+  return 'accepted';
+}
@@ -0,0 +1,284 @@
+/**
+ * Bidder Param Schemas
+ *
+ * JSON-schema-style definitions of the params each Prebid Server bidder
+ * accepts in imp.ext.prebid.bidder, modelled on Prebid Server's
+ * static/bidder-params files, and a validator that reports field-level
+ * problems with a suggested fix where the value only has the wrong type.
+ *
+ * Features:
+ * - Required fields, including "one of these" groups (e.g. placementId or invCode + member)
+ * - Type checks with coercion suggestions: "35106313" → 35106313, 26742 → "26742"
+ * - minLength / minimum / pattern checks
+ * - Unknown params flagged, since Prebid Server passes them through unchecked
+ * - Field input read as the param's type, JSON for object and array params
+ */
+
+import { PrebidDemandSource } from '../types';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type ParamType = 'string' | 'integer' | 'number' | 'boolean' | 'object' | 'array';
+
+export interface ParamPropertySchema {
+  type: ParamType;
+  description: string;
+  minLength?: number;
+  minimum?: number;
+  pattern?: string;
+}
+
+export interface BidderParamSchema {
+  title: string;
+  properties: Record<string, ParamPropertySchema>;
+  required?: string[];
+  oneOf?: string[][]; // At least one of these field groups must be fully present
+}
+
+export interface ParamIssue {
+  bidder: string;
+  field: string;
+  severity: 'error' | 'warning';
+  message: string;
+  suggestion?: {
+    value: any;
+    description: string;
+  };
+}
+
+export const BIDDER_PARAM_SCHEMAS: Record<string, BidderParamSchema> = {
+  onetag: {
+    title: 'OneTag Adapter Params',
+    properties: {
+      pubId: { type: 'string', description: 'OneTag publisher ID', minLength: 1 },
+      ext: { type: 'object', description: 'Extra parameters passed to the bidder' }
+    },
+    required: ['pubId']
+  },
+  pubmatic: {
+    title: 'PubMatic Adapter Params',
+    properties: {
+      publisherId: { type: 'string', description: 'PubMatic publisher ID', minLength: 1, pattern: '^\\d+$' },
+      adSlot: { type: 'string', description: 'Ad slot ID, or slot name in the form name@WxH', minLength: 1 },
+      pmzoneid: { type: 'string', description: 'Comma separated zone IDs' },
+      kadfloor: { type: 'string', description: 'Bid floor in USD, as a string' },
+      wrapper: { type: 'object', description: 'OpenWrap profile and version' },
+      keywords: { type: 'array', description: 'Key-value targeting' }
+    },
+    required: ['publisherId']
+  },
+  rise: {
+    title: 'Rise Adapter Params',
+    properties: {
+      org: { type: 'string', description: 'Rise organization ID', minLength: 1 },
+      publisher_id: { type: 'string', description: 'Deprecated alias of org', minLength: 1 }
+    },
+    oneOf: [['org'], ['publisher_id']]
+  },
+  appnexus: {
+    title: 'AppNexus Adapter Params',
+    properties: {
+      placementId: { type: 'integer', description: 'Xandr placement ID', minimum: 1 },
+      invCode: { type: 'string', description: 'Inventory code, used with member' },
+      member: { type: 'string', description: 'Member ID, used with invCode' },
+      keywords: { type: 'array', description: 'Key-value targeting' },
+      trafficSourceCode: { type: 'string', description: 'Third-party traffic source' },
+      reserve: { type: 'number', description: 'Reserve price in USD' },
+      usePaymentRule: { type: 'boolean', description: 'Apply the placement payment rule' }
+    },
+    oneOf: [['placementId'], ['invCode', 'member']]
+  },
+  rubicon: {
+    title: 'Rubicon Adapter Params',
+    properties: {
+      accountId: { type: 'integer', description: 'Magnite account ID', minimum: 1 },
+      siteId: { type: 'integer', description: 'Magnite site ID', minimum: 1 },
+      zoneId: { type: 'integer', description: 'Magnite zone ID', minimum: 1 },
+      inventory: { type: 'object', description: 'First-party inventory data' },
+      visitor: { type: 'object', description: 'First-party visitor data' }
+    },
+    required: ['accountId', 'siteId', 'zoneId']
+  },
+  sovrn: {
+    title: 'Sovrn Adapter Params',
+    properties: {
+      tagid: { type: 'string', description: 'Sovrn tag ID', minLength: 1 },
+      tagId: { type: 'string', description: 'Alternate spelling of tagid', minLength: 1 },
+      bidfloor: { type: 'number', description: 'Bid floor in USD' }
+    },
+    oneOf: [['tagid'], ['tagId']]
+  },
+  amx: {
+    title: 'AMX Adapter Params',
+    properties: {
+      tagId: { type: 'string', description: 'AMX tag ID', minLength: 1 },
+      adUnitId: { type: 'string', description: 'AMX ad unit ID' }
+    },
+    required: ['tagId']
+  },
+  aniview: {
+    title: 'Aniview Adapter Params',
+    properties: {
+      tagId: { type: 'string', description: 'Aniview tag ID', minLength: 1 }
+    },
+    required: ['tagId']
+  }
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Check one bidder's params against its schema
+ */
+export function validateBidderParams(bidder: string, params: Record<string, any>): ParamIssue[] {
+  const schema = BIDDER_PARAM_SCHEMAS[bidder];
+  if (!schema) {
+    return [{ bidder, field: '', severity: 'warning', message: `No param schema for bidder ${bidder}; params are sent unchecked` }];
+  }
+
+  const issues: ParamIssue[] = [];
+  const present = (field: string) => params[field] !== undefined && params[field] !== '';
+
+  (schema.required || []).filter(field => !present(field)).forEach((field) => {
+    issues.push({ bidder, field, severity: 'error', message: `${field} is required (${schema.properties[field].description})` });
+  });
+
+  if (schema.oneOf && !schema.oneOf.some(group => group.every(present))) {
+    issues.push({
+      bidder,
+      field: schema.oneOf[0][0],
+      severity: 'error',
+      message: `One of ${schema.oneOf.map(group => group.join(' + ')).join(' or ')} is required`
+    });
+  }
+
+  Object.entries(params).forEach(([field, value]) => {
+    const property = schema.properties[field];
+    if (!property) {
+      issues.push({
+        bidder,
+        field,
+        severity: 'warning',
+        message: `${field} is not a known ${bidder} param; known params are ${Object.keys(schema.properties).join(', ')}`
+      });
+      return;
+    }
+    if (value === undefined || value === '') return;
+    issues.push(...checkProperty(bidder, field, value, property));
+  });
+
+  return issues;
+}
+
+/**
+ * Check every enabled demand source; disabled ones are never sent
+ */
+export function validateDemandSources(sources: PrebidDemandSource[]): ParamIssue[] {
+  return sources
+    .filter(source => source.enabled)
+    .flatMap(source => validateBidderParams(source.bidder, source.params));
+}
+
+/**
+ * Text typed into a param field, read as the schema says the param is typed (JSON for
+ * objects and arrays). Text that doesn't read as that type stays a string for validation to flag.
+ */
+export function parseParamInput(text: string, type: ParamType | undefined): any {
+  if (text.trim() === '' || !type || type === 'string') return text;
+  if (type === 'object' || type === 'array') {
+    try {
+      const parsed = JSON.parse(text);
+      return typeOf(parsed) === type ? parsed : text;
+    } catch {
+      return text;
+    }
+  }
+  return coerce(text, type) ?? text;
+}
+
+/**
+ * Params with every type coercion suggestion applied
+ */
+export function applyParamSuggestions(params: Record<string, any>, issues: ParamIssue[]): Record<string, any> {
+  const fixed = { ...params };
+  issues.forEach((issue) => {
+    if (issue.suggestion) fixed[issue.field] = issue.suggestion.value;
+  });
+  return fixed;
+}
+
+/**
+ * One line per error, for request failures and log messages
+ */
+export function formatParamIssues(issues: ParamIssue[]): string {
+  return issues
+    .map(issue => `${issue.bidder}.${issue.field || '*'}: ${issue.message}${issue.suggestion ? ` (${issue.suggestion.description})` : ''}`)
+    .join('; ');
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function checkProperty(bidder: string, field: string, value: any, property: ParamPropertySchema): ParamIssue[] {
+  const actual = typeOf(value);
+  if (actual !== property.type && !(property.type === 'number' && actual === 'integer')) {
+    const coerced = coerce(value, property.type);
+    return [{
+      bidder,
+      field,
+      severity: 'error',
+      message: `${field} must be ${article(property.type)} ${property.type}, got ${actual} ${JSON.stringify(value)}`,
+      suggestion: coerced === undefined ? undefined : {
+        value: coerced,
+        description: `Use ${JSON.stringify(coerced)} (${property.type})`
+      }
+    }];
+  }
+
+  const issues: ParamIssue[] = [];
+  if (property.minLength !== undefined && typeof value === 'string' && value.length < property.minLength) {
+    issues.push({ bidder, field, severity: 'error', message: `${field} must be at least ${property.minLength} character(s)` });
+  }
+  if (property.minimum !== undefined && typeof value === 'number' && value < property.minimum) {
+    issues.push({ bidder, field, severity: 'error', message: `${field} must be at least ${property.minimum}` });
+  }
+  if (property.pattern && typeof value === 'string' && !new RegExp(property.pattern).test(value)) {
+    issues.push({ bidder, field, severity: 'error', message: `${field} ${JSON.stringify(value)} does not match ${property.pattern}` });
+  }
+  return issues;
+}
+
+function typeOf(value: any): ParamType | 'null' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as ParamType;
+}
+
+// The value the field was most likely meant to hold, if the conversion loses nothing
+function coerce(value: any, type: ParamType): any {
+  const text = typeof value === 'string' ? value.trim() : value;
+  switch (type) {
+    case 'string':
+      return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+    case 'integer':
+      return typeof text === 'string' && /^-?\d+$/.test(text) ? parseInt(text, 10) : undefined;
+    case 'number':
+      return typeof text === 'string' && text !== '' && !isNaN(Number(text)) ? Number(text) : undefined;
+    case 'boolean':
+      return text === 'true' ? true : text === 'false' ? false : undefined;
+    case 'array':
+      return typeof text === 'string' && text ? text.split(',').map((item: string) => item.trim()) : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function article(type: ParamType): string {
+  return ['integer', 'object', 'array'].includes(type) ? 'an' : 'a';
+}
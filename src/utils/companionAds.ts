@@ -0,0 +1,244 @@
+/**
+ * Companion and NonLinear Ad Placement
+ *
+ * Decides which <Companion> creatives of a VAST ad can be shown in the
+ * simulator's TV-safe companion slots, whether the CompanionAds
+ * required="all|any|none" rule is satisfied, and which <NonLinear> fits
+ * as an overlay on top of the content.
+ *
+ * Features:
+ * - Slot matching by size (exact fit or same aspect ratio) and resource type
+ * - required attribute semantics with IAB 601/602/604 failure reasons
+ * - NonLinear overlay selection with IAB 501/503 failure reasons
+ * - creativeView, click and close tracking with VAST macros expanded
+ */
+
+import {
+  fireTrackingPixel,
+  formatDuration,
+  VastCompanion,
+  VastCompanionAds,
+  VastCreative,
+  VastNonLinear,
+  VastNonLinearCreative,
+  VastResource
+} from './vastParser';
+import { MacroContext } from './vastMacros';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface CompanionSlot {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export interface PlacedCompanion {
+  slot: CompanionSlot;
+  companion: VastCompanion;
+  resource: VastResource;
+}
+
+export interface UnplacedCompanion {
+  companion: VastCompanion;
+  errorCode: 601 | 603 | 604;
+  reason: string;
+}
+
+export interface CompanionPlacement {
+  required: 'all' | 'any' | 'none';
+  placed: PlacedCompanion[];
+  unplaced: UnplacedCompanion[];
+  requirementMet: boolean;
+}
+
+export interface OverlayPlacement {
+  overlay: VastNonLinearCreative;
+  nonLinear: VastNonLinear;
+  resource: VastResource;
+  displaySeconds: number;
+}
+
+export interface OverlayPlacementResult {
+  placement: OverlayPlacement | null;
+  errorCode?: 501 | 503;
+  reason?: string;
+}
+
+// Side panel and lower banner inside the 90% title-safe area of a 1080p frame
+export const COMPANION_SLOTS: CompanionSlot[] = [
+  { id: 'side-panel', label: 'Side panel', width: 300, height: 250 },
+  { id: 'banner', label: 'Lower banner', width: 728, height: 90 }
+];
+
+// Scaled companions may differ this much from the slot's aspect ratio
+const ASPECT_RATIO_TOLERANCE = 0.05;
+
+// Overlays are laid out against the nominal 1080p frame of the content
+export const OVERLAY_FRAME = { width: 1920, height: 1080 };
+
+// Shown this long when the NonLinear has no minSuggestedDuration
+const DEFAULT_OVERLAY_SECONDS = 10;
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Merge the CompanionAds of every creative in the ad's InLine
+ */
+export function getCompanionAds(ad: VastCreative): VastCompanionAds | null {
+  const companionAds = (ad.ad?.inLine?.creatives || [])
+    .map(creative => creative.companionAds)
+    .filter((value): value is VastCompanionAds => Boolean(value));
+
+  if (companionAds.length === 0) {
+    return null;
+  }
+
+  return {
+    required: companionAds.find(value => value.required)?.required,
+    companions: companionAds.flatMap(value => value.companions)
+  };
+}
+
+/**
+ * Assign companions to slots and evaluate the required attribute
+ */
+export function placeCompanions(
+  companionAds: VastCompanionAds,
+  slots: CompanionSlot[] = COMPANION_SLOTS
+): CompanionPlacement {
+  const required = companionAds.required || 'none';
+  const placed: PlacedCompanion[] = [];
+  const unplaced: UnplacedCompanion[] = [];
+  const freeSlots = [...slots];
+
+  // Largest creatives first so they claim the slots they need
+  const candidates = [...companionAds.companions].sort((a, b) => b.width * b.height - a.width * a.height);
+
+  candidates.forEach((companion) => {
+    const resource = pickResource(companion.resources);
+    if (!resource) {
+      unplaced.push({
+        companion,
+        errorCode: companion.resources.length > 0 ? 604 : 603,
+        reason: companion.resources.length > 0
+          ? 'No supported resource type (static image, HTML or iframe)'
+          : 'Companion has no resource'
+      });
+      return;
+    }
+
+    const slotIndex = freeSlots.findIndex(slot => fitsSlot(companion, slot));
+    if (slotIndex === -1) {
+      unplaced.push({
+        companion,
+        errorCode: 601,
+        reason: `${companion.width}x${companion.height} does not fit any free companion slot`
+      });
+      return;
+    }
+
+    placed.push({ slot: freeSlots[slotIndex], companion, resource });
+    freeSlots.splice(slotIndex, 1);
+  });
+
+  const requirementMet =
+    required === 'all' ? unplaced.length === 0 :
+    required === 'any' ? placed.length > 0 :
+    true;
+
+  return {
+    required,
+    // 'all' means every companion or none of them
+    placed: required === 'all' && !requirementMet ? [] : placed,
+    unplaced,
+    requirementMet
+  };
+}
+
+export function fireCompanionView(companion: VastCompanion, context: MacroContext = {}) {
+  companion.trackingEvents
+    .filter(tracking => tracking.event === 'creativeView')
+    .forEach(tracking => fireTrackingPixel(tracking.url, 'companion:creativeView', context));
+}
+
+export function fireCompanionClick(companion: VastCompanion, context: MacroContext = {}) {
+  companion.clickTrackings.forEach(url => fireTrackingPixel(url, 'companion:click', context));
+}
+
+/**
+ * Pick the first NonLinear that fits the content frame with a renderable resource
+ */
+export function placeNonLinear(
+  overlay: VastNonLinearCreative,
+  frame: { width: number; height: number } = OVERLAY_FRAME
+): OverlayPlacementResult {
+  let hasResource = false;
+
+  for (const nonLinear of overlay.nonLinearAds.nonLinears) {
+    const resource = pickResource(nonLinear.resources);
+    if (!resource) continue;
+    hasResource = true;
+
+    if (nonLinear.width <= frame.width && nonLinear.height <= frame.height) {
+      return {
+        placement: {
+          overlay,
+          nonLinear,
+          resource,
+          displaySeconds: nonLinear.minSuggestedDuration
+            ? formatDuration(nonLinear.minSuggestedDuration)
+            : DEFAULT_OVERLAY_SECONDS
+        }
+      };
+    }
+  }
+
+  return hasResource
+    ? { placement: null, errorCode: 501, reason: `No NonLinear fits the ${frame.width}x${frame.height} content frame` }
+    : { placement: null, errorCode: 503, reason: 'No NonLinear has a supported resource type' };
+}
+
+/**
+ * Fire an overlay event (creativeView, close, ...) from the NonLinearAds TrackingEvents
+ */
+export function fireNonLinearEvent(overlay: VastNonLinearCreative, event: string, context: MacroContext = {}) {
+  overlay.nonLinearAds.trackingEvents
+    .filter(tracking => tracking.event === event)
+    .forEach(tracking => fireTrackingPixel(tracking.url, `nonlinear:${event}`, context));
+}
+
+export function fireNonLinearClick(nonLinear: VastNonLinear, context: MacroContext = {}) {
+  nonLinear.clickTrackings.forEach(url => fireTrackingPixel(url, 'nonlinear:click', context));
+}
+
+// Static images render natively; HTML and iframe resources go into a sandboxed frame
+export function pickResource(resources: VastResource[]): VastResource | null {
+  return (
+    resources.find(resource => resource.kind === 'static' && (resource.creativeType || '').startsWith('image/')) ||
+    resources.find(resource => resource.kind === 'html') ||
+    resources.find(resource => resource.kind === 'iframe') ||
+    null
+  );
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function fitsSlot(companion: VastCompanion, slot: CompanionSlot): boolean {
+  if (companion.width <= 0 || companion.height <= 0) {
+    return false;
+  }
+  if (companion.width <= slot.width && companion.height <= slot.height) {
+    return true;
+  }
+  const companionRatio = companion.width / companion.height;
+  const slotRatio = slot.width / slot.height;
+  return Math.abs(companionRatio - slotRatio) / slotRatio <= ASPECT_RATIO_TOLERANCE;
+}
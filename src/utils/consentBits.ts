@@ -0,0 +1,231 @@
+/**
+ * Consent String Bits
+ *
+ * Bit-level reader and writer shared by the TCF and GPP codecs. Segments are
+ * base64url without padding; each character carries 6 bits.
+ *
+ * Features:
+ * - Fixed-width integers, booleans, dates (deciseconds) and two-letter codes
+ * - Bitfields and integer ranges (TCF vendor sections)
+ * - Fibonacci-coded ranges (GPP header section IDs)
+ */
+
+const BASE64URL = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export class BitReader {
+  private bits: string;
+  private position = 0;
+
+  constructor(segment: string) {
+    this.bits = Array.from(segment).map((char) => {
+      const value = BASE64URL.indexOf(char);
+      if (value < 0) {
+        throw new Error(`Invalid character "${char}" in consent string`);
+      }
+      return value.toString(2).padStart(6, '0');
+    }).join('');
+  }
+
+  int(length: number): number {
+    if (this.position + length > this.bits.length) {
+      throw new Error(`Consent string is truncated at bit ${this.position}`);
+    }
+    const value = length === 0 ? 0 : parseInt(this.bits.substr(this.position, length), 2);
+    this.position += length;
+    return value;
+  }
+
+  bool(): boolean {
+    return this.int(1) === 1;
+  }
+
+  // Deciseconds since the epoch
+  date(): Date {
+    return new Date(this.int(36) * 100);
+  }
+
+  letters(): string {
+    return String.fromCharCode(65 + this.int(6), 65 + this.int(6));
+  }
+
+  bitfield(length: number): number[] {
+    const ids: number[] = [];
+    for (let id = 1; id <= length; id++) {
+      if (this.bool()) ids.push(id);
+    }
+    return ids;
+  }
+
+  ranges(): number[] {
+    const ids: number[] = [];
+    const numEntries = this.int(12);
+    for (let i = 0; i < numEntries; i++) {
+      const isRange = this.bool();
+      const start = this.int(16);
+      const end = isRange ? this.int(16) : start;
+      if (end < start) {
+        throw new Error(`Vendor range ${start}-${end} is reversed`);
+      }
+      for (let id = start; id <= end; id++) ids.push(id);
+    }
+    return ids;
+  }
+
+  vendorSection(): number[] {
+    const maxVendorId = this.int(16);
+    return this.bool() ? this.ranges() : this.bitfield(maxVendorId);
+  }
+
+  // Zeckendorf bits, smallest Fibonacci number first, terminated by "11"
+  fibonacci(): number {
+    const fibs = [1, 2];
+    let value = 0;
+    let previous = false;
+    for (let index = 0; ; index++) {
+      const bit = this.bool();
+      if (bit && previous) return value;
+      while (fibs.length <= index) fibs.push(fibs[fibs.length - 1] + fibs[fibs.length - 2]);
+      if (bit) value += fibs[index];
+      previous = bit;
+    }
+  }
+
+  // GPP header ranges: each id is an offset from the end of the previous entry
+  fibonacciRanges(): number[] {
+    const ids: number[] = [];
+    const numEntries = this.int(12);
+    let last = 0;
+    for (let i = 0; i < numEntries; i++) {
+      const isRange = this.bool();
+      const start = last + this.fibonacci();
+      const end = isRange ? start + this.fibonacci() : start;
+      for (let id = start; id <= end; id++) ids.push(id);
+      last = end;
+    }
+    return ids;
+  }
+}
+
+export class BitWriter {
+  private bits = '';
+
+  int(value: number, length: number) {
+    if (value < 0 || value >= 2 ** length) {
+      throw new Error(`${value} does not fit in ${length} bits`);
+    }
+    this.bits += value.toString(2).padStart(length, '0');
+  }
+
+  bool(value: boolean) {
+    this.bits += value ? '1' : '0';
+  }
+
+  date(value: Date) {
+    this.int(Math.round(value.getTime() / 100), 36);
+  }
+
+  letters(value: string) {
+    const upper = value.toUpperCase();
+    if (!/^[A-Z]{2}$/.test(upper)) {
+      throw new Error(`${value} is not a two-letter code`);
+    }
+    this.int(upper.charCodeAt(0) - 65, 6);
+    this.int(upper.charCodeAt(1) - 65, 6);
+  }
+
+  bitfield(ids: number[], length: number) {
+    for (let id = 1; id <= length; id++) {
+      this.bool(ids.includes(id));
+    }
+  }
+
+  ranges(ids: number[]) {
+    const entries = toRanges(ids);
+    this.int(entries.length, 12);
+    entries.forEach(([start, end]) => {
+      this.bool(start !== end);
+      this.int(start, 16);
+      if (start !== end) this.int(end, 16);
+    });
+  }
+
+  fibonacci(value: number) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`${value} cannot be Fibonacci encoded`);
+    }
+    const fibs = [1, 2];
+    while (fibs[fibs.length - 1] + fibs[fibs.length - 2] <= value) {
+      fibs.push(fibs[fibs.length - 1] + fibs[fibs.length - 2]);
+    }
+    const bits = fibs.map(() => '0');
+    let rest = value;
+    for (let index = fibs.length - 1; index >= 0; index--) {
+      if (fibs[index] <= rest) {
+        bits[index] = '1';
+        rest -= fibs[index];
+      }
+    }
+    this.bits += bits.join('').replace(/0+$/, '') + '1';
+  }
+
+  fibonacciRanges(ids: number[]) {
+    const entries = toRanges(ids);
+    this.int(entries.length, 12);
+    let last = 0;
+    entries.forEach(([start, end]) => {
+      this.bool(start !== end);
+      this.fibonacci(start - last);
+      if (start !== end) this.fibonacci(end - start);
+      last = end;
+    });
+  }
+
+  // Bitfield or range encoding, whichever is shorter
+  vendorSection(ids: number[]) {
+    const maxVendorId = ids.length > 0 ? Math.max(...ids) : 0;
+    const rangeLength = 12 + toRanges(ids).reduce((total, [start, end]) => total + (start === end ? 17 : 33), 0);
+    this.int(maxVendorId, 16);
+    this.bool(rangeLength < maxVendorId);
+    if (rangeLength < maxVendorId) {
+      this.ranges(ids);
+    } else {
+      this.bitfield(ids, maxVendorId);
+    }
+  }
+
+  toString(): string {
+    // Pad to a whole number of bytes, then to a whole number of base64 characters
+    let bits = this.bits.padEnd(Math.ceil(this.bits.length / 8) * 8, '0');
+    bits = bits.padEnd(Math.ceil(bits.length / 6) * 6, '0');
+    let encoded = '';
+    for (let i = 0; i < bits.length; i += 6) {
+      encoded += BASE64URL[parseInt(bits.substr(i, 6), 2)];
+    }
+    return encoded;
+  }
+}
+
+export function sortedIds(ids: number[]): number[] {
+  return Array.from(new Set(ids)).sort((a, b) => a - b);
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function toRanges(ids: number[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  sortedIds(ids).forEach((id) => {
+    const last = ranges[ranges.length - 1];
+    if (last && id === last[1] + 1) {
+      last[1] = id;
+    } else {
+      ranges.push([id, id]);
+    }
+  });
+  return ranges;
+}
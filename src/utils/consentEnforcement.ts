@@ -0,0 +1,204 @@
+/**
+ * Consent Enforcement
+ *
+ * Applies TCF purposes, US state opt-outs and COPPA to an outgoing request
+ * before it is sent, modelled on Prebid Server's GDPR enforcement and
+ * activity controls, and records a before/after diff for the log panel.
+ *
+ * Features:
+ * - transmitUfpd: strips device IDs (IFA, hashed IDs) and user IDs
+ * - transmitEids: strips user.eids / user.ext.eids
+ * - transmitPreciseGeo: truncates IPv4 to /24 and IPv6 to /56, rounds lat/lon to 2 decimals
+ * - COPPA: additionally removes lat/lon and postal code
+ * - Drops Prebid bidders that have no legal basis under the TC string
+ */
+
+import { ActivityDecision, BidderConsentDecision, ConsentEnforcement, CTVConfig, PrivacyActivity, RequestChange } from '../types';
+import { getPrivacyScenario, USPrivacySection } from './gppConsent';
+import { decodeTCString, TCData } from './tcfConsent';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface EnforcedRequest<T> {
+  request: T;
+  enforcement: ConsentEnforcement;
+}
+
+export const PRIVACY_ACTIVITIES: PrivacyActivity[] = ['transmitUfpd', 'transmitEids', 'transmitPreciseGeo'];
+
+// TCF purposes each activity needs consent for; precise geo needs special feature 1 instead
+const ACTIVITY_PURPOSES: Record<PrivacyActivity, number[]> = {
+  transmitUfpd: [1, 4], // Device access and personalised advertising
+  transmitEids: [4],
+  transmitPreciseGeo: []
+};
+
+const PRECISE_GEO_SPECIAL_FEATURE = 1;
+
+const DEVICE_ID_FIELDS = ['ifa', 'didsha1', 'didmd5', 'dpidsha1', 'dpidmd5', 'macsha1', 'macmd5'];
+const USER_ID_FIELDS = ['id', 'buyeruid', 'yob', 'gender', 'data'];
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Decide each privacy activity for the configured GDPR, US state and COPPA settings
+ */
+export function evaluateActivities(config: CTVConfig): ActivityDecision[] {
+  const scenario = getPrivacyScenario(config.privacyScenario);
+  const restrictions: Record<PrivacyActivity, string[]> = { transmitUfpd: [], transmitEids: [], transmitPreciseGeo: [] };
+  const restrictAll = (reason: string) => PRIVACY_ACTIVITIES.forEach(activity => restrictions[activity].push(reason));
+
+  if (config.gdprConsent) {
+    let tcData: TCData | null = null;
+    try {
+      tcData = config.tcfString ? decodeTCString(config.tcfString) : null;
+    } catch {
+      tcData = null;
+    }
+
+    if (!tcData) {
+      restrictAll('GDPR applies without a valid TC string');
+    } else {
+      PRIVACY_ACTIVITIES.forEach((activity) => {
+        const missing = ACTIVITY_PURPOSES[activity].filter(purpose => !tcData!.purposeConsents.includes(purpose));
+        if (missing.length > 0) {
+          restrictions[activity].push(`TCF: no consent for purpose ${missing.join(', ')}`);
+        }
+      });
+      if (!tcData.specialFeatureOptIns.includes(PRECISE_GEO_SPECIAL_FEATURE)) {
+        restrictions.transmitPreciseGeo.push('TCF: no opt-in for special feature 1 (precise geolocation)');
+      }
+    }
+  }
+
+  const sections = scenario.sections();
+  (['usnat', 'usca', 'usva'] as const).forEach((name) => {
+    const reason = usRestriction(sections[name]);
+    if (reason) restrictAll(`${name}: ${reason}`);
+  });
+
+  if (scenario.coppa === 1) {
+    restrictAll('COPPA: child-directed request');
+  }
+
+  return PRIVACY_ACTIVITIES.map(activity => ({
+    activity,
+    allowed: restrictions[activity].length === 0,
+    reason: restrictions[activity].length === 0 ? 'No restriction applies' : restrictions[activity].join('; ')
+  }));
+}
+
+/**
+ * Apply the activity decisions (and, for Prebid Server, the bidder decisions) to a copy of the request
+ */
+export function enforceConsent<T>(
+  request: T,
+  config: CTVConfig,
+  bidderConsent: BidderConsentDecision[] = []
+): EnforcedRequest<T> {
+  const activities = evaluateActivities(config);
+  const denied = (activity: PrivacyActivity) => activities.some(decision => decision.activity === activity && !decision.allowed);
+  const enforced: any = JSON.parse(JSON.stringify(request));
+  const coppa = getPrivacyScenario(config.privacyScenario).coppa === 1;
+
+  if (denied('transmitUfpd')) {
+    // Empty placeholders carry nothing, so only populated IDs are removed
+    DEVICE_ID_FIELDS.forEach(field => enforced.device?.[field] && delete enforced.device[field]);
+    USER_ID_FIELDS.forEach(field => enforced.user?.[field] && delete enforced.user[field]);
+    if (enforced.user?.ext) delete enforced.user.ext.data;
+  }
+
+  if (denied('transmitEids') && enforced.user) {
+    delete enforced.user.eids;
+    if (enforced.user.ext) delete enforced.user.ext.eids;
+  }
+
+  if (denied('transmitPreciseGeo')) {
+    if (enforced.device?.ip) enforced.device.ip = maskIPv4(enforced.device.ip);
+    if (enforced.device?.ipv6) enforced.device.ipv6 = maskIPv6(enforced.device.ipv6);
+    [enforced.device?.geo, enforced.user?.geo].forEach(geo => geo && coarsenGeo(geo, coppa));
+  }
+
+  const droppedBidders = bidderConsent.filter(decision => !decision.allowed).map(decision => decision.bidder);
+  (enforced.imp || []).forEach((imp: any) => {
+    const bidders = imp.ext?.prebid?.bidder;
+    if (bidders) droppedBidders.forEach(bidder => delete bidders[bidder]);
+  });
+
+  return {
+    request: enforced,
+    enforcement: {
+      activities,
+      droppedBidders,
+      changes: diffRequests(JSON.parse(JSON.stringify(request)), enforced)
+    }
+  };
+}
+
+/**
+ * Leaf-level differences between two JSON values
+ */
+export function diffRequests(before: any, after: any, path: string = ''): RequestChange[] {
+  const isObject = (value: any) => value !== null && typeof value === 'object';
+  if (!isObject(before) || !isObject(after)) {
+    return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path, before, after }];
+  }
+
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return keys.flatMap((key) => {
+    const childPath = Array.isArray(before) ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+    return diffRequests(before[key], after[key], childPath);
+  });
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+// Why a US section restricts data sharing, if it does
+function usRestriction(section: USPrivacySection | undefined): string | undefined {
+  if (!section) return undefined;
+  const { fields } = section;
+  if (section.gpc) return 'Global Privacy Control signal';
+  const optedOut = ['SaleOptOut', 'SharingOptOut', 'TargetedAdvertisingOptOut'].filter(field => fields[field] === 1);
+  if (optedOut.length > 0) return `opted out (${optedOut.join(', ')})`;
+  const childConsents = fields.KnownChildSensitiveDataConsents;
+  if ((Array.isArray(childConsents) ? childConsents : [childConsents]).includes(1)) {
+    return 'known child without consent';
+  }
+  return undefined;
+}
+
+function maskIPv4(ip: string): string {
+  const octets = ip.split('.');
+  return octets.length === 4 ? [...octets.slice(0, 3), '0'].join('.') : ip;
+}
+
+// Keep the first 56 bits
+function maskIPv6(ip: string): string {
+  const [head, tail] = ip.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = [
+    ...headGroups,
+    ...Array(Math.max(0, 8 - headGroups.length - tailGroups.length)).fill('0'),
+    ...tailGroups
+  ].map(group => parseInt(group, 16) || 0);
+  groups[3] &= 0xff00;
+  return `${groups.slice(0, 4).map(group => group.toString(16)).join(':')}::`;
+}
+
+function coarsenGeo(geo: any, coppa: boolean) {
+  if (coppa) {
+    delete geo.lat;
+    delete geo.lon;
+    delete geo.zip;
+    return;
+  }
+  if (typeof geo.lat === 'number') geo.lat = Math.round(geo.lat * 100) / 100;
+  if (typeof geo.lon === 'number') geo.lon = Math.round(geo.lon * 100) / 100;
+}
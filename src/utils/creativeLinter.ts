@@ -0,0 +1,467 @@
+/**
+ * Creative Linter
+ *
+ * Checks every VAST payload and OpenRTB bid the simulator receives against
+ * spec and house rules, so a broken tag shows up as a list of findings
+ * instead of raw XML to be read by hand.
+ *
+ * Features:
+ * - Rule packs: IAB VAST 4.x, CTV best practice and custom simulator rules
+ * - error / warning / info severities per rule
+ * - Device-aware MediaFile checks using the media capability profiles
+ * - OpenRTB bids are linted themselves and their VAST adm is linted inline
+ */
+
+import { LintFinding, LintRulePack, LintSeverity } from '../types';
+import { parseVastXml, formatDuration, VastAd, VastDocument, VastMediaFile } from './vastParser';
+import { DeviceType, selectMediaFile } from './mediaSelector';
+import { WrapperChain } from './vastWrapperResolver';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface LintContext {
+  deviceType?: DeviceType;
+  bandwidthKbps?: number;
+  minDuration?: number; // Seconds, from the request's video object
+  maxDuration?: number;
+  wrapperDepth?: number; // Hops already followed to reach this document
+  maxWrapperDepth?: number;
+}
+
+export interface LintRuleInfo {
+  id: string;
+  pack: LintRulePack;
+  severity: LintSeverity;
+  description: string;
+}
+
+// Subset of an OpenRTB 2.x bid the bid rules read
+export interface LintableBid {
+  id?: string;
+  impid?: string;
+  price?: number;
+  adm?: string;
+  nurl?: string;
+  burl?: string;
+  crid?: string;
+  adomain?: string[];
+  dur?: number;
+}
+
+interface Violation {
+  message: string;
+  path?: string;
+  severity?: LintSeverity; // Overrides the rule default for this violation
+}
+
+interface VastRule extends LintRuleInfo {
+  check: (document: VastDocument, context: LintContext) => Violation[];
+}
+
+interface BidRule extends LintRuleInfo {
+  check: (bid: LintableBid, context: LintContext) => Violation[];
+}
+
+// CTV SSAI and device players commonly give up well before the IAB limit of 5
+const CTV_MAX_WRAPPER_DEPTH = 3;
+
+export const LINT_PACK_LABELS: Record<LintRulePack, string> = {
+  'iab-vast-4': 'IAB VAST 4.x',
+  'ctv-best-practice': 'CTV Best Practice',
+  custom: 'Custom Rules'
+};
+
+const WRAPPER_DEPTH_RULE: LintRuleInfo = {
+  id: 'ctv-wrapper-depth',
+  pack: 'ctv-best-practice',
+  severity: 'warning',
+  description: `Wrapper chains deeper than ${CTV_MAX_WRAPPER_DEPTH} hops risk timeouts on CTV`
+};
+
+// ============================================================================
+// VAST RULES
+// ============================================================================
+
+const VAST_RULES: VastRule[] = [
+  {
+    id: 'vast-impression-required',
+    pack: 'iab-vast-4',
+    severity: 'error',
+    description: 'Every InLine and Wrapper ad must carry at least one <Impression>',
+    check: (document) => document.ads
+      .filter(ad => ad.inLine ? ad.inLine.impressions.length === 0 : ad.wrapper?.trackingEvents.impression.length === 0)
+      .map(ad => ({ message: 'No <Impression> URL', path: adPath(ad) }))
+  },
+  {
+    id: 'vast-inline-required-fields',
+    pack: 'iab-vast-4',
+    severity: 'error',
+    description: 'InLine ads require <AdSystem> and <AdTitle>',
+    check: (document) => document.ads.flatMap((ad) => {
+      const missing = ad.inLine?.missingFields || [];
+      return missing.length > 0 ? [{ message: `Missing <${missing.join('>, <')}>`, path: adPath(ad) }] : [];
+    })
+  },
+  {
+    id: 'vast-universal-ad-id',
+    pack: 'iab-vast-4',
+    severity: 'warning',
+    description: 'VAST 4.x creatives must identify themselves with <UniversalAdId>',
+    check: (document) => {
+      if (parseFloat(document.version) < 4) return [];
+      return document.ads.flatMap(ad => (ad.inLine?.creatives || [])
+        .filter(creative => creative.linear && creative.universalAdIds.length === 0)
+        .map(creative => ({ message: 'Linear creative has no <UniversalAdId>', path: creativePath(ad, creative.id) }))
+      );
+    }
+  },
+  {
+    id: 'vast-linear-duration',
+    pack: 'iab-vast-4',
+    severity: 'error',
+    description: 'Linear creatives require a valid HH:MM:SS(.mmm) <Duration>',
+    check: (document) => linearCreatives(document)
+      .filter(({ linear }) => !/^\d{2}:\d{2}:\d{2}(\.\d{1,3})?$/.test(linear.duration.trim()))
+      .map(({ ad, creativeId, linear }) => ({
+        message: linear.duration ? `Invalid <Duration> "${linear.duration}"` : 'Missing <Duration>',
+        path: creativePath(ad, creativeId)
+      }))
+  },
+  {
+    id: 'vast-mediafile-required',
+    pack: 'iab-vast-4',
+    severity: 'error',
+    description: 'Linear creatives require at least one <MediaFile>',
+    check: (document) => linearCreatives(document)
+      .filter(({ linear }) => linear.mediaFiles.length === 0)
+      .map(({ ad, creativeId }) => ({ message: 'Linear creative has no <MediaFile>', path: creativePath(ad, creativeId) }))
+  },
+  {
+    id: 'ctv-https-only',
+    pack: 'ctv-best-practice',
+    severity: 'warning',
+    description: 'Media, tracking and click URLs should use HTTPS',
+    check: (document) => document.ads.flatMap((ad) => {
+      const insecure = collectAdUrls(ad).filter(({ url }) => url.startsWith('http://'));
+      return insecure.length > 0
+        ? [{
+            message: `${insecure.length} non-HTTPS URL(s): ${unique(insecure.map(({ label }) => label)).join(', ')}`,
+            path: adPath(ad)
+          }]
+        : [];
+    })
+  },
+  {
+    id: 'ctv-vpaid',
+    pack: 'ctv-best-practice',
+    severity: 'warning',
+    description: 'VPAID and other executable media do not run on CTV devices',
+    check: (document) => linearCreatives(document).flatMap(({ ad, creativeId, linear }) =>
+      linear.mediaFiles
+        .filter(isExecutableMedia)
+        .map(mediaFile => ({
+          message: `Executable MediaFile (${mediaFile.apiFramework || mediaFile.type}) will be skipped on CTV`,
+          path: mediaPath(ad, creativeId, mediaFile)
+        }))
+    )
+  },
+  {
+    id: 'ctv-device-media',
+    pack: 'ctv-best-practice',
+    severity: 'error',
+    description: 'At least one MediaFile must be playable on the configured device',
+    check: (document, context) => {
+      if (!context.deviceType) return [];
+      return linearCreatives(document)
+        .filter(({ linear }) => linear.mediaFiles.length > 0)
+        .flatMap(({ ad, creativeId, linear }) => {
+          const selection = selectMediaFile(linear.mediaFiles, {
+            deviceType: context.deviceType!,
+            bandwidthKbps: context.bandwidthKbps
+          });
+          const violations: Violation[] = selection.rejected.map(({ mediaFile, reasons }) => ({
+            message: reasons.join('; '),
+            path: mediaPath(ad, creativeId, mediaFile),
+            severity: 'info' as const
+          }));
+          if (!selection.selected) {
+            violations.unshift({
+              message: `No MediaFile playable on ${selection.profile.label}`,
+              path: creativePath(ad, creativeId)
+            });
+          }
+          return violations;
+        });
+    }
+  },
+  {
+    ...WRAPPER_DEPTH_RULE,
+    check: (document, context) => checkWrapperDepth(
+      (context.wrapperDepth || 0) + (document.ads.some(ad => ad.wrapper) ? 1 : 0),
+      context
+    )
+  },
+  {
+    id: 'custom-duration-bounds',
+    pack: 'custom',
+    severity: 'warning',
+    description: 'Linear duration must respect the requested minduration / maxduration',
+    check: (document, context) => linearCreatives(document).flatMap(({ ad, creativeId, linear }) => {
+      if (!linear.duration) return [];
+      const seconds = formatDuration(linear.duration);
+      const tooShort = context.minDuration !== undefined && seconds < context.minDuration;
+      const tooLong = context.maxDuration !== undefined && seconds > context.maxDuration;
+      return tooShort || tooLong
+        ? [{
+            message: `Duration ${seconds}s outside requested ${context.minDuration ?? 0}-${context.maxDuration ?? '∞'}s`,
+            path: creativePath(ad, creativeId)
+          }]
+        : [];
+    })
+  }
+];
+
+// ============================================================================
+// OPENRTB BID RULES
+// ============================================================================
+
+const BID_RULES: BidRule[] = [
+  {
+    id: 'custom-bid-markup',
+    pack: 'custom',
+    severity: 'error',
+    description: 'Video bids need VAST markup in adm or a nurl that returns it',
+    check: (bid) => !bid.adm && !bid.nurl
+      ? [{ message: 'Bid has neither adm nor nurl' }]
+      : []
+  },
+  {
+    id: 'custom-bid-creative-id',
+    pack: 'custom',
+    severity: 'warning',
+    description: 'Bids should carry crid and adomain for creative review and blocking',
+    check: (bid) => {
+      const missing = [...(!bid.crid ? ['crid'] : []), ...(!bid.adomain || bid.adomain.length === 0 ? ['adomain'] : [])];
+      return missing.length > 0 ? [{ message: `Missing ${missing.join(' and ')}` }] : [];
+    }
+  },
+  {
+    id: 'custom-bid-duration-mismatch',
+    pack: 'custom',
+    severity: 'warning',
+    description: 'bid.dur must match the <Duration> of the VAST it carries',
+    check: (bid) => {
+      if (bid.dur === undefined || !bid.adm || !isVastMarkup(bid.adm)) return [];
+      const document = parseVastXml(bid.adm)?.document;
+      const durations = document
+        ? unique(linearCreatives(document).filter(({ linear }) => linear.duration).map(({ linear }) => formatDuration(linear.duration)))
+        : [];
+      const mismatched = durations.filter(duration => Math.abs(duration - bid.dur!) >= 1);
+      return mismatched.length > 0
+        ? [{ message: `bid.dur ${bid.dur}s but VAST <Duration> is ${mismatched.join(', ')}s` }]
+        : [];
+    }
+  },
+  {
+    id: 'ctv-https-only',
+    pack: 'ctv-best-practice',
+    severity: 'warning',
+    description: 'Media, tracking and click URLs should use HTTPS',
+    check: (bid) => (['nurl', 'burl'] as const)
+      .filter(field => bid[field]?.startsWith('http://'))
+      .map(field => ({ message: `${field} is not HTTPS` }))
+  }
+];
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export const LINT_RULES: LintRuleInfo[] = [...VAST_RULES, ...BID_RULES]
+  .map(({ id, pack, severity, description }) => ({ id, pack, severity, description }))
+  .filter((rule, index, rules) => rules.findIndex(other => other.id === rule.id) === index);
+
+/**
+ * Lint a VAST document
+ */
+export function lintVast(vastXml: string, context: LintContext = {}): LintFinding[] {
+  const document = parseVastXml(vastXml)?.document;
+  if (!document) {
+    return [{
+      ruleId: 'vast-well-formed',
+      pack: 'iab-vast-4',
+      severity: 'error',
+      message: 'Payload is not a well-formed VAST document'
+    }];
+  }
+
+  return VAST_RULES.flatMap(rule => toFindings(rule, rule.check(document, context)));
+}
+
+/**
+ * Lint every bid of an OpenRTB bid response, including VAST carried in adm
+ */
+export function lintOpenRtbResponse(response: any, context: LintContext = {}): LintFinding[] {
+  const seatbids: any[] = Array.isArray(response?.seatbid) ? response.seatbid : [];
+
+  return seatbids.flatMap((seatbid, seatIndex) =>
+    (Array.isArray(seatbid?.bid) ? seatbid.bid : []).flatMap((bid: LintableBid, bidIndex: number) => {
+      const bidPath = `${seatbid.seat || `seatbid[${seatIndex}]`} > bid[${bid.id || bidIndex}]`;
+      const bidFindings = BID_RULES.flatMap(rule => toFindings(rule, rule.check(bid, context), bidPath));
+      const admFindings = bid.adm && isVastMarkup(bid.adm)
+        ? lintVast(bid.adm, context).map(finding => ({
+            ...finding,
+            path: finding.path ? `${bidPath} > ${finding.path}` : bidPath
+          }))
+        : [];
+      return [...bidFindings, ...admFindings];
+    })
+  );
+}
+
+/**
+ * Lint every document a resolved wrapper chain fetched, then the chain's depth as a whole
+ */
+export function lintWrapperChain(chain: WrapperChain, context: LintContext = {}): LintFinding[] {
+  const hopFindings = chain.hops.flatMap(hop => hop.xml === undefined ? [] : lintVast(hop.xml, context)
+    // Depth is judged once for the whole chain below, not per document
+    .filter(finding => finding.ruleId !== WRAPPER_DEPTH_RULE.id)
+    .map(finding => hop.depth === 0 ? finding : {
+      ...finding,
+      path: finding.path ? `${hop.url} > ${finding.path}` : hop.url
+    })
+  );
+  return [...hopFindings, ...toFindings(WRAPPER_DEPTH_RULE, checkWrapperDepth(chain.maxDepthReached, context, chain.urls))];
+}
+
+/**
+ * Lint a response body the way the request type says it should be read
+ */
+export function lintAdResponse(type: 'vast' | 'openrtb', data: unknown, context: LintContext = {}): LintFinding[] {
+  if (type === 'vast') {
+    return typeof data === 'string' && data.trim() !== '' ? lintVast(data, context) : [];
+  }
+  return data && typeof data === 'object' ? lintOpenRtbResponse(data, context) : [];
+}
+
+/**
+ * Read duration bounds from the first video impression of an OpenRTB request
+ */
+export function durationBoundsFromRequest(request: any): Pick<LintContext, 'minDuration' | 'maxDuration'> {
+  const video = request?.imp?.find((imp: any) => imp.video)?.video;
+  if (Array.isArray(video?.rqddurs) && video.rqddurs.length > 0) {
+    return { minDuration: Math.min(...video.rqddurs), maxDuration: Math.max(...video.rqddurs) };
+  }
+  return {
+    minDuration: typeof video?.minduration === 'number' ? video.minduration : undefined,
+    maxDuration: typeof video?.maxduration === 'number' ? video.maxduration : undefined
+  };
+}
+
+export function groupFindingsByPack(findings: LintFinding[]): Array<{ pack: LintRulePack; findings: LintFinding[] }> {
+  return (Object.keys(LINT_PACK_LABELS) as LintRulePack[])
+    .map(pack => ({ pack, findings: findings.filter(finding => finding.pack === pack) }))
+    .filter(group => group.findings.length > 0);
+}
+
+export function countFindings(findings: LintFinding[]): Record<LintSeverity, number> {
+  return {
+    error: findings.filter(finding => finding.severity === 'error').length,
+    warning: findings.filter(finding => finding.severity === 'warning').length,
+    info: findings.filter(finding => finding.severity === 'info').length
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function checkWrapperDepth(depth: number, context: LintContext, urls: string[] = []): Violation[] {
+  const maxDepth = context.maxWrapperDepth ?? CTV_MAX_WRAPPER_DEPTH;
+  return depth > maxDepth
+    ? [{ message: `Wrapper depth ${depth} exceeds ${maxDepth}`, path: urls.length > 0 ? urls[urls.length - 1] : undefined }]
+    : [];
+}
+
+function toFindings(rule: LintRuleInfo, violations: Violation[], basePath?: string): LintFinding[] {
+  return violations.map(violation => ({
+    ruleId: rule.id,
+    pack: rule.pack,
+    severity: violation.severity || rule.severity,
+    message: violation.message,
+    path: basePath && violation.path ? `${basePath} > ${violation.path}` : basePath || violation.path
+  }));
+}
+
+function linearCreatives(document: VastDocument) {
+  return document.ads.flatMap(ad => (ad.inLine?.creatives || [])
+    .filter(creative => creative.linear)
+    .map(creative => ({ ad, creativeId: creative.id, linear: creative.linear! }))
+  );
+}
+
+// Every URL a device would request for this ad, labelled by where it came from
+function collectAdUrls(ad: VastAd): Array<{ label: string; url: string }> {
+  const urls: Array<{ label: string; url: string }> = [];
+  const add = (label: string, values: Array<string | undefined>) => {
+    values.forEach(url => url && urls.push({ label, url }));
+  };
+
+  if (ad.wrapper) {
+    add('VASTAdTagURI', [ad.wrapper.vastAdTagUri]);
+    add('Impression', ad.wrapper.trackingEvents.impression);
+    add('Error', ad.wrapper.errorUrls);
+  }
+
+  if (ad.inLine) {
+    add('Impression', ad.inLine.impressions.map(impression => impression.url));
+    add('Error', ad.inLine.errorUrls);
+    ad.inLine.creatives.forEach((creative) => {
+      if (creative.linear) {
+        add('MediaFile', creative.linear.mediaFiles.map(mediaFile => mediaFile.url));
+        add('Tracking', creative.linear.trackingEvents.map(tracking => tracking.url));
+        add('ClickThrough', [creative.linear.clickThrough]);
+        add('ClickTracking', creative.linear.clickTrackings.map(click => click.url));
+      }
+      creative.companionAds?.companions.forEach((companion) => {
+        add('Companion', companion.resources.filter(resource => resource.kind !== 'html').map(resource => resource.content));
+        add('Companion tracking', [...companion.trackingEvents.map(tracking => tracking.url), ...companion.clickTrackings]);
+      });
+      creative.nonLinearAds?.nonLinears.forEach((nonLinear) => {
+        add('NonLinear', nonLinear.resources.filter(resource => resource.kind !== 'html').map(resource => resource.content));
+        add('NonLinear tracking', nonLinear.clickTrackings);
+      });
+    });
+  }
+
+  return urls;
+}
+
+function isExecutableMedia(mediaFile: VastMediaFile): boolean {
+  const type = mediaFile.type.toLowerCase();
+  return (mediaFile.apiFramework || '').toUpperCase() === 'VPAID' ||
+    type === 'application/javascript' ||
+    type === 'application/x-shockwave-flash';
+}
+
+function isVastMarkup(markup: string): boolean {
+  return /<VAST[\s>]/i.test(markup);
+}
+
+function adPath(ad: VastAd): string {
+  return `Ad[${ad.id || '?'}]`;
+}
+
+function creativePath(ad: VastAd, creativeId: string | undefined): string {
+  return `${adPath(ad)} > Creative[${creativeId || '?'}]`;
+}
+
+function mediaPath(ad: VastAd, creativeId: string | undefined, mediaFile: VastMediaFile): string {
+  return `${creativePath(ad, creativeId)} > MediaFile[${mediaFile.id || mediaFile.type}]`;
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
@@ -11,6 +11,7 @@ import {
   HLSAdBreak
 } from '../types';
 import CryptoJS from 'crypto-js';
+import { currentDate, now, randomId, randomInt } from './simulation';
 
 export class DAIService {
   private static instance: DAIService;
@@ -36,7 +37,7 @@ export class DAIService {
       type,
       key,
       status: 'active',
-      createdAt: new Date(),
+      createdAt: currentDate(),
       description
     };
 
@@ -285,7 +286,7 @@ export class DAIService {
 
   // HMAC Token Generation
   public generateHMACToken(request: DAIStreamRequest, hmacKey: string): string {
-    const timestamp = Math.floor(Date.now() / 1000);
+    const timestamp = Math.floor(now() / 1000);
     const payload = {
       contentSourceId: request.contentSourceId,
       videoId: request.videoId,
@@ -305,7 +306,7 @@ export class DAIService {
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
     let key = '';
     for (let i = 0; i < 64; i++) {
-      key += chars.charAt(Math.floor(Math.random() * chars.length));
+      key += chars.charAt(randomInt(chars.length));
     }
     return key;
   }
@@ -315,21 +316,21 @@ export class DAIService {
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
     let key = '';
     for (let i = 0; i < 32; i++) {
-      key += chars.charAt(Math.floor(Math.random() * chars.length));
+      key += chars.charAt(randomInt(chars.length));
     }
     return key;
   }
 
   private generateId(): string {
-    return 'dai_' + Math.random().toString(36).substr(2, 12);
+    return 'dai_' + randomId(12);
   }
 
   private generateStreamId(): string {
-    return 'stream_' + Math.random().toString(36).substr(2, 12);
+    return 'stream_' + randomId(12);
   }
 
   private generateSessionId(): string {
-    return 'session_' + Math.random().toString(36).substr(2, 12);
+    return 'session_' + randomId(12);
   }
 
   private generateTrackingUrl(type: string): string {
@@ -6,7 +6,7 @@
  *
  * Features:
  * - LLM-powered pod strategy optimization
- * - Dynamic floor price adjustment
+ * - Dynamic floor price adjustment, never below the shared floor rules
  * - Real-time bid evaluation with ML scoring
  * - Competitive separation and brand safety
  * - Historical performance learning
@@ -14,6 +14,10 @@
  */
 
 import axios from 'axios';
+import { usableBids, validateBidResponse } from './bidResponseValidator';
+import { AuctionNotice, dispatchAuctionNotices, expandAuctionMacros, LOSS_REASONS, lossReasonForIssues, NoticeBid, toNoticeBid } from './auctionNotices';
+import { DEFAULT_FLOOR_RULES, FloorContext, FloorResolution, FloorRule, resolveFloor } from '../../config/floor-rules.js';
+import { activeSimulation, now, simulatorHeaders } from './simulation';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -26,6 +30,10 @@ export interface AdOpportunity {
   category: string;
   device: string;
   user: UserContext;
+  // Floor rule context beyond position and category
+  deviceType?: number;
+  provider?: string;
+  country?: string;
 }
 
 export interface UserContext {
@@ -65,6 +73,7 @@ export interface SlotStrategy {
   expectedCPM: number;
   fillProbability: number;
   separation?: CompetitiveSeparation;
+  floorRule?: FloorResolution; // Set when the slot runs; its floor is never below the rule's
 }
 
 export interface CompetitiveSeparation {
@@ -74,6 +83,7 @@ export interface CompetitiveSeparation {
 }
 
 export interface AdPodResult {
+  source?: 'optimizer' | 'vast-pod'; // Optimizer results predate this field and leave it unset
   slotsAttempted: number;
   slotsFilled: number;
   totalRevenue: number;
@@ -81,6 +91,7 @@ export interface AdPodResult {
   completionRate: number;
   winningBids: WinningBid[];
   failedSlots: FailedSlot[];
+  notices?: AuctionNotice[]; // Win and loss notices sent while filling the pod
 }
 
 export interface WinningBid {
@@ -92,6 +103,8 @@ export interface WinningBid {
   advertiserDomain?: string;
   category?: string;
   dealId?: string;
+  notice?: NoticeBid; // OpenRTB bids only; needed for the billing notice
+  nurlMarkup?: boolean; // No adm: vastUrl is the nurl, whose fetch doubles as the win notice
 }
 
 export interface FailedSlot {
@@ -110,6 +123,14 @@ export interface BidResponse {
   dealId?: string;
   latency: number;
   confidence?: number;
+  notice?: NoticeBid;
+  nurlMarkup?: boolean;
+}
+
+// OpenRTB bid the validator threw out before scoring; it still gets a loss notice
+interface RejectedBid {
+  notice: NoticeBid;
+  lossReason: number;
 }
 
 export interface HistoricalPerformance {
@@ -132,11 +153,13 @@ export class DynamicAdPodOptimizer {
   private historicalPerformance: Map<string, HistoricalPerformance>;
   private llmEndpoint: string;
   private enabled: boolean;
+  private floorRules: FloorRule[];
 
   constructor(config?: {
     revenueTargets?: Record<string, number>;
     llmEndpoint?: string;
     enabled?: boolean;
+    floorRules?: FloorRule[];
   }) {
     this.revenueTargets = config?.revenueTargets || {
       preroll: 8.50,
@@ -148,12 +171,15 @@ export class DynamicAdPodOptimizer {
     this.historicalPerformance = new Map();
     this.llmEndpoint = config?.llmEndpoint || '/api/llm/optimize-pod';
     this.enabled = config?.enabled !== false;
+    this.floorRules = config?.floorRules || DEFAULT_FLOOR_RULES;
 
     // Initialize with default demand sources
     this.initializeDefaultDemandSources();
 
-    // Load historical performance from localStorage
-    this.loadHistoricalPerformance();
+    // Load historical performance from localStorage; a seeded run starts from none so it replays
+    if (!activeSimulation()) {
+      this.loadHistoricalPerformance();
+    }
   }
 
   // --------------------------------------------------------------------------
@@ -280,7 +306,8 @@ export class DynamicAdPodOptimizer {
    * Build optimal ad pod strategy for maximum revenue
    */
   async buildOptimalAdPod(opportunity: AdOpportunity): Promise<PodStrategy> {
-    if (!this.enabled) {
+    // An LLM answer can't be replayed, so seeded runs use the rule-based strategy
+    if (!this.enabled || activeSimulation()) {
       return this.getDefaultStrategy(opportunity);
     }
 
@@ -498,21 +525,28 @@ Respond ONLY with valid JSON (no markdown, no explanation):
       totalDuration: 0,
       completionRate: 0,
       winningBids: [],
-      failedSlots: []
+      failedSlots: [],
+      notices: []
     };
 
     const excludedAdvertisers: string[] = [];
     const excludedCategories: string[] = [];
+    const floorContext = this.floorContext(opportunity);
 
     for (const slot of strategy.sequence) {
       try {
+        // The strategy may price a slot above the floor rules, never below them
+        slot.floorRule = resolveFloor(floorContext, { rules: this.floorRules });
+        slot.floor = Math.max(slot.floor, slot.floorRule.floor);
+
         // Fetch bids from demand sources
-        const bids = await this.fetchBids(slot, opportunity, {
+        const { bids, rejected } = await this.fetchBids(slot, opportunity, {
           excludedAdvertisers,
           excludedCategories
         });
 
         if (bids.length === 0) {
+          results.notices!.push(...this.sendAuctionNotices(slot, [], rejected, null, floorContext));
           results.failedSlots.push({
             slot: slot.slot,
             reason: 'No bids received',
@@ -522,7 +556,8 @@ Respond ONLY with valid JSON (no markdown, no explanation):
         }
 
         // Evaluate bids with ML scoring
-        const winningBid = await this.evaluateBids(bids, slot);
+        const winningBid = await this.evaluateBids(bids, slot, floorContext);
+        results.notices!.push(...this.sendAuctionNotices(slot, bids, rejected, winningBid, floorContext));
 
         if (winningBid) {
           results.winningBids.push(winningBid);
@@ -570,14 +605,15 @@ Respond ONLY with valid JSON (no markdown, no explanation):
     slot: SlotStrategy,
     opportunity: AdOpportunity,
     exclusions: { excludedAdvertisers: string[]; excludedCategories: string[] }
-  ): Promise<BidResponse[]> {
+  ): Promise<{ bids: BidResponse[]; rejected: RejectedBid[] }> {
+    const rejected: RejectedBid[] = [];
     const bidPromises = slot.sources.map(async (sourceName) => {
       const source = this.demandSources.get(sourceName);
       if (!source || !source.enabled) {
-        return null;
+        return [];
       }
 
-      const startTime = Date.now();
+      const startTime = now();
 
       try {
         const response = await axios.post(
@@ -591,28 +627,59 @@ Respond ONLY with valid JSON (no markdown, no explanation):
             excludedAdvertisers: exclusions.excludedAdvertisers,
             excludedCategories: exclusions.excludedCategories
           },
-          { timeout: slot.timeout }
+          { timeout: slot.timeout, headers: simulatorHeaders(source.endpoint) }
         );
 
-        const latency = Date.now() - startTime;
+        const latency = now() - startTime;
 
         // Parse response based on endpoint type
         if (response.data.seatbid && response.data.seatbid.length > 0) {
-          // OpenRTB format
-          const bid = response.data.seatbid[0].bid[0];
-          return {
+          // OpenRTB format: every seat and bid is validated, rejected bids never reach scoring
+          const validation = validateBidResponse(response.data, {
+            currencies: ['USD'],
+            imps: [{
+              bidfloor: slot.floor,
+              bidfloorcur: 'USD',
+              mediaType: 2,
+              maxDuration: slot.duration,
+              dealIds: [],
+              privateAuction: false
+            }],
+            blockedCategories: exclusions.excludedCategories,
+            blockedDomains: exclusions.excludedAdvertisers
+          });
+
+          const seatbids: any[] = response.data.seatbid;
+          seatbids
+            .flatMap(seatbid => (Array.isArray(seatbid?.bid) ? seatbid.bid : []) as any[])
+            .forEach((bid, index) => {
+              const bidValidation = validation.bids[index];
+              if (bidValidation.verdict !== 'rejected') return;
+              console.warn(
+                `Rejected bid ${bidValidation.bidId} from ${sourceName}/${bidValidation.seat}:`,
+                bidValidation.issues.map(issue => issue.message)
+              );
+              rejected.push({
+                notice: toNoticeBid(response.data, bidValidation.seat, bid),
+                lossReason: lossReasonForIssues(bidValidation.issues)
+              });
+            });
+
+          return usableBids(response.data, validation).map(({ seat, bid }): BidResponse => ({
             source: sourceName,
             cpm: bid.price,
-            vastUrl: bid.adm || bid.nurl,
-            duration: slot.duration,
+            vastUrl: (bid.adm || bid.nurl)!,
+            nurlMarkup: !bid.adm,
+            duration: bid.dur ?? slot.duration,
             advertiserDomain: bid.adomain?.[0],
             category: bid.cat?.[0],
             dealId: bid.dealid,
-            latency
-          };
+            latency,
+            notice: toNoticeBid(response.data, seat, bid)
+          }));
         } else if (response.data.vastUrl || response.data.vast_url) {
           // Custom format
-          return {
+          return [{
             source: sourceName,
             cpm: response.data.cpm || response.data.price || slot.floor,
             vastUrl: response.data.vastUrl || response.data.vast_url,
@@ -621,30 +688,75 @@ Respond ONLY with valid JSON (no markdown, no explanation):
             category: response.data.category,
             dealId: response.data.dealId,
             latency
-          };
+          }];
         }
 
-        return null;
+        return [];
       } catch (error) {
         console.warn(`Bid request failed for ${sourceName}:`, error);
-        return null;
+        return [];
       }
     });
 
     const bids = await Promise.all(bidPromises);
-    return bids.filter((bid): bid is BidResponse => bid !== null);
+    return { bids: bids.flat(), rejected };
+  }
+
+  /**
+   * Win notice for the slot's winner, loss notices for every other OpenRTB bid.
+   * The optimizer charges what the winner bid, so that is the clearing price.
+   * A winner without adm gets its macro-expanded nurl as vastUrl instead of a win
+   * notice: fetching the markup is the win notice, so firing nurl too would count it twice.
+   */
+  private sendAuctionNotices(
+    slot: SlotStrategy,
+    bids: BidResponse[],
+    rejected: RejectedBid[],
+    winningBid: WinningBid | null,
+    floorContext: FloorContext
+  ): AuctionNotice[] {
+    const winnerNotice = winningBid?.notice || null;
+    const losingBids = bids.filter(bid => bid.notice && bid.notice !== winnerNotice);
+    const clearingPrice = winningBid?.cpm || 0;
+    const runnerUpPrice = losingBids.length > 0 ? Math.max(...losingBids.map(bid => bid.cpm)) : slot.floor;
+
+    if (winningBid?.nurlMarkup && winnerNotice?.nurl) {
+      winningBid.vastUrl = expandAuctionMacros(winnerNotice.nurl, winnerNotice, {
+        price: clearingPrice,
+        lossReason: LOSS_REASONS.BID_WON,
+        minToWin: runnerUpPrice
+      });
+    }
+
+    return dispatchAuctionNotices({
+      winner: winnerNotice && winningBid?.nurlMarkup ? { ...winnerNotice, nurl: undefined } : winnerNotice,
+      clearingPrice,
+      runnerUpPrice,
+      floor: slot.floor,
+      losers: [
+        ...losingBids.map(bid => ({
+          bid: bid.notice!,
+          lossReason: winningBid && bid.cpm >= this.bidFloor(bid, slot, floorContext)
+            ? LOSS_REASONS.LOST_TO_HIGHER_BID
+            : LOSS_REASONS.BELOW_AUCTION_FLOOR
+        })),
+        ...rejected.map(({ notice, lossReason }) => ({ bid: notice, lossReason }))
+      ]
+    });
   }
 
   /**
    * Evaluate bids with ML-powered scoring
    */
-  private async evaluateBids(bids: BidResponse[], slot: SlotStrategy): Promise<WinningBid | null> {
-    if (bids.length === 0) {
+  private async evaluateBids(bids: BidResponse[], slot: SlotStrategy, floorContext: FloorContext): Promise<WinningBid | null> {
+    // Only bids that meet their own floor are scored
+    const eligible = bids.filter(bid => bid.cpm >= this.bidFloor(bid, slot, floorContext));
+    if (eligible.length === 0) {
       return null;
     }
 
     // Score each bid
-    const scoredBids = bids.map(bid => {
+    const scoredBids = eligible.map(bid => {
       const source = this.demandSources.get(bid.source);
 
       // Multi-factor scoring
@@ -668,11 +780,6 @@ Respond ONLY with valid JSON (no markdown, no explanation):
     scoredBids.sort((a, b) => b.score - a.score);
     const winner = scoredBids[0];
 
-    // Check if winner meets floor
-    if (winner.cpm < slot.floor) {
-      return null;
-    }
-
     return {
       slot: slot.slot,
       source: winner.source,
@@ -681,10 +788,36 @@ Respond ONLY with valid JSON (no markdown, no explanation):
       duration: winner.duration,
       advertiserDomain: winner.advertiserDomain,
       category: winner.category,
-      dealId: winner.dealId
+      dealId: winner.dealId,
+      notice: winner.notice,
+      nurlMarkup: winner.nurlMarkup
     };
   }
 
+  /**
+   * What the floor rules can key on before any bid arrives
+   */
+  private floorContext(opportunity: AdOpportunity): FloorContext {
+    return {
+      deviceType: opportunity.deviceType ?? (opportunity.device === 'ctv' ? 3 : undefined),
+      provider: opportunity.provider,
+      country: opportunity.country,
+      genre: opportunity.category,
+      position: opportunity.position
+    };
+  }
+
+  /**
+   * The slot floor, raised where a rule keys on the bid's advertiser domain or deal
+   */
+  private bidFloor(bid: BidResponse, slot: SlotStrategy, floorContext: FloorContext): number {
+    const resolution = resolveFloor(
+      { ...floorContext, domain: bid.advertiserDomain, deal: bid.dealId },
+      { rules: this.floorRules }
+    );
+    return Math.max(slot.floor, resolution.floor);
+  }
+
   /**
    * Update learning model with impression results
    */
@@ -714,7 +847,7 @@ Respond ONLY with valid JSON (no markdown, no explanation):
         avgCompletionRate: 0.75,
         topSources: [],
         sampleSize: 0,
-        lastUpdated: Date.now()
+        lastUpdated: now()
       };
     }
 
@@ -722,10 +855,13 @@ Respond ONLY with valid JSON (no markdown, no explanation):
     hist.avgRevenue = (hist.avgRevenue * hist.sampleSize + revenue) / (hist.sampleSize + 1);
     hist.avgFillRate = (hist.avgFillRate * hist.sampleSize + 1) / (hist.sampleSize + 1);
     hist.sampleSize++;
-    hist.lastUpdated = Date.now();
+    hist.lastUpdated = now();
 
     this.historicalPerformance.set(histKey, hist);
-    this.saveHistoricalPerformance();
+    // Seeded runs never leak into the live history
+    if (!activeSimulation()) {
+      this.saveHistoricalPerformance();
+    }
   }
 
   // --------------------------------------------------------------------------
@@ -796,7 +932,7 @@ Respond ONLY with valid JSON (no markdown, no explanation):
         avgCompletionRate: 0,
         topSources: [],
         sampleSize: 0,
-        lastUpdated: Date.now()
+        lastUpdated: now()
       };
     }
     return this.historicalPerformance;
@@ -12,6 +12,7 @@
  */
 
 import { DemandSource } from './dynamicAdPodOptimizer';
+import { now, wallClock } from './simulation';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -115,11 +116,11 @@ export class FillRatePredictorML {
     demandSource: DemandSource,
     context: Partial<PredictionContext>
   ): Promise<FillPrediction> {
-    const now = new Date();
+    const clock = wallClock();
     const fullContext: PredictionContext = {
       demandSource: demandSource.name,
-      hour: context.hour ?? now.getHours(),
-      dayOfWeek: context.dayOfWeek ?? now.getDay(),
+      hour: context.hour ?? clock.getUTCHours(),
+      dayOfWeek: context.dayOfWeek ?? clock.getUTCDay(),
       device: context.device || 'desktop',
       geography: context.geography,
       contentCategory: context.contentCategory || 'general',
@@ -397,7 +398,7 @@ export class FillRatePredictorML {
       filled,
       cpm,
       latency,
-      timestamp: Date.now()
+      timestamp: now()
     };
 
     this.trainingData.push(data);
@@ -485,8 +486,7 @@ export class FillRatePredictorML {
   // --------------------------------------------------------------------------
 
   private getSeasonalityFactor(): number {
-    const now = new Date();
-    const month = now.getMonth();
+    const month = wallClock().getUTCMonth();
 
     // Q4 holiday season (Oct-Dec)
     if (month >= 9 && month <= 11) {
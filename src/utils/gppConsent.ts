@@ -0,0 +1,495 @@
+/**
+ * GPP (IAB Global Privacy Platform) Consent
+ *
+ * Encodes and decodes GPP strings and derives every privacy signal a request
+ * carries (regs.gpp, regs.gpp_sid, us_privacy, coppa, gdpr) from one privacy
+ * scenario, so the legacy signals never disagree with the GPP string.
+ *
+ * Features:
+ * - Header with Fibonacci-coded section IDs
+ * - Sections: tcfeuv2 (2), tcfcav1 (5), uspv1 (6), usnat (7), usca (8), usva (9)
+ * - Global Privacy Control subsection for usnat and usca
+ * - Privacy scenarios for US state, Canadian and child-directed testing
+ * - us_privacy derived from the US sections
+ */
+
+import { CTVConfig } from '../types';
+import { BitReader, BitWriter, sortedIds } from './consentBits';
+import { currentDate } from './simulation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type GPPSectionName = 'tcfeuv2' | 'tcfcav1' | 'uspv1' | 'usnat' | 'usca' | 'usva';
+
+export type USSectionName = 'usnat' | 'usca' | 'usva';
+
+export interface USPrivacySection {
+  fields: Record<string, number | number[]>; // Missing fields encode as 0 (not applicable)
+  gpc?: boolean; // usnat and usca only; omitted means no GPC subsection
+}
+
+export interface CanadaTCFSection {
+  created: Date;
+  lastUpdated: Date;
+  cmpId: number;
+  cmpVersion: number;
+  consentScreen: number;
+  consentLanguage: string;
+  vendorListVersion: number;
+  policyVersion: number;
+  useNonStandardTexts: boolean;
+  specialFeatureExpressConsents: number[];
+  purposeExpressConsents: number[];
+  purposeImpliedConsents: number[];
+  vendorExpressConsents: number[];
+  vendorImpliedConsents: number[];
+}
+
+export interface GPPSections {
+  tcfeuv2?: string; // The TC string itself; decode with decodeTCString
+  tcfcav1?: CanadaTCFSection;
+  uspv1?: string;
+  usnat?: USPrivacySection;
+  usca?: USPrivacySection;
+  usva?: USPrivacySection;
+}
+
+export interface GPPData extends GPPSections {
+  version: number;
+  sectionIds: number[];
+  unsupported: number[]; // Section IDs present in the string that we do not decode
+}
+
+export interface PrivacyScenario {
+  id: string;
+  name: string;
+  description: string;
+  coppa: 0 | 1;
+  uspv1: boolean; // Also send the us_privacy string as a GPP section
+  sections: () => GPPSections;
+}
+
+export interface PrivacySignals {
+  gdpr: 0 | 1;
+  consent?: string; // TC string when GDPR applies
+  coppa: 0 | 1;
+  usPrivacy: string;
+  gpp?: string;
+  gppSid?: number[];
+}
+
+type FieldSpec = [name: string, bits: number, count?: number];
+
+export const GPP_SECTION_IDS: Record<GPPSectionName, number> = {
+  tcfeuv2: 2,
+  tcfcav1: 5,
+  uspv1: 6,
+  usnat: 7,
+  usca: 8,
+  usva: 9
+};
+
+// Values shared by the US sections; 0 is always "not applicable"
+export const US_NOTICE = { PROVIDED: 1, NOT_PROVIDED: 2 };
+export const US_OPT_OUT = { OPTED_OUT: 1, DID_NOT_OPT_OUT: 2 };
+export const US_CONSENT = { NO_CONSENT: 1, CONSENT: 2 };
+export const US_MSPA = { YES: 1, NO: 2 };
+
+// Core segment fields after the 6-bit version, in string order
+export const US_SECTION_FIELDS: Record<USSectionName, FieldSpec[]> = {
+  usnat: [
+    ['SharingNotice', 2],
+    ['SaleOptOutNotice', 2],
+    ['SharingOptOutNotice', 2],
+    ['TargetedAdvertisingOptOutNotice', 2],
+    ['SensitiveDataProcessingOptOutNotice', 2],
+    ['SensitiveDataLimitUseNotice', 2],
+    ['SaleOptOut', 2],
+    ['SharingOptOut', 2],
+    ['TargetedAdvertisingOptOut', 2],
+    ['SensitiveDataProcessing', 2, 12],
+    ['KnownChildSensitiveDataConsents', 2, 2],
+    ['PersonalDataConsents', 2],
+    ['MspaCoveredTransaction', 2],
+    ['MspaOptOutOptionMode', 2],
+    ['MspaServiceProviderMode', 2]
+  ],
+  usca: [
+    ['SaleOptOutNotice', 2],
+    ['SharingOptOutNotice', 2],
+    ['SensitiveDataLimitUseNotice', 2],
+    ['SaleOptOut', 2],
+    ['SharingOptOut', 2],
+    ['SensitiveDataProcessing', 2, 9],
+    ['KnownChildSensitiveDataConsents', 2, 2],
+    ['PersonalDataConsents', 2],
+    ['MspaCoveredTransaction', 2],
+    ['MspaOptOutOptionMode', 2],
+    ['MspaServiceProviderMode', 2]
+  ],
+  usva: [
+    ['SharingNotice', 2],
+    ['SaleOptOutNotice', 2],
+    ['TargetedAdvertisingOptOutNotice', 2],
+    ['SaleOptOut', 2],
+    ['TargetedAdvertisingOptOut', 2],
+    ['SensitiveDataProcessing', 2, 8],
+    ['KnownChildSensitiveDataConsents', 2],
+    ['MspaCoveredTransaction', 2],
+    ['MspaOptOutOptionMode', 2],
+    ['MspaServiceProviderMode', 2]
+  ]
+};
+
+export const PRIVACY_SCENARIOS: PrivacyScenario[] = [
+  {
+    id: 'none',
+    name: 'No US or Canadian signals',
+    description: 'Only the EU TCF section, when GDPR applies',
+    coppa: 0,
+    uspv1: false,
+    sections: () => ({})
+  },
+  {
+    id: 'usnat-no-opt-out',
+    name: 'US national: notices given, no opt-out',
+    description: 'Sale, sharing and targeted advertising allowed',
+    coppa: 0,
+    uspv1: false,
+    sections: () => ({
+      usnat: {
+        fields: {
+          ...usNotices('usnat'),
+          SaleOptOut: US_OPT_OUT.DID_NOT_OPT_OUT,
+          SharingOptOut: US_OPT_OUT.DID_NOT_OPT_OUT,
+          TargetedAdvertisingOptOut: US_OPT_OUT.DID_NOT_OPT_OUT,
+          MspaCoveredTransaction: US_MSPA.NO
+        }
+      }
+    })
+  },
+  {
+    id: 'usnat-opt-out',
+    name: 'US national: opted out',
+    description: 'User opted out of sale, sharing and targeted advertising',
+    coppa: 0,
+    uspv1: false,
+    sections: () => ({ usnat: { fields: usOptedOut('usnat') } })
+  },
+  {
+    id: 'usnat-gpc',
+    name: 'US national: Global Privacy Control',
+    description: 'Browser GPC signal, treated as an opt-out',
+    coppa: 0,
+    uspv1: false,
+    sections: () => ({ usnat: { fields: usOptedOut('usnat'), gpc: true } })
+  },
+  {
+    id: 'usca-opt-out',
+    name: 'California (CPRA): sale/share opt-out',
+    description: 'usca section plus the legacy CCPA uspv1 section',
+    coppa: 0,
+    uspv1: true,
+    sections: () => ({ usca: { fields: usOptedOut('usca') } })
+  },
+  {
+    id: 'usva-targeting-opt-out',
+    name: 'Virginia (VCDPA): targeted advertising opt-out',
+    description: 'Sale allowed, targeted advertising opted out',
+    coppa: 0,
+    uspv1: false,
+    sections: () => ({
+      usva: {
+        fields: {
+          ...usNotices('usva'),
+          SaleOptOut: US_OPT_OUT.DID_NOT_OPT_OUT,
+          TargetedAdvertisingOptOut: US_OPT_OUT.OPTED_OUT,
+          MspaCoveredTransaction: US_MSPA.NO
+        }
+      }
+    })
+  },
+  {
+    id: 'canada-express-consent',
+    name: 'Canada (TCF CA): express consent',
+    description: 'Express consent to every purpose and special feature',
+    coppa: 0,
+    uspv1: false,
+    sections: () => {
+      const now = currentDate();
+      return {
+        tcfcav1: {
+          created: now,
+          lastUpdated: now,
+          cmpId: 300,
+          cmpVersion: 1,
+          consentScreen: 1,
+          consentLanguage: 'EN',
+          vendorListVersion: 50,
+          policyVersion: 2,
+          useNonStandardTexts: false,
+          specialFeatureExpressConsents: [1, 2],
+          purposeExpressConsents: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+          purposeImpliedConsents: [],
+          vendorExpressConsents: [],
+          vendorImpliedConsents: []
+        }
+      };
+    }
+  },
+  {
+    id: 'child-directed',
+    name: 'Child-directed (COPPA)',
+    description: 'COPPA flag set, known child, no consent for child data',
+    coppa: 1,
+    uspv1: true,
+    sections: () => ({
+      usnat: {
+        fields: {
+          ...usOptedOut('usnat'),
+          KnownChildSensitiveDataConsents: [US_CONSENT.NO_CONSENT, US_CONSENT.NO_CONSENT]
+        }
+      }
+    })
+  }
+];
+
+const GPP_HEADER_TYPE = 3;
+const GPP_VERSION = 1;
+const US_SECTION_VERSION = 1;
+const CANADA_SECTION_VERSION = 1;
+const GPC_SUBSECTION_TYPE = 1;
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export function getPrivacyScenario(id: string | undefined): PrivacyScenario {
+  return PRIVACY_SCENARIOS.find(scenario => scenario.id === id) || PRIVACY_SCENARIOS[0];
+}
+
+/**
+ * Encode the given sections in section ID order behind a GPP header
+ */
+export function encodeGPPString(sections: GPPSections): string {
+  const names = (Object.keys(GPP_SECTION_IDS) as GPPSectionName[])
+    .filter(name => sections[name] !== undefined)
+    .sort((a, b) => GPP_SECTION_IDS[a] - GPP_SECTION_IDS[b]);
+
+  const header = new BitWriter();
+  header.int(GPP_HEADER_TYPE, 6);
+  header.int(GPP_VERSION, 6);
+  header.fibonacciRanges(names.map(name => GPP_SECTION_IDS[name]));
+
+  return [header.toString(), ...names.map(name => encodeSection(name, sections))].join('~');
+}
+
+/**
+ * Decode a GPP string; throws when the header or a supported section is malformed
+ */
+export function decodeGPPString(gppString: string): GPPData {
+  const [headerPart, ...sectionParts] = gppString.trim().split('~');
+  if (!headerPart) {
+    throw new Error('GPP string is empty');
+  }
+
+  const header = new BitReader(headerPart);
+  const type = header.int(6);
+  if (type !== GPP_HEADER_TYPE) {
+    throw new Error(`GPP header has type ${type}; expected ${GPP_HEADER_TYPE}`);
+  }
+  const data: GPPData = { version: header.int(6), sectionIds: header.fibonacciRanges(), unsupported: [] };
+  if (data.sectionIds.length !== sectionParts.length) {
+    throw new Error(`GPP header lists ${data.sectionIds.length} section(s) but the string has ${sectionParts.length}`);
+  }
+
+  data.sectionIds.forEach((id, index) => {
+    const name = (Object.keys(GPP_SECTION_IDS) as GPPSectionName[]).find(candidate => GPP_SECTION_IDS[candidate] === id);
+    const part = sectionParts[index];
+    if (name === 'tcfeuv2') {
+      data.tcfeuv2 = part;
+    } else if (name === 'uspv1') {
+      data.uspv1 = part;
+    } else if (name === 'tcfcav1') {
+      data.tcfcav1 = decodeCanadaSection(part);
+    } else if (name) {
+      data[name] = decodeUSSection(name, part);
+    } else {
+      data.unsupported.push(id);
+    }
+  });
+
+  return data;
+}
+
+/**
+ * The CCPA us_privacy string implied by the US sections ("1---" when none apply)
+ */
+export function deriveUsPrivacy(sections: GPPSections): string {
+  const fields = sections.usca?.fields || sections.usnat?.fields;
+  if (!fields) {
+    return '1---';
+  }
+  const flag = (value: number | number[] | undefined) => (value === 1 ? 'Y' : 'N');
+  return `1${flag(fields.SaleOptOutNotice)}${flag(fields.SaleOptOut)}${flag(fields.MspaCoveredTransaction)}`;
+}
+
+/**
+ * Every privacy signal for one request, derived from the configured scenario and TCF settings
+ */
+export function buildPrivacySignals(config: CTVConfig): PrivacySignals {
+  const scenario = getPrivacyScenario(config.privacyScenario);
+  const sections: GPPSections = scenario.sections();
+  const consent = config.gdprConsent && config.tcfString ? config.tcfString : undefined;
+  if (consent) {
+    sections.tcfeuv2 = consent;
+  }
+
+  const usPrivacy = deriveUsPrivacy(sections);
+  if (scenario.uspv1) {
+    sections.uspv1 = usPrivacy;
+  }
+
+  const sectionIds = sortedIds((Object.keys(sections) as GPPSectionName[]).map(name => GPP_SECTION_IDS[name]));
+  return {
+    gdpr: config.gdprConsent ? 1 : 0,
+    consent,
+    coppa: scenario.coppa,
+    usPrivacy,
+    gpp: sectionIds.length > 0 ? encodeGPPString(sections) : undefined,
+    gppSid: sectionIds.length > 0 ? sectionIds : undefined
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function encodeSection(name: GPPSectionName, sections: GPPSections): string {
+  switch (name) {
+    case 'tcfeuv2':
+      return sections.tcfeuv2!;
+    case 'uspv1':
+      return sections.uspv1!;
+    case 'tcfcav1':
+      return encodeCanadaSection(sections.tcfcav1!);
+    default:
+      return encodeUSSection(name, sections[name]!);
+  }
+}
+
+function encodeUSSection(name: USSectionName, section: USPrivacySection): string {
+  const core = new BitWriter();
+  core.int(US_SECTION_VERSION, 6);
+  US_SECTION_FIELDS[name].forEach(([field, bits, count]) => {
+    const value = section.fields[field];
+    if (count === undefined) {
+      core.int(typeof value === 'number' ? value : 0, bits);
+    } else {
+      for (let i = 0; i < count; i++) {
+        core.int(Array.isArray(value) ? value[i] || 0 : 0, bits);
+      }
+    }
+  });
+
+  if (section.gpc === undefined || name === 'usva') {
+    return core.toString();
+  }
+  const gpc = new BitWriter();
+  gpc.int(GPC_SUBSECTION_TYPE, 2);
+  gpc.bool(section.gpc);
+  return `${core.toString()}.${gpc.toString()}`;
+}
+
+function decodeUSSection(name: USSectionName, part: string): USPrivacySection {
+  const [corePart, ...subsections] = part.split('.');
+  const core = new BitReader(corePart);
+  const version = core.int(6);
+  if (version !== US_SECTION_VERSION) {
+    throw new Error(`${name} section version ${version} is not supported`);
+  }
+
+  const fields: Record<string, number | number[]> = {};
+  US_SECTION_FIELDS[name].forEach(([field, bits, count]) => {
+    fields[field] = count === undefined
+      ? core.int(bits)
+      : Array.from({ length: count }, () => core.int(bits));
+  });
+
+  const section: USPrivacySection = { fields };
+  subsections.forEach((subsection) => {
+    const reader = new BitReader(subsection);
+    if (reader.int(2) === GPC_SUBSECTION_TYPE) {
+      section.gpc = reader.bool();
+    }
+  });
+  return section;
+}
+
+function encodeCanadaSection(section: CanadaTCFSection): string {
+  const writer = new BitWriter();
+  writer.int(CANADA_SECTION_VERSION, 6);
+  writer.date(section.created);
+  writer.date(section.lastUpdated);
+  writer.int(section.cmpId, 12);
+  writer.int(section.cmpVersion, 12);
+  writer.int(section.consentScreen, 6);
+  writer.letters(section.consentLanguage);
+  writer.int(section.vendorListVersion, 12);
+  writer.int(section.policyVersion, 6);
+  writer.bool(section.useNonStandardTexts);
+  writer.bitfield(section.specialFeatureExpressConsents, 12);
+  writer.bitfield(section.purposeExpressConsents, 24);
+  writer.bitfield(section.purposeImpliedConsents, 24);
+  writer.vendorSection(section.vendorExpressConsents);
+  writer.vendorSection(section.vendorImpliedConsents);
+  return writer.toString();
+}
+
+function decodeCanadaSection(part: string): CanadaTCFSection {
+  const reader = new BitReader(part.split('.')[0]);
+  const version = reader.int(6);
+  if (version !== CANADA_SECTION_VERSION) {
+    throw new Error(`tcfcav1 section version ${version} is not supported`);
+  }
+  return {
+    created: reader.date(),
+    lastUpdated: reader.date(),
+    cmpId: reader.int(12),
+    cmpVersion: reader.int(12),
+    consentScreen: reader.int(6),
+    consentLanguage: reader.letters(),
+    vendorListVersion: reader.int(12),
+    policyVersion: reader.int(6),
+    useNonStandardTexts: reader.bool(),
+    specialFeatureExpressConsents: reader.bitfield(12),
+    purposeExpressConsents: reader.bitfield(24),
+    purposeImpliedConsents: reader.bitfield(24),
+    vendorExpressConsents: reader.vendorSection(),
+    vendorImpliedConsents: reader.vendorSection()
+  };
+}
+
+// Every notice field of a US section marked as provided
+function usNotices(name: USSectionName): Record<string, number> {
+  return Object.fromEntries(
+    US_SECTION_FIELDS[name]
+      .filter(([field]) => field.endsWith('Notice'))
+      .map(([field]) => [field, US_NOTICE.PROVIDED])
+  );
+}
+
+// Notices provided and every opt-out field of a US section opted out
+function usOptedOut(name: USSectionName): Record<string, number> {
+  return {
+    ...usNotices(name),
+    ...Object.fromEntries(
+      US_SECTION_FIELDS[name]
+        .filter(([field]) => field.endsWith('OptOut'))
+        .map(([field]) => [field, US_OPT_OUT.OPTED_OUT])
+    ),
+    MspaCoveredTransaction: US_MSPA.NO
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Identity Graph
+ *
+ * Simulates the identifiers a CTV request carries: one household per IP, one
+ * signed-in person in it and one device per CTV platform. Every ID is derived
+ * from a local salt, so the same household always resolves to the same IDs
+ * and changing the salt rotates the whole graph.
+ *
+ * Features:
+ * - Platform advertising IDs (device.ifa) with their IAB ifa_type
+ * - user.eids for UID2 (token stand-in), RampID, ID5 and a household IP ID
+ * - Per-bidder EID permissions as Prebid Server's ext.prebid.data.eidpermissions
+ */
+
+import { CTVConfig, CTVProvider, Eid, EidSourceId, IdentityConfig, PrebidDemandSource } from '../types';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface EidSourceDefinition {
+  name: string;
+  source: string; // user.eids[].source
+  atype: 1 | 3;
+  level: 'person' | 'device' | 'household'; // Which node of the graph the ID belongs to
+  description: string;
+}
+
+export interface SimulatedIdentity {
+  householdId: string;
+  personId: string;
+  ifa: string;
+  ifaType: string;
+  eids: Eid[];
+}
+
+export interface EidPermission {
+  source: string;
+  bidders: string[];
+}
+
+export interface PermittedEids {
+  eids: Eid[]; // Sources at least one bidder may receive
+  eidpermissions: EidPermission[]; // Only sources some enabled bidder may not receive
+}
+
+export const EID_SOURCES: Record<EidSourceId, EidSourceDefinition> = {
+  uid2: {
+    name: 'UID2',
+    source: 'uidapi.com',
+    atype: 3,
+    level: 'person',
+    description: 'Stand-in for an advertising token built from a signed-in email'
+  },
+  rampid: {
+    name: 'RampID',
+    source: 'liveramp.com',
+    atype: 3,
+    level: 'person',
+    description: 'Maintained RampID for the signed-in person'
+  },
+  id5: {
+    name: 'ID5',
+    source: 'id5-sync.com',
+    atype: 1,
+    level: 'device',
+    description: 'ID5 ID linked to this device'
+  },
+  householdIp: {
+    name: 'Household IP',
+    source: 'ctvsimulator.com',
+    atype: 1,
+    level: 'household',
+    description: 'Household ID resolved from the request IP'
+  }
+};
+
+// IAB guidelines for IFA on CTV: the ifa_type each platform's advertising ID is sent as
+export const IFA_TYPES: Record<CTVProvider['type'], string> = {
+  roku: 'rida',
+  samsung: 'tifa',
+  tizen: 'tifa',
+  lg: 'lgudid',
+  webos: 'lgudid',
+  firetv: 'afai',
+  androidtv: 'aaid',
+  appletv: 'idfa',
+  other: 'ppid'
+};
+
+export const DEFAULT_IDENTITY_CONFIG: IdentityConfig = {
+  salt: 'ctv-simulator-local-salt',
+  enabledSources: ['uid2', 'rampid', 'id5', 'householdIp']
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Resolve the household, person and device behind the configured IP and platform
+ */
+export function resolveIdentity(config: CTVConfig): SimulatedIdentity {
+  const { salt, enabledSources } = config.identity || DEFAULT_IDENTITY_CONFIG;
+  const householdId = hashHex([salt, 'household', config.ip], 16);
+  const personId = hashHex([salt, 'person', householdId], 16);
+  const platform = config.providerType || 'other';
+  const ifa = formatUuid(hashHex([salt, 'device', householdId, platform], 16));
+
+  const ids: Record<EidSourceId, { id: string; ext?: Record<string, any> }> = {
+    uid2: { id: `A4AAA${toBase64(hashHex([salt, 'uid2', personId], 48))}`, ext: { rtiPartner: 'UID2' } },
+    rampid: { id: `XY1000${toBase64(hashHex([salt, 'rampid', personId], 36))}`, ext: { rtiPartner: 'idl' } },
+    id5: { id: `ID5*${toBase64(hashHex([salt, 'id5', ifa], 30))}`, ext: { linkType: 1 } },
+    householdIp: { id: `hh-${householdId}` }
+  };
+
+  return {
+    householdId,
+    personId,
+    ifa,
+    ifaType: IFA_TYPES[platform],
+    eids: (Object.keys(EID_SOURCES) as EidSourceId[])
+      .filter(sourceId => enabledSources.includes(sourceId))
+      .map(sourceId => ({
+        source: EID_SOURCES[sourceId].source,
+        uids: [{ id: ids[sourceId].id, atype: EID_SOURCES[sourceId].atype, ...(ids[sourceId].ext ? { ext: ids[sourceId].ext } : {}) }]
+      }))
+  };
+}
+
+/**
+ * Restrict EIDs to the bidders allowed to receive them. Sources every enabled
+ * bidder may see need no permission entry; sources no bidder may see are not sent.
+ */
+export function permitEids(eids: Eid[], demandSources: PrebidDemandSource[]): PermittedEids {
+  const bidders = demandSources.filter(source => source.enabled);
+  const permitted: PermittedEids = { eids: [], eidpermissions: [] };
+
+  eids.forEach((eid) => {
+    const allowed = bidders
+      .filter(bidder => !bidder.eidPermissions || bidder.eidPermissions.some(id => EID_SOURCES[id].source === eid.source))
+      .map(bidder => bidder.bidder);
+    if (allowed.length === 0) return;
+    permitted.eids.push(eid);
+    if (allowed.length < bidders.length) {
+      permitted.eidpermissions.push({ source: eid.source, bidders: allowed });
+    }
+  });
+
+  return permitted;
+}
+
+/**
+ * The EIDs Prebid Server forwards to one bidder under the given permissions
+ */
+export function eidsForBidder(eids: Eid[], eidpermissions: EidPermission[], bidder: string): Eid[] {
+  return eids.filter((eid) => {
+    const permission = eidpermissions.find(entry => entry.source === eid.source);
+    return !permission || permission.bidders.includes(bidder) || permission.bidders.includes('*');
+  });
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+// Deterministic hex digest of the parts, stretched to the requested byte length.
+// FNV-1a is not a cryptographic hash; it only has to be stable and well spread.
+function hashHex(parts: string[], bytes: number): string {
+  const input = parts.join('|');
+  let hex = '';
+  for (let block = 0; hex.length < bytes * 2; block++) {
+    let hash = 0x811c9dc5 ^ block;
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    hex += (hash >>> 0).toString(16).padStart(8, '0');
+  }
+  return hex.slice(0, bytes * 2);
+}
+
+// Version 4 UUID layout, the shape every CTV platform uses for its advertising ID
+function formatUuid(hex: string): string {
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function toBase64(hex: string): string {
+  const bytes = hex.match(/../g) || [];
+  return btoa(bytes.map(byte => String.fromCharCode(parseInt(byte, 16))).join(''));
+}
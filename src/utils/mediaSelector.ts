@@ -0,0 +1,330 @@
+/**
+ * Device-Aware Media File Selection
+ *
+ * Ranks the MediaFiles of a VAST Linear creative the way a CTV device would
+ * pick a rendition, and explains why every unusable file was rejected.
+ *
+ * Features:
+ * - Device capability profiles keyed by CTVProvider type
+ * - Hard filters: MIME support, delivery method, codec, API framework, bitrate vs bandwidth
+ * - Soft ranking: resolution fit to the screen, bitrate headroom, delivery and codec preference
+ */
+
+import { CTVProvider } from '../types';
+import { VastCreative, VastMediaFile } from './vastParser';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type DeviceType = CTVProvider['type'];
+
+export interface DeviceMediaProfile {
+  type: DeviceType;
+  label: string;
+  screen: { width: number; height: number };
+  mimeTypes: string[];
+  delivery: Array<'progressive' | 'streaming'>;
+  preferredDelivery: 'progressive' | 'streaming';
+  codecs: string[]; // RFC 6381 codec families in order of preference
+  maxBitrate: number; // kbps the decoder handles
+}
+
+export interface MediaSelectionOptions {
+  deviceType: DeviceType;
+  bandwidthKbps?: number;
+}
+
+export interface RankedMediaFile {
+  mediaFile: VastMediaFile;
+  score: number;
+  notes: string[];
+}
+
+export interface RejectedMediaFile {
+  mediaFile: VastMediaFile;
+  reasons: string[];
+}
+
+export interface MediaSelectionResult {
+  profile: DeviceMediaProfile;
+  bandwidthKbps?: number;
+  selected: VastMediaFile | null;
+  ranked: RankedMediaFile[];
+  rejected: RejectedMediaFile[];
+}
+
+// ============================================================================
+// DEVICE PROFILES
+// ============================================================================
+
+const MP4 = 'video/mp4';
+const WEBM = 'video/webm';
+const HLS = 'application/x-mpegurl';
+const DASH = 'application/dash+xml';
+
+export const DEVICE_MEDIA_PROFILES: Record<DeviceType, DeviceMediaProfile> = {
+  roku: {
+    type: 'roku',
+    label: 'Roku Streaming Stick (1080p)',
+    screen: { width: 1920, height: 1080 },
+    mimeTypes: [MP4, HLS],
+    delivery: ['progressive', 'streaming'],
+    preferredDelivery: 'streaming',
+    codecs: ['avc1'],
+    maxBitrate: 8000
+  },
+  samsung: {
+    type: 'samsung',
+    label: 'Samsung Smart TV (4K)',
+    screen: { width: 3840, height: 2160 },
+    mimeTypes: [MP4, WEBM, HLS, DASH],
+    delivery: ['progressive', 'streaming'],
+    preferredDelivery: 'progressive',
+    codecs: ['hvc1', 'hev1', 'avc1', 'vp9', 'av01'],
+    maxBitrate: 25000
+  },
+  tizen: {
+    type: 'tizen',
+    label: 'Tizen 4K Set',
+    screen: { width: 3840, height: 2160 },
+    mimeTypes: [MP4, WEBM, HLS, DASH],
+    delivery: ['progressive', 'streaming'],
+    preferredDelivery: 'progressive',
+    codecs: ['hvc1', 'hev1', 'avc1', 'vp9'],
+    maxBitrate: 25000
+  },
+  lg: {
+    type: 'lg',
+    label: 'LG Smart TV (4K)',
+    screen: { width: 3840, height: 2160 },
+    mimeTypes: [MP4, WEBM, HLS, DASH],
+    delivery: ['progressive', 'streaming'],
+    preferredDelivery: 'progressive',
+    codecs: ['hvc1', 'hev1', 'avc1', 'vp9'],
+    maxBitrate: 25000
+  },
+  webos: {
+    type: 'webos',
+    label: 'webOS TV (4K)',
+    screen: { width: 3840, height: 2160 },
+    mimeTypes: [MP4, WEBM, HLS, DASH],
+    delivery: ['progressive', 'streaming'],
+    preferredDelivery: 'progressive',
+    codecs: ['hvc1', 'hev1', 'avc1', 'vp9'],
+    maxBitrate: 25000
+  },
+  firetv: {
+    type: 'firetv',
+    label: 'Fire TV Stick (1080p)',
+    screen: { width: 1920, height: 1080 },
+    mimeTypes: [MP4, WEBM, HLS, DASH],
+    delivery: ['progressive', 'streaming'],
+    preferredDelivery: 'progressive',
+    codecs: ['avc1', 'hvc1', 'vp9'],
+    maxBitrate: 12000
+  },
+  androidtv: {
+    type: 'androidtv',
+    label: 'Android TV (1080p)',
+    screen: { width: 1920, height: 1080 },
+    mimeTypes: [MP4, WEBM, HLS, DASH],
+    delivery: ['progressive', 'streaming'],
+    preferredDelivery: 'progressive',
+    codecs: ['avc1', 'vp9', 'hvc1', 'av01'],
+    maxBitrate: 15000
+  },
+  appletv: {
+    type: 'appletv',
+    label: 'Apple TV 4K',
+    screen: { width: 3840, height: 2160 },
+    mimeTypes: [MP4, HLS, 'video/quicktime'],
+    delivery: ['progressive', 'streaming'],
+    preferredDelivery: 'streaming',
+    codecs: ['hvc1', 'hev1', 'avc1'],
+    maxBitrate: 25000
+  },
+  other: {
+    type: 'other',
+    label: 'Generic HD Player',
+    screen: { width: 1280, height: 720 },
+    mimeTypes: [MP4],
+    delivery: ['progressive'],
+    preferredDelivery: 'progressive',
+    codecs: ['avc1'],
+    maxBitrate: 5000
+  }
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Rank media files for a device and pick the best one
+ */
+export function selectMediaFile(
+  mediaFiles: VastMediaFile[],
+  options: MediaSelectionOptions
+): MediaSelectionResult {
+  const profile = DEVICE_MEDIA_PROFILES[options.deviceType] || DEVICE_MEDIA_PROFILES.other;
+  const ranked: RankedMediaFile[] = [];
+  const rejected: RejectedMediaFile[] = [];
+
+  mediaFiles.forEach((mediaFile) => {
+    const reasons = getRejectionReasons(mediaFile, profile, options.bandwidthKbps);
+    if (reasons.length > 0) {
+      rejected.push({ mediaFile, reasons });
+    } else {
+      ranked.push(scoreMediaFile(mediaFile, profile, options.bandwidthKbps));
+    }
+  });
+
+  ranked.sort((a, b) => b.score - a.score);
+
+  return {
+    profile,
+    bandwidthKbps: options.bandwidthKbps,
+    selected: ranked.length > 0 ? ranked[0].mediaFile : null,
+    ranked,
+    rejected
+  };
+}
+
+/**
+ * Re-point a creative at the rendition the device would choose
+ */
+export function applyMediaSelection(
+  ad: VastCreative,
+  options: MediaSelectionOptions
+): { creative: VastCreative | null; selection: MediaSelectionResult } {
+  const mediaFiles = ad.creative?.linear?.mediaFiles || [];
+
+  // Creatives built without the full model keep their single URL
+  if (mediaFiles.length === 0) {
+    return {
+      creative: ad,
+      selection: selectMediaFile([], options)
+    };
+  }
+
+  const selection = selectMediaFile(mediaFiles, options);
+  if (!selection.selected) {
+    return { creative: null, selection };
+  }
+
+  return {
+    creative: {
+      ...ad,
+      videoUrl: selection.selected.url,
+      videoType: selection.selected.type
+    },
+    selection
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function getRejectionReasons(
+  mediaFile: VastMediaFile,
+  profile: DeviceMediaProfile,
+  bandwidthKbps?: number
+): string[] {
+  const reasons: string[] = [];
+  const mimeType = normalizeMimeType(mediaFile.type);
+
+  if (!mimeType) {
+    reasons.push('MediaFile has no type attribute');
+  } else if (!profile.mimeTypes.includes(mimeType)) {
+    reasons.push(`MIME type ${mediaFile.type} not supported by ${profile.label}`);
+  }
+
+  const delivery = mediaFile.delivery === 'streaming' ? 'streaming' : 'progressive';
+  if (!profile.delivery.includes(delivery)) {
+    reasons.push(`${delivery} delivery not supported by ${profile.label}`);
+  }
+
+  const codec = normalizeCodec(mediaFile.codec);
+  if (codec && !profile.codecs.includes(codec)) {
+    reasons.push(`Codec ${mediaFile.codec} not decodable (supports ${profile.codecs.join(', ')})`);
+  }
+
+  if (mediaFile.apiFramework && mediaFile.apiFramework.toUpperCase() === 'VPAID') {
+    reasons.push('VPAID executable media is not supported on CTV');
+  }
+
+  const requiredBitrate = mediaFile.bitrate ?? mediaFile.minBitrate;
+  if (requiredBitrate !== undefined) {
+    if (requiredBitrate > profile.maxBitrate) {
+      reasons.push(`Bitrate ${requiredBitrate}kbps exceeds device decoder limit of ${profile.maxBitrate}kbps`);
+    }
+    if (bandwidthKbps !== undefined && requiredBitrate > bandwidthKbps) {
+      reasons.push(`Bitrate ${requiredBitrate}kbps exceeds simulated bandwidth of ${bandwidthKbps}kbps`);
+    }
+  }
+
+  return reasons;
+}
+
+function scoreMediaFile(
+  mediaFile: VastMediaFile,
+  profile: DeviceMediaProfile,
+  bandwidthKbps?: number
+): RankedMediaFile {
+  const notes: string[] = [];
+  let score = 0;
+
+  // Resolution: best when it matches the screen, downscaling beats upscaling
+  if (mediaFile.height > 0) {
+    const ratio = mediaFile.height / profile.screen.height;
+    const resolutionScore = ratio <= 1 ? 50 * ratio : Math.max(0, 50 - (ratio - 1) * 40);
+    score += resolutionScore;
+    notes.push(`${mediaFile.width}x${mediaFile.height} on ${profile.screen.width}x${profile.screen.height} screen (+${resolutionScore.toFixed(1)})`);
+  } else {
+    score += 20;
+    notes.push('No dimensions declared (+20.0)');
+  }
+
+  // Bitrate: prefer the highest rendition that leaves headroom on the connection
+  const bitrate = mediaFile.bitrate ?? mediaFile.maxBitrate ?? mediaFile.minBitrate;
+  if (bitrate !== undefined) {
+    const ceiling = Math.min(profile.maxBitrate, bandwidthKbps ?? profile.maxBitrate);
+    const utilisation = bitrate / ceiling;
+    const bitrateScore = utilisation <= 0.8 ? 30 * (utilisation / 0.8) : Math.max(0, 30 - (utilisation - 0.8) * 100);
+    score += bitrateScore;
+    notes.push(`${bitrate}kbps uses ${(utilisation * 100).toFixed(0)}% of ${ceiling}kbps (+${bitrateScore.toFixed(1)})`);
+  }
+
+  const delivery = mediaFile.delivery === 'streaming' ? 'streaming' : 'progressive';
+  if (delivery === profile.preferredDelivery) {
+    score += 10;
+    notes.push(`Preferred ${delivery} delivery (+10)`);
+  }
+
+  const codec = normalizeCodec(mediaFile.codec);
+  if (codec) {
+    const codecScore = 10 - profile.codecs.indexOf(codec) * 2;
+    score += codecScore;
+    notes.push(`Codec ${codec} preference (+${codecScore})`);
+  }
+
+  return { mediaFile, score: Math.round(score * 10) / 10, notes };
+}
+
+function normalizeMimeType(type: string): string {
+  const mimeType = type.trim().toLowerCase();
+  return mimeType === 'application/vnd.apple.mpegurl' ? HLS : mimeType;
+}
+
+// Reduce RFC 6381 strings and common names to a codec family
+function normalizeCodec(codec: string | undefined): string | undefined {
+  if (!codec) return undefined;
+  const value = codec.trim().toLowerCase();
+  if (value === 'h.264' || value === 'h264' || value === 'avc') return 'avc1';
+  if (value === 'h.265' || value === 'h265' || value === 'hevc') return 'hvc1';
+  if (value === 'av1') return 'av01';
+  const family = value.split('.')[0];
+  return family === 'avc3' ? 'avc1' : family === 'vp09' ? 'vp9' : family;
+}
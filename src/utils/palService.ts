@@ -1,4 +1,5 @@
 import { PALConfig, PALNonceRequest, PALNonceResponse } from '../types';
+import { now, randomId } from './simulation';
 
 export class PALService {
   private static instance: PALService;
@@ -227,7 +228,7 @@ export class PALService {
   }
 
   generateSessionId(): string {
-    return 'pal_' + Math.random().toString(36).substr(2, 9) + '_' + Date.now();
+    return 'pal_' + randomId(9) + '_' + now();
   }
 
   dispose(): void {
@@ -1,11 +1,23 @@
 import axios from 'axios';
-import { CTVConfig, PrebidDemandSource, PrebidServerRequest, AdRequest } from '../types';
+import { BidderConsentDecision, CTVConfig, PrebidDemandSource, PrebidServerRequest, AdRequest } from '../types';
+import { durationBoundsFromRequest, lintAdResponse } from './creativeLinter';
+import { expectationsFromRequest, validateBidResponse } from './bidResponseValidator';
+import { buildSupplyChain, getSimulatedPublisher } from './supplyChain';
+import { authorizeRequest } from './sellerAuthorization';
+import { evaluateBidderConsent } from './tcfConsent';
+import { buildPrivacySignals } from './gppConsent';
+import { enforceConsent } from './consentEnforcement';
+import { permitEids, resolveIdentity } from './identity';
+import { buildPrebidTargeting, resolvePriceBuckets, toPbsPriceGranularity } from './prebidTargeting';
+import { formatParamIssues, validateDemandSources } from './bidderParamSchemas';
+import { currentDate, now, randomId, randomInt, simulatorHeaders } from './simulation';
 
 // Prebid Server demand sources based on the provided table
 export const PREBID_DEMAND_SOURCES: PrebidDemandSource[] = [
   {
     name: 'One Tag',
     bidder: 'onetag',
+    gvlId: 241,
     params: {
       pubId: '770a10a1445c7df'
     },
@@ -17,6 +29,7 @@ export const PREBID_DEMAND_SOURCES: PrebidDemandSource[] = [
   {
     name: 'PubMatic',
     bidder: 'pubmatic',
+    gvlId: 76,
     params: {
       adSlot: '6117737',
       publisherId: '165218'
@@ -30,6 +43,7 @@ export const PREBID_DEMAND_SOURCES: PrebidDemandSource[] = [
   {
     name: 'Rise',
     bidder: 'rise',
+    gvlId: 1043,
     params: {
       org: '6761a6098eb1b90001e9b1b5'
     },
@@ -41,32 +55,35 @@ export const PREBID_DEMAND_SOURCES: PrebidDemandSource[] = [
   {
     name: 'Xandr Monetise (fna AppNexus)',
     bidder: 'appnexus',
+    gvlId: 32,
     params: {
-      placementId: '35106313'
+      placementId: 35106313
     },
     defaultValues: {
-      placementId: '35106313'
+      placementId: 35106313
     },
     enabled: true
   },
   {
     name: 'Magnite (fna Rubicon)',
     bidder: 'rubicon',
+    gvlId: 52,
     params: {
-      accountId: '26742',
-      siteId: '579542',
-      zoneId: '3686138'
+      accountId: 26742,
+      siteId: 579542,
+      zoneId: 3686138
     },
     defaultValues: {
-      accountId: '26742',
-      siteId: '579542',
-      zoneId: '3686138'
+      accountId: 26742,
+      siteId: 579542,
+      zoneId: 3686138
     },
     enabled: true
   },
   {
     name: 'Sovrn',
     bidder: 'sovrn',
+    gvlId: 13,
     params: {
       tagid: '1261560'
     },
@@ -78,6 +95,7 @@ export const PREBID_DEMAND_SOURCES: PrebidDemandSource[] = [
   {
     name: 'Amx',
     bidder: 'amx',
+    gvlId: 737,
     params: {
       tagId: 'zOPvsVMV4'
     },
@@ -89,6 +107,7 @@ export const PREBID_DEMAND_SOURCES: PrebidDemandSource[] = [
   {
     name: 'Aniview',
     bidder: 'aniview',
+    gvlId: 780,
     params: {
       tagId: '67ea7a5e52e2cb011d0bbf78'
     },
@@ -99,15 +118,36 @@ export const PREBID_DEMAND_SOURCES: PrebidDemandSource[] = [
   }
 ];
 
+/**
+ * Which enabled demand sources the configured TC string allows us to call
+ */
+export const getBidderConsent = (config: CTVConfig): BidderConsentDecision[] => {
+  const enabledSources = (config.prebidServerConfig?.demandSources || []).filter(source => source.enabled);
+  return evaluateBidderConsent(!!config.gdprConsent, config.tcfString, enabledSources);
+};
+
 export const generatePrebidServerRequest = (config: CTVConfig): PrebidServerRequest => {
-  const requestId = Math.random().toString(36).substr(2, 9);
-  const impId = Math.random().toString(36).substr(2, 9);
+  const requestId = randomId(9);
+  const impId = randomId(9);
+  const schain = buildSupplyChain(config, requestId);
+  const publisher = getSimulatedPublisher(config.publisherId);
+  const privacy = buildPrivacySignals(config);
+  const identity = resolveIdentity(config);
   
   if (!config.prebidServerConfig) {
     throw new Error('Prebid server configuration is required');
   }
 
-  // Build bidder configurations from enabled demand sources
+  // Prebid Server rejects the whole request when one bidder's params don't match its schema
+  const paramErrors = validateDemandSources(config.prebidServerConfig.demandSources)
+    .filter(issue => issue.severity === 'error');
+  if (paramErrors.length > 0) {
+    throw new Error(`Invalid bidder params: ${formatParamIssues(paramErrors)}`);
+  }
+
+  const { eids, eidpermissions } = permitEids(identity.eids, config.prebidServerConfig.demandSources);
+
+  // Build bidder configurations from enabled demand sources; enforceConsent drops those without a legal basis
   const bidderConfig: Record<string, any> = {};
   config.prebidServerConfig.demandSources
     .filter(source => source.enabled)
@@ -161,10 +201,10 @@ export const generatePrebidServerRequest = (config: CTVConfig): PrebidServerRequ
     }],
     // Add app object for CTV (instead of site)
     app: {
-      id: 'ctv-simulator-app',
-      name: 'CTV Simulator',
-      bundle: 'com.ctvsimulator.app',
-      domain: 'ctvsimulator.com',
+      id: `${publisher.id}-app`,
+      name: publisher.name,
+      bundle: publisher.bundle,
+      domain: publisher.domain,
       storeurl: 'https://apps.samsung.com/ctv-simulator',
       cat: ['IAB1-1', 'IAB3-1'], // Entertainment categories
       sectioncat: ['IAB1-1'],
@@ -173,10 +213,11 @@ export const generatePrebidServerRequest = (config: CTVConfig): PrebidServerRequ
       privacypolicy: 1,
       paid: 0,
       publisher: {
-        id: 'ctv-sim-pub-001',
-        name: 'CTV Simulator Publisher',
+        // The account the last seller in the chain knows the publisher by
+        id: schain.nodes[schain.nodes.length - 1]?.sid || publisher.id,
+        name: publisher.name,
         cat: ['IAB1-1'],
-        domain: 'ctvsimulator.com'
+        domain: publisher.domain
       },
       content: {
         id: 'big-buck-bunny',
@@ -218,7 +259,7 @@ export const generatePrebidServerRequest = (config: CTVConfig): PrebidServerRequ
         lon: config.geo.lon || -0.1278,
         type: 2,
         accuracy: 100,
-        lastfix: Math.floor(Date.now() / 1000),
+        lastfix: Math.floor(now() / 1000),
         ipservice: 3,
         country: config.geo.country,
         region: config.geo.region || 'England',
@@ -249,7 +290,7 @@ export const generatePrebidServerRequest = (config: CTVConfig): PrebidServerRequ
       carrier: 'WiFi',
       mccmnc: '',
       connectiontype: 2, // WiFi connection
-      ifa: Math.random().toString(36).substr(2, 16),
+      ifa: identity.ifa,
       didsha1: '',
       didmd5: '',
       dpidsha1: '',
@@ -259,11 +300,15 @@ export const generatePrebidServerRequest = (config: CTVConfig): PrebidServerRequ
       ext: {
         // CTV-specific device extensions
         atts: 0, // App Tracking Transparency Status (iOS concept, but included for completeness)
-        ifv: Math.random().toString(36).substr(2, 16), // Identifier for Vendor
-        session_depth: Math.floor(Math.random() * 10) + 1,
-        screen_orientation: 1 // Landscape
+        ifv: randomId(16), // Identifier for Vendor
+        session_depth: randomInt(10) + 1,
+        screen_orientation: 1, // Landscape
+        ifa_type: identity.ifaType
       }
     },
+    user: eids.length > 0 ? {
+      eids
+    } : undefined,
     at: 1,
     tmax: config.prebidServerConfig.timeout || 1000,
     wseat: [],
@@ -278,60 +323,25 @@ export const generatePrebidServerRequest = (config: CTVConfig): PrebidServerRequ
       fd: 1,
       tid: requestId,
       pchain: 'ctvsimulator.com:1!samsung.com:2!tizen.org:3',
-      schain: {
-        complete: 1,
-        nodes: [
-          {
-            asi: 'ctvsimulator.com',
-            sid: 'ctv-sim-001',
-            hp: 1,
-            rid: requestId,
-            name: 'CTV Simulator',
-            domain: 'ctvsimulator.com'
-          },
-          {
-            asi: 'samsung.com',
-            sid: 'samsung-ctv-001',
-            hp: 1,
-            rid: requestId,
-            name: 'Samsung Smart TV Platform',
-            domain: 'samsung.com'
-          },
-          {
-            asi: 'tizen.org',
-            sid: 'tizen-os-001',
-            hp: 0,
-            rid: requestId,
-            name: 'Tizen Operating System',
-            domain: 'tizen.org'
-          }
-        ],
-        ver: '1.0',
-        ext: {
-          // Additional supply chain metadata
-          certification: 'ads.txt',
-          relationship_type: 'direct'
-        }
-      }
+      schain,
+      ext: { schain }
     },
-    regs: config.gdprConsent ? {
-      coppa: 0,
-      ext: {
-        gdpr: 1,
-        us_privacy: '1---', // CCPA compliance string
-        gpp: 'DBACNYA~CPXxRfAPXxRfAAfKABENB-CgAAAAAAAAAAYgAAAAAAAA~1---', // Global Privacy Platform
-        gpp_sid: [2, 6] // GDPR and CCPA sections
-      }
-    } : {
-      coppa: 0,
+    regs: {
+      coppa: privacy.coppa,
+      gdpr: privacy.gdpr,
+      us_privacy: privacy.usPrivacy,
+      gpp: privacy.gpp,
+      gpp_sid: privacy.gppSid,
+      // Older Prebid Server adapters still read the ext copies
       ext: {
-        us_privacy: '1---',
-        gpp: 'DBACNYA~1---',
-        gpp_sid: [6]
+        gdpr: privacy.gdpr,
+        us_privacy: privacy.usPrivacy,
+        gpp: privacy.gpp,
+        gpp_sid: privacy.gppSid
       }
     },
     ext: {
-      consent: config.gdprConsent && config.tcfString ? config.tcfString : undefined,
+      consent: privacy.consent,
       prebid: {
         targeting: {
           // CTV-specific targeting
@@ -340,7 +350,12 @@ export const generatePrebidServerRequest = (config: CTVConfig): PrebidServerRequ
           manufacturer: 'samsung',
           screen_size: '55inch',
           connection_type: 'wifi',
-          viewing_context: 'lean_back'
+          viewing_context: 'lean_back',
+          // Ask for the same keys prebidTargeting builds locally
+          pricegranularity: toPbsPriceGranularity(resolvePriceBuckets(config.prebidServerConfig)),
+          includewinners: true,
+          includebidderkeys: true,
+          includeformat: true
         },
         cache: {
           bids: {
@@ -353,6 +368,9 @@ export const generatePrebidServerRequest = (config: CTVConfig): PrebidServerRequ
         storedrequest: {
           id: config.prebidServerConfig.accountId
         },
+        data: eidpermissions.length > 0 ? {
+          eidpermissions
+        } : undefined,
         // CTV-specific extensions
         ctv: {
           device_model: 'UN55TU8000',
@@ -376,46 +394,66 @@ export const makePrebidServerRequest = async (
     throw new Error('Prebid server configuration is required');
   }
 
-  const requestId = Math.random().toString(36).substr(2, 9);
-  const startTime = Date.now();
+  const requestId = randomId(9);
+  const startTime = now();
+  const simulation = simulatorHeaders(config.prebidServerConfig.endpoint);
   
   const adRequest: AdRequest = {
     id: requestId,
-    timestamp: new Date(),
+    timestamp: currentDate(),
     url: config.prebidServerConfig.endpoint,
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
       'X-Forwarded-For': config.ip,
-      'Accept': 'application/json'
+      'Accept': 'application/json',
+      ...simulation
     },
     status: 'pending'
   };
 
   try {
-    const payload = generatePrebidServerRequest(config);
+    adRequest.bidderConsent = getBidderConsent(config);
+    const { request: payload, enforcement } = enforceConsent(
+      generatePrebidServerRequest(config),
+      config,
+      adRequest.bidderConsent
+    );
     adRequest.payload = payload;
+    adRequest.enforcement = enforcement;
+    // Flag unauthorized selling paths before the request leaves
+    adRequest.authorization = await authorizeRequest(payload, config);
     
     const response = await axios.post(config.prebidServerConfig.endpoint, payload, {
       headers: {
         'Content-Type': 'application/json',
-        'Accept': 'application/json'
+        'Accept': 'application/json',
+        ...simulation
       },
       timeout: config.prebidServerConfig.timeout || 5000
     });
     
-    const responseTime = Date.now() - startTime;
+    const responseTime = now() - startTime;
+    const bidValidation = validateBidResponse(response.data, expectationsFromRequest(payload));
     
     return {
       ...adRequest,
       status: 'success',
       responseTime,
       responseStatus: response.status,
-      responseData: response.data
+      responseData: response.data,
+      lintFindings: lintAdResponse('openrtb', response.data, {
+        deviceType: config.providerType,
+        bandwidthKbps: config.bandwidthKbps,
+        ...durationBoundsFromRequest(payload)
+      }),
+      bidValidation,
+      // Key-values and cached VAST for the ad server, as a publisher's line items would see them
+      targeting: await buildPrebidTargeting(response.data, bidValidation, payload, config.prebidServerConfig)
     };
     
   } catch (error: any) {
-    const responseTime = Date.now() - startTime;
+    const responseTime = now() - startTime;
     
     return {
       ...adRequest,
@@ -0,0 +1,264 @@
+/**
+ * Prebid Targeting
+ *
+ * Turns a Prebid Server bid response into the key-values a publisher ad
+ * server matches line items on, and stores each bid's VAST in a Prebid Cache
+ * compatible endpoint so the line item's creative can fetch it by uuid.
+ *
+ * Features:
+ * - hb_pb with Prebid's low / medium / high / auto / dense or custom price buckets
+ * - hb_bidder, hb_size, hb_format, hb_cache_id, hb_uuid, hb_cache_host, hb_cache_path
+ * - hb_pb_cat_dur for CTV: price bucket, primary category and duration bucket
+ * - Per-bidder keys (hb_pb_<bidder>) truncated to the 20 characters GAM allows
+ * - VAST caching: adm as is, nurl-only bids wrapped with macros expanded, PBS-cached bids reused
+ */
+
+import axios from 'axios';
+import {
+  BidResponseValidation,
+  OpenRTBBid,
+  PrebidServerConfig,
+  PrebidServerRequest,
+  PrebidTargeting,
+  PriceBucket,
+  PriceGranularity,
+  TargetedBid
+} from '../types';
+import { expandAuctionMacros, LOSS_REASONS, toNoticeBid } from './auctionNotices';
+import { usableBids } from './bidResponseValidator';
+import { formatDuration } from './vastParser';
+import { simulatorHeaders } from './simulation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+// Prebid Server's ext.prebid.targeting.pricegranularity
+export interface PbsPriceGranularity {
+  precision: number;
+  ranges: Array<{ min: number; max: number; increment: number }>;
+}
+
+// Prebid.js price granularity definitions
+export const PRICE_GRANULARITIES: Record<Exclude<PriceGranularity, 'custom'>, PriceBucket[]> = {
+  low: [{ max: 5, increment: 0.5 }],
+  medium: [{ max: 20, increment: 0.1 }],
+  high: [{ max: 20, increment: 0.01 }],
+  auto: [
+    { max: 5, increment: 0.05 },
+    { max: 10, increment: 0.1 },
+    { max: 20, increment: 0.5 }
+  ],
+  dense: [
+    { max: 3, increment: 0.01 },
+    { max: 8, increment: 0.05 },
+    { max: 20, increment: 0.5 }
+  ]
+};
+
+export const DEFAULT_CACHE_ENDPOINT = 'http://localhost:8081/cache';
+
+// Ad pod duration buckets a bid's length is rounded up to in hb_pb_cat_dur
+export const DURATION_BUCKETS = [15, 30, 45, 60];
+
+// GAM key names are cut off after this many characters
+const MAX_KEY_LENGTH = 20;
+const CACHE_TTL_SECONDS = 300;
+
+// The VAST URL a GAM video creative for Prebid is set up with
+const GAM_CREATIVE_PATH = '%%PATTERN:hb_cache_host%%%%PATTERN:hb_cache_path%%?uuid=%%PATTERN:hb_uuid%%';
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * The price buckets the configuration selects; an empty custom list falls back to medium
+ */
+export function resolvePriceBuckets(config: Pick<PrebidServerConfig, 'priceGranularity' | 'customPriceBuckets'>): PriceBucket[] {
+  const granularity = config.priceGranularity || 'medium';
+  if (granularity === 'custom') {
+    return config.customPriceBuckets?.length ? config.customPriceBuckets : PRICE_GRANULARITIES.medium;
+  }
+  return PRICE_GRANULARITIES[granularity];
+}
+
+/**
+ * hb_pb for a CPM: rounded down to its bucket's increment, capped at the top bucket
+ */
+export function priceBucket(cpm: number, buckets: PriceBucket[]): string {
+  if (!(cpm > 0) || buckets.length === 0) return '';
+
+  const top = buckets[buckets.length - 1];
+  let min = 0;
+  for (const bucket of buckets) {
+    const precision = bucket.precision ?? 2;
+    if (cpm <= bucket.max) {
+      // Scale to whole numbers and round away the float error (0.57 * 10000 is 5699.999...)
+      // before flooring, or a price sitting exactly on a step drops into the one below
+      const scale = Math.pow(10, precision + 2);
+      const steps = Math.floor(Math.round((cpm - min) * scale) / Math.round(bucket.increment * scale));
+      return Number((steps * bucket.increment + min).toFixed(10)).toFixed(precision);
+    }
+    min = bucket.max;
+  }
+  return top.max.toFixed(top.precision ?? 2);
+}
+
+/**
+ * The same buckets in the form Prebid Server takes them in the request
+ */
+export function toPbsPriceGranularity(buckets: PriceBucket[]): PbsPriceGranularity {
+  return {
+    precision: buckets[0]?.precision ?? 2,
+    ranges: buckets.map((bucket, index) => ({
+      min: index === 0 ? 0 : buckets[index - 1].max,
+      max: bucket.max,
+      increment: bucket.increment
+    }))
+  };
+}
+
+/**
+ * Cache every usable bid's VAST and build winner and per-bidder targeting for the first impression
+ */
+export async function buildPrebidTargeting(
+  response: any,
+  validation: BidResponseValidation,
+  request: PrebidServerRequest,
+  config: PrebidServerConfig
+): Promise<PrebidTargeting> {
+  const granularity = config.priceGranularity || 'medium';
+  const buckets = resolvePriceBuckets(config);
+  const cacheEndpoint = config.cacheEndpoint || DEFAULT_CACHE_ENDPOINT;
+  const imp = request.imp[0];
+  const targeting: PrebidTargeting = { granularity, keys: {}, bids: [], cacheErrors: [] };
+
+  // Best bid per bidder, as Prebid keeps only one bid per bidder per impression
+  const bestBids = new Map<string, OpenRTBBid>();
+  usableBids(response, validation)
+    .filter(({ bid }) => !imp || bid.impid === imp.id)
+    .forEach(({ seat, bid }) => {
+      const current = bestBids.get(seat);
+      if (!current || bid.price > current.price) bestBids.set(seat, bid);
+    });
+
+  const entries = Array.from(bestBids.entries()).sort(([, a], [, b]) => b.price - a.price);
+  const cacheIds = await cacheBids(response, entries, cacheEndpoint, targeting.cacheErrors);
+
+  targeting.bids = entries.map(([bidder, bid], index): TargetedBid => ({
+    bidder,
+    bidId: bid.id,
+    impId: bid.impid,
+    price: bid.price,
+    priceBucket: priceBucket(bid.price, buckets),
+    size: `${bid.w || imp?.video.w || 0}x${bid.h || imp?.video.h || 0}`,
+    duration: durationBucket(bidDuration(bid), imp?.video.maxduration),
+    category: bid.cat?.[0],
+    cacheId: cacheIds[index]
+  }));
+  targeting.winner = targeting.bids[0];
+
+  const cacheUrl = new URL(cacheEndpoint);
+  const keysFor = (bid: TargetedBid): Record<string, string> => ({
+    hb_pb: bid.priceBucket,
+    hb_bidder: bid.bidder,
+    hb_size: bid.size,
+    hb_format: 'video',
+    ...(bid.cacheId ? {
+      hb_cache_id: bid.cacheId,
+      hb_uuid: bid.cacheId,
+      hb_cache_host: cacheUrl.host,
+      hb_cache_path: cacheUrl.pathname
+    } : {}),
+    ...(bid.duration ? {
+      hb_pb_cat_dur: [bid.priceBucket, bid.category, `${bid.duration}s`].filter(Boolean).join('_')
+    } : {})
+  });
+
+  if (targeting.winner) {
+    Object.assign(targeting.keys, keysFor(targeting.winner));
+    if (targeting.winner.cacheId) {
+      targeting.vastUrl = expandGamPatterns(`${cacheUrl.protocol}//${GAM_CREATIVE_PATH}`, targeting.keys);
+    }
+  }
+  targeting.bids.forEach((bid) => {
+    Object.entries(keysFor(bid)).forEach(([key, value]) => {
+      targeting.keys[`${key}_${bid.bidder}`.slice(0, MAX_KEY_LENGTH)] = value;
+    });
+  });
+
+  return targeting;
+}
+
+/**
+ * Replace GAM %%PATTERN:key%% macros with targeting values
+ */
+export function expandGamPatterns(template: string, keys: Record<string, string>): string {
+  return template.replace(/%%PATTERN:([A-Za-z0-9_]+)%%/g, (_, key) => keys[key] ?? '');
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+// Store each bid's VAST and return the cache ids in bid order
+async function cacheBids(
+  response: any,
+  entries: Array<[string, OpenRTBBid]>,
+  endpoint: string,
+  errors: string[]
+): Promise<Array<string | undefined>> {
+  const bids = entries.map(([, bid]) => bid);
+  const cacheIds: Array<string | undefined> = bids.map(bid => bid.ext?.prebid?.cache?.vastXml?.cacheId);
+  const puts = entries
+    .map(([seat, bid], index) => ({ index, value: vastForCache(response, seat, bid) }))
+    .filter(({ index, value }) => {
+      if (cacheIds[index]) return false;
+      if (!value) errors.push(`Bid ${bids[index].id} has neither adm nor nurl to cache`);
+      return Boolean(value);
+    });
+  if (puts.length === 0) return cacheIds;
+
+  try {
+    const response = await axios.post(endpoint, {
+      puts: puts.map(({ value }) => ({ type: 'xml', value, ttlseconds: CACHE_TTL_SECONDS }))
+    }, { timeout: 2000, headers: simulatorHeaders(endpoint) });
+    const uuids: Array<{ uuid?: string }> = Array.isArray(response.data?.responses) ? response.data.responses : [];
+    puts.forEach(({ index }, putIndex) => {
+      cacheIds[index] = uuids[putIndex]?.uuid;
+      if (!cacheIds[index]) errors.push(`Cache returned no uuid for bid ${bids[index].id}`);
+    });
+  } catch (error: any) {
+    errors.push(`Caching VAST at ${endpoint} failed: ${error.message}`);
+  }
+  return cacheIds;
+}
+
+// Bids that only carry a win notice URL are cached as a wrapper around it, macros expanded
+// at the bid price; the player fetching it is the win notice, so nurl is never fired apart
+function vastForCache(response: any, seat: string, bid: OpenRTBBid): string | undefined {
+  if (bid.adm) return bid.adm;
+  if (!bid.nurl) return undefined;
+  const nurl = expandAuctionMacros(bid.nurl, toNoticeBid(response, seat, bid), {
+    price: bid.price,
+    lossReason: LOSS_REASONS.BID_WON
+  });
+  return `<VAST version="3.0"><Ad><Wrapper><AdSystem>prebid.org wrapper</AdSystem>` +
+    `<VASTAdTagURI><![CDATA[${nurl}]]></VASTAdTagURI><Impression></Impression><Creatives></Creatives>` +
+    `</Wrapper></Ad></VAST>`;
+}
+
+// OpenRTB 2.6 dur, else the first linear Duration in the markup
+function bidDuration(bid: OpenRTBBid): number | undefined {
+  if (typeof bid.dur === 'number') return bid.dur;
+  const match = bid.adm?.match(/<Duration>\s*([\d:.]+)\s*<\/Duration>/);
+  return match ? formatDuration(match[1].split('.')[0]) : undefined;
+}
+
+// Smallest bucket the ad fits in, never longer than the impression allows
+function durationBucket(duration: number | undefined, maxDuration: number | undefined): number | undefined {
+  if (duration === undefined) return undefined;
+  return DURATION_BUCKETS.find(bucket => bucket >= duration && (!maxDuration || bucket <= maxDuration))
+    ?? (maxDuration && duration <= maxDuration ? maxDuration : undefined);
+}
@@ -0,0 +1,359 @@
+/**
+ * Seller Authorization (ads.txt / app-ads.txt / sellers.json)
+ *
+ * Checks an outgoing bid request the way a buyer's supply-path filter
+ * would: is every seller in the request's supply chain authorized by the
+ * publisher's app-ads.txt (or ads.txt), with the right DIRECT / RESELLER
+ * relationship, and does sellers.json agree?
+ *
+ * Features:
+ * - ads.txt / app-ads.txt parser with line-level diagnostics and variables
+ * - sellers.json diagnostics for the advertising systems in the chain
+ * - Per-node authorization of the schain (asi + sid) with relationship checks
+ * - Certification authority ID checked against sellers.json TAG-ID
+ * - app.bundle and publisher.id consistency with the simulated publisher
+ */
+
+import axios from 'axios';
+import { AuthorizationFinding, CTVConfig, SellerAuthorization, SupplyChain } from '../types';
+import {
+  getSimulatedPublisher,
+  loadSellersRegistry,
+  SellersJson,
+  SellersRegistry,
+  SimulatedPublisher
+} from './supplyChain';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type AdsTxtKind = 'ads.txt' | 'app-ads.txt';
+
+export type SellerRelationship = 'DIRECT' | 'RESELLER';
+
+export interface AdsTxtRecord {
+  line: number;
+  domain: string; // Advertising system, lower-cased
+  accountId: string;
+  relationship: SellerRelationship;
+  certAuthorityId?: string;
+}
+
+export interface AdsTxtVariable {
+  line: number;
+  name: string; // Lower-cased
+  value: string;
+}
+
+export interface AdsTxtFile {
+  kind: AdsTxtKind;
+  domain: string;
+  records: AdsTxtRecord[];
+  variables: AdsTxtVariable[];
+  diagnostics: AuthorizationFinding[];
+}
+
+export interface AuthorizationSources {
+  kind: AdsTxtKind;
+  adsTxt: AdsTxtFile | null;
+  sellers: SellersRegistry;
+}
+
+// Local copies of each simulated publisher's files: /ads-txt/<domain>/<kind>
+export const ADS_TXT_BASE_URL = '/ads-txt';
+
+const KNOWN_VARIABLES = ['contact', 'subdomain', 'inventorypartnerdomain', 'ownerdomain', 'managerdomain'];
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i;
+
+const adsTxtCache = new Map<string, Promise<AdsTxtFile | null>>();
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Parse an ads.txt or app-ads.txt file, keeping a diagnostic for every line that is not usable
+ */
+export function parseAdsTxt(text: string, kind: AdsTxtKind, domain: string): AdsTxtFile {
+  const records: AdsTxtRecord[] = [];
+  const variables: AdsTxtVariable[] = [];
+  const diagnostics: AuthorizationFinding[] = [];
+  const seen = new Set<string>();
+  const diagnose = (line: number, severity: AuthorizationFinding['severity'], message: string) =>
+    diagnostics.push({ severity, source: kind, line, message });
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const content = raw.split('#')[0].trim();
+    if (!content) return;
+
+    // Variables are name=value with no comma before the '='
+    const variable = content.match(/^([A-Za-z_-]+)\s*=\s*(.*)$/);
+    if (variable) {
+      const name = variable[1].toLowerCase();
+      if (!KNOWN_VARIABLES.includes(name)) {
+        diagnose(line, 'warning', `Unknown variable ${variable[1]}`);
+      }
+      if (name === 'ownerdomain' && variables.some(existing => existing.name === 'ownerdomain')) {
+        diagnose(line, 'warning', 'OWNERDOMAIN declared more than once');
+      }
+      variables.push({ line, name, value: variable[2].trim() });
+      return;
+    }
+
+    const fields = content.split(',').map(field => field.trim());
+    if (fields.length < 3) {
+      diagnose(line, 'error', 'Expected "domain, account ID, DIRECT|RESELLER[, certification authority ID]"');
+      return;
+    }
+    if (fields.length > 4) {
+      diagnose(line, 'warning', `${fields.length - 4} extra field(s) ignored`);
+    }
+
+    const [recordDomain, accountId, relationship, certAuthorityId] = fields;
+    if (!DOMAIN_PATTERN.test(recordDomain)) {
+      diagnose(line, 'error', `${recordDomain} is not an advertising system domain`);
+      return;
+    }
+    if (!accountId) {
+      diagnose(line, 'error', 'Missing publisher account ID');
+      return;
+    }
+    const normalized = relationship.toUpperCase();
+    if (normalized !== 'DIRECT' && normalized !== 'RESELLER') {
+      diagnose(line, 'error', `Relationship "${relationship}" must be DIRECT or RESELLER`);
+      return;
+    }
+    if (certAuthorityId && !/^[a-z0-9]+$/i.test(certAuthorityId)) {
+      diagnose(line, 'warning', `Certification authority ID "${certAuthorityId}" is malformed`);
+    }
+
+    const key = `${recordDomain.toLowerCase()}|${accountId}|${normalized}`;
+    if (seen.has(key)) {
+      diagnose(line, 'warning', `Duplicate entry for ${recordDomain} ${accountId}`);
+    }
+    seen.add(key);
+
+    records.push({
+      line,
+      domain: recordDomain.toLowerCase(),
+      accountId,
+      relationship: normalized,
+      certAuthorityId: certAuthorityId || undefined
+    });
+  });
+
+  return { kind, domain, records, variables, diagnostics };
+}
+
+/**
+ * Load a publisher's local ads.txt / app-ads.txt once; null when the publisher has none
+ */
+export function loadAdsTxt(domain: string, kind: AdsTxtKind): Promise<AdsTxtFile | null> {
+  const url = `${ADS_TXT_BASE_URL}/${domain}/${kind}`;
+  if (!adsTxtCache.has(url)) {
+    adsTxtCache.set(url, axios.get<string>(url, { timeout: 5000, responseType: 'text', transformResponse: data => data })
+      // The dev server answers unknown paths with index.html
+      .then(response => (/^\s*</.test(response.data) ? null : parseAdsTxt(response.data, kind, domain)))
+      .catch((error) => {
+        if (error.response?.status === 404) return null;
+        adsTxtCache.delete(url);
+        throw error;
+      }));
+  }
+  return adsTxtCache.get(url)!;
+}
+
+/**
+ * Diagnostics for one advertising system's sellers.json
+ */
+export function lintSellersJson(asi: string, file: SellersJson): AuthorizationFinding[] {
+  const findings: AuthorizationFinding[] = [];
+  const seen = new Set<string>();
+
+  (file.sellers || []).forEach((seller, index) => {
+    const where = `${asi} sellers[${index}]`;
+    if (!seller.seller_id) {
+      findings.push({ severity: 'error', source: 'sellers.json', message: `${where} has no seller_id` });
+      return;
+    }
+    if (seen.has(seller.seller_id)) {
+      findings.push({ severity: 'error', source: 'sellers.json', message: `${where}: seller_id ${seller.seller_id} is listed twice` });
+    }
+    seen.add(seller.seller_id);
+
+    if (!['PUBLISHER', 'INTERMEDIARY', 'BOTH'].includes(seller.seller_type)) {
+      findings.push({ severity: 'error', source: 'sellers.json', message: `${where}: seller_type ${seller.seller_type} is invalid` });
+    }
+    if (seller.is_confidential !== 1 && seller.seller_type !== 'INTERMEDIARY' && !seller.domain) {
+      findings.push({ severity: 'warning', source: 'sellers.json', message: `${where}: non-confidential ${seller.seller_type} has no domain` });
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * Check a request's schain, app.bundle and publisher.id against the publisher's files
+ */
+export function checkSellerAuthorization(
+  request: any,
+  publisher: SimulatedPublisher,
+  sources: AuthorizationSources
+): SellerAuthorization {
+  const { kind, adsTxt, sellers } = sources;
+  const findings: AuthorizationFinding[] = [];
+  const inventory = request?.app || request?.site;
+  const bundle: string | undefined = request?.app?.bundle;
+  const schain: SupplyChain | undefined = request?.source?.schain || request?.source?.ext?.schain;
+
+  if (request?.app && bundle !== publisher.bundle) {
+    findings.push({
+      severity: 'warning',
+      source: 'request',
+      message: `app.bundle ${bundle || '(none)'} is not ${publisher.name}'s bundle ${publisher.bundle}`
+    });
+  }
+
+  if (!publisher.domain) {
+    findings.push({ severity: 'error', source: kind, message: `${publisher.name} has no known domain to fetch ${kind} from` });
+  } else if (!adsTxt) {
+    findings.push({ severity: 'error', source: kind, message: `No ${kind} found for ${publisher.domain}` });
+  } else {
+    findings.push(...adsTxt.diagnostics);
+    const ownerDomain = adsTxt.variables.find(variable => variable.name === 'ownerdomain');
+    if (ownerDomain && ownerDomain.value.toLowerCase() !== publisher.domain.toLowerCase()) {
+      findings.push({
+        severity: 'warning',
+        source: kind,
+        line: ownerDomain.line,
+        message: `OWNERDOMAIN ${ownerDomain.value} does not match ${publisher.domain}`
+      });
+    }
+  }
+
+  if (!schain || schain.nodes.length === 0) {
+    findings.push({ severity: 'warning', source: 'schain', message: 'Request has no schain; the selling path cannot be verified' });
+  } else {
+    const lastNode = schain.nodes[schain.nodes.length - 1];
+    const publisherId: string | undefined = inventory?.publisher?.id;
+    if (publisherId && publisherId !== lastNode.sid) {
+      findings.push({
+        severity: 'warning',
+        source: 'request',
+        message: `publisher.id ${publisherId} is not the selling account ${lastNode.sid} at ${lastNode.asi}`
+      });
+    }
+
+    const lintedSystems = new Set<string>();
+    schain.nodes.forEach((node, index) => {
+      const sellersFile = sellers[node.asi];
+      if (sellersFile && !lintedSystems.has(node.asi)) {
+        lintedSystems.add(node.asi);
+        findings.push(...lintSellersJson(node.asi, sellersFile));
+      }
+      if (adsTxt) {
+        findings.push(...checkNode(node.asi, node.sid, index, adsTxt, sellersFile, publisher));
+      }
+    });
+  }
+
+  return {
+    authorized: !findings.some(finding => finding.severity === 'error'),
+    publisherDomain: publisher.domain || undefined,
+    bundle,
+    findings
+  };
+}
+
+/**
+ * Load the simulated publisher's files and check a request before it is sent
+ */
+export async function authorizeRequest(request: any, config: CTVConfig): Promise<SellerAuthorization> {
+  const publisher = getSimulatedPublisher(config.publisherId);
+  // CTV apps publish app-ads.txt; only site inventory uses ads.txt
+  const kind: AdsTxtKind = request?.site && !request?.app ? 'ads.txt' : 'app-ads.txt';
+
+  const [adsTxt, sellers] = await Promise.all([
+    publisher.domain ? loadAdsTxt(publisher.domain, kind).catch(() => null) : Promise.resolve(null),
+    loadSellersRegistry().catch((): SellersRegistry => ({}))
+  ]);
+
+  return checkSellerAuthorization(request, publisher, { kind, adsTxt, sellers });
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function checkNode(
+  asi: string,
+  sid: string,
+  index: number,
+  adsTxt: AdsTxtFile,
+  sellersFile: SellersJson | undefined,
+  publisher: SimulatedPublisher
+): AuthorizationFinding[] {
+  const findings: AuthorizationFinding[] = [];
+  const records = adsTxt.records.filter(record => record.domain === asi.toLowerCase() && record.accountId === sid);
+
+  if (records.length === 0) {
+    return [{
+      severity: 'error',
+      source: adsTxt.kind,
+      node: index,
+      message: `${asi} / ${sid} is not authorized in ${publisher.domain}/${adsTxt.kind}`
+    }];
+  }
+
+  const seller = sellersFile?.sellers.find(candidate => candidate.seller_id === sid);
+  if (sellersFile && !seller) {
+    findings.push({ severity: 'error', source: 'sellers.json', node: index, message: `${sid} is not listed in ${asi}/sellers.json` });
+  }
+
+  records.forEach((record) => {
+    if (seller) {
+      // DIRECT means the account belongs to the publisher; RESELLER means someone else sells on its behalf
+      if (record.relationship === 'DIRECT' && seller.seller_type === 'INTERMEDIARY') {
+        findings.push({
+          severity: 'error',
+          source: adsTxt.kind,
+          line: record.line,
+          node: index,
+          message: `${asi} ${sid} is declared DIRECT but sellers.json lists an INTERMEDIARY`
+        });
+      } else if (record.relationship === 'DIRECT' && seller.domain && seller.domain !== publisher.domain) {
+        findings.push({
+          severity: 'warning',
+          source: adsTxt.kind,
+          line: record.line,
+          node: index,
+          message: `${asi} ${sid} is declared DIRECT but belongs to ${seller.domain}`
+        });
+      } else if (record.relationship === 'RESELLER' && seller.seller_type === 'PUBLISHER') {
+        findings.push({
+          severity: 'warning',
+          source: adsTxt.kind,
+          line: record.line,
+          node: index,
+          message: `${asi} ${sid} is declared RESELLER but sellers.json lists a PUBLISHER`
+        });
+      }
+    }
+
+    const tagId = sellersFile?.identifiers?.find(identifier => identifier.name.toUpperCase() === 'TAG-ID')?.value;
+    if (record.certAuthorityId && tagId && record.certAuthorityId !== tagId) {
+      findings.push({
+        severity: 'warning',
+        source: adsTxt.kind,
+        line: record.line,
+        node: index,
+        message: `Certification authority ID ${record.certAuthorityId} does not match ${asi}'s TAG-ID ${tagId}`
+      });
+    }
+  });
+
+  return findings;
+}
@@ -0,0 +1,47 @@
+/**
+ * Simulation
+ *
+ * The player's side of the seeded simulation mode: one seeded session at a
+ * time, whose random stream and clock every request ID, bid and log entry
+ * draws from, handed on to the simulator's own servers through request
+ * headers so a replay reproduces the whole run.
+ *
+ * Features:
+ * - Seeded PRNG and simulated clock from config/simulation.js, shared with the servers
+ * - Per-request seeds for the simulator's servers, never sent to third-party endpoints
+ */
+
+import { simulationHeaders } from '../../config/simulation.js';
+
+export {
+  activeSimulation,
+  currentDate,
+  now,
+  random,
+  randomHex,
+  randomId,
+  randomInt,
+  randomUuid,
+  sleep,
+  startSimulation,
+  wallClock
+} from '../../config/simulation.js';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Servers that understand the simulation headers; anyone else would fail the CORS preflight
+const SIMULATOR_HOSTS = ['localhost', '127.0.0.1', 'ctv-simulator.vercel.app'];
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Simulation headers for a request to url, if it goes to one of the simulator's servers
+ */
+export function simulatorHeaders(url: string): Record<string, string> {
+  const { hostname } = new URL(url, window.location.href);
+  return hostname === window.location.hostname || SIMULATOR_HOSTS.includes(hostname) ? simulationHeaders() : {};
+}
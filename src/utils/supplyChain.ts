@@ -0,0 +1,304 @@
+/**
+ * Supply Chain (schain)
+ *
+ * Builds the SupplyChain object for each simulated publisher and checks it
+ * the way a buyer would: against the schain 1.0 spec and against the
+ * sellers.json files of every advertising system in the chain.
+ *
+ * Features:
+ * - Simulated publishers (direct, own ad server, reseller, incomplete chain)
+ * - Completeness and required node fields (asi, sid, hp)
+ * - Node ordering: publisher first, no loops, no second publisher mid-chain
+ * - Consistency with a local sellers.json fixture (seller ids, types, domains)
+ */
+
+import axios from 'axios';
+import { SupplyChain, SupplyChainNode } from '../types';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface SimulatedPublisher {
+  id: string;
+  name: string;
+  domain: string; // Where the publisher's ads.txt / app-ads.txt live
+  bundle: string; // CTV app bundle sent as app.bundle
+  description: string;
+  schain: SupplyChain;
+}
+
+export type SellerType = 'PUBLISHER' | 'INTERMEDIARY' | 'BOTH';
+
+export interface SellersJsonSeller {
+  seller_id: string;
+  name?: string;
+  domain?: string;
+  seller_type: SellerType;
+  is_confidential?: 0 | 1;
+  is_passthrough?: 0 | 1;
+}
+
+export interface SellersJson {
+  contact_email?: string;
+  version?: number;
+  identifiers?: Array<{ name: string; value: string }>; // e.g. TAG-ID, matched against ads.txt cert authority IDs
+  sellers: SellersJsonSeller[];
+}
+
+// sellers.json files keyed by the advertising system domain (asi) that publishes them
+export type SellersRegistry = Record<string, SellersJson>;
+
+export interface SupplyChainIssue {
+  severity: 'error' | 'warning';
+  node?: number; // Index into schain.nodes
+  message: string;
+}
+
+export const SELLERS_JSON_URL = '/sellers.json';
+
+export const SIMULATED_PUBLISHERS: SimulatedPublisher[] = [
+  {
+    id: 'ctv-simulator',
+    name: 'CTV Simulator (direct)',
+    domain: 'ctvsimulator.com',
+    bundle: 'com.ctvsimulator.app',
+    description: 'Owned and operated inventory sold directly on the exchange',
+    schain: {
+      complete: 1,
+      ver: '1.0',
+      nodes: [{ asi: 'ctvsimulator.com', sid: 'ctv-sim-001', hp: 1 }]
+    }
+  },
+  {
+    id: 'acme-streaming',
+    name: 'Acme Streaming',
+    domain: 'acmestreaming.tv',
+    bundle: 'tv.acmestreaming.ctv',
+    description: 'Publisher ad server selling its own inventory into the exchange',
+    schain: {
+      complete: 1,
+      ver: '1.0',
+      nodes: [
+        { asi: 'acmestreaming.tv', sid: 'acme-ctv-001', hp: 1 },
+        { asi: 'ctvsimulator.com', sid: 'ctv-sim-acme-007', hp: 1 }
+      ]
+    }
+  },
+  {
+    id: 'retro-movies',
+    name: 'Retro Movies FAST (resold)',
+    domain: 'retromovies.tv',
+    bundle: 'tv.retromovies.fast',
+    description: 'FAST channel sold through a reseller network',
+    schain: {
+      complete: 1,
+      ver: '1.0',
+      nodes: [
+        { asi: 'fastreseller.net', sid: 'fr-7781', hp: 1 },
+        { asi: 'ctvsimulator.com', sid: 'ctv-sim-reseller-042', hp: 1 }
+      ]
+    }
+  },
+  {
+    id: 'unknown-upstream',
+    name: 'Unknown upstream (incomplete)',
+    domain: '',
+    bundle: 'com.unknown.fastchannel',
+    description: 'Confidential intermediary that cannot trace the chain back to the publisher',
+    schain: {
+      complete: 0,
+      ver: '1.0',
+      nodes: [{ asi: 'ctvsimulator.com', sid: 'ctv-sim-confidential-900', hp: 1 }]
+    }
+  }
+];
+
+const DEFAULT_PUBLISHER = SIMULATED_PUBLISHERS[0];
+
+let sellersRegistryPromise: Promise<SellersRegistry> | null = null;
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export function getSimulatedPublisher(id: string | undefined): SimulatedPublisher {
+  return SIMULATED_PUBLISHERS.find(publisher => publisher.id === id) || DEFAULT_PUBLISHER;
+}
+
+/**
+ * The configured chain, or the simulated publisher's own when none is configured
+ */
+export function getSupplyChain(config: { publisherId?: string; supplyChain?: SupplyChain }): SupplyChain {
+  return config.supplyChain || getSimulatedPublisher(config.publisherId).schain;
+}
+
+/**
+ * The schain to send for one request, with rid filled in on nodes that do not
+ * carry their own request id
+ */
+export function buildSupplyChain(
+  config: { publisherId?: string; supplyChain?: SupplyChain },
+  requestId: string
+): SupplyChain {
+  const schain = getSupplyChain(config);
+  return {
+    ...schain,
+    nodes: schain.nodes.map(node => ({ ...node, rid: node.rid || requestId }))
+  };
+}
+
+/**
+ * Load the local sellers.json fixture once
+ */
+export function loadSellersRegistry(url: string = SELLERS_JSON_URL): Promise<SellersRegistry> {
+  if (!sellersRegistryPromise) {
+    sellersRegistryPromise = axios.get<SellersRegistry>(url, { timeout: 5000 })
+      .then(response => response.data)
+      .catch((error) => {
+        sellersRegistryPromise = null;
+        throw error;
+      });
+  }
+  return sellersRegistryPromise;
+}
+
+/**
+ * Check an schain for completeness, node ordering and sellers.json consistency
+ */
+export function validateSupplyChain(
+  schain: SupplyChain,
+  sellers: SellersRegistry = {},
+  options: { publisherDomain?: string } = {}
+): SupplyChainIssue[] {
+  const issues: SupplyChainIssue[] = [];
+
+  if (schain.ver !== '1.0') {
+    issues.push({ severity: 'warning', message: `Unknown schain version ${schain.ver}; expected 1.0` });
+  }
+  if (schain.complete !== 0 && schain.complete !== 1) {
+    issues.push({ severity: 'error', message: 'complete must be 0 or 1' });
+  }
+  if (schain.nodes.length === 0) {
+    issues.push({ severity: 'error', message: 'Supply chain has no nodes' });
+    return issues;
+  }
+  if (schain.complete === 0) {
+    issues.push({ severity: 'warning', message: 'Chain is incomplete; buyers may discount or skip this supply' });
+  }
+
+  schain.nodes.forEach((node, index) => issues.push(...checkNodeFields(node, index)));
+  issues.push(...checkNodeOrder(schain.nodes));
+  issues.push(...checkSellersJson(schain, sellers, options));
+
+  return issues;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function checkNodeFields(node: SupplyChainNode, index: number): SupplyChainIssue[] {
+  const issues: SupplyChainIssue[] = [];
+
+  if (!node.asi) {
+    issues.push({ severity: 'error', node: index, message: 'Missing asi' });
+  } else if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(node.asi)) {
+    issues.push({ severity: 'error', node: index, message: `asi ${node.asi} is not a bare domain` });
+  }
+  if (!node.sid) {
+    issues.push({ severity: 'error', node: index, message: 'Missing sid' });
+  }
+  if (node.hp !== 1) {
+    issues.push({ severity: 'error', node: index, message: 'hp must be 1; schain 1.0 only lists nodes in the payment flow' });
+  }
+
+  return issues;
+}
+
+function checkNodeOrder(nodes: SupplyChainNode[]): SupplyChainIssue[] {
+  const issues: SupplyChainIssue[] = [];
+  const seen = new Map<string, number>();
+
+  nodes.forEach((node, index) => {
+    const key = `${node.asi}|${node.sid}`;
+    if (seen.has(key)) {
+      issues.push({
+        severity: 'error',
+        node: index,
+        message: `${node.asi} / ${node.sid} already appears at node ${seen.get(key)}; the chain loops`
+      });
+    } else {
+      seen.set(key, index);
+    }
+
+    if (index > 0 && nodes[index - 1].asi === node.asi) {
+      issues.push({ severity: 'warning', node: index, message: `${node.asi} sells to itself` });
+    }
+  });
+
+  return issues;
+}
+
+function checkSellersJson(
+  schain: SupplyChain,
+  sellers: SellersRegistry,
+  options: { publisherDomain?: string }
+): SupplyChainIssue[] {
+  const issues: SupplyChainIssue[] = [];
+  let publisherDomain: string | undefined;
+
+  schain.nodes.forEach((node, index) => {
+    const file = sellers[node.asi];
+    if (!file) {
+      issues.push({ severity: 'warning', node: index, message: `No sellers.json available for ${node.asi}` });
+      return;
+    }
+
+    const seller = file.sellers.find(candidate => candidate.seller_id === node.sid);
+    if (!seller) {
+      issues.push({ severity: 'error', node: index, message: `sid ${node.sid} is not listed in ${node.asi}/sellers.json` });
+      return;
+    }
+
+    if (node.domain && seller.domain && node.domain !== seller.domain) {
+      issues.push({
+        severity: 'warning',
+        node: index,
+        message: `Node domain ${node.domain} does not match sellers.json domain ${seller.domain}`
+      });
+    }
+    if (node.name && seller.name && node.name !== seller.name) {
+      issues.push({ severity: 'warning', node: index, message: `Node name ${node.name} does not match sellers.json name ${seller.name}` });
+    }
+
+    const sellsOwnInventory = seller.seller_type === 'PUBLISHER' || seller.seller_type === 'BOTH';
+    if (index === 0) {
+      if (schain.complete === 1 && !sellsOwnInventory) {
+        issues.push({
+          severity: 'error',
+          node: index,
+          message: `Complete chain starts at an ${seller.seller_type} seller; the first node must be the publisher`
+        });
+      }
+      publisherDomain = sellsOwnInventory ? seller.domain : undefined;
+    } else if (seller.seller_type === 'PUBLISHER' && publisherDomain && seller.domain !== publisherDomain) {
+      // A publisher may sell through its own ad server, but never re-enters another publisher's chain
+      issues.push({
+        severity: 'error',
+        node: index,
+        message: `Publisher ${seller.domain || node.sid} appears mid-chain after publisher ${publisherDomain}`
+      });
+    }
+  });
+
+  if (options.publisherDomain && publisherDomain && options.publisherDomain !== publisherDomain) {
+    issues.push({
+      severity: 'warning',
+      node: 0,
+      message: `First node sells for ${publisherDomain}, not the requesting publisher ${options.publisherDomain}`
+    });
+  }
+
+  return issues;
+}
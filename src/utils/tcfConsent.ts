@@ -0,0 +1,341 @@
+/**
+ * TCF v2.2 Consent (TC string codec)
+ *
+ * Decodes and encodes IAB Transparency & Consent Framework v2.2 TC strings
+ * and turns the decoded consent into a per-bidder decision, the way Prebid's
+ * GDPR enforcement module gates bid requests on purpose 2 (basic ads).
+ *
+ * Features:
+ * - Core segment: purposes, special features, vendor consents and legitimate interests
+ * - Publisher restrictions (not allowed, require consent, require legitimate interest)
+ * - Disclosed vendors and publisher TC segments
+ * - Bitfield or range vendor encoding, whichever is shorter
+ * - Bidder gating by GVL vendor ID
+ */
+
+import { BidderConsentDecision } from '../types';
+import { BitReader, BitWriter, sortedIds } from './consentBits';
+import { currentDate } from './simulation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type RestrictionType = 0 | 1 | 2; // Not allowed, require consent, require legitimate interest
+
+export interface PublisherRestriction {
+  purposeId: number;
+  restrictionType: RestrictionType;
+  vendorIds: number[];
+}
+
+export interface PublisherTC {
+  purposeConsents: number[];
+  purposeLegitimateInterests: number[];
+  numCustomPurposes: number;
+  customPurposeConsents: number[];
+  customPurposeLegitimateInterests: number[];
+}
+
+export interface TCData {
+  version: number;
+  created: Date;
+  lastUpdated: Date;
+  cmpId: number;
+  cmpVersion: number;
+  consentScreen: number;
+  consentLanguage: string; // Two letters, e.g. EN
+  vendorListVersion: number;
+  policyVersion: number; // 4+ for TCF v2.2
+  isServiceSpecific: boolean;
+  useNonStandardTexts: boolean;
+  specialFeatureOptIns: number[];
+  purposeConsents: number[];
+  purposeLegitimateInterests: number[];
+  purposeOneTreatment: boolean;
+  publisherCountryCode: string;
+  vendorConsents: number[];
+  vendorLegitimateInterests: number[];
+  publisherRestrictions: PublisherRestriction[];
+  disclosedVendors?: number[];
+  publisherTC?: PublisherTC;
+}
+
+// What the consent editor lets us choose; everything else gets simulator defaults
+export interface TCFChoices {
+  purposeConsents: number[];
+  purposeLegitimateInterests: number[];
+  specialFeatureOptIns: number[];
+  vendorConsents: number[];
+  vendorLegitimateInterests: number[];
+}
+
+export interface ConsentBidder {
+  bidder: string;
+  gvlId?: number;
+}
+
+export const TCF_PURPOSES: Record<number, string> = {
+  1: 'Store and/or access information on a device',
+  2: 'Use limited data to select advertising',
+  3: 'Create profiles for personalised advertising',
+  4: 'Use profiles to select personalised advertising',
+  5: 'Create profiles to personalise content',
+  6: 'Use profiles to select personalised content',
+  7: 'Measure advertising performance',
+  8: 'Measure content performance',
+  9: 'Understand audiences through statistics or combinations of data from different sources',
+  10: 'Develop and improve services',
+  11: 'Use limited data to select content'
+};
+
+export const TCF_SPECIAL_FEATURES: Record<number, string> = {
+  1: 'Use precise geolocation data',
+  2: 'Actively scan device characteristics for identification'
+};
+
+// Purposes that v2.2 only allows on consent, never on legitimate interest
+export const CONSENT_ONLY_PURPOSES = [1, 3, 4, 5, 6];
+
+// Simulator CMP identity written into encoded strings; not a registered CMP
+export const SIMULATOR_CMP_ID = 300;
+export const SIMULATOR_CMP_VERSION = 1;
+export const SIMULATOR_VENDOR_LIST_VERSION = 300;
+export const TCF_POLICY_VERSION = 4;
+
+const SEGMENT_DISCLOSED_VENDORS = 1;
+const SEGMENT_PUBLISHER_TC = 3;
+
+const BASIC_ADS_PURPOSE = 2;
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Decode a TC string; throws on anything that is not a well-formed v2 string
+ */
+export function decodeTCString(tcString: string): TCData {
+  const [core, ...segments] = tcString.trim().split('.');
+  if (!core) {
+    throw new Error('TC string is empty');
+  }
+
+  const reader = new BitReader(core);
+  const version = reader.int(6);
+  if (version !== 2) {
+    throw new Error(`Unsupported TC string version ${version}`);
+  }
+
+  const data: TCData = {
+    version,
+    created: reader.date(),
+    lastUpdated: reader.date(),
+    cmpId: reader.int(12),
+    cmpVersion: reader.int(12),
+    consentScreen: reader.int(6),
+    consentLanguage: reader.letters(),
+    vendorListVersion: reader.int(12),
+    policyVersion: reader.int(6),
+    isServiceSpecific: reader.bool(),
+    useNonStandardTexts: reader.bool(),
+    specialFeatureOptIns: reader.bitfield(12),
+    purposeConsents: reader.bitfield(24),
+    purposeLegitimateInterests: reader.bitfield(24),
+    purposeOneTreatment: reader.bool(),
+    publisherCountryCode: reader.letters(),
+    vendorConsents: reader.vendorSection(),
+    vendorLegitimateInterests: reader.vendorSection(),
+    publisherRestrictions: []
+  };
+
+  const numRestrictions = reader.int(12);
+  for (let i = 0; i < numRestrictions; i++) {
+    const purposeId = reader.int(6);
+    const restrictionType = reader.int(2);
+    if (restrictionType > 2) {
+      throw new Error(`Publisher restriction for purpose ${purposeId} has reserved type ${restrictionType}`);
+    }
+    data.publisherRestrictions.push({
+      purposeId,
+      restrictionType: restrictionType as RestrictionType,
+      vendorIds: reader.ranges()
+    });
+  }
+
+  segments.forEach((segment) => {
+    const segmentReader = new BitReader(segment);
+    const type = segmentReader.int(3);
+    if (type === SEGMENT_DISCLOSED_VENDORS) {
+      data.disclosedVendors = segmentReader.vendorSection();
+    } else if (type === SEGMENT_PUBLISHER_TC) {
+      const purposeConsents = segmentReader.bitfield(24);
+      const purposeLegitimateInterests = segmentReader.bitfield(24);
+      const numCustomPurposes = segmentReader.int(6);
+      data.publisherTC = {
+        purposeConsents,
+        purposeLegitimateInterests,
+        numCustomPurposes,
+        customPurposeConsents: segmentReader.bitfield(numCustomPurposes),
+        customPurposeLegitimateInterests: segmentReader.bitfield(numCustomPurposes)
+      };
+    }
+    // Allowed vendors (type 2) was retired in v2.2 and is ignored
+  });
+
+  return data;
+}
+
+/**
+ * Encode a TC string with a disclosed vendors segment and, when present, a publisher TC segment
+ */
+export function encodeTCString(data: TCData): string {
+  const core = new BitWriter();
+  core.int(data.version, 6);
+  core.date(data.created);
+  core.date(data.lastUpdated);
+  core.int(data.cmpId, 12);
+  core.int(data.cmpVersion, 12);
+  core.int(data.consentScreen, 6);
+  core.letters(data.consentLanguage);
+  core.int(data.vendorListVersion, 12);
+  core.int(data.policyVersion, 6);
+  core.bool(data.isServiceSpecific);
+  core.bool(data.useNonStandardTexts);
+  core.bitfield(data.specialFeatureOptIns, 12);
+  core.bitfield(data.purposeConsents, 24);
+  core.bitfield(data.purposeLegitimateInterests, 24);
+  core.bool(data.purposeOneTreatment);
+  core.letters(data.publisherCountryCode);
+  core.vendorSection(data.vendorConsents);
+  core.vendorSection(data.vendorLegitimateInterests);
+  core.int(data.publisherRestrictions.length, 12);
+  data.publisherRestrictions.forEach((restriction) => {
+    core.int(restriction.purposeId, 6);
+    core.int(restriction.restrictionType, 2);
+    core.ranges(restriction.vendorIds);
+  });
+
+  const segments = [core.toString()];
+
+  const disclosed = data.disclosedVendors || union(data.vendorConsents, data.vendorLegitimateInterests);
+  const disclosedWriter = new BitWriter();
+  disclosedWriter.int(SEGMENT_DISCLOSED_VENDORS, 3);
+  disclosedWriter.vendorSection(disclosed);
+  segments.push(disclosedWriter.toString());
+
+  if (data.publisherTC) {
+    const publisherWriter = new BitWriter();
+    publisherWriter.int(SEGMENT_PUBLISHER_TC, 3);
+    publisherWriter.bitfield(data.publisherTC.purposeConsents, 24);
+    publisherWriter.bitfield(data.publisherTC.purposeLegitimateInterests, 24);
+    publisherWriter.int(data.publisherTC.numCustomPurposes, 6);
+    publisherWriter.bitfield(data.publisherTC.customPurposeConsents, data.publisherTC.numCustomPurposes);
+    publisherWriter.bitfield(data.publisherTC.customPurposeLegitimateInterests, data.publisherTC.numCustomPurposes);
+    segments.push(publisherWriter.toString());
+  }
+
+  return segments.join('.');
+}
+
+/**
+ * A full TCData for the editor's choices, stamped with the simulator CMP
+ */
+export function buildTCData(choices: TCFChoices, now: Date = currentDate()): TCData {
+  return {
+    version: 2,
+    created: now,
+    lastUpdated: now,
+    cmpId: SIMULATOR_CMP_ID,
+    cmpVersion: SIMULATOR_CMP_VERSION,
+    consentScreen: 1,
+    consentLanguage: 'EN',
+    vendorListVersion: SIMULATOR_VENDOR_LIST_VERSION,
+    policyVersion: TCF_POLICY_VERSION,
+    isServiceSpecific: true,
+    useNonStandardTexts: false,
+    specialFeatureOptIns: sortedIds(choices.specialFeatureOptIns),
+    purposeConsents: sortedIds(choices.purposeConsents),
+    // v2.2 forbids legitimate interest for the consent-only purposes
+    purposeLegitimateInterests: sortedIds(choices.purposeLegitimateInterests)
+      .filter(purpose => !CONSENT_ONLY_PURPOSES.includes(purpose)),
+    purposeOneTreatment: false,
+    publisherCountryCode: 'GB',
+    vendorConsents: sortedIds(choices.vendorConsents),
+    vendorLegitimateInterests: sortedIds(choices.vendorLegitimateInterests),
+    publisherRestrictions: []
+  };
+}
+
+/**
+ * Decide which bidders may be called: each needs a legal basis for purpose 2
+ * (consent, or legitimate interest) both for the purpose and for its vendor ID
+ */
+export function evaluateBidderConsent(
+  gdprApplies: boolean,
+  tcString: string | undefined,
+  bidders: ConsentBidder[]
+): BidderConsentDecision[] {
+  if (!gdprApplies) {
+    return bidders.map(({ bidder, gvlId }) => ({ bidder, gvlId, allowed: true, reason: 'GDPR does not apply' }));
+  }
+  if (!tcString) {
+    return bidders.map(({ bidder, gvlId }) => ({ bidder, gvlId, allowed: false, reason: 'GDPR applies but there is no TC string' }));
+  }
+
+  let data: TCData;
+  try {
+    data = decodeTCString(tcString);
+  } catch (error: any) {
+    return bidders.map(({ bidder, gvlId }) => ({ bidder, gvlId, allowed: false, reason: `Invalid TC string: ${error.message}` }));
+  }
+
+  return bidders.map(({ bidder, gvlId }) => {
+    if (gvlId === undefined) {
+      return { bidder, gvlId, allowed: false, reason: 'No GVL vendor ID, so consent cannot be established' };
+    }
+
+    const restriction = data.publisherRestrictions.find(candidate =>
+      candidate.purposeId === BASIC_ADS_PURPOSE && candidate.vendorIds.includes(gvlId)
+    );
+    if (restriction?.restrictionType === 0) {
+      return { bidder, gvlId, allowed: false, reason: 'Publisher restriction disallows purpose 2 for this vendor' };
+    }
+
+    const hasConsent = data.purposeConsents.includes(BASIC_ADS_PURPOSE) && data.vendorConsents.includes(gvlId);
+    const hasLegitimateInterest = data.purposeLegitimateInterests.includes(BASIC_ADS_PURPOSE)
+      && data.vendorLegitimateInterests.includes(gvlId);
+    const legalBasis = restriction?.restrictionType === 1
+      ? (hasConsent ? 'consent' : undefined)
+      : restriction?.restrictionType === 2
+        ? (hasLegitimateInterest ? 'legitimate interest' : undefined)
+        : hasConsent ? 'consent' : hasLegitimateInterest ? 'legitimate interest' : undefined;
+
+    if (!legalBasis) {
+      return {
+        bidder,
+        gvlId,
+        allowed: false,
+        reason: restriction
+          ? `No ${restriction.restrictionType === 1 ? 'consent' : 'legitimate interest'} for purpose 2, which the publisher requires`
+          : 'No consent or legitimate interest for purpose 2 (basic ads)'
+      };
+    }
+
+    const storageAllowed = data.purposeConsents.includes(1) && data.vendorConsents.includes(gvlId);
+    return {
+      bidder,
+      gvlId,
+      allowed: true,
+      reason: `Purpose 2 on ${legalBasis}` + (storageAllowed ? '' : '; no purpose 1 consent, so no device storage or user IDs')
+    };
+  });
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function union(a: number[], b: number[]): number[] {
+  return sortedIds([...a, ...b]);
+}
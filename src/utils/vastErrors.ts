@@ -0,0 +1,182 @@
+/**
+ * VAST Error Classification
+ *
+ * Maps failures anywhere in the ad pipeline (request, parsing, wrapper
+ * resolution, media selection, playback) to IAB VAST error codes so the
+ * matching <Error> URLs can be fired with [ERRORCODE] filled in.
+ *
+ * Features:
+ * - Full IAB VAST 4.x error code table
+ * - Classification of VAST documents, wrapper hops and HTMLMediaElement errors
+ * - Error URL firing with [ERRORCODE] expanded
+ */
+
+import { fireTrackingPixel, parseVastXml, VastResponse } from './vastParser';
+import { MacroContext } from './vastMacros';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type VastErrorStage =
+  | 'parsing'
+  | 'wrapper'
+  | 'media-selection'
+  | 'playback'
+  | 'nonlinear'
+  | 'companion';
+
+export interface VastErrorEvent {
+  code: number;
+  description: string;
+  stage: VastErrorStage;
+  message: string;
+  url?: string; // Tag or media URL the failure relates to
+  errorUrls: string[]; // <Error> URLs to fire for this failure
+}
+
+// ============================================================================
+// ERROR CODES
+// ============================================================================
+
+export const VAST_ERROR_CODES: Record<number, string> = {
+  100: 'XML parsing error',
+  101: 'VAST schema validation error',
+  102: 'VAST version of response not supported',
+  200: 'Trafficking error',
+  201: 'Video player expecting different linearity',
+  202: 'Video player expecting different duration',
+  203: 'Video player expecting different size',
+  204: 'Ad category was required but not provided',
+  205: 'Inline category violates wrapper BlockedAdCategories',
+  206: 'Ad break shortened, ad was not served',
+  300: 'General wrapper error',
+  301: 'Timeout of VAST URI provided in Wrapper element',
+  302: 'Wrapper limit reached',
+  303: 'No VAST response after one or more wrappers',
+  304: 'InLine response returned ad unit that failed to display within timeout',
+  400: 'General linear error',
+  401: 'File not found',
+  402: 'Timeout of MediaFile URI',
+  403: 'Could not find MediaFile that is supported by this video player',
+  405: 'Problem displaying MediaFile',
+  406: 'Mezzanine was required but not provided',
+  407: 'Mezzanine is in the process of being downloaded for the first time',
+  408: 'Conditional ad rejected',
+  409: 'Interactive unit in the InteractiveCreativeFile node was not executed',
+  410: 'Verification unit in the Verification node was not executed',
+  411: 'Mezzanine was provided as required, but file is not in the expected format',
+  500: 'General NonLinearAds error',
+  501: 'Unable to display NonLinearAd because creative dimensions do not align',
+  502: 'Unable to fetch NonLinearAds/NonLinear resource',
+  503: 'Could not find NonLinear resource with supported type',
+  600: 'General CompanionAds error',
+  601: 'Unable to display Companion because creative dimensions do not fit',
+  602: 'Unable to display required Companion',
+  603: 'Unable to fetch CompanionAds/Companion resource',
+  604: 'Could not find Companion resource with supported type',
+  900: 'Undefined error',
+  901: 'General VPAID error',
+  902: 'General InteractiveCreativeFile error'
+};
+
+export const VAST_SUPPORTED_VERSIONS = ['2.0', '3.0', '4.0', '4.1', '4.2', '4.3'];
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export function createVastError(
+  code: number,
+  stage: VastErrorStage,
+  message: string,
+  errorUrls: string[] = [],
+  url?: string
+): VastErrorEvent {
+  return {
+    code,
+    description: VAST_ERROR_CODES[code] || VAST_ERROR_CODES[900],
+    stage,
+    message,
+    url,
+    errorUrls
+  };
+}
+
+/**
+ * Classify a raw VAST response body, or null when it holds a playable ad
+ */
+export function classifyVastResponse(vastXml: unknown, url?: string): VastErrorEvent | null {
+  if (typeof vastXml !== 'string' || vastXml.trim() === '') {
+    return createVastError(303, 'parsing', 'Empty VAST response', [], url);
+  }
+
+  const parsed = parseVastXml(vastXml);
+  if (!parsed) {
+    return createVastError(100, 'parsing', 'VAST XML could not be parsed', [], url);
+  }
+
+  if (!VAST_SUPPORTED_VERSIONS.includes(parsed.version)) {
+    return createVastError(102, 'parsing', `VAST version ${parsed.version} is not supported`, collectErrorUrls(parsed), url);
+  }
+
+  if (parsed.ads.length > 0 || parsed.nonLinearAds.length > 0 || parsed.wrappers.length > 0) {
+    return null;
+  }
+
+  const hasLinearInLine = parsed.document?.ads.some(ad => ad.inLine?.creatives.some(creative => creative.linear));
+  return hasLinearInLine
+    ? createVastError(403, 'media-selection', 'No playable MediaFile in InLine ad', collectErrorUrls(parsed), url)
+    : createVastError(303, 'parsing', 'VAST response contains no ads', collectErrorUrls(parsed), url);
+}
+
+/**
+ * Map an HTMLMediaElement / video.js MediaError code to a VAST linear error.
+ * Browsers report a missing file and an unplayable format both as
+ * SRC_NOT_SUPPORTED, so the MIME type decides between 401 and 405.
+ */
+export function classifyMediaError(mediaErrorCode: number | undefined, mimeType?: string): number {
+  switch (mediaErrorCode) {
+    case 1: // MEDIA_ERR_ABORTED
+      return 400;
+    case 2: // MEDIA_ERR_NETWORK
+      return 401;
+    case 3: // MEDIA_ERR_DECODE
+      return 405;
+    case 4: // MEDIA_ERR_SRC_NOT_SUPPORTED
+      return mimeType && !canPlayMimeType(mimeType) ? 405 : 401;
+    default:
+      return 400;
+  }
+}
+
+/**
+ * Fire every <Error> URL of a failure with [ERRORCODE] set to its code
+ */
+export function fireVastError(vastError: VastErrorEvent, context: MacroContext = {}) {
+  vastError.errorUrls.forEach((url) => {
+    fireTrackingPixel(url, `error:${vastError.code}`, { ...context, errorCode: vastError.code });
+  });
+}
+
+export function describeVastError(code: number): string {
+  return `VAST ${code}: ${VAST_ERROR_CODES[code] || VAST_ERROR_CODES[900]}`;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function canPlayMimeType(mimeType: string): boolean {
+  if (typeof document === 'undefined') return true;
+  return document.createElement('video').canPlayType(mimeType) !== '';
+}
+
+// VAST-level errors plus InLine errors of every ad in the response
+function collectErrorUrls(parsed: VastResponse): string[] {
+  const urls = [...(parsed.document?.errorUrls || [])];
+  parsed.document?.ads.forEach((ad) => {
+    urls.push(...(ad.inLine?.errorUrls || []), ...(ad.wrapper?.errorUrls || []));
+  });
+  return urls;
+}
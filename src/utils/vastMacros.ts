@@ -0,0 +1,287 @@
+/**
+ * VAST Macro Expansion
+ *
+ * Replaces IAB VAST 4.x macros ([CACHEBUSTING], [ERRORCODE], [ADPLAYHEAD] ...)
+ * in tracking and error URLs before they are fired.
+ *
+ * Features:
+ * - Values sourced from CTVConfig, player state and the ad being played
+ * - Percent-encoding of every substituted value
+ * - Unfilled macros replaced with -1, privacy-restricted ones with -2 (VAST 4.1)
+ * - IFA, IP and lat/lon withheld or coarsened as consent enforcement does for bid requests
+ * - Reports unknown, unfilled and restricted macros for the log panel
+ */
+
+import { CTVConfig, PrivacyActivity } from '../types';
+import { VastCreative } from './vastParser';
+import { buildPrivacySignals } from './gppConsent';
+import { enforceConsent, evaluateActivities } from './consentEnforcement';
+import { currentDate, random, wallClock } from './simulation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface MacroPlayerState {
+  contentPlayhead?: number; // Seconds into the content when the break started
+  adPlayhead?: number; // Seconds into the current ad
+  playerSize?: { width: number; height: number };
+  playerState?: Array<'muted' | 'autoplayed' | 'fullscreen'>;
+}
+
+export interface MacroContext {
+  config?: CTVConfig;
+  player?: MacroPlayerState;
+  ad?: VastCreative;
+  assetUri?: string;
+  errorCode?: number;
+  reason?: number;
+  breakPosition?: 1 | 2 | 3 | 4; // 1 pre-roll, 2 mid-roll, 3 post-roll, 4 standalone
+  ifa?: string;
+  ifaType?: string;
+  limitAdTracking?: boolean;
+  appBundle?: string;
+  transactionId?: string;
+}
+
+export interface MacroExpansionResult {
+  url: string;
+  filled: string[];
+  unfilled: string[];
+  restricted: string[];
+  unknown: string[];
+}
+
+export interface MacroIssues {
+  unfilled: string[];
+  restricted: string[];
+  unknown: string[];
+}
+
+type MacroResolver = (context: MacroContext) => string | number | undefined;
+
+// Signals a value that exists but may not be shared
+const RESTRICTED = '__restricted__';
+
+// ============================================================================
+// MACRO REGISTRY
+// ============================================================================
+
+const MACRO_RESOLVERS: Record<string, MacroResolver> = {
+  // Generic
+  CACHEBUSTING: () => Math.floor(10000000 + random() * 90000000),
+  TIMESTAMP: () => formatTimestamp(currentDate()),
+
+  // Ad break info
+  CONTENTPLAYHEAD: (context) => formatPlayhead(context.player?.contentPlayhead),
+  MEDIAPLAYHEAD: (context) => formatPlayhead(context.player?.contentPlayhead),
+  ADPLAYHEAD: (context) => formatPlayhead(context.player?.adPlayhead),
+  BREAKPOSITION: (context) => context.breakPosition,
+  ADTYPE: (context) => context.ad ? context.ad.ad?.adType || 'video' : undefined,
+
+  // Creative info
+  ASSETURI: (context) => context.assetUri || context.ad?.videoUrl || undefined,
+  ADSERVINGID: (context) => context.ad?.ad?.inLine?.adServingId,
+  PODSEQUENCE: (context) => context.ad?.ad?.sequence,
+  ADCATEGORIES: (context) => joinValues(context.ad?.ad?.inLine?.categories.map(category => category.value)),
+  UNIVERSALADID: (context) => joinValues(
+    context.ad?.creative?.universalAdIds.map(id => `${id.idRegistry} ${id.value}`)
+  ),
+  MEDIAMIME: (context) => {
+    const mediaFile = context.ad?.creative?.linear?.mediaFiles.find(file => file.url === context.ad?.videoUrl);
+    return mediaFile?.type || undefined;
+  },
+  TRANSACTIONID: (context) => context.transactionId,
+
+  // Error and verification
+  ERRORCODE: (context) => context.errorCode,
+  REASON: (context) => context.reason,
+
+  // Player and client info
+  PLAYERSIZE: (context) => context.player?.playerSize
+    ? `${context.player.playerSize.width},${context.player.playerSize.height}`
+    : undefined,
+  PLAYERSTATE: (context) => context.player?.playerState ? context.player.playerState.join(',') : undefined,
+  CLIENTUA: () => 'CTV-Simulator/1.0.0',
+  SERVERSIDE: () => 0,
+  DEVICEUA: (context) => context.config?.userAgent,
+  DEVICEIP: (context) => context.config ? consentedDevice(context.config).ip : undefined,
+  LATLONG: (context) => {
+    if (context.config?.geo.lat === undefined || context.config.geo.lon === undefined) return undefined;
+    // COPPA drops lat/lon entirely; a denied transmitPreciseGeo only rounds them
+    const { geo } = consentedDevice(context.config);
+    return geo?.lat !== undefined && geo?.lon !== undefined
+      ? `${geo.lat.toFixed(4)},${geo.lon.toFixed(4)}`
+      : RESTRICTED;
+  },
+  IFA: (context) => {
+    if (context.limitAdTracking || (context.config && !activityAllowed(context.config, 'transmitUfpd'))) return RESTRICTED;
+    return context.ifa;
+  },
+  IFATYPE: (context) => context.ifaType,
+  LIMITADTRACKING: (context) => context.limitAdTracking === undefined ? undefined : context.limitAdTracking ? 1 : 0,
+  APPBUNDLE: (context) => context.appBundle,
+
+  // Regulations
+  REGULATIONS: (context) => {
+    if (!context.config) return undefined;
+    const privacy = buildPrivacySignals(context.config);
+    const regulations = [privacy.gdpr ? 'gdpr' : '', privacy.coppa ? 'coppa' : ''].filter(Boolean);
+    return regulations.length > 0 ? regulations.join(',') : undefined;
+  },
+  GDPRCONSENT: (context) => context.config?.gdprConsent ? context.config.tcfString : undefined,
+  GPP_STRING: (context) => context.config ? buildPrivacySignals(context.config).gpp : undefined,
+  GPP_SECTION_ID: (context) => context.config ? buildPrivacySignals(context.config).gppSid?.join(',') : undefined
+};
+
+// Macros defined by VAST 4.x that the simulator has no source for yet
+const KNOWN_UNSUPPORTED_MACROS = [
+  'BREAKMAXDURATION',
+  'BREAKMINDURATION',
+  'BREAKMAXADS',
+  'BREAKMINADLENGTH',
+  'BREAKMAXADLENGTH',
+  'BLOCKEDADCATEGORIES',
+  'INVENTORYSTATE',
+  'PLAYBACKMETHODS',
+  'APIFRAMEWORKS',
+  'EXTENSIONS',
+  'VERIFICATIONVENDORS',
+  'OMIDPARTNER',
+  'PLAYERCAPABILITIES',
+  'CONTENTID',
+  'CONTENTURI',
+  'CONTENTURL',
+  'DOMAIN',
+  'PAGEURL',
+  'STOREID',
+  'SERVERUA',
+  'CLICKPOS',
+  'CLICKTYPE',
+  'VASTVERSIONS'
+];
+
+export const SUPPORTED_VAST_MACROS = Object.keys(MACRO_RESOLVERS);
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Expand every [MACRO] in a tracking or error URL
+ */
+export function expandVastMacros(url: string, context: MacroContext = {}): MacroExpansionResult {
+  const result: MacroExpansionResult = {
+    url,
+    filled: [],
+    unfilled: [],
+    restricted: [],
+    unknown: []
+  };
+
+  result.url = url.replace(/\[([A-Z][A-Z0-9_]*)\]/g, (match, name: string) => {
+    const resolver = MACRO_RESOLVERS[name];
+
+    if (!resolver) {
+      if (KNOWN_UNSUPPORTED_MACROS.includes(name)) {
+        addUnique(result.unfilled, name);
+        return '-1';
+      }
+      // Not a VAST macro - leave it for whoever owns it
+      addUnique(result.unknown, name);
+      return match;
+    }
+
+    const value = resolver(context);
+
+    if (value === RESTRICTED) {
+      addUnique(result.restricted, name);
+      return '-2';
+    }
+
+    if (value === undefined || value === '') {
+      addUnique(result.unfilled, name);
+      return '-1';
+    }
+
+    addUnique(result.filled, name);
+    return encodeMacroValue(String(value));
+  });
+
+  return result;
+}
+
+/**
+ * Merge the macro problems of several expansions, or null if there were none
+ */
+export function collectMacroIssues(results: MacroExpansionResult[]): MacroIssues | null {
+  const issues: MacroIssues = { unfilled: [], restricted: [], unknown: [] };
+
+  results.forEach((result) => {
+    result.unfilled.forEach(name => addUnique(issues.unfilled, name));
+    result.restricted.forEach(name => addUnique(issues.restricted, name));
+    result.unknown.forEach(name => addUnique(issues.unknown, name));
+  });
+
+  const hasIssues = issues.unfilled.length > 0 || issues.restricted.length > 0 || issues.unknown.length > 0;
+  return hasIssues ? issues : null;
+}
+
+/**
+ * Format seconds as the VAST playhead format HH:MM:SS.mmm
+ */
+export function formatPlayhead(seconds: number | undefined): string | undefined {
+  if (seconds === undefined || isNaN(seconds) || seconds < 0) {
+    return undefined;
+  }
+
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(secs, 2)}.${pad(ms, 3)}`;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+// ISO 8601 with milliseconds and offset, e.g. 2016-01-17T08:15:07.127-05:00
+function formatTimestamp(date: Date): string {
+  const clock = wallClock(date);
+  const offsetMinutes = Math.round((clock.getTime() - date.getTime()) / 60000);
+  const sign = offsetMinutes >= 0 ? '+' : '-';
+  const absOffset = Math.abs(offsetMinutes);
+
+  return `${clock.getUTCFullYear()}-${pad(clock.getUTCMonth() + 1, 2)}-${pad(clock.getUTCDate(), 2)}` +
+    `T${pad(clock.getUTCHours(), 2)}:${pad(clock.getUTCMinutes(), 2)}:${pad(clock.getUTCSeconds(), 2)}` +
+    `.${pad(clock.getUTCMilliseconds(), 3)}${sign}${pad(Math.floor(absOffset / 60), 2)}:${pad(absOffset % 60, 2)}`;
+}
+
+// RFC 3986 percent-encoding; encodeURIComponent leaves !'()* untouched
+function activityAllowed(config: CTVConfig, activity: PrivacyActivity): boolean {
+  return evaluateActivities(config).some(decision => decision.activity === activity && decision.allowed);
+}
+
+// IP and geo as consent enforcement leaves them in outgoing bid requests
+function consentedDevice(config: CTVConfig): { ip?: string; geo?: CTVConfig['geo'] } {
+  return enforceConsent({ device: { ip: config.ip, geo: { ...config.geo } } }, config).request.device;
+}
+
+function encodeMacroValue(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function joinValues(values: string[] | undefined): string | undefined {
+  return values && values.length > 0 ? values.join(',') : undefined;
+}
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, '0');
+}
+
+function addUnique(list: string[], value: string) {
+  if (!list.includes(value)) list.push(value);
+}
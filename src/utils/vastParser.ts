@@ -1,24 +1,325 @@
+/**
+ * VAST Parser
+ *
+ * Parses VAST 2.0 - 4.3 documents into a typed model of the full IAB schema
+ * and derives the flat VastCreative view the player works with.
+ *
+ * Features:
+ * - Typed VAST 4.x model (MediaFiles, Mezzanine, InteractiveCreativeFile,
+ *   UniversalAdId, AdVerifications, Icons, CompanionAds, NonLinearAds,
+ *   Extensions, Pricing, AdServingId, Category, Expires)
+ * - Wrapper ads with followAdditionalWrappers / allowMultipleAds / fallbackOnNoAd
+ * - VastCreative convenience view linked back to its source ad and creative
+ */
+
+import { expandVastMacros, MacroContext, MacroExpansionResult } from './vastMacros';
+
+// ============================================================================
+// TYPE DEFINITIONS - PLAYER VIEW
+// ============================================================================
+
+export interface VastTrackingEvents {
+  impression: string[];
+  start: string[];
+  complete: string[];
+  firstQuartile: string[];
+  midpoint: string[];
+  thirdQuartile: string[];
+}
+
 export interface VastCreative {
   id: string;
   title: string;
   duration: string;
   videoUrl: string;
+  videoType?: string; // MIME type of the MediaFile behind videoUrl
   clickThroughUrl?: string;
-  trackingEvents: {
-    impression: string[];
-    start: string[];
-    complete: string[];
-    firstQuartile: string[];
-    midpoint: string[];
-    thirdQuartile: string[];
-  };
+  trackingEvents: VastTrackingEvents;
+  errorUrls: string[];
+  wrapperUrls?: string[]; // VASTAdTagURIs followed to reach this creative, outermost first
+  ad?: VastAd; // Full model of the ad this view was derived from
+  creative?: VastCreativeModel; // Full model of the Linear creative this view was derived from
+}
+
+// Non-linear (overlay) counterpart of VastCreative
+export interface VastNonLinearCreative {
+  id: string;
+  title: string;
+  nonLinearAds: VastNonLinearAds;
+  impressionUrls: string[];
+  errorUrls: string[];
+  wrapperUrls?: string[];
+  ad?: VastAd;
+}
+
+export interface VastWrapper {
+  id: string;
+  vastAdTagUri: string;
+  followAdditionalWrappers: boolean;
+  allowMultipleAds: boolean;
+  fallbackOnNoAd: boolean;
+  trackingEvents: VastTrackingEvents;
+  errorUrls: string[];
+  adSystem?: VastAdSystem;
+  adVerifications: VastVerification[];
+  extensions: VastExtension[];
 }
 
 export interface VastResponse {
   version: string;
   ads: VastCreative[];
+  nonLinearAds: VastNonLinearCreative[];
+  wrappers: VastWrapper[];
+  document?: VastDocument;
+}
+
+// ============================================================================
+// TYPE DEFINITIONS - VAST 4.x MODEL
+// ============================================================================
+
+export interface VastDocument {
+  version: string;
+  ads: VastAd[];
+  errorUrls: string[]; // VAST-level <Error>, used for "no ad" responses
+}
+
+export interface VastAd {
+  id: string;
+  sequence?: number;
+  conditionalAd?: boolean;
+  adType?: 'video' | 'audio' | 'hybrid' | string;
+  inLine?: VastInLine;
+  wrapper?: VastWrapper;
+}
+
+export interface VastAdSystem {
+  name: string;
+  version?: string;
+}
+
+export interface VastImpression {
+  id?: string;
+  url: string;
+}
+
+export interface VastCategory {
+  authority?: string;
+  value: string;
+}
+
+export interface VastPricing {
+  model: 'CPM' | 'CPC' | 'CPE' | 'CPV' | string;
+  currency: string;
+  value: number;
+}
+
+export interface VastViewableImpression {
+  id?: string;
+  viewable: string[];
+  notViewable: string[];
+  viewUndetermined: string[];
+}
+
+export interface VastInLine {
+  adSystem: VastAdSystem;
+  adTitle: string;
+  missingFields: string[]; // Required elements absent or empty in the XML; adSystem and adTitle then hold defaults
+  adServingId?: string;
+  description?: string;
+  advertiser?: string;
+  categories: VastCategory[];
+  pricing?: VastPricing;
+  expires?: number; // Seconds the response may be cached
+  survey?: string;
+  impressions: VastImpression[];
+  errorUrls: string[];
+  viewableImpression?: VastViewableImpression;
+  adVerifications: VastVerification[];
+  creatives: VastCreativeModel[];
+  extensions: VastExtension[];
+}
+
+export interface VastTrackingEvent {
+  event: string;
+  url: string;
+  offset?: string; // Only meaningful for event="progress"
+}
+
+export interface VastUniversalAdId {
+  idRegistry: string;
+  value: string;
+}
+
+export interface VastCreativeModel {
+  id?: string;
+  adId?: string;
+  sequence?: number;
+  apiFramework?: string;
+  universalAdIds: VastUniversalAdId[];
+  linear?: VastLinear;
+  companionAds?: VastCompanionAds;
+  nonLinearAds?: VastNonLinearAds;
+  creativeExtensions: VastExtension[];
+}
+
+export interface VastMediaFile {
+  id?: string;
+  url: string;
+  delivery: 'progressive' | 'streaming' | string;
+  type: string;
+  width: number;
+  height: number;
+  codec?: string;
+  bitrate?: number;
+  minBitrate?: number;
+  maxBitrate?: number;
+  scalable?: boolean;
+  maintainAspectRatio?: boolean;
+  fileSize?: number;
+  mediaType?: string;
+  apiFramework?: string;
+}
+
+export interface VastMezzanine {
+  id?: string;
+  url: string;
+  delivery: 'progressive' | 'streaming' | string;
+  type: string;
+  width: number;
+  height: number;
+  codec?: string;
+  fileSize?: number;
+  mediaType?: string;
+}
+
+export interface VastInteractiveCreativeFile {
+  url: string;
+  type?: string;
+  apiFramework?: string;
+  variableDuration?: boolean;
+}
+
+export interface VastClosedCaptionFile {
+  url: string;
+  type?: string;
+  language?: string;
 }
 
+export interface VastClick {
+  id?: string;
+  url: string;
+}
+
+export interface VastLinear {
+  duration: string;
+  skipOffset?: string;
+  adParameters?: string;
+  mediaFiles: VastMediaFile[];
+  mezzanines: VastMezzanine[];
+  interactiveCreativeFiles: VastInteractiveCreativeFile[];
+  closedCaptionFiles: VastClosedCaptionFile[];
+  clickThrough?: string;
+  clickTrackings: VastClick[];
+  customClicks: VastClick[];
+  trackingEvents: VastTrackingEvent[];
+  icons: VastIcon[];
+}
+
+export interface VastResource {
+  kind: 'static' | 'iframe' | 'html';
+  content: string; // URL for static/iframe resources, markup for HTML
+  creativeType?: string;
+}
+
+export interface VastIcon {
+  program?: string;
+  width: number;
+  height: number;
+  xPosition?: string;
+  yPosition?: string;
+  duration?: string;
+  offset?: string;
+  apiFramework?: string;
+  pxratio?: number;
+  resources: VastResource[];
+  clickThrough?: string;
+  clickTrackings: string[];
+  viewTrackings: string[];
+}
+
+export interface VastCompanion {
+  id?: string;
+  width: number;
+  height: number;
+  assetWidth?: number;
+  assetHeight?: number;
+  expandedWidth?: number;
+  expandedHeight?: number;
+  apiFramework?: string;
+  adSlotId?: string;
+  pxratio?: number;
+  renderingMode?: 'default' | 'end-card' | 'concurrent' | string;
+  resources: VastResource[];
+  adParameters?: string;
+  altText?: string;
+  clickThrough?: string;
+  clickTrackings: string[];
+  trackingEvents: VastTrackingEvent[];
+}
+
+export interface VastCompanionAds {
+  required?: 'all' | 'any' | 'none';
+  companions: VastCompanion[];
+}
+
+export interface VastNonLinear {
+  id?: string;
+  width: number;
+  height: number;
+  expandedWidth?: number;
+  expandedHeight?: number;
+  scalable?: boolean;
+  maintainAspectRatio?: boolean;
+  minSuggestedDuration?: string;
+  apiFramework?: string;
+  resources: VastResource[];
+  adParameters?: string;
+  clickThrough?: string;
+  clickTrackings: string[];
+}
+
+export interface VastNonLinearAds {
+  nonLinears: VastNonLinear[];
+  trackingEvents: VastTrackingEvent[];
+}
+
+export interface VastVerification {
+  vendor?: string;
+  javaScriptResources: Array<{ url: string; apiFramework?: string; browserOptional?: boolean }>;
+  executableResources: Array<{ url: string; apiFramework?: string; type?: string }>;
+  trackingEvents: VastTrackingEvent[];
+  verificationParameters?: string;
+}
+
+export interface VastExtension {
+  type?: string;
+  attributes: Record<string, string>;
+  xml: string; // Serialized inner XML, extensions are free-form
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export const createEmptyTrackingEvents = (): VastTrackingEvents => ({
+  impression: [],
+  start: [],
+  complete: [],
+  firstQuartile: [],
+  midpoint: [],
+  thirdQuartile: []
+});
+
 export function parseVastXml(vastXml: string): VastResponse | null {
   try {
     const parser = new DOMParser();
@@ -37,125 +338,28 @@ export function parseVastXml(vastXml: string): VastResponse | null {
       return null;
     }
     
-    const version = vastElement.getAttribute('version') || '4.0';
+    const document = parseVastDocument(vastElement);
     const ads: VastCreative[] = [];
+    const nonLinearAds: VastNonLinearCreative[] = [];
+    const wrappers: VastWrapper[] = [];
     
-    // Parse Ad elements
-    const adElements = xmlDoc.querySelectorAll('Ad');
-    
-    adElements.forEach((adElement) => {
-      const adId = adElement.getAttribute('id') || 'unknown';
-      const inLineElement = adElement.querySelector('InLine');
-      
-      if (!inLineElement) {
-        console.warn('No InLine element found in Ad');
-        return;
+    document.ads.forEach((ad) => {
+      if (ad.inLine) {
+        ads.push(...deriveVastCreatives(ad));
+        nonLinearAds.push(...deriveNonLinearCreatives(ad));
+      } else if (ad.wrapper) {
+        wrappers.push(ad.wrapper);
+      } else {
+        console.warn('No InLine or Wrapper element found in Ad');
       }
-      
-      // Extract ad title
-      const adTitleElement = inLineElement.querySelector('AdTitle');
-      const title = adTitleElement?.textContent || 'Untitled Ad';
-      
-      // Extract creatives
-      const creativeElements = inLineElement.querySelectorAll('Creative');
-      
-      creativeElements.forEach((creativeElement) => {
-        const linearElement = creativeElement.querySelector('Linear');
-        
-        if (!linearElement) {
-          return;
-        }
-        
-        // Extract duration
-        const durationElement = linearElement.querySelector('Duration');
-        const duration = durationElement?.textContent || '00:00:30';
-        
-        // Extract media files
-        const mediaFiles = linearElement.querySelectorAll('MediaFile');
-        let videoUrl = '';
-        
-        // Find the best media file (prefer MP4)
-        for (const mediaFile of mediaFiles) {
-          const type = mediaFile.getAttribute('type');
-          const url = mediaFile.textContent?.trim();
-          
-          if (url && type === 'video/mp4') {
-            videoUrl = url;
-            break;
-          } else if (url && !videoUrl) {
-            videoUrl = url; // Fallback to any video
-          }
-        }
-        
-        if (!videoUrl) {
-          console.warn('No suitable video URL found in MediaFiles');
-          return;
-        }
-        
-        // Extract click-through URL
-        const clickThroughElement = linearElement.querySelector('ClickThrough');
-        const clickThroughUrl = clickThroughElement?.textContent?.trim();
-        
-        // Extract tracking events
-        const trackingEvents = {
-          impression: [] as string[],
-          start: [] as string[],
-          complete: [] as string[],
-          firstQuartile: [] as string[],
-          midpoint: [] as string[],
-          thirdQuartile: [] as string[]
-        };
-        
-        // Impression tracking (from InLine level)
-        const impressionElements = inLineElement.querySelectorAll('Impression');
-        impressionElements.forEach((imp) => {
-          const url = imp.textContent?.trim();
-          if (url) trackingEvents.impression.push(url);
-        });
-        
-        // Video tracking events
-        const trackingEventElements = linearElement.querySelectorAll('TrackingEvents Tracking');
-        trackingEventElements.forEach((tracking) => {
-          const event = tracking.getAttribute('event');
-          const url = tracking.textContent?.trim();
-          
-          if (url && event) {
-            switch (event) {
-              case 'start':
-                trackingEvents.start.push(url);
-                break;
-              case 'complete':
-                trackingEvents.complete.push(url);
-                break;
-              case 'firstQuartile':
-                trackingEvents.firstQuartile.push(url);
-                break;
-              case 'midpoint':
-                trackingEvents.midpoint.push(url);
-                break;
-              case 'thirdQuartile':
-                trackingEvents.thirdQuartile.push(url);
-                break;
-            }
-          }
-        });
-        
-        const creative: VastCreative = {
-          id: adId,
-          title,
-          duration,
-          videoUrl,
-          clickThroughUrl,
-          trackingEvents
-        };
-        
-        ads.push(creative);
-      });
     });
     
     return {
-      version,
-      ads
+      version: document.version,
+      ads,
+      nonLinearAds,
+      wrappers,
+      document
     };
     
   } catch (error) {
@@ -164,20 +368,99 @@ export function parseVastXml(vastXml: string): VastResponse | null {
   }
 }
 
-export function fireTrackingPixel(url: string, eventType: string) {
+/**
+ * Derive the flat player view for every Linear creative of an InLine ad
+ */
+export function deriveVastCreatives(ad: VastAd): VastCreative[] {
+  const inLine = ad.inLine;
+  if (!inLine) {
+    return [];
+  }
+
+  const creatives: VastCreative[] = [];
+
+  inLine.creatives.forEach((creativeModel) => {
+    const linear = creativeModel.linear;
+    if (!linear) {
+      return;
+    }
+
+    // Find the best media file (prefer MP4)
+    const preferred = linear.mediaFiles.find(mediaFile => mediaFile.type === 'video/mp4');
+    const videoUrl = preferred?.url || linear.mediaFiles[0]?.url || '';
+
+    if (!videoUrl) {
+      console.warn('No suitable video URL found in MediaFiles');
+      return;
+    }
+
+    const trackingEvents = createEmptyTrackingEvents();
+    trackingEvents.impression = inLine.impressions.map(impression => impression.url);
+    bucketTrackingEvents(linear.trackingEvents, trackingEvents);
+
+    creatives.push({
+      id: ad.id,
+      title: inLine.adTitle,
+      duration: linear.duration,
+      videoUrl,
+      videoType: preferred?.type || linear.mediaFiles[0]?.type,
+      clickThroughUrl: linear.clickThrough,
+      trackingEvents,
+      errorUrls: [...inLine.errorUrls],
+      ad,
+      creative: creativeModel
+    });
+  });
+
+  return creatives;
+}
+
+/**
+ * Derive overlay views for every NonLinearAds creative of an InLine ad
+ */
+export function deriveNonLinearCreatives(ad: VastAd): VastNonLinearCreative[] {
+  const inLine = ad.inLine;
+  if (!inLine) {
+    return [];
+  }
+
+  return inLine.creatives
+    .filter(creative => creative.nonLinearAds && creative.nonLinearAds.nonLinears.length > 0)
+    .map(creative => ({
+      id: ad.id,
+      title: inLine.adTitle,
+      nonLinearAds: creative.nonLinearAds!,
+      impressionUrls: inLine.impressions.map(impression => impression.url),
+      errorUrls: [...inLine.errorUrls],
+      ad
+    }));
+}
+
+/**
+ * Expand VAST macros in a tracking URL and fire it as an image pixel
+ */
+export function fireTrackingPixel(
+  url: string,
+  eventType: string,
+  context: MacroContext = {}
+): MacroExpansionResult {
+  const expansion = expandVastMacros(url, context);
+
   try {
     // Use image pixel for tracking
     const img = new Image();
     img.onload = () => {
-      console.log(`✅ Tracking fired: ${eventType} - ${url}`);
+      console.log(`✅ Tracking fired: ${eventType} - ${expansion.url}`);
     };
     img.onerror = () => {
-      console.warn(`❌ Tracking failed: ${eventType} - ${url}`);
+      console.warn(`❌ Tracking failed: ${eventType} - ${expansion.url}`);
     };
-    img.src = url;
+    img.src = expansion.url;
   } catch (error) {
     console.error(`Error firing tracking pixel for ${eventType}:`, error);
   }
+
+  return expansion;
 }
 
 export function formatDuration(duration: string): number {
@@ -191,4 +474,445 @@ export function formatDuration(duration: string): number {
     return parts[0]; // SS
   }
   return 30; // Default fallback
-} 
\ No newline at end of file
+}
+
+// ============================================================================
+// MODEL PARSING
+// ============================================================================
+
+function parseVastDocument(vastElement: Element): VastDocument {
+  return {
+    version: vastElement.getAttribute('version') || '4.0',
+    ads: childElements(vastElement, 'Ad').map(parseAd),
+    errorUrls: childTexts(vastElement, 'Error')
+  };
+}
+
+function parseAd(adElement: Element): VastAd {
+  const id = adElement.getAttribute('id') || 'unknown';
+  const inLineElement = childElement(adElement, 'InLine');
+  const wrapperElement = childElement(adElement, 'Wrapper');
+
+  return {
+    id,
+    sequence: readNumberAttribute(adElement, 'sequence'),
+    conditionalAd: readOptionalBooleanAttribute(adElement, 'conditionalAd'),
+    adType: adElement.getAttribute('adType') || undefined,
+    inLine: inLineElement ? parseInLine(inLineElement) : undefined,
+    wrapper: !inLineElement && wrapperElement ? parseWrapper(id, wrapperElement) || undefined : undefined
+  };
+}
+
+function parseInLine(inLineElement: Element): VastInLine {
+  const pricingElement = childElement(inLineElement, 'Pricing');
+  const viewableElement = childElement(inLineElement, 'ViewableImpression');
+  const expires = childText(inLineElement, 'Expires');
+
+  return {
+    adSystem: parseAdSystem(inLineElement) || { name: 'unknown' },
+    adTitle: childText(inLineElement, 'AdTitle') || 'Untitled Ad',
+    missingFields: ['AdSystem', 'AdTitle'].filter(tagName => !childText(inLineElement, tagName)),
+    adServingId: childText(inLineElement, 'AdServingId'),
+    description: childText(inLineElement, 'Description'),
+    advertiser: childText(inLineElement, 'Advertiser'),
+    categories: childElements(inLineElement, 'Category').map(element => ({
+      authority: element.getAttribute('authority') || undefined,
+      value: elementText(element) || ''
+    })),
+    pricing: pricingElement ? {
+      model: pricingElement.getAttribute('model') || 'CPM',
+      currency: pricingElement.getAttribute('currency') || 'USD',
+      value: parseFloat(elementText(pricingElement) || '0') || 0
+    } : undefined,
+    expires: expires !== undefined && !isNaN(parseInt(expires, 10)) ? parseInt(expires, 10) : undefined,
+    survey: childText(inLineElement, 'Survey'),
+    impressions: childElements(inLineElement, 'Impression')
+      .map(element => ({ id: element.getAttribute('id') || undefined, url: elementText(element) || '' }))
+      .filter(impression => impression.url),
+    errorUrls: childTexts(inLineElement, 'Error'),
+    viewableImpression: viewableElement ? {
+      id: viewableElement.getAttribute('id') || undefined,
+      viewable: childTexts(viewableElement, 'Viewable'),
+      notViewable: childTexts(viewableElement, 'NotViewable'),
+      viewUndetermined: childTexts(viewableElement, 'ViewUndetermined')
+    } : undefined,
+    adVerifications: parseAdVerifications(inLineElement),
+    creatives: parseCreatives(inLineElement),
+    extensions: parseExtensions(inLineElement)
+  };
+}
+
+function parseWrapper(adId: string, wrapperElement: Element): VastWrapper | null {
+  const vastAdTagUri = childText(wrapperElement, 'VASTAdTagURI');
+  if (!vastAdTagUri) {
+    console.warn('Wrapper without VASTAdTagURI found in Ad');
+    return null;
+  }
+
+  const trackingEvents = createEmptyTrackingEvents();
+  trackingEvents.impression = childTexts(wrapperElement, 'Impression');
+  parseCreatives(wrapperElement).forEach((creative) => {
+    if (creative.linear) {
+      bucketTrackingEvents(creative.linear.trackingEvents, trackingEvents);
+    }
+  });
+
+  return {
+    id: adId,
+    vastAdTagUri,
+    followAdditionalWrappers: readBooleanAttribute(wrapperElement, 'followAdditionalWrappers', true),
+    allowMultipleAds: readBooleanAttribute(wrapperElement, 'allowMultipleAds', false),
+    fallbackOnNoAd: readBooleanAttribute(wrapperElement, 'fallbackOnNoAd', false),
+    trackingEvents,
+    errorUrls: childTexts(wrapperElement, 'Error'),
+    adSystem: parseAdSystem(wrapperElement),
+    adVerifications: parseAdVerifications(wrapperElement),
+    extensions: parseExtensions(wrapperElement)
+  };
+}
+
+function parseAdSystem(parent: Element): VastAdSystem | undefined {
+  const element = childElement(parent, 'AdSystem');
+  if (!element) return undefined;
+  return {
+    name: elementText(element) || 'unknown',
+    version: element.getAttribute('version') || undefined
+  };
+}
+
+function parseCreatives(parent: Element): VastCreativeModel[] {
+  const creativesElement = childElement(parent, 'Creatives');
+  if (!creativesElement) return [];
+
+  return childElements(creativesElement, 'Creative').map((creativeElement) => {
+    const linearElement = childElement(creativeElement, 'Linear');
+    const companionAdsElement = childElement(creativeElement, 'CompanionAds');
+    const nonLinearAdsElement = childElement(creativeElement, 'NonLinearAds');
+    const creativeExtensionsElement = childElement(creativeElement, 'CreativeExtensions');
+
+    return {
+      id: creativeElement.getAttribute('id') || undefined,
+      adId: creativeElement.getAttribute('adId') || creativeElement.getAttribute('AdID') || undefined,
+      sequence: readNumberAttribute(creativeElement, 'sequence'),
+      apiFramework: creativeElement.getAttribute('apiFramework') || undefined,
+      universalAdIds: childElements(creativeElement, 'UniversalAdId').map(element => ({
+        idRegistry: element.getAttribute('idRegistry') || 'unknown',
+        // VAST 4.0 carried the value in an idValue attribute
+        value: elementText(element) || element.getAttribute('idValue') || 'unknown'
+      })),
+      linear: linearElement ? parseLinear(linearElement) : undefined,
+      companionAds: companionAdsElement ? parseCompanionAds(companionAdsElement) : undefined,
+      nonLinearAds: nonLinearAdsElement ? parseNonLinearAds(nonLinearAdsElement) : undefined,
+      creativeExtensions: creativeExtensionsElement
+        ? childElements(creativeExtensionsElement, 'CreativeExtension').map(parseExtension)
+        : []
+    };
+  });
+}
+
+function parseLinear(linearElement: Element): VastLinear {
+  const mediaFilesElement = childElement(linearElement, 'MediaFiles');
+  const videoClicksElement = childElement(linearElement, 'VideoClicks');
+  const iconsElement = childElement(linearElement, 'Icons');
+  const closedCaptionsElement = mediaFilesElement && childElement(mediaFilesElement, 'ClosedCaptionFiles');
+
+  return {
+    duration: childText(linearElement, 'Duration') || '', // Empty when the Linear has no <Duration>
+    skipOffset: linearElement.getAttribute('skipoffset') || undefined,
+    adParameters: childText(linearElement, 'AdParameters'),
+    mediaFiles: mediaFilesElement
+      ? childElements(mediaFilesElement, 'MediaFile').map(parseMediaFile).filter(mediaFile => mediaFile.url)
+      : [],
+    mezzanines: mediaFilesElement
+      ? childElements(mediaFilesElement, 'Mezzanine').map(element => ({
+          id: element.getAttribute('id') || undefined,
+          url: elementText(element) || '',
+          delivery: element.getAttribute('delivery') || 'progressive',
+          type: element.getAttribute('type') || '',
+          width: readNumberAttribute(element, 'width') || 0,
+          height: readNumberAttribute(element, 'height') || 0,
+          codec: element.getAttribute('codec') || undefined,
+          fileSize: readNumberAttribute(element, 'fileSize'),
+          mediaType: element.getAttribute('mediaType') || undefined
+        }))
+      : [],
+    interactiveCreativeFiles: mediaFilesElement
+      ? childElements(mediaFilesElement, 'InteractiveCreativeFile').map(element => ({
+          url: elementText(element) || '',
+          type: element.getAttribute('type') || undefined,
+          apiFramework: element.getAttribute('apiFramework') || undefined,
+          variableDuration: readOptionalBooleanAttribute(element, 'variableDuration')
+        }))
+      : [],
+    closedCaptionFiles: closedCaptionsElement
+      ? childElements(closedCaptionsElement, 'ClosedCaptionFile').map(element => ({
+          url: elementText(element) || '',
+          type: element.getAttribute('type') || undefined,
+          language: element.getAttribute('language') || undefined
+        }))
+      : [],
+    clickThrough: videoClicksElement ? childText(videoClicksElement, 'ClickThrough') : undefined,
+    clickTrackings: videoClicksElement ? parseClicks(videoClicksElement, 'ClickTracking') : [],
+    customClicks: videoClicksElement ? parseClicks(videoClicksElement, 'CustomClick') : [],
+    trackingEvents: parseTrackingEvents(linearElement),
+    icons: iconsElement ? childElements(iconsElement, 'Icon').map(parseIcon) : []
+  };
+}
+
+function parseMediaFile(element: Element): VastMediaFile {
+  return {
+    id: element.getAttribute('id') || undefined,
+    url: elementText(element) || '',
+    delivery: element.getAttribute('delivery') || 'progressive',
+    type: element.getAttribute('type') || '',
+    width: readNumberAttribute(element, 'width') || 0,
+    height: readNumberAttribute(element, 'height') || 0,
+    codec: element.getAttribute('codec') || undefined,
+    bitrate: readNumberAttribute(element, 'bitrate'),
+    minBitrate: readNumberAttribute(element, 'minBitrate'),
+    maxBitrate: readNumberAttribute(element, 'maxBitrate'),
+    scalable: readOptionalBooleanAttribute(element, 'scalable'),
+    maintainAspectRatio: readOptionalBooleanAttribute(element, 'maintainAspectRatio'),
+    fileSize: readNumberAttribute(element, 'fileSize'),
+    mediaType: element.getAttribute('mediaType') || undefined,
+    apiFramework: element.getAttribute('apiFramework') || undefined
+  };
+}
+
+function parseIcon(element: Element): VastIcon {
+  const iconClicksElement = childElement(element, 'IconClicks');
+
+  return {
+    program: element.getAttribute('program') || undefined,
+    width: readNumberAttribute(element, 'width') || 0,
+    height: readNumberAttribute(element, 'height') || 0,
+    xPosition: element.getAttribute('xPosition') || undefined,
+    yPosition: element.getAttribute('yPosition') || undefined,
+    duration: element.getAttribute('duration') || undefined,
+    offset: element.getAttribute('offset') || undefined,
+    apiFramework: element.getAttribute('apiFramework') || undefined,
+    pxratio: readNumberAttribute(element, 'pxratio'),
+    resources: parseResources(element),
+    clickThrough: iconClicksElement ? childText(iconClicksElement, 'IconClickThrough') : undefined,
+    clickTrackings: iconClicksElement ? childTexts(iconClicksElement, 'IconClickTracking') : [],
+    viewTrackings: childTexts(element, 'IconViewTracking')
+  };
+}
+
+function parseCompanionAds(element: Element): VastCompanionAds {
+  const required = element.getAttribute('required');
+
+  return {
+    required: required === 'all' || required === 'any' || required === 'none' ? required : undefined,
+    companions: childElements(element, 'Companion').map(companionElement => ({
+      id: companionElement.getAttribute('id') || undefined,
+      width: readNumberAttribute(companionElement, 'width') || 0,
+      height: readNumberAttribute(companionElement, 'height') || 0,
+      assetWidth: readNumberAttribute(companionElement, 'assetWidth'),
+      assetHeight: readNumberAttribute(companionElement, 'assetHeight'),
+      expandedWidth: readNumberAttribute(companionElement, 'expandedWidth'),
+      expandedHeight: readNumberAttribute(companionElement, 'expandedHeight'),
+      apiFramework: companionElement.getAttribute('apiFramework') || undefined,
+      adSlotId: companionElement.getAttribute('adSlotId') || companionElement.getAttribute('adSlotID') || undefined,
+      pxratio: readNumberAttribute(companionElement, 'pxratio'),
+      renderingMode: companionElement.getAttribute('renderingMode') || undefined,
+      resources: parseResources(companionElement),
+      adParameters: childText(companionElement, 'AdParameters'),
+      altText: childText(companionElement, 'AltText'),
+      clickThrough: childText(companionElement, 'CompanionClickThrough'),
+      clickTrackings: childTexts(companionElement, 'CompanionClickTracking'),
+      trackingEvents: parseTrackingEvents(companionElement)
+    }))
+  };
+}
+
+function parseNonLinearAds(element: Element): VastNonLinearAds {
+  return {
+    nonLinears: childElements(element, 'NonLinear').map(nonLinearElement => ({
+      id: nonLinearElement.getAttribute('id') || undefined,
+      width: readNumberAttribute(nonLinearElement, 'width') || 0,
+      height: readNumberAttribute(nonLinearElement, 'height') || 0,
+      expandedWidth: readNumberAttribute(nonLinearElement, 'expandedWidth'),
+      expandedHeight: readNumberAttribute(nonLinearElement, 'expandedHeight'),
+      scalable: readOptionalBooleanAttribute(nonLinearElement, 'scalable'),
+      maintainAspectRatio: readOptionalBooleanAttribute(nonLinearElement, 'maintainAspectRatio'),
+      minSuggestedDuration: nonLinearElement.getAttribute('minSuggestedDuration') || undefined,
+      apiFramework: nonLinearElement.getAttribute('apiFramework') || undefined,
+      resources: parseResources(nonLinearElement),
+      adParameters: childText(nonLinearElement, 'AdParameters'),
+      clickThrough: childText(nonLinearElement, 'NonLinearClickThrough'),
+      clickTrackings: childTexts(nonLinearElement, 'NonLinearClickTracking')
+    })),
+    trackingEvents: parseTrackingEvents(element)
+  };
+}
+
+function parseAdVerifications(parent: Element): VastVerification[] {
+  const verificationsElement = childElement(parent, 'AdVerifications');
+  if (verificationsElement) {
+    return childElements(verificationsElement, 'Verification').map(parseVerification);
+  }
+
+  // VAST 3 placed verification in <Extension type="AdVerifications">
+  const extensionsElement = childElement(parent, 'Extensions');
+  if (!extensionsElement) return [];
+
+  return childElements(extensionsElement, 'Extension')
+    .filter(element => element.getAttribute('type') === 'AdVerifications')
+    .flatMap(element => {
+      const inner = childElement(element, 'AdVerifications');
+      return inner ? childElements(inner, 'Verification').map(parseVerification) : [];
+    });
+}
+
+function parseVerification(element: Element): VastVerification {
+  return {
+    vendor: element.getAttribute('vendor') || undefined,
+    javaScriptResources: childElements(element, 'JavaScriptResource').map(resource => ({
+      url: elementText(resource) || '',
+      apiFramework: resource.getAttribute('apiFramework') || undefined,
+      browserOptional: readOptionalBooleanAttribute(resource, 'browserOptional')
+    })),
+    executableResources: childElements(element, 'ExecutableResource').map(resource => ({
+      url: elementText(resource) || '',
+      apiFramework: resource.getAttribute('apiFramework') || undefined,
+      type: resource.getAttribute('type') || undefined
+    })),
+    trackingEvents: parseTrackingEvents(element),
+    verificationParameters: childText(element, 'VerificationParameters')
+  };
+}
+
+function parseExtensions(parent: Element): VastExtension[] {
+  const extensionsElement = childElement(parent, 'Extensions');
+  return extensionsElement ? childElements(extensionsElement, 'Extension').map(parseExtension) : [];
+}
+
+function parseExtension(element: Element): VastExtension {
+  const attributes: Record<string, string> = {};
+  Array.from(element.attributes).forEach((attribute) => {
+    attributes[attribute.name] = attribute.value;
+  });
+
+  const serializer = new XMLSerializer();
+  const xml = Array.from(element.childNodes)
+    .map(node => serializer.serializeToString(node))
+    .join('')
+    .trim();
+
+  return {
+    type: element.getAttribute('type') || undefined,
+    attributes,
+    xml
+  };
+}
+
+function parseResources(parent: Element): VastResource[] {
+  const resources: VastResource[] = [];
+
+  childElements(parent, 'StaticResource').forEach((element) => {
+    const content = elementText(element);
+    if (content) resources.push({ kind: 'static', content, creativeType: element.getAttribute('creativeType') || undefined });
+  });
+  childElements(parent, 'IFrameResource').forEach((element) => {
+    const content = elementText(element);
+    if (content) resources.push({ kind: 'iframe', content });
+  });
+  childElements(parent, 'HTMLResource').forEach((element) => {
+    const content = elementText(element);
+    if (content) resources.push({ kind: 'html', content });
+  });
+
+  return resources;
+}
+
+function parseTrackingEvents(parent: Element): VastTrackingEvent[] {
+  const trackingEventsElement = childElement(parent, 'TrackingEvents');
+  if (!trackingEventsElement) return [];
+
+  const events: VastTrackingEvent[] = [];
+  childElements(trackingEventsElement, 'Tracking').forEach((element) => {
+    const event = element.getAttribute('event');
+    const url = elementText(element);
+    if (event && url) {
+      events.push({ event, url, offset: element.getAttribute('offset') || undefined });
+    }
+  });
+  return events;
+}
+
+function parseClicks(parent: Element, tagName: string): VastClick[] {
+  return childElements(parent, tagName)
+    .map(element => ({ id: element.getAttribute('id') || undefined, url: elementText(element) || '' }))
+    .filter(click => click.url);
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+// Sort linear tracking events into the buckets the player fires
+function bucketTrackingEvents(events: VastTrackingEvent[], trackingEvents: VastTrackingEvents) {
+  events.forEach(({ event, url }) => {
+    switch (event) {
+      case 'start':
+        trackingEvents.start.push(url);
+        break;
+      case 'complete':
+        trackingEvents.complete.push(url);
+        break;
+      case 'firstQuartile':
+        trackingEvents.firstQuartile.push(url);
+        break;
+      case 'midpoint':
+        trackingEvents.midpoint.push(url);
+        break;
+      case 'thirdQuartile':
+        trackingEvents.thirdQuartile.push(url);
+        break;
+    }
+  });
+}
+
+// Direct children only, so nested TrackingEvents/Impression of Icons or Companions don't leak upwards
+function childElements(parent: Element, tagName: string): Element[] {
+  return Array.from(parent.children).filter(element => element.localName === tagName);
+}
+
+function childElement(parent: Element, tagName: string): Element | undefined {
+  return childElements(parent, tagName)[0];
+}
+
+function elementText(element: Element): string | undefined {
+  const text = element.textContent?.trim();
+  return text ? text : undefined;
+}
+
+function childText(parent: Element, tagName: string): string | undefined {
+  const element = childElement(parent, tagName);
+  return element ? elementText(element) : undefined;
+}
+
+function childTexts(parent: Element, tagName: string): string[] {
+  return childElements(parent, tagName)
+    .map(elementText)
+    .filter((text): text is string => Boolean(text));
+}
+
+// VAST boolean attributes default to the given value when absent
+function readBooleanAttribute(element: Element, name: string, defaultValue: boolean): boolean {
+  const value = element.getAttribute(name);
+  if (value === null) return defaultValue;
+  return value.trim().toLowerCase() === 'true';
+}
+
+function readOptionalBooleanAttribute(element: Element, name: string): boolean | undefined {
+  return element.getAttribute(name) === null ? undefined : readBooleanAttribute(element, name, false);
+}
+
+function readNumberAttribute(element: Element, name: string): number | undefined {
+  const value = element.getAttribute(name);
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
@@ -0,0 +1,301 @@
+/**
+ * VAST Ad Pods
+ *
+ * Turns the flat list of creatives in a VAST response into an ad pod:
+ * ads with a sequence attribute form the pod in sequence order, ads without
+ * one are kept as a buffet of standalone fallbacks. Tracks a pod as it plays
+ * so failed sequenced ads can be replaced and the outcome recorded.
+ *
+ * Features:
+ * - Sequence ordering with duplicate sequence detection
+ * - Pod duration rules (max pod duration, max ads, per-ad duration bounds)
+ * - Exact required durations (rqddurs) and per-slot bounds for structured pods
+ * - Buffet fallback when a sequenced ad fails to play
+ * - Playback outcome summarised as an AdPodResult for pod history
+ */
+
+import { PodSlotSpec, PodSpec } from '../types';
+import { formatDuration, VastCreative } from './vastParser';
+import { AdPodResult } from './dynamicAdPodOptimizer';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface PodDurationRules {
+  maxPodDuration?: number; // Seconds for the whole break
+  maxAds?: number;
+  minAdDuration?: number;
+  maxAdDuration?: number;
+  requiredDurations?: number[]; // The only ad lengths accepted, matched exactly
+  slots?: PodSlotSpec[]; // Structured pods: bounds for the ad filling each position, in order
+}
+
+export interface PodRuleViolation {
+  ad: VastCreative;
+  errorCode: 101 | 202 | 206; // No <Duration> / unexpected duration / break shortened
+  reason: string;
+}
+
+export interface VastPod {
+  sequenced: VastCreative[];
+  buffet: VastCreative[];
+  totalDuration: number; // Seconds of the sequenced ads that fit the rules
+  violations: PodRuleViolation[];
+  rules: PodDurationRules;
+}
+
+export type PodSlotStatus = 'completed' | 'failed';
+
+export interface PodSlotOutcome {
+  position: number; // 1-based position in the break as played
+  ad: VastCreative;
+  sequence?: number;
+  fromBuffet: boolean;
+  status: PodSlotStatus;
+  duration: number;
+  errorCode?: number;
+  reason?: string;
+}
+
+export interface PodPlayback {
+  pod: VastPod;
+  queue: VastCreative[]; // Sequenced ads still to play
+  buffet: VastCreative[]; // Standalone ads not used yet
+  current: { ad: VastCreative; fromBuffet: boolean } | null;
+  slots: PodSlotOutcome[];
+}
+
+export const DEFAULT_POD_RULES: PodDurationRules = {
+  maxPodDuration: 120,
+  maxAds: 6
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Split creatives into an ordered pod and a buffet, enforcing duration rules
+ */
+export function buildVastPod(ads: VastCreative[], rules: PodDurationRules = DEFAULT_POD_RULES): VastPod {
+  const violations: PodRuleViolation[] = [];
+  const withinAdBounds = (ad: VastCreative) => {
+    const reason = checkAdDuration(ad, podAdBounds(rules));
+    if (reason) {
+      violations.push({ ad, errorCode: ad.duration ? 202 : 101, reason });
+      return false;
+    }
+    return true;
+  };
+  // Buffet ads stand in for a failed slot, so in a structured pod they must fit at least one
+  const fitsAnySlot = (ad: VastCreative) => {
+    if (!rules.slots || rules.slots.some(slot => !checkAdDuration(ad, slot))) return true;
+    violations.push({ ad, errorCode: 202, reason: `Ad fits none of the pod's ${rules.slots.length} slots` });
+    return false;
+  };
+
+  const sequencedCandidates = ads
+    .filter(ad => ad.ad?.sequence !== undefined)
+    .sort((a, b) => a.ad!.sequence! - b.ad!.sequence!);
+  const buffet = ads.filter(ad => ad.ad?.sequence === undefined).filter(withinAdBounds).filter(fitsAnySlot);
+
+  const sequenced: VastCreative[] = [];
+  let totalDuration = 0;
+  const seen = new Set<number>();
+
+  sequencedCandidates.forEach((ad) => {
+    const sequence = ad.ad!.sequence!;
+    if (seen.has(sequence)) {
+      // A second ad claiming the same position can still serve as a fallback
+      buffet.push(ad);
+      return;
+    }
+    seen.add(sequence);
+
+    if (!withinAdBounds(ad)) return;
+
+    const duration = formatDuration(ad.duration);
+    if (rules.maxAds !== undefined && sequenced.length >= rules.maxAds) {
+      violations.push({ ad, errorCode: 206, reason: `Pod already holds the maximum of ${rules.maxAds} ads` });
+      return;
+    }
+    const slot = rules.slots?.[sequenced.length];
+    const slotReason = slot && checkAdDuration(ad, slot);
+    if (slotReason) {
+      violations.push({ ad, errorCode: 202, reason: `Slot ${sequenced.length + 1}: ${slotReason}` });
+      return;
+    }
+    if (rules.maxPodDuration !== undefined && totalDuration + duration > rules.maxPodDuration) {
+      violations.push({
+        ad,
+        errorCode: 206,
+        reason: `Ad would take the pod to ${totalDuration + duration}s, over the ${rules.maxPodDuration}s limit`
+      });
+      return;
+    }
+
+    sequenced.push(ad);
+    totalDuration += duration;
+  });
+
+  return { sequenced, buffet, totalDuration, violations, rules };
+}
+
+/**
+ * Duration rules implied by the OpenRTB pod spec the ads were requested with
+ */
+export function podRulesFromSpec(podSpec: PodSpec | undefined): PodDurationRules {
+  if (!podSpec) {
+    return DEFAULT_POD_RULES;
+  }
+
+  if (podSpec.type === 'dynamic') {
+    const durations = podSpec.requiredDurations || [];
+    return {
+      maxPodDuration: podSpec.podDuration ?? DEFAULT_POD_RULES.maxPodDuration,
+      maxAds: podSpec.maxSequence ?? DEFAULT_POD_RULES.maxAds,
+      requiredDurations: durations.length > 0 ? durations : undefined
+    };
+  }
+
+  const slots = podSpec.slots || [];
+  if (slots.length === 0) {
+    return DEFAULT_POD_RULES;
+  }
+  // An empty requiredDurations list means none were set, as in the dynamic branch
+  const slotMax = slots.map(slot => slot.requiredDurations?.length ? Math.max(...slot.requiredDurations) : slot.maxDuration);
+  return {
+    maxPodDuration: slotMax.every(value => value !== undefined)
+      ? slotMax.reduce((sum: number, value) => sum + value!, 0)
+      : DEFAULT_POD_RULES.maxPodDuration,
+    maxAds: slots.length,
+    slots
+  };
+}
+
+/**
+ * Start playing a pod. Responses without sequenced ads play their first buffet ad as a standalone.
+ */
+export function createPodPlayback(pod: VastPod): PodPlayback {
+  const standalone = pod.sequenced.length === 0;
+  return {
+    pod,
+    queue: standalone ? pod.buffet.slice(0, 1) : [...pod.sequenced],
+    buffet: standalone ? pod.buffet.slice(1) : [...pod.buffet],
+    current: null,
+    slots: []
+  };
+}
+
+/**
+ * Take the next ad to play. After a failure a buffet ad that fits the failed ad's slot takes its place.
+ */
+export function takeNextPodAd(
+  playback: PodPlayback,
+  afterFailure: boolean
+): { ad: VastCreative; fromBuffet: boolean } | null {
+  const { pod } = playback;
+  const failedSlot = pod.sequenced.length > 0 ? pod.rules.slots?.[pod.sequenced.length - playback.queue.length - 1] : undefined;
+  const buffetIndex = failedSlot ? playback.buffet.findIndex(ad => !checkAdDuration(ad, failedSlot)) : 0;
+
+  const next = afterFailure && buffetIndex >= 0 && playback.buffet.length > 0
+    ? { ad: playback.buffet.splice(buffetIndex, 1)[0], fromBuffet: true }
+    : playback.queue.length > 0
+      ? { ad: playback.queue.shift()!, fromBuffet: false }
+      : null;
+
+  playback.current = next;
+  return next;
+}
+
+/**
+ * Record how the current ad ended
+ */
+export function recordPodSlot(
+  playback: PodPlayback,
+  ad: VastCreative,
+  status: PodSlotStatus,
+  details: { errorCode?: number; reason?: string } = {}
+) {
+  playback.slots.push({
+    position: playback.slots.length + 1,
+    ad,
+    sequence: ad.ad?.sequence,
+    fromBuffet: playback.current?.ad === ad ? playback.current.fromBuffet : false,
+    status,
+    duration: status === 'completed' ? formatDuration(ad.duration) : 0,
+    ...details
+  });
+  playback.current = null;
+}
+
+/**
+ * Summarise a finished pod in the shape pod history uses
+ */
+export function summarizePodPlayback(playback: PodPlayback): AdPodResult {
+  const completed = playback.slots.filter(slot => slot.status === 'completed');
+  const attempted = Math.max(playback.pod.sequenced.length, 1);
+
+  return {
+    source: 'vast-pod',
+    slotsAttempted: attempted,
+    slotsFilled: completed.length,
+    totalRevenue: completed.reduce((sum, slot) => sum + getPricingCpm(slot.ad) / 1000, 0),
+    totalDuration: completed.reduce((sum, slot) => sum + slot.duration, 0),
+    completionRate: completed.length / attempted,
+    winningBids: completed.map(slot => ({
+      slot: slot.position,
+      source: slot.ad.ad?.inLine?.adSystem.name || 'VAST',
+      cpm: getPricingCpm(slot.ad),
+      vastUrl: slot.ad.videoUrl,
+      duration: slot.duration,
+      advertiserDomain: slot.ad.ad?.inLine?.advertiser,
+      category: slot.ad.ad?.inLine?.categories[0]?.value
+    })),
+    failedSlots: playback.slots
+      .filter(slot => slot.status === 'failed')
+      .map(slot => ({
+        slot: slot.position,
+        reason: slot.reason || (slot.errorCode ? `VAST ${slot.errorCode}` : 'Ad failed to play'),
+        attemptedSources: [slot.ad.id]
+      }))
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function checkAdDuration(ad: VastCreative, bounds: PodSlotSpec): string | null {
+  if (!ad.duration) {
+    return 'Ad has no <Duration>, so its length in the pod is unknown';
+  }
+  const duration = formatDuration(ad.duration);
+  // An empty requiredDurations list means none were set
+  if (bounds.requiredDurations?.length && !bounds.requiredDurations.includes(duration)) {
+    return `Ad is ${duration}s, not one of the required ${bounds.requiredDurations.join('/')}s durations`;
+  }
+  if (bounds.minDuration !== undefined && duration < bounds.minDuration) {
+    return `Ad is ${duration}s, shorter than the ${bounds.minDuration}s minimum`;
+  }
+  if (bounds.maxDuration !== undefined && duration > bounds.maxDuration) {
+    return `Ad is ${duration}s, longer than the ${bounds.maxDuration}s maximum`;
+  }
+  return null;
+}
+
+// Bounds every ad in the pod must meet, whatever slot it fills
+function podAdBounds(rules: PodDurationRules): PodSlotSpec {
+  return {
+    minDuration: rules.minAdDuration,
+    maxDuration: rules.maxAdDuration,
+    requiredDurations: rules.requiredDurations
+  };
+}
+
+// <Pricing> is only meaningful as a CPM
+function getPricingCpm(ad: VastCreative): number {
+  const pricing = ad.ad?.inLine?.pricing;
+  return pricing && pricing.model.toLowerCase() === 'cpm' ? pricing.value : 0;
+}
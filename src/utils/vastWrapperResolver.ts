@@ -0,0 +1,442 @@
+/**
+ * VAST Wrapper Chain Resolver
+ *
+ * Follows <Wrapper><VASTAdTagURI> hops until InLine ads are reached and
+ * merges the impression, tracking and error URLs of every wrapper level
+ * into the final creatives, so daisy-chained demand fires all its beacons.
+ *
+ * Features:
+ * - Configurable maximum wrapper depth and per-hop timeout
+ * - Honours followAdditionalWrappers, allowMultipleAds and fallbackOnNoAd
+ * - Reports the full chain (URLs, per-hop latency, depth) for debugging
+ * - Classifies failed hops with IAB VAST error codes and the Error URLs to fire
+ */
+
+import {
+  parseVastXml,
+  createEmptyTrackingEvents,
+  VastCreative,
+  VastNonLinearCreative,
+  VastResponse,
+  VastTrackingEvents,
+  VastWrapper
+} from './vastParser';
+import { createVastError, VastErrorEvent } from './vastErrors';
+import { now } from './simulation';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface WrapperResolutionOptions {
+  maxDepth?: number;
+  timeout?: number;
+  fetchVast?: (url: string, timeout: number) => Promise<string>;
+}
+
+export interface WrapperHop {
+  depth: number;
+  url: string;
+  parentUrl: string | null;
+  latency: number;
+  status: 'inline' | 'wrapper' | 'empty' | 'error' | 'skipped';
+  adCount: number;
+  wrapperCount: number;
+  error?: string;
+  errorCode?: number;
+  xml?: string; // The document this hop returned; absent when nothing was fetched
+}
+
+export interface WrapperChain {
+  hops: WrapperHop[];
+  urls: string[];
+  maxDepthReached: number;
+  totalLatency: number;
+  errors: VastErrorEvent[];
+}
+
+export interface ResolvedVast {
+  response: VastResponse | null;
+  chain: WrapperChain;
+}
+
+// Linear and overlay ads a wrapper hop resolved to
+interface ResolvedAds {
+  ads: VastCreative[];
+  nonLinearAds: VastNonLinearCreative[];
+}
+
+// Wrapper inheritance carried down from outer levels
+interface InheritedWrapper {
+  urls: string[];
+  trackingEvents: VastTrackingEvents;
+  errorUrls: string[];
+}
+
+// IAB recommends players follow at least 5 wrapper hops
+const DEFAULT_MAX_DEPTH = 5;
+const DEFAULT_HOP_TIMEOUT = 5000;
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Fetch a VAST tag and resolve every wrapper it leads to
+ */
+export async function resolveVastTag(
+  url: string,
+  options: WrapperResolutionOptions = {}
+): Promise<ResolvedVast> {
+  const chain = createChain();
+  const fetchVast = options.fetchVast || defaultFetchVast;
+  const timeout = options.timeout || DEFAULT_HOP_TIMEOUT;
+  const startTime = now();
+
+  try {
+    const vastXml = await fetchVast(url, timeout);
+    const latency = now() - startTime;
+    const response = await resolveDocument(vastXml, url, null, 0, emptyInheritance(), options, chain, latency);
+    return finalizeChain(response, chain);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    chain.hops.push({
+      depth: 0,
+      url,
+      parentUrl: null,
+      latency: now() - startTime,
+      status: 'error',
+      adCount: 0,
+      wrapperCount: 0,
+      error: message,
+      errorCode: 900
+    });
+    // No wrapper was involved yet, so 301/303 don't apply to the tag request itself
+    chain.errors.push(createVastError(900, 'wrapper', `VAST request failed: ${message}`, [], url));
+    return finalizeChain(null, chain);
+  }
+}
+
+/**
+ * Resolve wrappers contained in an already retrieved VAST document
+ */
+export async function resolveVastXml(
+  vastXml: string,
+  options: WrapperResolutionOptions = {}
+): Promise<ResolvedVast> {
+  const chain = createChain();
+  const response = await resolveDocument(vastXml, 'inline-document', null, 0, emptyInheritance(), options, chain, 0);
+  return finalizeChain(response, chain);
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+async function resolveDocument(
+  vastXml: string,
+  url: string,
+  parentUrl: string | null,
+  depth: number,
+  inherited: InheritedWrapper,
+  options: WrapperResolutionOptions,
+  chain: WrapperChain,
+  latency: number
+): Promise<VastResponse | null> {
+  const parsed = parseVastXml(vastXml);
+
+  if (!parsed) {
+    chain.hops.push({
+      depth,
+      url,
+      parentUrl,
+      latency,
+      status: 'error',
+      adCount: 0,
+      wrapperCount: 0,
+      error: 'VAST XML could not be parsed',
+      errorCode: 100,
+      xml: vastXml
+    });
+    chain.errors.push(createVastError(100, 'parsing', 'VAST XML could not be parsed', [...inherited.errorUrls], url));
+    return null;
+  }
+
+  const isEmpty = parsed.wrappers.length === 0 && parsed.ads.length === 0 && parsed.nonLinearAds.length === 0;
+
+  chain.hops.push({
+    depth,
+    url,
+    parentUrl,
+    latency,
+    status: parsed.wrappers.length > 0 ? 'wrapper' : isEmpty ? 'empty' : 'inline',
+    adCount: parsed.ads.length,
+    wrapperCount: parsed.wrappers.length,
+    errorCode: isEmpty ? 303 : undefined,
+    xml: vastXml
+  });
+
+  recordDocumentErrors(parsed, url, inherited, chain);
+
+  const ads: VastCreative[] = parsed.ads.map(ad => mergeInheritance(ad, inherited));
+  const nonLinearAds = parsed.nonLinearAds.map(ad => mergeNonLinearInheritance(ad, inherited));
+
+  for (const wrapper of parsed.wrappers) {
+    const child = await resolveWrapper(wrapper, url, depth + 1, inherited, options, chain);
+
+    if (child.ads.length > 0 || child.nonLinearAds.length > 0) {
+      ads.push(...child.ads);
+      nonLinearAds.push(...child.nonLinearAds);
+    } else if (!wrapper.fallbackOnNoAd) {
+      // Without fallbackOnNoAd the remaining wrappers in this response are abandoned
+      break;
+    }
+  }
+
+  return {
+    version: parsed.version,
+    ads,
+    nonLinearAds,
+    wrappers: [],
+    document: parsed.document
+  };
+}
+
+async function resolveWrapper(
+  wrapper: VastWrapper,
+  parentUrl: string,
+  depth: number,
+  inherited: InheritedWrapper,
+  options: WrapperResolutionOptions,
+  chain: WrapperChain
+): Promise<ResolvedAds> {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const fetchVast = options.fetchVast || defaultFetchVast;
+  const timeout = options.timeout || DEFAULT_HOP_TIMEOUT;
+
+  const nextInheritance: InheritedWrapper = {
+    urls: [...inherited.urls, wrapper.vastAdTagUri],
+    trackingEvents: mergeTrackingEvents(inherited.trackingEvents, wrapper.trackingEvents),
+    errorUrls: [...inherited.errorUrls, ...wrapper.errorUrls]
+  };
+
+  if (depth > maxDepth) {
+    const message = `Wrapper limit of ${maxDepth} reached`;
+    chain.hops.push({
+      depth,
+      url: wrapper.vastAdTagUri,
+      parentUrl,
+      latency: 0,
+      status: 'skipped',
+      adCount: 0,
+      wrapperCount: 0,
+      error: message,
+      errorCode: 302
+    });
+    chain.errors.push(createVastError(302, 'wrapper', message, nextInheritance.errorUrls, wrapper.vastAdTagUri));
+    return { ads: [], nonLinearAds: [] };
+  }
+
+  const startTime = now();
+  let vastXml: string;
+
+  try {
+    vastXml = await fetchVast(wrapper.vastAdTagUri, timeout);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    chain.hops.push({
+      depth,
+      url: wrapper.vastAdTagUri,
+      parentUrl,
+      latency: now() - startTime,
+      status: 'error',
+      adCount: 0,
+      wrapperCount: 0,
+      error: message,
+      errorCode: 301
+    });
+    chain.errors.push(createVastError(301, 'wrapper', message, nextInheritance.errorUrls, wrapper.vastAdTagUri));
+    return { ads: [], nonLinearAds: [] };
+  }
+
+  const latency = now() - startTime;
+
+  if (!wrapper.followAdditionalWrappers) {
+    // The child may only answer with InLine ads; further wrappers are dropped
+    const parsed = parseVastXml(vastXml);
+    const hasAds = Boolean(parsed && (parsed.ads.length > 0 || parsed.nonLinearAds.length > 0));
+    const errorCode = !parsed ? 100 : !hasAds ? 303 : undefined;
+    chain.hops.push({
+      depth,
+      url: wrapper.vastAdTagUri,
+      parentUrl,
+      latency,
+      status: hasAds ? 'inline' : parsed ? 'empty' : 'error',
+      adCount: parsed?.ads.length || 0,
+      wrapperCount: parsed?.wrappers.length || 0,
+      error: parsed && parsed.wrappers.length > 0
+        ? 'followAdditionalWrappers="false" - nested wrappers ignored'
+        : undefined,
+      errorCode,
+      xml: vastXml
+    });
+    if (!parsed) {
+      chain.errors.push(createVastError(100, 'parsing', 'VAST XML could not be parsed', nextInheritance.errorUrls, wrapper.vastAdTagUri));
+    } else {
+      recordDocumentErrors({ ...parsed, wrappers: [] }, wrapper.vastAdTagUri, nextInheritance, chain);
+    }
+    return applyMultipleAdsRule(wrapper, {
+      ads: (parsed?.ads || []).map(ad => mergeInheritance(ad, nextInheritance)),
+      nonLinearAds: (parsed?.nonLinearAds || []).map(ad => mergeNonLinearInheritance(ad, nextInheritance))
+    });
+  }
+
+  const resolved = await resolveDocument(
+    vastXml,
+    wrapper.vastAdTagUri,
+    parentUrl,
+    depth,
+    nextInheritance,
+    options,
+    chain,
+    latency
+  );
+
+  return applyMultipleAdsRule(wrapper, {
+    ads: resolved?.ads || [],
+    nonLinearAds: resolved?.nonLinearAds || []
+  });
+}
+
+// allowMultipleAds="false" means only the first ad of a returned pod is usable
+function applyMultipleAdsRule(wrapper: VastWrapper, resolved: ResolvedAds): ResolvedAds {
+  if (!wrapper.allowMultipleAds) {
+    return {
+      ads: resolved.ads.slice(0, 1),
+      nonLinearAds: resolved.nonLinearAds.slice(0, 1)
+    };
+  }
+  return resolved;
+}
+
+// Empty responses (303) and InLine ads without a usable MediaFile (403)
+function recordDocumentErrors(
+  parsed: VastResponse,
+  url: string,
+  inherited: InheritedWrapper,
+  chain: WrapperChain
+) {
+  const unplayableAds = (parsed.document?.ads || [])
+    .filter(ad => ad.inLine?.creatives.some(creative => creative.linear))
+    .filter(ad => !parsed.ads.some(creative => creative.ad === ad));
+
+  unplayableAds.forEach((ad) => {
+    chain.errors.push(createVastError(
+      403,
+      'media-selection',
+      `No playable MediaFile in ad ${ad.id}`,
+      [...inherited.errorUrls, ...(ad.inLine?.errorUrls || [])],
+      url
+    ));
+  });
+
+  const hasAds = parsed.ads.length > 0 || parsed.nonLinearAds.length > 0 || parsed.wrappers.length > 0;
+  if (!hasAds && unplayableAds.length === 0) {
+    chain.errors.push(createVastError(
+      303,
+      'wrapper',
+      inherited.urls.length > 0 ? 'No ad returned after following wrappers' : 'VAST response contains no ads',
+      [...inherited.errorUrls, ...(parsed.document?.errorUrls || [])],
+      url
+    ));
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+async function defaultFetchVast(url: string, timeout: number): Promise<string> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`VAST request failed: ${response.status} ${response.statusText}`);
+    }
+    return await response.text();
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw new Error(`VAST request timed out after ${timeout}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function mergeInheritance(ad: VastCreative, inherited: InheritedWrapper): VastCreative {
+  if (inherited.urls.length === 0) {
+    return ad;
+  }
+
+  return {
+    ...ad,
+    trackingEvents: mergeTrackingEvents(inherited.trackingEvents, ad.trackingEvents),
+    errorUrls: [...inherited.errorUrls, ...ad.errorUrls],
+    wrapperUrls: [...inherited.urls]
+  };
+}
+
+function mergeNonLinearInheritance(ad: VastNonLinearCreative, inherited: InheritedWrapper): VastNonLinearCreative {
+  if (inherited.urls.length === 0) {
+    return ad;
+  }
+
+  return {
+    ...ad,
+    impressionUrls: [...inherited.trackingEvents.impression, ...ad.impressionUrls],
+    errorUrls: [...inherited.errorUrls, ...ad.errorUrls],
+    wrapperUrls: [...inherited.urls]
+  };
+}
+
+function mergeTrackingEvents(
+  outer: VastTrackingEvents,
+  inner: VastTrackingEvents
+): VastTrackingEvents {
+  return {
+    impression: [...outer.impression, ...inner.impression],
+    start: [...outer.start, ...inner.start],
+    complete: [...outer.complete, ...inner.complete],
+    firstQuartile: [...outer.firstQuartile, ...inner.firstQuartile],
+    midpoint: [...outer.midpoint, ...inner.midpoint],
+    thirdQuartile: [...outer.thirdQuartile, ...inner.thirdQuartile]
+  };
+}
+
+function emptyInheritance(): InheritedWrapper {
+  return {
+    urls: [],
+    trackingEvents: createEmptyTrackingEvents(),
+    errorUrls: []
+  };
+}
+
+function createChain(): WrapperChain {
+  return {
+    hops: [],
+    urls: [],
+    maxDepthReached: 0,
+    totalLatency: 0,
+    errors: []
+  };
+}
+
+function finalizeChain(response: VastResponse | null, chain: WrapperChain): ResolvedVast {
+  chain.urls = chain.hops.map(hop => hop.url);
+  chain.maxDepthReached = chain.hops.reduce((max, hop) => Math.max(max, hop.depth), 0);
+  chain.totalLatency = chain.hops.reduce((sum, hop) => sum + hop.latency, 0);
+  return { response, chain };
+}
@@ -0,0 +1,295 @@
+/**
+ * VMAP 1.0 Parser and Break Scheduler
+ *
+ * Parses IAB VMAP playlists into typed ad breaks and turns them into a
+ * concrete schedule against the content duration.
+ *
+ * Features:
+ * - timeOffset in start / end / percentage / HH:MM:SS(.mmm) / #n position form
+ * - breakType, repeatAfter and breakId
+ * - AdSource as inline VASTAdData, AdTagURI or CustomAdData
+ * - Break tracking (breakStart / breakEnd / error)
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type VmapTimeOffset =
+  | { kind: 'start' }
+  | { kind: 'end' }
+  | { kind: 'time'; seconds: number }
+  | { kind: 'percent'; percent: number }
+  | { kind: 'position'; position: number };
+
+export type VmapBreakType = 'linear' | 'nonlinear' | 'display';
+
+export interface VmapAdSource {
+  id?: string;
+  allowMultipleAds: boolean;
+  followRedirects: boolean;
+  kind: 'vastAdData' | 'adTagUri' | 'customAdData';
+  templateType?: string; // vast1 / vast2 / vast3 / vast4 / proprietary
+  uri?: string; // AdTagURI
+  vastXml?: string; // Serialized inline VAST document
+  data?: string; // Raw CustomAdData
+}
+
+export interface VmapTrackingEvent {
+  event: 'breakStart' | 'breakEnd' | 'error' | string;
+  url: string;
+}
+
+export interface VmapAdBreak {
+  breakId?: string;
+  timeOffset: VmapTimeOffset;
+  rawTimeOffset: string;
+  breakType: VmapBreakType[];
+  repeatAfter?: number; // Seconds between repetitions of this break
+  adSource?: VmapAdSource;
+  trackingEvents: VmapTrackingEvent[];
+}
+
+export interface VmapDocument {
+  version: string;
+  adBreaks: VmapAdBreak[];
+}
+
+export interface ScheduledAdBreak {
+  id: string;
+  time: number; // Content time in seconds at which the break fires
+  position: 'preroll' | 'midroll' | 'postroll';
+  occurrence: number; // 0 for the original break, n for the nth repeatAfter repetition
+  adBreak: VmapAdBreak;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export function parseVmapXml(vmapXml: string): VmapDocument | null {
+  try {
+    const parser = new DOMParser();
+    const xmlDoc = parser.parseFromString(vmapXml, 'text/xml');
+
+    const parseError = xmlDoc.getElementsByTagName('parsererror')[0];
+    if (parseError) {
+      console.error('VMAP XML parsing error:', parseError.textContent);
+      return null;
+    }
+
+    const vmapElement = xmlDoc.documentElement;
+    if (!vmapElement || vmapElement.localName !== 'VMAP') {
+      console.error('No VMAP element found');
+      return null;
+    }
+
+    const adBreaks: VmapAdBreak[] = [];
+
+    childElements(vmapElement, 'AdBreak').forEach((breakElement) => {
+      const rawTimeOffset = breakElement.getAttribute('timeOffset') || '';
+      const timeOffset = parseTimeOffset(rawTimeOffset);
+
+      if (!timeOffset) {
+        console.warn(`Skipping VMAP AdBreak with invalid timeOffset "${rawTimeOffset}"`);
+        return;
+      }
+
+      const repeatAfter = breakElement.getAttribute('repeatAfter');
+      const adSourceElement = childElement(breakElement, 'AdSource');
+      const trackingElement = childElement(breakElement, 'TrackingEvents');
+
+      adBreaks.push({
+        breakId: breakElement.getAttribute('breakId') || undefined,
+        timeOffset,
+        rawTimeOffset,
+        breakType: parseBreakType(breakElement.getAttribute('breakType')),
+        repeatAfter: repeatAfter ? parseClockTime(repeatAfter) ?? undefined : undefined,
+        adSource: adSourceElement ? parseAdSource(adSourceElement) : undefined,
+        trackingEvents: trackingElement
+          ? childElements(trackingElement, 'Tracking')
+              .map(element => ({
+                event: element.getAttribute('event') || '',
+                url: element.textContent?.trim() || ''
+              }))
+              .filter(tracking => tracking.event && tracking.url)
+          : []
+      });
+    });
+
+    return {
+      version: vmapElement.getAttribute('version') || '1.0',
+      adBreaks
+    };
+  } catch (error) {
+    console.error('Error parsing VMAP XML:', error);
+    return null;
+  }
+}
+
+/**
+ * Parse a VMAP timeOffset value
+ */
+export function parseTimeOffset(value: string): VmapTimeOffset | null {
+  const trimmed = value.trim();
+
+  if (trimmed === 'start') return { kind: 'start' };
+  if (trimmed === 'end') return { kind: 'end' };
+
+  if (trimmed.startsWith('#')) {
+    const position = parseInt(trimmed.slice(1), 10);
+    return position > 0 ? { kind: 'position', position } : null;
+  }
+
+  if (trimmed.endsWith('%')) {
+    const percent = parseFloat(trimmed.slice(0, -1));
+    return !isNaN(percent) && percent >= 0 && percent <= 100 ? { kind: 'percent', percent } : null;
+  }
+
+  const seconds = parseClockTime(trimmed);
+  return seconds !== null ? { kind: 'time', seconds } : null;
+}
+
+/**
+ * Resolve a timeOffset to content seconds. Position offsets (#n) refer to the
+ * nth cue point of the content and stay unresolved without cue points.
+ */
+export function resolveBreakTime(
+  offset: VmapTimeOffset,
+  contentDuration: number,
+  cuePoints: number[] = []
+): number | null {
+  switch (offset.kind) {
+    case 'start':
+      return 0;
+    case 'end':
+      return contentDuration;
+    case 'time':
+      return offset.seconds;
+    case 'percent':
+      return (contentDuration * offset.percent) / 100;
+    case 'position':
+      return cuePoints[offset.position - 1] ?? null;
+  }
+}
+
+/**
+ * Expand VMAP breaks (including repeatAfter repetitions) into a time-ordered schedule
+ */
+export function scheduleVmapBreaks(
+  document: VmapDocument,
+  contentDuration: number,
+  cuePoints: number[] = []
+): ScheduledAdBreak[] {
+  const schedule: ScheduledAdBreak[] = [];
+
+  document.adBreaks.forEach((adBreak, index) => {
+    const time = resolveBreakTime(adBreak.timeOffset, contentDuration, cuePoints);
+    if (time === null || time > contentDuration) {
+      return;
+    }
+
+    const baseId = adBreak.breakId || `break-${index + 1}`;
+    schedule.push(createScheduledBreak(baseId, time, 0, adBreak, contentDuration));
+
+    // repeatAfter only makes sense for breaks inside the content
+    if (adBreak.repeatAfter && adBreak.repeatAfter > 0 && adBreak.timeOffset.kind !== 'end') {
+      let occurrence = 1;
+      for (let next = time + adBreak.repeatAfter; next < contentDuration; next += adBreak.repeatAfter) {
+        schedule.push(createScheduledBreak(`${baseId}-r${occurrence}`, next, occurrence, adBreak, contentDuration));
+        occurrence++;
+      }
+    }
+  });
+
+  return schedule.sort((a, b) => a.time - b.time);
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function createScheduledBreak(
+  id: string,
+  time: number,
+  occurrence: number,
+  adBreak: VmapAdBreak,
+  contentDuration: number
+): ScheduledAdBreak {
+  return {
+    id,
+    time,
+    position: time <= 0 ? 'preroll' : time >= contentDuration ? 'postroll' : 'midroll',
+    occurrence,
+    adBreak
+  };
+}
+
+function parseAdSource(element: Element): VmapAdSource {
+  const base = {
+    id: element.getAttribute('id') || undefined,
+    allowMultipleAds: readBooleanAttribute(element, 'allowMultipleAds', true),
+    followRedirects: readBooleanAttribute(element, 'followRedirects', true)
+  };
+
+  const vastDataElement = childElement(element, 'VASTAdData') || childElement(element, 'VASTData');
+  if (vastDataElement) {
+    const vastElement = Array.from(vastDataElement.children).find(child => child.localName === 'VAST');
+    return {
+      ...base,
+      kind: 'vastAdData',
+      templateType: 'vast',
+      vastXml: vastElement ? new XMLSerializer().serializeToString(vastElement) : undefined
+    };
+  }
+
+  const adTagElement = childElement(element, 'AdTagURI');
+  if (adTagElement) {
+    return {
+      ...base,
+      kind: 'adTagUri',
+      templateType: adTagElement.getAttribute('templateType') || undefined,
+      uri: adTagElement.textContent?.trim() || undefined
+    };
+  }
+
+  const customElement = childElement(element, 'CustomAdData');
+  return {
+    ...base,
+    kind: 'customAdData',
+    templateType: customElement?.getAttribute('templateType') || undefined,
+    data: customElement?.textContent?.trim() || undefined
+  };
+}
+
+function parseBreakType(value: string | null): VmapBreakType[] {
+  const types = (value || 'linear')
+    .split(',')
+    .map(type => type.trim().toLowerCase())
+    .filter((type): type is VmapBreakType => type === 'linear' || type === 'nonlinear' || type === 'display');
+  return types.length > 0 ? types : ['linear'];
+}
+
+// HH:MM:SS or HH:MM:SS.mmm to seconds
+function parseClockTime(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2}):(\d{2})(\.\d{1,3})?$/);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10) +
+    (fraction ? parseFloat(fraction) : 0);
+}
+
+// VMAP elements are namespaced (vmap:AdBreak), so match on localName
+function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(element => element.localName === localName);
+}
+
+function childElement(parent: Element, localName: string): Element | undefined {
+  return childElements(parent, localName)[0];
+}
+
+function readBooleanAttribute(element: Element, name: string, defaultValue: boolean): boolean {
+  const value = element.getAttribute(name);
+  if (value === null) return defaultValue;
+  return value.trim().toLowerCase() === 'true';
+}
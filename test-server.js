@@ -3,6 +3,11 @@ import fs from 'fs';
 import path from 'path';
 import url from 'url';
 import { fileURLToPath } from 'url';
+import { buildAddressableSeatbids } from './api/addressability.js';
+import { bidAsMockBidder, describeFleet, runMockPrebidAuction, toBidRequest } from './api/mock-bidder.js';
+import { getMockBidder } from './config/mock-bidders.js';
+import { currentDate, now, random, randomId, randomInt, randomUuid, sleep } from './config/simulation.js';
+import { bindSimulation, runWithSimulation } from './api/simulation-context.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -123,15 +128,15 @@ const CTV_PROVIDERS = {
 
 // Helper functions
 function generateRequestId() {
-  return 'adx_' + Math.random().toString(36).substr(2, 9) + '_' + Date.now();
+  return 'adx_' + randomId(9) + '_' + now();
 }
 
 function generateSessionId() {
-  return 'sess_' + Math.random().toString(36).substr(2, 9) + '_' + Date.now();
+  return 'sess_' + randomId(9) + '_' + now();
 }
 
 function generatePALNonce() {
-  return 'pal_' + Math.random().toString(36).substr(2, 9) + '_' + Date.now();
+  return 'pal_' + randomId(9) + '_' + now();
 }
 
 function createMockAdXResponse(request, config) {
@@ -171,16 +176,16 @@ function createMockAdXResponse(request, config) {
       bid: [{
         id: generateRequestId(),
         impid: '1',
-        price: Math.random() * 10 + 1,
+        price: random() * 10 + 1,
         adm: mockVastXml,
         crid: `adx_creative_${generateRequestId()}`,
         w: 1920,
         h: 1080,
         ext: {
           google: {
-            line_item_id: Math.floor(Math.random() * 1000000),
-            creative_id: Math.floor(Math.random() * 1000000),
-            advertiser_id: Math.floor(Math.random() * 100000)
+            line_item_id: randomInt(1000000),
+            creative_id: randomInt(1000000),
+            advertiser_id: randomInt(100000)
           }
         }
       }],
@@ -189,7 +194,7 @@ function createMockAdXResponse(request, config) {
     ads: [{
       requestId: request.id || generateRequestId(),
       adUnitCode: config.adUnitPath,
-      cpm: Math.random() * 10 + 1,
+      cpm: random() * 10 + 1,
       currency: 'USD',
       width: 1920,
       height: 1080,
@@ -257,14 +262,19 @@ const mockOpenRTBResponse = {
   cur: "GBP"
 };
 
-const server = http.createServer((req, res) => {
+// Prebid Cache stand-in: uuid -> { value, expiresAt }
+const vastCache = new Map();
+const DEFAULT_CACHE_TTL_SECONDS = 300;
+
+// Requests carrying simulation headers run inside that seeded session
+const server = http.createServer((req, res) => runWithSimulation(req, () => {
   const parsedUrl = url.parse(req.url, true);
   const pathname = parsedUrl.pathname;
   
   // Enable CORS
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, User-Agent, X-Forwarded-For, Accept');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, User-Agent, X-Forwarded-For, Accept, X-Simulation-Seed, X-Simulation-Time');
   
   if (req.method === 'OPTIONS') {
     res.writeHead(200);
@@ -272,15 +282,84 @@ const server = http.createServer((req, res) => {
     return;
   }
   
-  console.log(`${new Date().toISOString()} - ${req.method} ${pathname}`);
+  console.log(`${currentDate().toISOString()} - ${req.method} ${pathname}`);
   console.log('Headers:', req.headers);
   
+  // VAST fixtures (wrapper chains, empty responses)
+  if (pathname.startsWith('/vast/fixtures/')) {
+    const fixtureName = path.basename(pathname);
+    const fixturePath = path.join(__dirname, 'public', 'vast-fixtures', fixtureName);
+    
+    if (fixtureName.endsWith('.xml') && fs.existsSync(fixturePath)) {
+      res.setHeader('Content-Type', 'application/xml');
+      res.writeHead(200);
+      res.end(fs.readFileSync(fixturePath, 'utf8'));
+    } else {
+      res.writeHead(404);
+      res.end('VAST fixture not found');
+    }
+    
   // Mock VAST endpoint
-  if (pathname === '/vast' || pathname.includes('vast')) {
+  } else if (pathname === '/vmap') {
+    const vmapPath = path.join(__dirname, 'public', 'sample-vmap.xml');
+    
+    if (fs.existsSync(vmapPath)) {
+      res.setHeader('Content-Type', 'application/xml');
+      res.writeHead(200);
+      res.end(fs.readFileSync(vmapPath, 'utf8'));
+    } else {
+      res.writeHead(404);
+      res.end('VMAP file not found');
+    }
+    
+  // Prebid Cache compatible VAST store: POST { puts: [{ type, value, ttlseconds }] }, GET ?uuid=
+  } else if (pathname === '/cache') {
+    if (req.method === 'POST') {
+      let body = '';
+      req.on('data', chunk => {
+        body += chunk.toString();
+      });
+      
+      req.on('end', bindSimulation(() => {
+        res.setHeader('Content-Type', 'application/json');
+        try {
+          const { puts } = JSON.parse(body);
+          if (!Array.isArray(puts)) throw new Error('puts must be an array');
+          
+          const responses = puts.map(put => {
+            const uuid = put.key || randomUuid();
+            const ttl = put.ttlseconds || DEFAULT_CACHE_TTL_SECONDS;
+            vastCache.set(uuid, { type: put.type, value: put.value, expiresAt: now() + ttl * 1000 });
+            return { uuid };
+          });
+          console.log(`Cached ${responses.length} VAST document(s)`);
+          
+          res.writeHead(200);
+          res.end(JSON.stringify({ responses }));
+        } catch (error) {
+          res.writeHead(400);
+          res.end(JSON.stringify({ error: error.message }));
+        }
+      }));
+    } else {
+      const entry = vastCache.get(parsedUrl.query.uuid);
+      if (!entry || entry.expiresAt < now()) {
+        vastCache.delete(parsedUrl.query.uuid);
+        res.writeHead(404);
+        res.end('Cache entry not found or expired');
+        return;
+      }
+      
+      res.setHeader('Content-Type', entry.type === 'xml' ? 'application/xml' : 'application/json');
+      res.writeHead(200);
+      res.end(typeof entry.value === 'string' ? entry.value : JSON.stringify(entry.value));
+    }
+    
+  } else if (pathname === '/vast' || pathname.includes('vast')) {
     res.setHeader('Content-Type', 'application/xml');
     
     // Simulate some response time
-    setTimeout(() => {
+    sleep(random() * 500 + 100).then(() => { // 100-600ms delay
       const vastPath = path.join(__dirname, 'public', 'sample-vast.xml');
       if (fs.existsSync(vastPath)) {
         const vastContent = fs.readFileSync(vastPath, 'utf8');
@@ -290,7 +369,7 @@ const server = http.createServer((req, res) => {
         res.writeHead(404);
         res.end('VAST file not found');
       }
-    }, Math.random() * 500 + 100); // 100-600ms delay
+    });
     
   // Google AdX + PAL API endpoints
   } else if (pathname.startsWith('/api/adx/')) {
@@ -307,7 +386,7 @@ const server = http.createServer((req, res) => {
           body += chunk.toString();
         });
         
-        req.on('end', () => {
+        req.on('end', bindSimulation(() => {
           try {
             const palRequest = JSON.parse(body);
             console.log('PAL nonce request:', JSON.stringify(palRequest, null, 2));
@@ -315,7 +394,7 @@ const server = http.createServer((req, res) => {
             const palResponse = {
               nonce: generatePALNonce(),
               adSessionId: generateSessionId(),
-              timestamp: new Date().toISOString(),
+              timestamp: currentDate().toISOString(),
               expiresIn: 3600,
               playerConfig: palRequest
             };
@@ -328,7 +407,7 @@ const server = http.createServer((req, res) => {
             res.writeHead(400);
             res.end(JSON.stringify({ error: 'Invalid JSON' }));
           }
-        });
+        }));
         
       } else if (palPath === 'verify') {
         // PAL verification
@@ -337,7 +416,7 @@ const server = http.createServer((req, res) => {
           body += chunk.toString();
         });
         
-        req.on('end', () => {
+        req.on('end', bindSimulation(() => {
           try {
             const verifyRequest = JSON.parse(body);
             console.log('PAL verify request:', JSON.stringify(verifyRequest, null, 2));
@@ -351,7 +430,7 @@ const server = http.createServer((req, res) => {
                 'timing',
                 'network'
               ],
-              timestamp: new Date().toISOString()
+              timestamp: currentDate().toISOString()
             };
             
             res.setHeader('Content-Type', 'application/json');
@@ -362,7 +441,7 @@ const server = http.createServer((req, res) => {
             res.writeHead(400);
             res.end(JSON.stringify({ error: 'Invalid JSON' }));
           }
-        });
+        }));
         
       } else {
         res.writeHead(404);
@@ -376,7 +455,7 @@ const server = http.createServer((req, res) => {
         body += chunk.toString();
       });
       
-      req.on('end', () => {
+      req.on('end', bindSimulation(() => {
         try {
           const { adxConfig, adRequest, ctvProvider } = JSON.parse(body);
           console.log('AdX request received:');
@@ -390,7 +469,7 @@ const server = http.createServer((req, res) => {
           console.log('- Provider Details:', JSON.stringify(provider, null, 2));
           
           // Simulate response time
-          setTimeout(() => {
+          sleep(random() * 800 + 200).then(() => {
             const response = createMockAdXResponse(adRequest, adxConfig);
             
             // Add PAL verification if enabled
@@ -412,7 +491,7 @@ const server = http.createServer((req, res) => {
               if (adxConfig.adUnitPath.includes('failarmy')) {
                 response.ads[0].meta.brandName = 'FailArmy';
                 response.ads[0].meta.advertiserDomains = ['failarmy.com'];
-                response.ads[0].cpm = Math.random() * 5 + 2; // Higher CPM for real inventory
+                response.ads[0].cpm = random() * 5 + 2; // Higher CPM for real inventory
               }
             }
             
@@ -421,14 +500,14 @@ const server = http.createServer((req, res) => {
             res.setHeader('Content-Type', 'application/json');
             res.writeHead(200);
             res.end(JSON.stringify(response));
-          }, Math.random() * 800 + 200);
+          });
           
         } catch (error) {
           console.error('Error processing AdX request:', error);
           res.writeHead(400);
           res.end(JSON.stringify({ error: 'Invalid JSON' }));
         }
-      });
+      }));
       
     } else if (subPath === 'providers') {
       // Get CTV providers
@@ -459,7 +538,7 @@ const server = http.createServer((req, res) => {
         status: 'healthy',
         service: 'Google AdX with PAL SDK',
         providers: Object.keys(CTV_PROVIDERS),
-        timestamp: new Date().toISOString()
+        timestamp: currentDate().toISOString()
       }));
       
     } else {
@@ -478,7 +557,7 @@ const server = http.createServer((req, res) => {
         body += chunk.toString();
       });
       
-      req.on('end', () => {
+      req.on('end', bindSimulation(() => {
         try {
           const streamRequest = JSON.parse(body);
           console.log('DAI stream request:', JSON.stringify(streamRequest, null, 2));
@@ -513,7 +592,7 @@ const server = http.createServer((req, res) => {
           res.writeHead(400);
           res.end(JSON.stringify({ error: 'Invalid JSON' }));
         }
-      });
+      }));
       
     } else if (subPath === 'stitch') {
       // Manifest stitching endpoint
@@ -557,7 +636,7 @@ const server = http.createServer((req, res) => {
       const trackingEvent = {
         type: trackingType,
         id: trackingId,
-        timestamp: new Date().toISOString(),
+        timestamp: currentDate().toISOString(),
         userAgent: req.headers['user-agent'],
         ip: req.connection.remoteAddress,
         referer: req.headers.referer
@@ -587,7 +666,7 @@ const server = http.createServer((req, res) => {
             name: 'Production API Key',
             type: 'api',
             status: 'active',
-            createdAt: new Date().toISOString(),
+            createdAt: currentDate().toISOString(),
             description: 'Main production API key for DAI'
           },
           {
@@ -595,7 +674,7 @@ const server = http.createServer((req, res) => {
             name: 'HMAC Test Key',
             type: 'hmac',
             status: 'active',
-            createdAt: new Date().toISOString(),
+            createdAt: currentDate().toISOString(),
             description: 'HMAC key for testing authentication'
           }
         ];
@@ -611,7 +690,7 @@ const server = http.createServer((req, res) => {
           body += chunk.toString();
         });
         
-        req.on('end', () => {
+        req.on('end', bindSimulation(() => {
           try {
             const keyRequest = JSON.parse(body);
             const newKey = {
@@ -620,7 +699,7 @@ const server = http.createServer((req, res) => {
               type: keyRequest.type,
               key: keyRequest.type === 'api' ? generateAPIKey() : generateHMACKey(),
               status: 'active',
-              createdAt: new Date().toISOString(),
+              createdAt: currentDate().toISOString(),
               description: keyRequest.description
             };
             
@@ -635,7 +714,7 @@ const server = http.createServer((req, res) => {
             res.writeHead(400);
             res.end(JSON.stringify({ error: 'Invalid JSON' }));
           }
-        });
+        }));
       }
       
     } else if (subPath === 'health') {
@@ -653,7 +732,7 @@ const server = http.createServer((req, res) => {
           'ad_break_detection',
           'tracking_beacons'
         ],
-        timestamp: new Date().toISOString()
+        timestamp: currentDate().toISOString()
       }));
       
     } else {
@@ -661,6 +740,54 @@ const server = http.createServer((req, res) => {
       res.end(JSON.stringify({ error: 'DAI endpoint not found' }));
     }
     
+  // Mock bidder fleet (config/mock-bidders.js)
+  } else if (pathname === '/bidders') {
+    res.setHeader('Content-Type', 'application/json');
+    res.writeHead(200);
+    res.end(JSON.stringify({ bidders: describeFleet(`http://localhost:${PORT}`) }, null, 2));
+    
+  // Impression pixel the fleet's creatives fire
+  } else if (/^\/bidders\/[^/]+\/impression$/.test(pathname)) {
+    console.log(`👁️  ${pathname.split('/')[2]} impression: ${parsedUrl.query.crid || 'unknown creative'}`);
+    const pixel = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+    res.setHeader('Content-Type', 'image/gif');
+    res.setHeader('Content-Length', pixel.length);
+    res.writeHead(200);
+    res.end(pixel);
+    
+  // One fleet bidder's OpenRTB endpoint
+  } else if (/^\/bidders\/[^/]+\/openrtb2$/.test(pathname)) {
+    const bidder = getMockBidder(pathname.split('/')[2]);
+    if (!bidder) {
+      res.setHeader('Content-Type', 'application/json');
+      res.writeHead(404);
+      res.end(JSON.stringify({ error: `Unknown bidder ${pathname.split('/')[2]}`, bidders: describeFleet(`http://localhost:${PORT}`).map(entry => entry.id) }));
+      return;
+    }
+    
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk.toString();
+    });
+    
+    req.on('end', bindSimulation(() => {
+      res.setHeader('Content-Type', 'application/json');
+      let outcome;
+      try {
+        outcome = bidAsMockBidder(bidder, toBidRequest(JSON.parse(body)));
+      } catch (error) {
+        res.writeHead(400);
+        res.end(JSON.stringify({ error: error.message }));
+        return;
+      }
+      
+      console.log(`🎲 ${bidder.name}: HTTP ${outcome.status} after ${outcome.latency}ms`);
+      sleep(outcome.latency).then(() => {
+        res.writeHead(outcome.status);
+        res.end(outcome.body);
+      });
+    }));
+    
   // Mock OpenRTB endpoint (including Prebid Server)
   } else if (pathname === '/openrtb' || pathname.includes('openrtb') || pathname.includes('auction')) {
     let body = '';
@@ -668,43 +795,56 @@ const server = http.createServer((req, res) => {
       body += chunk.toString();
     });
     
-    req.on('end', () => {
+    req.on('end', bindSimulation(() => {
       try {
         const bidRequest = JSON.parse(body);
         console.log('OpenRTB Request:', JSON.stringify(bidRequest, null, 2));
         
         res.setHeader('Content-Type', 'application/json');
         
+        // Prebid Server requests fan out to the mock bidder fleet
+        if ((bidRequest.imp || []).some(imp => imp.ext?.prebid?.bidder)) {
+          const auction = runMockPrebidAuction(bidRequest, mockOpenRTBResponse.seatbid[0].bid[0], mockOpenRTBResponse.seatbid[0].seat);
+          sleep(auction.latency).then(() => {
+            res.writeHead(200);
+            res.end(JSON.stringify(auction.response));
+          });
+          return;
+        }
+        
         // Simulate response time
-        setTimeout(() => {
+        sleep(random() * 800 + 200).then(() => { // 200-1000ms delay
           // Sometimes return no bid (10% chance)
-          if (Math.random() < 0.1) {
+          if (random() < 0.1) {
             res.writeHead(204);
             res.end();
             return;
           }
           
           // Sometimes return error (5% chance)
-          if (Math.random() < 0.05) {
+          if (random() < 0.05) {
             res.writeHead(500);
             res.end(JSON.stringify({ error: "Internal server error" }));
             return;
           }
           
-          // Update response with request ID
-          mockOpenRTBResponse.id = bidRequest.id;
-          mockOpenRTBResponse.seatbid[0].bid[0].impid = bidRequest.imp[0].id;
+          // Echo the request ID and price each seat on the identifiers it can see
+          const response = {
+            ...mockOpenRTBResponse,
+            id: bidRequest.id,
+            seatbid: buildAddressableSeatbids(bidRequest, mockOpenRTBResponse.seatbid[0].bid[0], mockOpenRTBResponse.seatbid[0].seat)
+          };
           
           res.writeHead(200);
-          res.end(JSON.stringify(mockOpenRTBResponse));
-        }, Math.random() * 800 + 200); // 200-1000ms delay
+          res.end(JSON.stringify(response));
+        });
         
       } catch (error) {
         console.error('Error parsing OpenRTB request:', error);
         res.writeHead(400);
         res.end(JSON.stringify({ error: "Invalid JSON" }));
       }
-    });
+    }));
     
   // Mock timeout endpoint (for testing)
   } else if (pathname === '/timeout') {
@@ -722,10 +862,14 @@ const server = http.createServer((req, res) => {
     res.writeHead(200);
     res.end(JSON.stringify({ 
       status: 'ok', 
-      timestamp: new Date().toISOString(),
+      timestamp: currentDate().toISOString(),
       endpoints: {
         vast: 'http://localhost:8081/vast',
+        vastWrapper: 'http://localhost:8081/vast/fixtures/wrapper-1.xml',
+        vmap: 'http://localhost:8081/vmap',
+        cache: 'http://localhost:8081/cache',
         openrtb: 'http://localhost:8081/openrtb',
+        bidders: 'http://localhost:8081/bidders',
         timeout: 'http://localhost:8081/timeout',
         error: 'http://localhost:8081/error',
         adx: {
@@ -742,14 +886,18 @@ const server = http.createServer((req, res) => {
     res.writeHead(404);
     res.end('Not Found');
   }
-});
+}));
 
 server.listen(PORT, () => {
   console.log(`🚀 CTV Simulator Test Server running on http://localhost:${PORT}`);
   console.log('Available endpoints:');
   console.log(`  VAST: http://localhost:${PORT}/vast`);
+  console.log(`  VAST Wrapper Chain: http://localhost:${PORT}/vast/fixtures/wrapper-1.xml`);
+  console.log(`  VMAP Playlist: http://localhost:${PORT}/vmap`);
   console.log(`  OpenRTB: http://localhost:${PORT}/openrtb`);
   console.log(`  Prebid Server: http://localhost:${PORT}/openrtb2/auction`);
+  console.log(`  Prebid Cache: http://localhost:${PORT}/cache`);
+  console.log(`  Mock Bidders: http://localhost:${PORT}/bidders (each at /bidders/<id>/openrtb2)`);
   console.log(`  Health: http://localhost:${PORT}/health`);
   console.log(`  Timeout Test: http://localhost:${PORT}/timeout`);
   console.log(`  Error Test: http://localhost:${PORT}/error`);
@@ -1020,7 +1168,7 @@ function generateAPIKey() {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
   let key = '';
   for (let i = 0; i < 64; i++) {
-    key += chars.charAt(Math.floor(Math.random() * chars.length));
+    key += chars.charAt(randomInt(chars.length));
   }
   return key;
 }
@@ -1030,7 +1178,7 @@ function generateHMACKey() {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
   let key = '';
   for (let i = 0; i < 32; i++) {
-    key += chars.charAt(Math.floor(Math.random() * chars.length));
+    key += chars.charAt(randomInt(chars.length));
   }
   return key;
 } 
\ No newline at end of file